@@ -141,6 +141,59 @@ describe('/api/analyze-image', () => {
       ]);
     });
 
+    it('should return portion estimates and cooking methods with the ingredients', async () => {
+      mockCreate.mockResolvedValueOnce(
+        mockOpenRouterResponse(
+          JSON.stringify({
+            mealSummary: 'rice bowl',
+            ingredients: [
+              { name: 'Rice', isOrganic: false, quantity: '1.5', unit: 'cups' },
+              {
+                name: 'salmon',
+                isOrganic: false,
+                quantity: 120,
+                unit: 'g',
+                cookingMethod: 'Pan-Fried',
+              },
+              { name: 'rice', isOrganic: false, quantity: 50, unit: 'g' }, // Duplicate
+              {
+                name: 'soy sauce',
+                isOrganic: false,
+                quantity: 0,
+                unit: 'ml',
+                cookingMethod: 'marinated',
+              },
+            ],
+          })
+        )
+      );
+
+      // Its own client, so the other cases keep their share of the rate limit
+      const request = createMockRequest('/api/analyze-image', {
+        method: 'POST',
+        body: {
+          image: createTestImageDataUrl('valid'),
+        },
+        headers: { 'x-forwarded-for': '203.0.113.16' },
+      });
+
+      const response = await POST(request);
+      apiAssertions.expectSuccess(response);
+
+      const data = await response.json();
+      expect(data.ingredients).toEqual([
+        { name: 'rice', isOrganic: false, quantity: 1.5, unit: 'cup' },
+        {
+          name: 'salmon',
+          isOrganic: false,
+          quantity: 120,
+          unit: 'g',
+          cookingMethod: 'fried',
+        },
+        { name: 'soy sauce', isOrganic: false }, // Unusable estimates dropped
+      ]);
+    });
+
     it('should handle markdown-wrapped JSON responses', async () => {
       // Some AI models wrap JSON in markdown code blocks
       mockCreate.mockResolvedValueOnce(
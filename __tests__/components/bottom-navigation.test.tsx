@@ -34,6 +34,24 @@ jest.mock('@/lib/hooks', () => ({
   useFoodStatsForDate: jest.fn(),
   useEntriesForDate: jest.fn(),
   useTrackingStreak: jest.fn(),
+  useEntrySummary: jest.fn(() => ({ data: undefined })),
+  useEntriesInRange: jest.fn(() => ({ data: undefined })),
+  useRecentEntries: jest.fn(() => ({ data: undefined })),
+  revalidateEntries: jest.fn(),
+  useBodyCompassScores: jest.fn(() => ({ today: null })),
+  useActiveProtocol: jest.fn(() => ({ data: null })),
+  useIsAdmin: jest.fn(() => ({ data: false })),
+  useZoneOverrides: jest.fn(() => ({ data: [] })),
+  useCustomSymptoms: jest.fn(() => ({ data: [] })),
+  useRecipes: jest.fn(() => ({ data: [] })),
+  useOutboxSync: jest.fn(),
+  useFailedOutboxEntries: jest.fn(() => ({
+    entries: [],
+    retry: jest.fn(),
+    discard: jest.fn(),
+  })),
+  useUserSettings: jest.fn(() => ({ data: undefined })),
+  useDayBoundary: jest.fn(() => ({ timeZone: 'UTC', startHour: 0 })),
 }));
 
 // Mock the mobile hook to test mobile navigation
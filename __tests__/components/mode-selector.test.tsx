@@ -92,16 +92,16 @@ describe('ModeSelector', () => {
       expect(cancelButton).toHaveClass('bg-destructive/10', 'text-destructive');
     });
 
-    it('should disable barcode and label buttons', () => {
+    it('should enable barcode and label buttons', () => {
       render(<ModeSelector {...defaultProps} />);
 
       const barcodeButton = screen.getByRole('button', { name: /barcode/i });
       const labelButton = screen.getByRole('button', { name: /label/i });
 
-      expect(barcodeButton).toBeDisabled();
-      expect(labelButton).toBeDisabled();
-      expect(barcodeButton).toHaveClass('opacity-40', 'cursor-not-allowed');
-      expect(labelButton).toHaveClass('opacity-40', 'cursor-not-allowed');
+      expect(barcodeButton).toBeEnabled();
+      expect(labelButton).toBeEnabled();
+      expect(barcodeButton).not.toHaveClass('opacity-40', 'cursor-not-allowed');
+      expect(labelButton).not.toHaveClass('opacity-40', 'cursor-not-allowed');
     });
 
     it('should disable all buttons when isSubmitting is true', () => {
@@ -166,14 +166,35 @@ describe('ModeSelector', () => {
       expect(mockOnModeChange).not.toHaveBeenCalled();
     });
 
-    it('should not call onModeChange when clicking disabled buttons', async () => {
+    it('should call onModeChange when clicking barcode button', async () => {
       const user = userEvent.setup();
       render(<ModeSelector {...defaultProps} />);
 
       const barcodeButton = screen.getByRole('button', { name: /barcode/i });
       await user.click(barcodeButton);
 
+      expect(mockOnModeChange).toHaveBeenCalledWith('barcode');
+    });
+
+    it('should call onModeChange when clicking label button', async () => {
+      const user = userEvent.setup();
+      render(<ModeSelector {...defaultProps} />);
+
+      const labelButton = screen.getByRole('button', { name: /label/i });
+      await user.click(labelButton);
+
+      expect(mockOnModeChange).toHaveBeenCalledWith('label');
+    });
+
+    it('should not call onModeChange when clicking disabled submit button', async () => {
+      const user = userEvent.setup();
+      render(<ModeSelector {...defaultProps} hasImages={false} />);
+
+      const submitButton = screen.getByRole('button', { name: /done/i });
+      await user.click(submitButton);
+
       expect(mockOnModeChange).not.toHaveBeenCalled();
+      expect(mockOnSubmit).not.toHaveBeenCalled();
     });
 
     it('should not call callbacks when isSubmitting is true', async () => {
@@ -245,9 +266,11 @@ describe('ModeSelector', () => {
 
       const barcodeButton = screen.getByRole('button', { name: /barcode/i });
       const labelButton = screen.getByRole('button', { name: /label/i });
+      const submitButton = screen.getByRole('button', { name: /done/i });
 
-      expect(barcodeButton).toHaveAttribute('disabled');
-      expect(labelButton).toHaveAttribute('disabled');
+      expect(barcodeButton).not.toHaveAttribute('disabled');
+      expect(labelButton).not.toHaveAttribute('disabled');
+      expect(submitButton).toHaveAttribute('disabled');
     });
   });
 });
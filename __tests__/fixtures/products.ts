@@ -0,0 +1,22 @@
+import type { ProductInfo } from '@/lib/products/catalog';
+
+// Local catalog stand-in for barcode lookups (valid GS1 check digits)
+export const mockProducts: Array<Omit<ProductInfo, 'source'>> = [
+  {
+    barcode: '4006381333931',
+    name: 'Oat Crackers',
+    brand: 'Hearty Mill',
+    ingredients: ['whole grain oats', 'sunflower oil', 'sea salt'],
+  },
+  {
+    barcode: '036000291452', // UPC-A, stored without the leading zero
+    name: 'Tomato Soup',
+    ingredients: ['tomatoes', 'water', 'sugar', 'salt'],
+  },
+  {
+    barcode: '96385074', // EAN-8
+    name: 'Dark Chocolate',
+    brand: 'Cocoa Co',
+    ingredients: ['cocoa mass', 'cane sugar', 'cocoa butter'],
+  },
+];
@@ -15,6 +15,10 @@ describe('Basic CRUD Operations', () => {
     mockSupabaseClient.auth.getUser.mockResolvedValue({
       data: { user: { id: 'test-user-id' } },
     });
+    mockSupabaseClient.auth.getSession.mockResolvedValue({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
   });
 
   it('should complete a basic food tracking journey', async () => {
@@ -27,6 +31,13 @@ describe('Basic CRUD Operations', () => {
       ],
     };
 
+    // Mock personal zone overrides (none pinned)
+    mockSupabaseClient.from.mockReturnValueOnce({
+      select: jest.fn().mockReturnValue({
+        order: jest.fn().mockResolvedValue({ data: [], error: null }),
+      }),
+    });
+
     // Mock successful food creation
     mockSupabaseClient.from.mockReturnValueOnce({
       insert: jest.fn().mockReturnValue({
@@ -46,11 +57,19 @@ describe('Basic CRUD Operations', () => {
     // Mock successful food retrieval
     mockSupabaseClient.from.mockReturnValueOnce({
       select: jest.fn().mockReturnValue({
-        order: jest.fn().mockResolvedValue({
-          data: [
-            { id: foodId, ...foodData, timestamp: new Date().toISOString() },
-          ],
-          error: null,
+        order: jest.fn().mockReturnValue({
+          order: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue({
+              data: [
+                {
+                  id: foodId,
+                  ...foodData,
+                  timestamp: new Date().toISOString(),
+                },
+              ],
+              error: null,
+            }),
+          }),
         }),
       }),
     });
@@ -8,6 +8,7 @@
  */
 
 import * as dbModule from '@/lib/db';
+import { getDayRange, getTodayKey } from '@/lib/utils/day-buckets';
 import { mockSupabaseClient } from '../setup/jest.setup';
 
 describe('Database Operations', () => {
@@ -18,6 +19,10 @@ describe('Database Operations', () => {
     mockSupabaseClient.auth.getUser.mockResolvedValue({
       data: { user: { id: 'test-user-id' } },
     });
+    mockSupabaseClient.auth.getSession.mockResolvedValue({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
   });
 
   it('should add food with user context', async () => {
@@ -67,25 +72,27 @@ describe('Database Operations', () => {
       },
     ];
 
-    const mockSelect = jest.fn().mockReturnValue({
-      gte: jest.fn().mockReturnValue({
-        lte: jest.fn().mockReturnValue({
-          order: jest.fn().mockResolvedValue({
-            data: mockFoods,
-            error: null,
-          }),
-        }),
+    const mockLt = jest.fn().mockReturnValue({
+      order: jest.fn().mockResolvedValue({
+        data: mockFoods,
+        error: null,
       }),
     });
+    const mockGte = jest.fn().mockReturnValue({ lt: mockLt });
+    const mockSelect = jest.fn().mockReturnValue({ gte: mockGte });
 
     mockSupabaseClient.from.mockReturnValue({
       select: mockSelect,
     });
 
-    const result = await dbModule.getTodaysFoods();
+    const boundary = { timeZone: 'America/Los_Angeles', startHour: 0 };
+    const result = await dbModule.getTodaysFoods(boundary);
+    const today = getDayRange(getTodayKey(boundary), boundary);
 
     expect(mockSupabaseClient.from).toHaveBeenCalledWith('foods');
     expect(mockSelect).toHaveBeenCalledWith('*');
+    expect(mockGte).toHaveBeenCalledWith('timestamp', today.start);
+    expect(mockLt).toHaveBeenCalledWith('timestamp', today.end);
     expect(result).toEqual(mockFoods);
   });
 
@@ -94,9 +101,13 @@ describe('Database Operations', () => {
 
     mockSupabaseClient.from.mockReturnValue({
       select: jest.fn().mockReturnValue({
-        order: jest.fn().mockResolvedValue({
-          data: null,
-          error: mockError,
+        order: jest.fn().mockReturnValue({
+          order: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue({
+              data: null,
+              error: mockError,
+            }),
+          }),
         }),
       }),
     });
@@ -348,12 +348,41 @@ jest.mock('@/lib/hooks', () => ({
         totalOrganicPercentage: 0,
         isFromToday: true,
       },
-      allFoods: [],
-      allSymptoms: [],
     },
     error: null,
     isLoading: false,
   })),
+  useEntrySummary: jest.fn(() => ({
+    data: { totalFoods: 0, totalSymptoms: 0, daysTracked: 0, currentStreak: 0 },
+    error: undefined,
+    isLoading: false,
+  })),
+  useEntriesInRange: jest.fn(() => ({
+    data: { foods: [], symptoms: [] },
+    error: undefined,
+    isLoading: false,
+  })),
+  useRecentEntries: jest.fn(() => ({
+    data: { foods: [], symptoms: [] },
+    error: undefined,
+    isLoading: false,
+  })),
+  useDayEntries: jest.fn(() => ({
+    data: { foods: [], symptoms: [] },
+    error: undefined,
+    isLoading: false,
+  })),
+  revalidateEntries: jest.fn(() => Promise.resolve([])),
+  useBodyCompassScores: jest.fn(() => ({
+    today: null,
+    comparison: undefined,
+    isLoading: false,
+  })),
+  useScoreTrend: jest.fn(() => ({
+    data: [],
+    error: undefined,
+    isLoading: false,
+  })),
   useFoodsForDate: jest.fn(() => ({
     data: [],
   })),
@@ -375,6 +404,22 @@ jest.mock('@/lib/hooks', () => ({
     data: [],
   })),
   useTrackingStreak: jest.fn(() => 0),
+  useUserSettings: jest.fn(() => ({
+    data: {
+      theme: 'dark',
+      waterGoal: 2000,
+      units: 'metric',
+      timezone: null,
+      dayBoundaryHour: 0,
+      notifications: { reminders: false, dailySummary: false },
+    },
+  })),
+  useDayBoundary: jest.fn(() => ({ timeZone: 'UTC', startHour: 0 })),
+  useFailedOutboxEntries: jest.fn(() => ({
+    entries: [],
+    retry: jest.fn(),
+    discard: jest.fn(),
+  })),
 }));
 
 // Mock ErrorBoundary component
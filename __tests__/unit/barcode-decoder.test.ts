@@ -0,0 +1,181 @@
+/**
+ * Unit tests for the EAN/UPC scanline decoder
+ * Renders synthetic barcodes to RGBA pixels and decodes them back
+ */
+
+import {
+  decodeBarcodeFromPixels,
+  decodeScanline,
+  expandUpcE,
+  isValidGtin,
+  normalizeGtin,
+} from '@/lib/barcode/decoder';
+
+// Bar patterns (1 = bar) for L-code digits; R = inverted L, G = reversed R
+const L_CODES = [
+  '0001101',
+  '0011001',
+  '0010011',
+  '0111101',
+  '0100011',
+  '0110001',
+  '0101111',
+  '0111011',
+  '0110111',
+  '0001011',
+];
+const R_CODES = L_CODES.map(code =>
+  code
+    .split('')
+    .map(bit => (bit === '1' ? '0' : '1'))
+    .join('')
+);
+const G_CODES = R_CODES.map(code => code.split('').reverse().join(''));
+const PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+const QUIET = '0'.repeat(11);
+
+function encodeEan13(code: string): string {
+  const digits = code.split('').map(Number);
+  const parity = PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .map((d, i) => (parity[i] === 'L' ? L_CODES[d] : G_CODES[d]))
+    .join('');
+  const right = digits
+    .slice(7)
+    .map(d => R_CODES[d])
+    .join('');
+  return `${QUIET}101${left}01010${right}101${QUIET}`;
+}
+
+function encodeEan8(code: string): string {
+  const digits = code.split('').map(Number);
+  const left = digits
+    .slice(0, 4)
+    .map(d => L_CODES[d])
+    .join('');
+  const right = digits
+    .slice(4)
+    .map(d => R_CODES[d])
+    .join('');
+  return `${QUIET}101${left}01010${right}101${QUIET}`;
+}
+
+function toLuminance(modules: string, moduleWidth: number): number[] {
+  return modules
+    .split('')
+    .flatMap(bit => new Array(moduleWidth).fill(bit === '1' ? 20 : 235));
+}
+
+function renderPixels(modules: string, moduleWidth = 3, height = 40) {
+  const row = toLuminance(modules, moduleWidth);
+  const width = row.length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    row.forEach((value, x) => {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    });
+  }
+  return { data, width, height };
+}
+
+describe('Barcode Decoder', () => {
+  describe('isValidGtin', () => {
+    it('should accept codes with a correct check digit', () => {
+      expect(isValidGtin('4006381333931')).toBe(true);
+      expect(isValidGtin('036000291452')).toBe(true);
+      expect(isValidGtin('96385074')).toBe(true);
+    });
+
+    it('should reject bad check digits and lengths', () => {
+      expect(isValidGtin('4006381333932')).toBe(false);
+      expect(isValidGtin('12345')).toBe(false);
+      expect(isValidGtin('40063813339a1')).toBe(false);
+    });
+  });
+
+  describe('normalizeGtin', () => {
+    it('should pad UPC-A codes to 13 digits', () => {
+      expect(normalizeGtin('036000291452')).toBe('0036000291452');
+      expect(normalizeGtin('4006381333931')).toBe('4006381333931');
+    });
+  });
+
+  describe('expandUpcE', () => {
+    it('should expand UPC-E codes to UPC-A', () => {
+      expect(expandUpcE('04252614')).toBe('042100005264');
+      expect(expandUpcE('01234565')).toBe('012345000065');
+      expect(isValidGtin(expandUpcE('01234531')!)).toBe(true);
+    });
+
+    it('should accept codes without number system or check digit', () => {
+      expect(expandUpcE('425261')).toBe('042100005264');
+      expect(expandUpcE('0425261')).toBe('042100005264');
+    });
+
+    it('should reject bad check digits and number systems', () => {
+      expect(expandUpcE('04252615')).toBeNull();
+      expect(expandUpcE('24252614')).toBeNull();
+      expect(expandUpcE('12345')).toBeNull();
+    });
+  });
+
+  describe('decodeScanline', () => {
+    it('should decode an EAN-13 scanline', () => {
+      const line = toLuminance(encodeEan13('4006381333931'), 2);
+      expect(decodeScanline(line)).toBe('4006381333931');
+    });
+
+    it('should decode an EAN-8 scanline', () => {
+      const line = toLuminance(encodeEan8('96385074'), 2);
+      expect(decodeScanline(line)).toBe('96385074');
+    });
+
+    it('should decode a barcode read upside down', () => {
+      const line = toLuminance(encodeEan13('4006381333931'), 2).reverse();
+      expect(decodeScanline(line)).toBe('4006381333931');
+    });
+
+    it('should reject a symbol with a bad check digit', () => {
+      const line = toLuminance(encodeEan13('4006381333932'), 2);
+      expect(decodeScanline(line)).toBeNull();
+    });
+
+    it('should return null for a blank line', () => {
+      expect(decodeScanline(new Array(200).fill(235))).toBeNull();
+    });
+  });
+
+  describe('decodeBarcodeFromPixels', () => {
+    it('should decode an EAN-13 image', () => {
+      const image = renderPixels(encodeEan13('4006381333931'));
+      expect(decodeBarcodeFromPixels(image)).toBe('4006381333931');
+    });
+
+    it('should return UPC-A codes in 13-digit form', () => {
+      // UPC-A is EAN-13 with a leading zero
+      const image = renderPixels(encodeEan13('0036000291452'));
+      expect(decodeBarcodeFromPixels(image)).toBe('0036000291452');
+    });
+
+    it('should return null for an empty image', () => {
+      expect(
+        decodeBarcodeFromPixels({ data: [], width: 0, height: 0 })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the Body Compass daily score
+ */
+
+import {
+  BODY_COMPASS_SCORE_VERSION,
+  buildDailyScores,
+  calculateBodyCompassScore,
+  compareWeeks,
+  diffDailyScores,
+  getSymptomBurden,
+  type BodyCompassInputs,
+  type DailyScore,
+} from '@/lib/insights/body-compass-score';
+import type { Food, Ingredient, Symptom } from '@/lib/types';
+
+const UTC = { timeZone: 'UTC', startHour: 0 };
+
+const noFoods: BodyCompassInputs['foodStats'] = {
+  greenIngredients: 0,
+  yellowIngredients: 0,
+  redIngredients: 0,
+  totalIngredients: 0,
+  totalOrganicPercentage: 0,
+};
+
+const ingredient = (zone: Ingredient['zone'], organic = false): Ingredient => ({
+  name: `${zone} ingredient`,
+  organic,
+  group: 'other',
+  zone,
+});
+
+const food = (timestamp: string, ingredients: Ingredient[]): Food => ({
+  id: timestamp,
+  name: 'Meal',
+  timestamp,
+  ingredients,
+  status: 'processed',
+});
+
+const symptom = (
+  timestamp: string,
+  severity: Symptom['severity'] = null
+): Symptom => ({
+  id: timestamp,
+  symptom_id: 'bloating',
+  category: 'digestion',
+  name: 'Bloating',
+  timestamp,
+  severity,
+});
+
+describe('Body Compass Score', () => {
+  it('should not score a day with nothing logged', () => {
+    expect(
+      calculateBodyCompassScore({ foodStats: noFoods, symptomBurden: {} })
+    ).toBeNull();
+  });
+
+  it('should leave out the zone component when every ingredient is unzoned', () => {
+    const score = calculateBodyCompassScore({
+      foodStats: {
+        ...noFoods,
+        totalIngredients: 4,
+        totalOrganicPercentage: 50,
+      },
+      symptomBurden: {},
+    });
+
+    // Organic 50 (weight 0.15) and symptoms 100 (weight 0.35), rescaled
+    expect(score).toEqual({
+      score: 85,
+      components: { zones: null, organic: 50, symptoms: 100 },
+      version: BODY_COMPASS_SCORE_VERSION,
+    });
+  });
+
+  it('should weigh zones, organics and symptoms together', () => {
+    const score = calculateBodyCompassScore({
+      foodStats: {
+        greenIngredients: 2,
+        yellowIngredients: 1,
+        redIngredients: 1,
+        totalIngredients: 4,
+        totalOrganicPercentage: 0,
+      },
+      symptomBurden: { digestion: 5 },
+    });
+
+    // Zones 62.5, organic 0, symptoms (0.5 + 1 + 1 + 1) / 4 = 87.5
+    expect(score?.components).toEqual({
+      zones: 63,
+      organic: 0,
+      symptoms: 88,
+    });
+    expect(score?.score).toBe(62);
+  });
+
+  it('should score symptom-only days and cap each category burden', () => {
+    const score = calculateBodyCompassScore({
+      foodStats: noFoods,
+      symptomBurden: { digestion: 40 },
+    });
+
+    expect(score).toEqual({
+      score: 75,
+      components: { zones: null, organic: null, symptoms: 75 },
+      version: BODY_COMPASS_SCORE_VERSION,
+    });
+  });
+
+  it('should count unrated symptoms as moderate', () => {
+    expect(
+      getSymptomBurden([
+        symptom('2025-07-01T08:00:00.000Z'),
+        symptom('2025-07-01T09:00:00.000Z', 1),
+      ])
+    ).toEqual({ digestion: 4 });
+  });
+
+  it('should score each day that has entries', () => {
+    const scores = buildDailyScores(
+      [
+        food('2025-07-01T08:00:00.000Z', [
+          ingredient('green', true),
+          ingredient('green', true),
+        ]),
+      ],
+      [symptom('2025-07-03T20:00:00.000Z', 5)],
+      ['2025-07-01', '2025-07-02', '2025-07-03'],
+      UTC
+    );
+
+    expect(scores.map(({ day, score }) => ({ day, score }))).toEqual([
+      { day: '2025-07-01', score: 100 },
+      { day: '2025-07-03', score: 88 },
+    ]);
+  });
+
+  it('should compare the last seven days with the seven before', () => {
+    expect(
+      compareWeeks(
+        [
+          { day: '2025-07-01', score: 60 },
+          { day: '2025-07-05', score: 70 },
+          { day: '2025-07-10', score: 80 },
+          { day: '2025-07-14', score: 70 },
+        ],
+        '2025-07-14'
+      )
+    ).toEqual({ thisWeek: 75, lastWeek: 65, change: 10 });
+
+    expect(
+      compareWeeks([{ day: '2025-07-14', score: 70 }], '2025-07-14')
+    ).toEqual({ thisWeek: 70, lastWeek: null, change: null });
+  });
+
+  it('should save changed or outdated days and remove emptied ones', () => {
+    const day = (date: string, score: number, version = 1): DailyScore => ({
+      day: date,
+      score,
+      components: { zones: score, organic: null, symptoms: 100 },
+      version,
+    });
+
+    const { save, remove } = diffDailyScores(
+      [day('2025-07-01', 80), day('2025-07-02', 70, 0), day('2025-07-03', 50)],
+      [day('2025-07-01', 80), day('2025-07-02', 70), day('2025-07-04', 90)],
+      ['2025-07-01', '2025-07-02', '2025-07-03', '2025-07-04']
+    );
+
+    expect(save.map(score => score.day)).toEqual(['2025-07-02', '2025-07-04']);
+    expect(remove).toEqual(['2025-07-03']);
+  });
+});
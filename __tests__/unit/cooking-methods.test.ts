@@ -0,0 +1,94 @@
+/**
+ * Unit tests for cooking methods as a zoning input and stats dimension
+ */
+
+import {
+  applyCookingMethod,
+  getCookingMethodTotals,
+  parseCookingMethod,
+  toZoningInput,
+} from '@/lib/zoning/cooking-methods';
+import { zoneIngredientsFromDictionary } from '@/lib/zoning/ingredient-dictionary';
+import type { Ingredient } from '@/lib/types';
+
+const unzoned = (
+  name: string,
+  cookingMethod?: Ingredient['cookingMethod']
+): Ingredient => ({
+  name,
+  organic: false,
+  group: 'other',
+  zone: 'unzoned',
+  ...(cookingMethod && { cookingMethod }),
+});
+
+describe('Cooking Methods', () => {
+  it('should normalize method names and common phrasings', () => {
+    expect(parseCookingMethod('Grilled')).toBe('grilled');
+    expect(parseCookingMethod('deep-fried')).toBe('fried');
+    expect(parseCookingMethod('sautéed')).toBe('fried');
+    expect(parseCookingMethod('poached')).toBe('steamed');
+    expect(parseCookingMethod('sous vide')).toBeUndefined();
+    expect(parseCookingMethod(null)).toBeUndefined();
+  });
+
+  it('should move fried ingredients one zone toward red', () => {
+    expect(applyCookingMethod('green', 'fried')).toBe('yellow');
+    expect(applyCookingMethod('yellow', 'fried')).toBe('red');
+    expect(applyCookingMethod('red', 'fried')).toBe('red');
+    expect(applyCookingMethod('unzoned', 'fried')).toBe('unzoned');
+    expect(applyCookingMethod('green', 'steamed')).toBe('green');
+    expect(applyCookingMethod('green', undefined)).toBe('green');
+  });
+
+  it('should zone the same dictionary ingredient by its preparation', () => {
+    const { ingredients } = zoneIngredientsFromDictionary([
+      unzoned('carrots', 'steamed'),
+      unzoned('carrots', 'fried'),
+      unzoned('carrots'),
+    ]);
+
+    expect(ingredients.map(i => i.zone)).toEqual(['green', 'yellow', 'green']);
+  });
+
+  it('should send the method to the zoning API only when known', () => {
+    expect(toZoningInput(unzoned('kale'))).toBe('kale');
+    expect(toZoningInput(unzoned('kale', 'fried'))).toEqual({
+      name: 'kale',
+      cookingMethod: 'fried',
+    });
+  });
+
+  it('should keep the method on dictionary misses sent to the model', () => {
+    const { misses } = zoneIngredientsFromDictionary([
+      unzoned('carrots', 'fried'),
+      unzoned('dragon fruit', 'fried'),
+      unzoned('jackfruit'),
+    ]);
+
+    expect(misses.map(toZoningInput)).toEqual([
+      { name: 'dragon fruit', cookingMethod: 'fried' },
+      'jackfruit',
+    ]);
+  });
+
+  it('should total ingredients by cooking method', () => {
+    const ingredients = [
+      { ...unzoned('chicken', 'fried'), quantity: 200, unit: 'g' as const },
+      unzoned('rice', 'steamed'),
+      unzoned('soy sauce'),
+    ];
+
+    expect(getCookingMethodTotals(ingredients)).toMatchObject({
+      fried: 1,
+      steamed: 1,
+      unknown: 1,
+      raw: 0,
+    });
+    expect(getCookingMethodTotals(ingredients, 'quantity')).toMatchObject({
+      fried: 200,
+      steamed: 100,
+      unknown: 100,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for merging user-defined symptoms into the symptom index
+ */
+
+import {
+  SYMPTOMS,
+  getSymptomById,
+  getSymptomsByCategory,
+  isCustomSymptomId,
+  searchSymptoms,
+  toCustomSymptomId,
+} from '@/lib/symptoms/symptom-index';
+import { parseImportFile } from '@/lib/export/import';
+import type { CustomSymptom } from '@/lib/types';
+
+const ECZEMA_ID = '66666666-6666-4666-8666-666666666666';
+const AURA_ID = '77777777-7777-4777-8777-777777777777';
+
+const customSymptoms: CustomSymptom[] = [
+  {
+    id: ECZEMA_ID,
+    name: 'Eczema flare',
+    category: 'recovery',
+    icon: null,
+    search_terms: ['itchy skin', 'rash'],
+    created_at: '2025-07-01T00:00:00.000Z',
+  },
+  {
+    id: AURA_ID,
+    name: 'Migraine aura',
+    category: 'mind',
+    icon: '🌈',
+    search_terms: [],
+    archived_at: '2025-07-05T00:00:00.000Z',
+    created_at: '2025-07-01T00:00:00.000Z',
+  },
+];
+
+describe('Custom Symptoms', () => {
+  it('should namespace custom symptom ids', () => {
+    expect(toCustomSymptomId(ECZEMA_ID)).toBe(`custom:${ECZEMA_ID}`);
+    expect(isCustomSymptomId(`custom:${ECZEMA_ID}`)).toBe(true);
+    expect(SYMPTOMS.some(symptom => isCustomSymptomId(symptom.id))).toBe(false);
+  });
+
+  it('should find custom symptoms by name and search terms', () => {
+    expect(searchSymptoms('rash', customSymptoms)).toEqual([
+      expect.objectContaining({
+        id: `custom:${ECZEMA_ID}`,
+        name: 'Eczema flare',
+        isCustom: true,
+        categoryIcon: '🦴', // Category icon when none was chosen
+      }),
+    ]);
+    expect(searchSymptoms('eczema')).toEqual([]);
+  });
+
+  it('should list active custom symptoms after the built-ins', () => {
+    const recovery = getSymptomsByCategory('recovery', customSymptoms);
+
+    expect(recovery.at(-1)?.name).toBe('Eczema flare');
+    expect(recovery).toHaveLength(getSymptomsByCategory('recovery').length + 1);
+  });
+
+  it('should hide archived symptoms from pickers but still resolve them', () => {
+    expect(searchSymptoms('aura', customSymptoms)).toEqual([]);
+    expect(getSymptomsByCategory('mind', customSymptoms)).toHaveLength(
+      getSymptomsByCategory('mind').length
+    );
+
+    expect(getSymptomById(`custom:${AURA_ID}`, customSymptoms)).toMatchObject({
+      name: 'Migraine aura',
+      categoryIcon: '🌈',
+      archived: true,
+    });
+    expect(getSymptomById(`custom:${AURA_ID}`)).toBeUndefined();
+  });
+
+  it('should import entries logged against custom symptoms', () => {
+    const result = parseImportFile(
+      JSON.stringify({
+        symptoms: [
+          {
+            id: '88888888-8888-4888-8888-888888888888',
+            symptom_id: `custom:${AURA_ID}`,
+            category: 'mind',
+            name: 'Migraine aura',
+            timestamp: '2025-07-01T14:00:00.000Z',
+          },
+        ],
+      })
+    );
+
+    expect(result.success).toBe(true);
+  });
+});
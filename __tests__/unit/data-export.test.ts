@@ -0,0 +1,296 @@
+/**
+ * Unit tests for data export formats and the clinician report aggregation
+ */
+
+import {
+  INGREDIENT_CSV_COLUMNS,
+  buildIngredientRows,
+  buildSymptomRows,
+  createDataExport,
+  toCsv,
+} from '@/lib/export/formats';
+import {
+  buildClinicianReport,
+  parseReportRange,
+} from '@/lib/export/clinician-report';
+import { APP_CONFIG } from '@/lib/config/constants';
+import type { Food, Symptom } from '@/lib/types';
+import { getDayBoundary } from '@/lib/utils/day-buckets';
+
+// Local-time timestamps and the device's midnight day start, so day
+// bucketing doesn't depend on the test machine
+const LOCAL = getDayBoundary();
+const at = (year: number, month: number, day: number, hour = 12) =>
+  new Date(year, month - 1, day, hour).toISOString();
+
+const food = (overrides: Partial<Food>): Food => ({
+  id: 'food-1',
+  name: 'Lunch',
+  timestamp: at(2025, 7, 1),
+  ingredients: [],
+  status: 'processed',
+  ...overrides,
+});
+
+const symptom = (overrides: Partial<Symptom>): Symptom => ({
+  id: 'symptom-1',
+  symptom_id: 'bloating',
+  name: 'Bloating',
+  category: 'digestion',
+  timestamp: at(2025, 7, 1),
+  ...overrides,
+});
+
+describe('Data Export', () => {
+  describe('createDataExport', () => {
+    it('should stamp the schema version and drop client-only fields', () => {
+      const result = createDataExport(
+        {
+          foods: [food({ pending_sync: true })],
+          symptoms: [symptom({})],
+          zoneOverrides: [],
+        },
+        '2025-07-02T00:00:00.000Z'
+      );
+
+      expect(result.schemaVersion).toBe(APP_CONFIG.EXPORT.SCHEMA_VERSION);
+      expect(result.exportedAt).toBe('2025-07-02T00:00:00.000Z');
+      expect(result.foods[0]).not.toHaveProperty('pending_sync');
+    });
+  });
+
+  describe('CSV', () => {
+    it('should write one row per ingredient and keep empty meals', () => {
+      const rows = buildIngredientRows(
+        [
+          food({
+            ingredients: [
+              { name: 'kale', zone: 'green', organic: true, group: 'Greens' },
+              { name: 'bacon', zone: 'red', organic: false, group: 'Meat' },
+            ],
+          }),
+          food({ id: 'food-2', name: 'Coffee' }),
+        ],
+        LOCAL
+      );
+
+      expect(rows).toHaveLength(3);
+      expect(rows[1]).toMatchObject({
+        food_id: 'food-1',
+        ingredient: 'bacon',
+        zone: 'red',
+        date: '2025-07-01',
+      });
+      expect(rows[2]).toMatchObject({ food_id: 'food-2' });
+      expect(rows[2].ingredient).toBeUndefined();
+    });
+
+    it('should write one row per symptom', () => {
+      expect(
+        buildSymptomRows([symptom({ notes: 'after lunch' })], LOCAL)
+      ).toEqual([
+        expect.objectContaining({
+          symptom_entry_id: 'symptom-1',
+          symptom_id: 'bloating',
+          notes: 'after lunch',
+        }),
+      ]);
+    });
+
+    it('should include severity and duration when logged', () => {
+      const [row] = buildSymptomRows(
+        [
+          symptom({
+            timestamp: '2025-07-01T12:00:00.000Z',
+            severity: 4,
+            ended_at: '2025-07-01T12:40:00.000Z',
+          }),
+        ],
+        LOCAL
+      );
+
+      expect(row).toMatchObject({ severity: 4, duration_minutes: 40 });
+      expect(
+        buildSymptomRows([symptom({})], LOCAL)[0].severity
+      ).toBeUndefined();
+    });
+
+    it('should quote special characters and neutralise formulas', () => {
+      const csv = toCsv(
+        [
+          { food_name: 'Mac, "cheese"', notes: '=HYPERLINK("x")' },
+          { food_name: 'Soup', organic: false },
+        ],
+        ['food_name', 'notes', 'organic']
+      );
+
+      expect(csv.split('\r\n')).toEqual([
+        'food_name,notes,organic',
+        '"Mac, ""cheese""","\'=HYPERLINK(""x"")",',
+        'Soup,,false',
+      ]);
+    });
+
+    it('should start with the documented ingredient header', () => {
+      expect(toCsv([], INGREDIENT_CSV_COLUMNS)).toBe(
+        INGREDIENT_CSV_COLUMNS.join(',')
+      );
+    });
+  });
+
+  describe('parseReportRange', () => {
+    it('should default to the configured number of days ending today', () => {
+      const range = parseReportRange(null, null, new Date(2025, 6, 30, 15));
+
+      expect(range.to).toEqual(new Date(2025, 6, 30));
+      expect(range.from).toEqual(
+        new Date(2025, 6, 30 - (APP_CONFIG.EXPORT.REPORT_DEFAULT_DAYS - 1))
+      );
+    });
+
+    it('should swap reversed bounds and ignore invalid ones', () => {
+      expect(parseReportRange('2025-07-10', '2025-07-01')).toEqual({
+        from: new Date(2025, 6, 1),
+        to: new Date(2025, 6, 10),
+      });
+      expect(
+        parseReportRange('not-a-date', '2025-07-10').from.getTime()
+      ).toBeLessThan(new Date(2025, 6, 10).getTime());
+    });
+  });
+
+  describe('buildClinicianReport', () => {
+    const foods = [
+      food({
+        id: 'food-1',
+        timestamp: at(2025, 7, 1),
+        ingredients: [
+          { name: 'Kale', zone: 'green', organic: true, group: 'Greens' },
+          { name: 'Bacon', zone: 'red', organic: false, group: 'Meat' },
+          { name: 'bacon', zone: 'red', organic: false, group: 'Meat' },
+        ],
+      }),
+      food({
+        id: 'food-2',
+        timestamp: at(2025, 7, 3),
+        ingredients: [
+          { name: 'bacon', zone: 'red', organic: false, group: 'Meat' },
+          { name: 'Soda', zone: 'red', organic: false, group: 'Drinks' },
+        ],
+      }),
+      // Outside the range
+      food({
+        id: 'food-3',
+        timestamp: at(2025, 6, 20),
+        ingredients: [
+          { name: 'Soda', zone: 'red', organic: false, group: 'Drinks' },
+        ],
+      }),
+    ];
+    const symptoms = [
+      symptom({ id: 's1', timestamp: at(2025, 7, 1), severity: 2 }),
+      symptom({ id: 's2', timestamp: at(2025, 7, 2), severity: 5 }),
+      symptom({ id: 's3', category: 'mind', timestamp: at(2025, 7, 2) }),
+    ];
+    const range = { from: new Date(2025, 6, 1), to: new Date(2025, 6, 3) };
+
+    it('should summarise entries inside the range', () => {
+      const report = buildClinicianReport(foods, symptoms, range, LOCAL);
+
+      expect(report.range).toEqual({
+        from: '2025-07-01',
+        to: '2025-07-03',
+        days: 3,
+      });
+      expect(report.totals).toEqual({
+        meals: 2,
+        ingredients: 5,
+        symptoms: 3,
+        daysLogged: 3,
+      });
+      expect(report.zoneTotals).toEqual({
+        green: 1,
+        yellow: 0,
+        red: 4,
+        unzoned: 0,
+      });
+    });
+
+    it('should bucket zones by day for short ranges', () => {
+      const report = buildClinicianReport(foods, symptoms, range, LOCAL);
+
+      expect(report.bucketSize).toBe('day');
+      expect(report.zoneDistribution.map(b => [b.start, b.total])).toEqual([
+        ['2025-07-01', 3],
+        ['2025-07-02', 0],
+        ['2025-07-03', 2],
+      ]);
+    });
+
+    it("should count entries toward the user's day, not the device's", () => {
+      // 1 AM on Jul 4 in Chicago is still Jul 3 with a 4 AM day start
+      const chicago = { timeZone: 'America/Chicago', startHour: 4 };
+      const snack = food({
+        id: 'snack',
+        timestamp: '2025-07-04T06:00:00.000Z',
+        ingredients: [
+          { name: 'Chips', zone: 'red', organic: false, group: 'Snacks' },
+        ],
+      });
+
+      const report = buildClinicianReport([snack], [], range, chicago);
+
+      expect(report.totals.meals).toBe(1);
+      expect(report.zoneDistribution.at(-1)).toMatchObject({
+        start: '2025-07-03',
+        red: 1,
+      });
+      expect(buildIngredientRows([snack], chicago)[0].date).toBe('2025-07-03');
+    });
+
+    it('should bucket zones by Monday-start week for long ranges', () => {
+      // Tue Jul 1 - Thu Jul 31 2025
+      const report = buildClinicianReport(
+        foods,
+        symptoms,
+        { from: new Date(2025, 6, 1), to: new Date(2025, 6, 31) },
+        LOCAL
+      );
+
+      expect(report.bucketSize).toBe('week');
+      expect(report.zoneDistribution[0]).toMatchObject({
+        start: '2025-07-01',
+        end: '2025-07-06',
+        total: 5,
+      });
+      expect(report.zoneDistribution[1].start).toBe('2025-07-07');
+      expect(report.zoneDistribution.at(-1)?.end).toBe('2025-07-31');
+    });
+
+    it('should rank symptom categories by frequency', () => {
+      const report = buildClinicianReport(foods, symptoms, range, LOCAL);
+
+      expect(report.symptomsByCategory[0]).toMatchObject({
+        category: 'digestion',
+        count: 2,
+        daysAffected: 2,
+        averageSeverity: 3.5,
+      });
+      // Unrated entries don't pull the average either way
+      expect(report.symptomsByCategory[1]).toMatchObject({
+        category: 'mind',
+        count: 1,
+        averageSeverity: null,
+      });
+    });
+
+    it('should count red ingredients once per meal', () => {
+      const report = buildClinicianReport(foods, symptoms, range, LOCAL);
+
+      expect(report.topRedIngredients).toEqual([
+        { name: 'bacon', count: 2, lastSeen: at(2025, 7, 3) },
+        { name: 'Soda', count: 1, lastSeen: at(2025, 7, 3) },
+      ]);
+    });
+  });
+});
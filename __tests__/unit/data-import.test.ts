@@ -0,0 +1,194 @@
+/**
+ * Unit tests for import validation and the dry-run plan
+ * The transactional apply step lives in the import_user_data RPC (migration 028)
+ */
+
+import { parseImportFile, planImport } from '@/lib/export/import';
+import { APP_CONFIG } from '@/lib/config/constants';
+import type { Food, Symptom } from '@/lib/types';
+
+const FOOD_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_FOOD_ID = '22222222-2222-4222-8222-222222222222';
+const SYMPTOM_ID = '33333333-3333-4333-8333-333333333333';
+
+const fileFood = {
+  id: FOOD_ID,
+  name: 'Lunch',
+  timestamp: '2025-07-01T12:00:00.000Z',
+  ingredients: [
+    { name: 'kale', zone: 'green', organic: true, group: 'Greens' },
+  ],
+  status: 'processed',
+  notes: null,
+  meal_type: null,
+};
+
+const fileSymptom = {
+  id: SYMPTOM_ID,
+  symptom_id: 'bloat',
+  category: 'digestion',
+  name: 'Bloating',
+  timestamp: '2025-07-01T14:00:00+00:00',
+};
+
+const storedFood: Food = {
+  id: OTHER_FOOD_ID,
+  name: 'Lunch',
+  timestamp: '2025-07-01T12:00:00+00:00', // Same instant, Postgres format
+  ingredients: [],
+  status: 'processed',
+};
+
+function parse(file: unknown) {
+  return parseImportFile(JSON.stringify(file));
+}
+
+describe('Data Import', () => {
+  describe('parseImportFile', () => {
+    it('should accept a current export', () => {
+      const result = parse({
+        schemaVersion: APP_CONFIG.EXPORT.SCHEMA_VERSION,
+        foods: [fileFood],
+        symptoms: [fileSymptom],
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.foods[0].notes).toBeUndefined();
+      expect(result.data.symptoms).toHaveLength(1);
+    });
+
+    it('should accept legacy exports without a schema version', () => {
+      const result = parse({
+        foods: [fileFood],
+        symptoms: [],
+        exportedAt: '2025-07-02T00:00:00.000Z',
+      });
+
+      expect(result.success && result.data.schemaVersion).toBe(0);
+    });
+
+    it('should reject files from a newer schema', () => {
+      expect(
+        parse({ schemaVersion: APP_CONFIG.EXPORT.SCHEMA_VERSION + 1 })
+      ).toEqual({
+        success: false,
+        errors: ['This file was exported by a newer version of the app'],
+      });
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(parseImportFile('{ nope')).toEqual({
+        success: false,
+        errors: ['File is not valid JSON'],
+      });
+    });
+
+    it('should point at the failing entry', () => {
+      const result = parse({
+        foods: [fileFood, { ...fileFood, timestamp: 'yesterday' }],
+        symptoms: [{ ...fileSymptom, category: 'mind' }],
+      });
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^foods\[1\]\.timestamp:/),
+          expect.stringMatching(/^symptoms\[0\]\.category:/),
+        ])
+      );
+    });
+
+    it('should reject symptoms that end before they start', () => {
+      const result = parse({
+        symptoms: [
+          { ...fileSymptom, severity: 3, ended_at: '2025-07-01T15:00:00Z' },
+          { ...fileSymptom, ended_at: '2025-07-01T13:00:00Z' },
+        ],
+      });
+
+      expect(result).toEqual({
+        success: false,
+        errors: [expect.stringMatching(/^symptoms\[1\]\.ended_at:/)],
+      });
+    });
+
+    it('should keep recipe links', () => {
+      const recipeLink = {
+        recipe_id: '44444444-4444-4444-8444-444444444444',
+        recipe_scale: 1.5,
+        recipe_updated_at: '2025-06-30T08:00:00+00:00',
+      };
+      const result = parse({ foods: [{ ...fileFood, ...recipeLink }] });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.foods[0]).toMatchObject(recipeLink);
+      expect(
+        parse({ foods: [{ ...fileFood, ...recipeLink, recipe_scale: 0 }] })
+          .success
+      ).toBe(false);
+    });
+
+    it('should sanitize notes', () => {
+      const result = parse({
+        foods: [{ ...fileFood, notes: '<script>alert(1)</script>with rice' }],
+      });
+
+      expect(result.success && result.data.foods[0].notes).toBe('with rice');
+    });
+  });
+
+  describe('planImport', () => {
+    const file = (() => {
+      const result = parse({
+        foods: [
+          fileFood,
+          // Repeated within the file
+          { ...fileFood, id: '44444444-4444-4444-8444-444444444444' },
+          {
+            ...fileFood,
+            id: '55555555-5555-4555-8555-555555555555',
+            name: 'Dinner',
+            timestamp: '2025-07-01T19:00:00.000Z',
+          },
+        ],
+        symptoms: [fileSymptom],
+      });
+      if (!result.success) throw new Error(result.errors.join('\n'));
+      return result.data;
+    })();
+
+    it('should skip entries already stored by id or time and name in merge mode', () => {
+      const storedSymptom: Symptom = { ...fileSymptom, category: 'digestion' };
+
+      const plan = planImport(
+        { foods: [storedFood], symptoms: [storedSymptom] },
+        file,
+        'merge'
+      );
+
+      expect(plan.foods.toInsert.map(f => f.name)).toEqual(['Dinner']);
+      expect(plan.foods.duplicates).toHaveLength(2);
+      expect(plan.foods.toDelete).toBe(0);
+      expect(plan.symptoms.toInsert).toHaveLength(0);
+    });
+
+    it('should plan to delete everything stored in replace mode', () => {
+      const plan = planImport(
+        { foods: [storedFood], symptoms: [] },
+        file,
+        'replace'
+      );
+
+      expect(plan.foods.toDelete).toBe(1);
+      // Only the in-file repeat is skipped
+      expect(plan.foods.toInsert.map(f => f.id)).toEqual([
+        FOOD_ID,
+        '55555555-5555-4555-8555-555555555555',
+      ]);
+      expect(plan.symptoms.toInsert).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for timezone-aware day buckets, including DST transitions
+ */
+
+import {
+  daysBetween,
+  getDayBoundary,
+  getDayKey,
+  getDayRange,
+  getStreak,
+  getTodayKey,
+  groupByDay,
+  shiftDayKey,
+} from '@/lib/utils/day-buckets';
+import { buildSymptomTrends } from '@/lib/symptoms/symptom-trends';
+import type { Symptom } from '@/lib/types';
+
+const LA = { timeZone: 'America/Los_Angeles', startHour: 0 };
+const BERLIN = { timeZone: 'Europe/Berlin', startHour: 0 };
+
+const hoursIn = ({ start, end }: { start: string; end: string }) =>
+  (new Date(end).getTime() - new Date(start).getTime()) / 3600000;
+
+describe('Day Buckets', () => {
+  it('should count a 9pm dinner in California toward that day', () => {
+    // 21:00 PDT on July 4th is already July 5th in UTC
+    expect(getDayKey('2025-07-05T04:00:00.000Z', LA)).toBe('2025-07-04');
+    expect(getDayKey('2025-07-05T04:00:00.000Z', BERLIN)).toBe('2025-07-05');
+  });
+
+  it('should count entries before the day-start hour toward the day before', () => {
+    const lateNight = { ...BERLIN, startHour: 4 };
+
+    // 01:30 and 04:00 local in Berlin (UTC+2)
+    expect(getDayKey('2025-07-04T23:30:00.000Z', lateNight)).toBe('2025-07-04');
+    expect(getDayKey('2025-07-05T02:00:00.000Z', lateNight)).toBe('2025-07-05');
+    expect(getTodayKey(lateNight, new Date('2025-07-05T01:59:00.000Z'))).toBe(
+      '2025-07-04'
+    );
+  });
+
+  it('should span local midnight to midnight as UTC instants', () => {
+    expect(getDayRange('2025-07-04', LA)).toEqual({
+      start: '2025-07-04T07:00:00.000Z',
+      end: '2025-07-05T07:00:00.000Z',
+    });
+    expect(getDayRange('2025-07-04', { ...LA, startHour: 4 })).toEqual({
+      start: '2025-07-04T11:00:00.000Z',
+      end: '2025-07-05T11:00:00.000Z',
+    });
+  });
+
+  it('should make spring-forward days 23 hours long', () => {
+    const laSpring = getDayRange('2025-03-09', LA);
+    expect(laSpring).toEqual({
+      start: '2025-03-09T08:00:00.000Z',
+      end: '2025-03-10T07:00:00.000Z',
+    });
+    expect(hoursIn(laSpring)).toBe(23);
+    expect(hoursIn(getDayRange('2025-03-30', BERLIN))).toBe(23);
+
+    // Entries on either side of the jump stay on the same day
+    expect(getDayKey('2025-03-09T09:59:00.000Z', LA)).toBe('2025-03-09');
+    expect(getDayKey('2025-03-10T06:59:00.000Z', LA)).toBe('2025-03-09');
+    expect(getDayKey('2025-03-10T07:00:00.000Z', LA)).toBe('2025-03-10');
+  });
+
+  it('should make fall-back days 25 hours long', () => {
+    const laFall = getDayRange('2025-11-02', LA);
+    expect(laFall).toEqual({
+      start: '2025-11-02T07:00:00.000Z',
+      end: '2025-11-03T08:00:00.000Z',
+    });
+    expect(hoursIn(laFall)).toBe(25);
+    expect(hoursIn(getDayRange('2025-10-26', BERLIN))).toBe(25);
+
+    // Both 1:30 AMs belong to November 2nd
+    expect(getDayKey('2025-11-02T08:30:00.000Z', LA)).toBe('2025-11-02');
+    expect(getDayKey('2025-11-02T09:30:00.000Z', LA)).toBe('2025-11-02');
+  });
+
+  it('should start the day at the jump when the start hour is skipped', () => {
+    // 2 AM doesn't exist on these days; clocks jump straight to 3 AM
+    const laRange = getDayRange('2025-03-09', { ...LA, startHour: 2 });
+    const berlinRange = getDayRange('2025-03-30', {
+      ...BERLIN,
+      startHour: 2,
+    });
+
+    expect(laRange.start).toBe('2025-03-09T10:00:00.000Z');
+    expect(berlinRange.start).toBe('2025-03-30T01:00:00.000Z');
+    expect(getDayKey(laRange.start, { ...LA, startHour: 2 })).toBe(
+      '2025-03-09'
+    );
+  });
+
+  it('should agree with getDayKey at every range edge', () => {
+    const boundaries = [LA, BERLIN, { timeZone: 'Asia/Kolkata', startHour: 5 }];
+    const days = ['2025-03-09', '2025-03-30', '2025-10-26', '2025-11-02'];
+
+    boundaries.forEach(boundary => {
+      days.forEach(day => {
+        const { start, end } = getDayRange(day, boundary);
+        const lastMoment = new Date(new Date(end).getTime() - 1);
+        expect(getDayKey(start, boundary)).toBe(day);
+        expect(getDayKey(lastMoment, boundary)).toBe(day);
+        expect(getDayKey(end, boundary)).toBe(shiftDayKey(day, 1));
+      });
+    });
+  });
+
+  it('should do calendar arithmetic on day keys', () => {
+    expect(shiftDayKey('2025-03-01', -1)).toBe('2025-02-28');
+    expect(shiftDayKey('2024-12-31', 1)).toBe('2025-01-01');
+    expect(daysBetween('2025-03-08', '2025-03-10')).toBe(2);
+  });
+
+  it('should fall back to the device timezone and midnight', () => {
+    const device = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    expect(getDayBoundary()).toEqual({ timeZone: device, startHour: 0 });
+    expect(
+      getDayBoundary({ timezone: 'Asia/Tokyo', dayBoundaryHour: 3 })
+    ).toEqual({ timeZone: 'Asia/Tokyo', startHour: 3 });
+  });
+
+  it('should keep a streak alive until a day without entries is over', () => {
+    const days = new Set(['2025-07-02', '2025-07-03', '2025-07-04']);
+
+    expect(getStreak(days, '2025-07-04')).toBe(3);
+    expect(getStreak(days, '2025-07-05')).toBe(3);
+    expect(getStreak(days, '2025-07-06')).toBe(0);
+  });
+
+  it('should group entries and symptom trends by the local day', () => {
+    const symptoms = [
+      { id: '1', timestamp: '2025-07-05T04:00:00.000Z' }, // 21:00 PDT Jul 4
+      { id: '2', timestamp: '2025-07-04T16:00:00.000Z' }, // 09:00 PDT Jul 4
+      { id: '3', timestamp: '2025-07-05T16:00:00.000Z' }, // 09:00 PDT Jul 5
+    ] as Symptom[];
+
+    expect([...groupByDay(symptoms, LA).keys()]).toEqual([
+      '2025-07-04',
+      '2025-07-05',
+    ]);
+    expect(
+      buildSymptomTrends(symptoms, LA).map(({ day, count }) => ({
+        day,
+        count,
+      }))
+    ).toEqual([
+      { day: '2025-07-04', count: 2 },
+      { day: '2025-07-05', count: 1 },
+    ]);
+  });
+});
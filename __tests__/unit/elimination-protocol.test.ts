@@ -0,0 +1,316 @@
+/**
+ * Unit tests for lib/protocols/elimination.ts
+ * Tests the phase state machine, reintroduction scheduling and violation checks
+ */
+
+import {
+  advanceProtocolPhase,
+  createBigResetProtocol,
+  findProtocolViolations,
+  getBaselineRange,
+  getEliminationDaysRemaining,
+  getPhaseAdvanceBlocker,
+  getReintroductionStatus,
+  proposeNextReintroduction,
+  recordReintroductionOutcome,
+  startReintroduction,
+  suggestReintroductionOutcome,
+} from '@/lib/protocols/elimination';
+import type { Food, Ingredient, Protocol, Symptom } from '@/lib/types';
+import { getDayKey, getTodayKey, shiftDayKey } from '@/lib/utils/day-buckets';
+
+const START = new Date('2024-03-01T08:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+const at = (ms: number) => new Date(START.getTime() + ms);
+
+const buildProtocol = (overrides: Partial<Protocol> = {}): Protocol => ({
+  id: 'protocol-1',
+  ...createBigResetProtocol(START),
+  ...overrides,
+});
+
+const ingredient = (
+  name: string,
+  group: string,
+  zone: Ingredient['zone']
+): Ingredient => ({ name, organic: false, group, zone });
+
+const food = (id: string, time: Date, ingredients: Ingredient[]): Food => ({
+  id,
+  name: `Meal ${id}`,
+  timestamp: time.toISOString(),
+  ingredients,
+  status: 'processed',
+});
+
+const cheese = ingredient('cheddar', 'Fermented/Aged Dairy', 'yellow');
+const oats = ingredient('oats', 'Gluten-Free Grains', 'yellow');
+const spinach = ingredient('spinach', 'Leafy Greens', 'green');
+const sugar = ingredient('sugar', 'Refined Sugars', 'red');
+
+describe('Elimination Protocol', () => {
+  describe('createBigResetProtocol', () => {
+    it('should start in elimination with a 30 day window', () => {
+      const protocol = buildProtocol();
+
+      expect(protocol.phase).toBe('elimination');
+      expect(protocol.eliminated_zones).toEqual(['yellow', 'red']);
+      expect(new Date(protocol.elimination_ends_at).getTime()).toBe(
+        START.getTime() + 30 * DAY
+      );
+      expect(getEliminationDaysRemaining(protocol, at(10 * DAY))).toBe(20);
+      expect(getEliminationDaysRemaining(protocol, at(40 * DAY))).toBe(0);
+    });
+  });
+
+  describe('phase transitions', () => {
+    it('should block reintroduction until elimination has finished', () => {
+      const protocol = buildProtocol();
+
+      expect(getPhaseAdvanceBlocker(protocol, at(5 * DAY))).not.toBeNull();
+      expect(() => advanceProtocolPhase(protocol, at(5 * DAY))).toThrow(
+        'Elimination phase has not finished yet'
+      );
+      expect(advanceProtocolPhase(protocol, at(30 * DAY))).toEqual({
+        phase: 'reintroduction',
+      });
+    });
+
+    it('should block maintenance while a reintroduction is open', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const testing = {
+        ...protocol,
+        ...startReintroduction(protocol, 'Fermented/Aged Dairy', at(31 * DAY)),
+      };
+
+      expect(() => advanceProtocolPhase(testing, at(32 * DAY))).toThrow();
+      expect(advanceProtocolPhase(protocol, at(32 * DAY))).toEqual({
+        phase: 'maintenance',
+      });
+    });
+
+    it('should not advance past maintenance', () => {
+      const protocol = buildProtocol({ phase: 'maintenance' });
+
+      expect(() => advanceProtocolPhase(protocol, at(60 * DAY))).toThrow(
+        'Protocol is already in maintenance'
+      );
+    });
+  });
+
+  describe('reintroduction scheduling', () => {
+    const history = [
+      food('1', at(-3 * DAY), [cheese, spinach]),
+      food('2', at(-2 * DAY), [cheese, oats]),
+      food('3', at(-1 * DAY), [oats, sugar]),
+      food('4', at(-1 * DAY + HOUR), [cheese]),
+    ];
+
+    it('should not propose anything outside the reintroduction phase', () => {
+      expect(proposeNextReintroduction(buildProtocol(), history)).toBeNull();
+    });
+
+    it('should propose the most-eaten yellow group first', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+
+      expect(proposeNextReintroduction(protocol, history)).toEqual({
+        group: 'Fermented/Aged Dairy',
+        exposures: 3,
+      });
+    });
+
+    it('should only count meals eaten before the protocol started', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const duringProtocol = [1, 2, 3, 4].map(day =>
+        food(`during-${day}`, at(day * DAY), [oats])
+      );
+
+      expect(
+        proposeNextReintroduction(protocol, [...history, ...duringProtocol])
+      ).toEqual({ group: 'Fermented/Aged Dairy', exposures: 3 });
+    });
+
+    it('should rank from the days before a protocol that started long ago', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const UTC = { timeZone: 'UTC', startHour: 0 };
+      const meals = [
+        food('a', at(-30 * DAY), [cheese]),
+        food('b', at(-20 * DAY), [cheese]),
+        food('c', at(-10 * DAY), [oats]),
+      ];
+      const within = (startDay: string, endDay: string) =>
+        meals.filter(meal => {
+          const day = getDayKey(meal.timestamp, UTC);
+          return day >= startDay && day <= endDay;
+        });
+
+      // 75 days in, the last 90 days hold only part of the pre-protocol meals
+      const today = getTodayKey(UTC, at(75 * DAY));
+      expect(
+        proposeNextReintroduction(
+          protocol,
+          within(shiftDayKey(today, -89), today)
+        )
+      ).toEqual({ group: 'Gluten-Free Grains', exposures: 1 });
+
+      const range = getBaselineRange(protocol, UTC);
+      expect(range).toEqual({ startDay: '2023-12-03', endDay: '2024-03-01' });
+      expect(
+        proposeNextReintroduction(
+          protocol,
+          within(range.startDay, range.endDay)
+        )
+      ).toEqual({ group: 'Fermented/Aged Dairy', exposures: 2 });
+    });
+
+    it('should propose one group at a time', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const testing = {
+        ...protocol,
+        ...startReintroduction(protocol, 'Fermented/Aged Dairy', at(31 * DAY)),
+      };
+
+      expect(proposeNextReintroduction(testing, history)).toBeNull();
+      expect(() =>
+        startReintroduction(testing, 'Gluten-Free Grains', at(31 * DAY))
+      ).toThrow('Another group is already being reintroduced');
+    });
+
+    it('should use a 72h observation window', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const { reintroductions } = startReintroduction(
+        protocol,
+        'Fermented/Aged Dairy',
+        at(31 * DAY)
+      );
+
+      expect(
+        new Date(reintroductions[0].observe_until).getTime() -
+          new Date(reintroductions[0].started_at).getTime()
+      ).toBe(72 * HOUR);
+      expect(getReintroductionStatus(reintroductions[0], at(32 * DAY))).toBe(
+        'observing'
+      );
+      expect(getReintroductionStatus(reintroductions[0], at(35 * DAY))).toBe(
+        'awaiting_outcome'
+      );
+    });
+
+    it('should only record an outcome once the window has closed', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const testing = {
+        ...protocol,
+        ...startReintroduction(protocol, 'Fermented/Aged Dairy', at(31 * DAY)),
+      };
+
+      expect(() =>
+        recordReintroductionOutcome(testing, 'tolerated', at(32 * DAY))
+      ).toThrow('Observation window has not finished yet');
+
+      const done = {
+        ...testing,
+        ...recordReintroductionOutcome(testing, 'tolerated', at(35 * DAY)),
+      };
+      expect(done.reintroductions[0].outcome).toBe('tolerated');
+      expect(proposeNextReintroduction(done, history)?.group).toBe(
+        'Gluten-Free Grains'
+      );
+    });
+
+    it('should suggest reactive when signals fall in the window', () => {
+      const protocol = buildProtocol({ phase: 'reintroduction' });
+      const [reintroduction] = startReintroduction(
+        protocol,
+        'Fermented/Aged Dairy',
+        at(31 * DAY)
+      ).reintroductions;
+      const signal: Symptom = {
+        id: 's1',
+        symptom_id: 'bloat',
+        category: 'digestion',
+        name: 'Bloating',
+        timestamp: at(31 * DAY + 5 * HOUR).toISOString(),
+      };
+
+      expect(suggestReintroductionOutcome(reintroduction, [signal])).toBe(
+        'reactive'
+      );
+      expect(suggestReintroductionOutcome(reintroduction, [])).toBe(
+        'tolerated'
+      );
+    });
+  });
+
+  describe('findProtocolViolations', () => {
+    it('should return nothing without a protocol', () => {
+      expect(
+        findProtocolViolations(food('1', at(DAY), [cheese]), null)
+      ).toEqual([]);
+    });
+
+    it('should ignore foods logged before the protocol started', () => {
+      expect(
+        findProtocolViolations(food('1', at(-DAY), [cheese]), buildProtocol())
+      ).toEqual([]);
+    });
+
+    it('should flag yellow and red ingredients during elimination', () => {
+      const violations = findProtocolViolations(
+        food('1', at(DAY), [cheese, spinach, sugar]),
+        buildProtocol()
+      );
+
+      expect(violations.map(v => v.name)).toEqual(['cheddar', 'sugar']);
+    });
+
+    it('should flag explicitly eliminated groups even when green', () => {
+      const protocol = buildProtocol({ eliminated_groups: ['Leafy Greens'] });
+
+      expect(
+        findProtocolViolations(food('1', at(DAY), [spinach]), protocol)
+      ).toHaveLength(1);
+    });
+
+    it('should allow the group under test during reintroduction', () => {
+      const base = buildProtocol({ phase: 'reintroduction' });
+      const protocol = {
+        ...base,
+        ...startReintroduction(base, 'Fermented/Aged Dairy', at(31 * DAY)),
+      };
+
+      const violations = findProtocolViolations(
+        food('1', at(31 * DAY + HOUR), [cheese, oats]),
+        protocol
+      );
+      expect(violations.map(v => v.name)).toEqual(['oats']);
+
+      // The same meal during elimination still breaks the protocol
+      expect(
+        findProtocolViolations(food('2', at(10 * DAY), [cheese]), protocol)
+      ).toHaveLength(1);
+    });
+
+    it('should only flag reactive groups during maintenance', () => {
+      const protocol = buildProtocol({
+        phase: 'maintenance',
+        reintroductions: [
+          {
+            group: 'Fermented/Aged Dairy',
+            started_at: at(31 * DAY).toISOString(),
+            observe_until: at(34 * DAY).toISOString(),
+            outcome: 'reactive',
+            completed_at: at(34 * DAY).toISOString(),
+          },
+        ],
+      });
+
+      const violations = findProtocolViolations(
+        food('1', at(40 * DAY), [cheese, oats, sugar]),
+        protocol
+      );
+      expect(violations.map(v => v.name)).toEqual(['cheddar']);
+    });
+  });
+});
@@ -14,6 +14,7 @@ jest.mock('@/lib/db', () => ({
   getAllSymptoms: jest.fn(),
   getFoodById: jest.fn(),
   getSymptomById: jest.fn(),
+  getZoneOverrides: jest.fn().mockResolvedValue([]),
 }));
 
 // Mock Supabase client
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for hydration totals derived from beverage entries
+ */
+
+import {
+  createWaterEntry,
+  formatVolume,
+  getBeverageVolume,
+  getHydrationProgress,
+  getHydrationTotal,
+  normalizeWaterGoal,
+} from '@/lib/hydration/hydration';
+import { zoneIngredientsFromDictionary } from '@/lib/zoning/ingredient-dictionary';
+import type { Food, Ingredient } from '@/lib/types';
+
+const drink = (
+  portions: Pick<Ingredient, 'quantity' | 'unit'>[],
+  meal_type: Food['meal_type'] = 'beverage'
+): Pick<Food, 'meal_type' | 'ingredients'> => ({
+  meal_type,
+  ingredients: portions.map(portion => ({
+    name: 'tea',
+    organic: false,
+    group: 'other',
+    zone: 'green',
+    ...portion,
+  })),
+});
+
+describe('Hydration', () => {
+  describe('getBeverageVolume', () => {
+    it('should add up ml and cup portions', () => {
+      expect(
+        getBeverageVolume(
+          drink([
+            { quantity: 300, unit: 'ml' },
+            { quantity: 0.5, unit: 'cup' },
+          ])
+        )
+      ).toBe(420);
+    });
+
+    it('should count a beverage without a volume as one glass', () => {
+      expect(getBeverageVolume(drink([{}]))).toBe(250);
+      expect(getBeverageVolume(drink([{ quantity: 1, unit: 'piece' }]))).toBe(
+        250
+      );
+    });
+
+    it('should ignore entries that are not beverages', () => {
+      expect(
+        getBeverageVolume(drink([{ quantity: 300, unit: 'ml' }], 'lunch'))
+      ).toBe(0);
+    });
+  });
+
+  it('should total a day and cap progress at the goal', () => {
+    const foods = [
+      createWaterEntry(500),
+      createWaterEntry(250),
+      drink([{ quantity: 200, unit: 'g' }], 'snack'),
+    ];
+
+    expect(getHydrationTotal(foods)).toBe(750);
+    expect(getHydrationProgress(750, 2000)).toBe(37.5);
+    expect(getHydrationProgress(2500, 2000)).toBe(100);
+  });
+
+  it('should log water that the dictionary zones without an AI call', () => {
+    const { ingredients, misses } = zoneIngredientsFromDictionary(
+      createWaterEntry(250).ingredients
+    );
+
+    expect(misses).toEqual([]);
+    expect(ingredients[0]).toMatchObject({
+      zone: 'green',
+      quantity: 250,
+      unit: 'ml',
+    });
+  });
+
+  it('should keep goals within the stored range in whole steps', () => {
+    expect(normalizeWaterGoal(2130)).toBe(2250);
+    expect(normalizeWaterGoal(100)).toBe(500);
+    expect(normalizeWaterGoal(20000)).toBe(6000);
+    expect(() => normalizeWaterGoal(NaN)).toThrow(
+      'Water goal must be a number'
+    );
+  });
+
+  it('should format volumes', () => {
+    expect(formatVolume(250)).toBe('250 ml');
+    expect(formatVolume(1500)).toBe('1.5 L');
+  });
+});
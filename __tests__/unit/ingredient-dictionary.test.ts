@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the curated ingredient dictionary
+ * Covers rubric precedence, name matching and dictionary-first zoning
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  INGREDIENT_DICTIONARY,
+  lookupIngredient,
+  zoneIngredientsFromDictionary,
+} from '@/lib/zoning/ingredient-dictionary';
+import type { Ingredient } from '@/lib/types';
+
+const unzoned = (name: string): Ingredient => ({
+  name,
+  organic: false,
+  group: 'other',
+  zone: 'unzoned',
+});
+
+describe('Ingredient Dictionary', () => {
+  describe('lookupIngredient', () => {
+    it('should resolve rubric keywords and synonyms', () => {
+      expect(lookupIngredient('olive oil')).toMatchObject({
+        name: 'extra virgin olive oil',
+        zone: 'green',
+        category: 'Fats & Oils',
+        group: 'Cold-Use Oils',
+      });
+      expect(lookupIngredient('white sugar')).toMatchObject({
+        zone: 'red',
+        group: 'Refined Sugars',
+      });
+      expect(lookupIngredient('sugar')?.name).toBe('white sugar');
+    });
+
+    it('should apply rubric precedence: red, then yellow, then green', () => {
+      // Listed as green and as yellow in the rubric
+      expect(lookupIngredient('spinach')).toMatchObject({
+        zone: 'yellow',
+        group: 'High-Histamine Vegetables',
+      });
+      expect(lookupIngredient('garlic')).toMatchObject({
+        zone: 'yellow',
+        group: 'High-FODMAP Vegetables',
+      });
+      // Listed twice within yellow: first group wins
+      expect(lookupIngredient('tomatoes')?.group).toBe('Nightshades');
+    });
+
+    it('should match singular and plural spellings', () => {
+      expect(lookupIngredient('carrot')?.name).toBe('carrots');
+      expect(lookupIngredient('tomato')?.name).toBe('tomatoes');
+      expect(lookupIngredient('blueberry')?.name).toBe('blueberries');
+      expect(lookupIngredient('sweet potatoes')?.name).toBe('sweet potato');
+    });
+
+    it('should ignore case, organic status and label qualifiers', () => {
+      expect(lookupIngredient('Organic Kale')?.name).toBe('kale');
+      expect(lookupIngredient('Tomatoes (45%)')?.name).toBe('tomatoes');
+    });
+
+    it('should leave ambiguous or unknown ingredients to the model', () => {
+      expect(lookupIngredient('chicken')).toBeUndefined();
+      expect(lookupIngredient('dragon fruit')).toBeUndefined();
+      expect(lookupIngredient('')).toBeUndefined();
+    });
+
+    it('should hold one entry per ingredient', () => {
+      const names = INGREDIENT_DICTIONARY.map(entry => entry.name);
+      expect(new Set(names).size).toBe(names.length);
+      expect(names).not.toContain('white potatoes'); // Plural of white potato
+    });
+
+    it('should cover every plain keyword in the zoning rubric', () => {
+      const rubric = fs.readFileSync(
+        path.join(process.cwd(), 'prompts/ingredient-zoning.md'),
+        'utf8'
+      );
+      const keywordLines = rubric
+        .split('**Group: Preparation Methods**')[0]
+        .split('\n')
+        .filter(line => line.includes('**Keywords:**'));
+
+      const keywords = keywordLines
+        .flatMap(line => line.match(/`[^`]+`/g) || [])
+        .map(keyword => keyword.slice(1, -1))
+        .filter(keyword => !keyword.includes('('));
+
+      expect(keywords.length).toBeGreaterThan(150);
+      const missing = keywords.filter(keyword => !lookupIngredient(keyword));
+      expect(missing).toEqual([]);
+    });
+  });
+
+  describe('zoneIngredientsFromDictionary', () => {
+    it('should zone hits and report misses', () => {
+      const result = zoneIngredientsFromDictionary([
+        unzoned('olive oil'),
+        unzoned('dragon fruit'),
+        { ...unzoned('canola oil'), organic: true },
+      ]);
+
+      expect(result.misses).toEqual([unzoned('dragon fruit')]);
+      expect(result.ingredients).toEqual([
+        {
+          name: 'olive oil',
+          organic: false,
+          zone: 'green',
+          category: 'Fats & Oils',
+          group: 'Cold-Use Oils',
+          zoneSource: 'dictionary',
+        },
+        unzoned('dragon fruit'),
+        {
+          name: 'canola oil',
+          organic: true,
+          zone: 'red',
+          category: 'Fats & Oils',
+          group: 'Industrial Seed Oils',
+          zoneSource: 'dictionary',
+        },
+      ]);
+    });
+
+    it('should not re-zone ingredients that already have a zone', () => {
+      const zoned: Ingredient = {
+        name: 'spinach',
+        organic: false,
+        zone: 'green',
+        group: 'Leafy Greens',
+      };
+
+      const result = zoneIngredientsFromDictionary([zoned]);
+      expect(result.ingredients[0]).toBe(zoned);
+      expect(result.misses).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for ingredient search matching and the following-symptoms window
+ * Server-side matching lives in the search_food_ingredients RPC (migration 020)
+ */
+
+import {
+  buildSearchResults,
+  hasSearchCriteria,
+  ingredientMatches,
+  symptomRangeFor,
+  trigramSimilarity,
+} from '@/lib/search/ingredient-search';
+import { APP_CONFIG } from '@/lib/config/constants';
+import type { Food, Ingredient, Symptom } from '@/lib/types';
+
+const cashews: Ingredient = {
+  name: 'Cashews',
+  zone: 'yellow',
+  organic: false,
+  group: 'Nuts',
+  category: 'Nuts & Seeds',
+};
+
+const food = (overrides: Partial<Food>): Food => ({
+  id: 'food-1',
+  name: 'Snack',
+  timestamp: '2025-07-01T12:00:00.000Z',
+  ingredients: [cashews],
+  status: 'processed',
+  ...overrides,
+});
+
+const symptom = (id: string, timestamp: string): Symptom => ({
+  id,
+  symptom_id: 'bloat',
+  name: 'Bloating',
+  category: 'digestion',
+  timestamp,
+});
+
+describe('Ingredient Search', () => {
+  describe('trigramSimilarity', () => {
+    it('should match pg_trgm for identical and unrelated words', () => {
+      expect(trigramSimilarity('cashew', 'cashew')).toBe(1);
+      expect(trigramSimilarity('cashew', 'broccoli')).toBe(0);
+    });
+
+    it('should tolerate a typo', () => {
+      expect(trigramSimilarity('cashews', 'cashwes')).toBeGreaterThanOrEqual(
+        APP_CONFIG.SEARCH.MIN_SIMILARITY
+      );
+    });
+  });
+
+  describe('ingredientMatches', () => {
+    it('should match substrings and typos across name, group and category', () => {
+      expect(ingredientMatches(cashews, { query: 'cashew' })).toBe(true);
+      expect(ingredientMatches(cashews, { query: 'cashwes' })).toBe(true);
+      expect(ingredientMatches(cashews, { query: 'seeds' })).toBe(true);
+      expect(ingredientMatches(cashews, { query: 'dairy' })).toBe(false);
+    });
+
+    it('should restrict the query to the chosen field', () => {
+      expect(
+        ingredientMatches(cashews, { query: 'nuts', field: 'group' })
+      ).toBe(true);
+      expect(
+        ingredientMatches(cashews, { query: 'cashews', field: 'group' })
+      ).toBe(false);
+    });
+
+    it('should require zone and organic filters on the same ingredient', () => {
+      expect(ingredientMatches(cashews, { zone: 'yellow' })).toBe(true);
+      expect(ingredientMatches(cashews, { query: 'cashew', zone: 'red' })).toBe(
+        false
+      );
+      expect(ingredientMatches(cashews, { organic: true })).toBe(false);
+      expect(ingredientMatches(cashews, { organic: false })).toBe(true);
+    });
+  });
+
+  describe('hasSearchCriteria', () => {
+    it('should ignore blank queries and date-only filters', () => {
+      expect(hasSearchCriteria({ query: '  ' })).toBe(false);
+      expect(hasSearchCriteria({ from: new Date() })).toBe(false);
+      expect(hasSearchCriteria({ organic: false })).toBe(true);
+    });
+  });
+
+  describe('buildSearchResults', () => {
+    it('should attach symptoms logged within the window after each meal', () => {
+      const [result] = buildSearchResults(
+        [{ food: food({}), matchedIngredients: ['Cashews'] }],
+        [
+          symptom('late', '2025-07-04T12:00:00.001Z'), // Just past 72h
+          symptom('edge', '2025-07-04T12:00:00.000Z'),
+          symptom('before', '2025-07-01T11:00:00.000Z'),
+          symptom('soon', '2025-07-01T14:00:00.000Z'),
+        ]
+      );
+
+      expect(result.matchedIngredients).toEqual(['Cashews']);
+      expect(result.followingSymptoms.map(s => s.id)).toEqual(['soon', 'edge']);
+    });
+  });
+
+  describe('symptomRangeFor', () => {
+    it('should span the earliest meal to the latest meal plus the window', () => {
+      expect(
+        symptomRangeFor([
+          food({ timestamp: '2025-07-05T08:00:00.000Z' }),
+          food({ timestamp: '2025-07-01T12:00:00.000Z' }),
+        ])
+      ).toEqual({
+        start: '2025-07-01T12:00:00.000Z',
+        end: '2025-07-08T08:00:00.000Z',
+      });
+      expect(symptomRangeFor([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for shaping the Insights trend aggregates into chart series
+ */
+
+import {
+  buildInsightTrends,
+  formatHour,
+  getTrendRange,
+  type InsightTrendRows,
+} from '@/lib/insights/trends';
+
+const LA = { timeZone: 'America/Los_Angeles', startHour: 0 };
+
+const emptyRows: InsightTrendRows = { zones: [], symptoms: [], mealTimes: [] };
+
+describe('Insight Trends', () => {
+  it('should cover whole local days up to today', () => {
+    // 20:00 PDT on July 4th
+    const range = getTrendRange(7, LA, new Date('2025-07-05T03:00:00.000Z'));
+
+    expect(range.days).toEqual([
+      '2025-06-28',
+      '2025-06-29',
+      '2025-06-30',
+      '2025-07-01',
+      '2025-07-02',
+      '2025-07-03',
+      '2025-07-04',
+    ]);
+    expect(range.from).toBe('2025-06-28T07:00:00.000Z');
+    expect(range.to).toBe('2025-07-05T07:00:00.000Z');
+  });
+
+  it('should turn zone counts into shares and fill days without entries', () => {
+    const trends = buildInsightTrends(
+      {
+        ...emptyRows,
+        zones: [
+          {
+            day: '2025-07-02',
+            green: 6,
+            yellow: 2,
+            red: 1,
+            unzoned: 1,
+            organic: 3,
+            total: 10,
+          },
+        ],
+      },
+      { days: ['2025-07-01', '2025-07-02'] }
+    );
+
+    expect(trends.zoneRatios).toEqual([
+      { day: '2025-07-01', green: 0, yellow: 0, red: 0, unzoned: 0, total: 0 },
+      {
+        day: '2025-07-02',
+        green: 60,
+        yellow: 20,
+        red: 10,
+        unzoned: 10,
+        total: 10,
+      },
+    ]);
+    expect(trends.organic).toEqual([
+      { day: '2025-07-01', organicPercentage: null },
+      { day: '2025-07-02', organicPercentage: 30 },
+    ]);
+    expect(trends.daysWithFoods).toBe(1);
+  });
+
+  it('should lay out symptom counts per category and day', () => {
+    const { symptomHeatmap } = buildInsightTrends(
+      {
+        ...emptyRows,
+        symptoms: [
+          { day: '2025-07-01', category: 'digestion', count: 2 },
+          { day: '2025-07-02', category: 'digestion', count: 1 },
+          { day: '2025-07-02', category: 'sleep', count: 4 },
+        ],
+      },
+      { days: ['2025-07-01', '2025-07-02'] }
+    );
+
+    expect(symptomHeatmap.rows).toEqual([
+      { category: 'digestion', label: 'Digestion', counts: [2, 1] },
+      { category: 'energy', label: 'Energy', counts: [0, 0] },
+      { category: 'mind', label: 'Mind', counts: [0, 0] },
+      { category: 'recovery', label: 'Recovery', counts: [0, 0] },
+      { category: 'sleep', label: 'sleep', counts: [0, 4] },
+    ]);
+    expect(symptomHeatmap.max).toBe(4);
+  });
+
+  it('should bucket meal times by hour with untyped entries as other', () => {
+    const { mealTimes } = buildInsightTrends(
+      {
+        ...emptyRows,
+        mealTimes: [
+          { hour: 8, meal_type: 'breakfast', count: 5 },
+          { hour: 8, meal_type: null, count: 1 },
+          { hour: 19, meal_type: 'dinner', count: 3 },
+        ],
+      },
+      { days: [] }
+    );
+
+    expect(mealTimes).toHaveLength(24);
+    expect(mealTimes[8]).toMatchObject({
+      label: '8 AM',
+      breakfast: 5,
+      other: 1,
+    });
+    expect(mealTimes[19]).toMatchObject({ label: '7 PM', dinner: 3 });
+    expect(formatHour(0)).toBe('12 AM');
+    expect(formatHour(12)).toBe('12 PM');
+  });
+});
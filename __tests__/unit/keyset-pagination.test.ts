@@ -0,0 +1,37 @@
+/**
+ * Unit tests for keyset pagination of food and symptom entries
+ */
+
+import { getCursorFilter, toEntryPage } from '@/lib/pagination/keyset';
+
+const rows = [
+  { id: 'c', timestamp: '2025-07-04T12:00:00+00:00' },
+  { id: 'b', timestamp: '2025-07-04T12:00:00+00:00' },
+  { id: 'a', timestamp: '2025-07-03T08:30:00+00:00' },
+];
+
+describe('Keyset Pagination', () => {
+  it('should trim the extra row and point the cursor at the last item', () => {
+    const page = toEntryPage(rows, 2);
+
+    expect(page.items.map(row => row.id)).toEqual(['c', 'b']);
+    expect(page.nextCursor).toEqual({
+      id: 'b',
+      timestamp: '2025-07-04T12:00:00+00:00',
+    });
+  });
+
+  it('should end on a short page', () => {
+    expect(toEntryPage(rows, 3).nextCursor).toBeNull();
+    expect(toEntryPage([], 3)).toEqual({ items: [], nextCursor: null });
+  });
+
+  it('should continue after the cursor, breaking timestamp ties by id', () => {
+    expect(
+      getCursorFilter({ id: 'b', timestamp: '2025-07-04T12:00:00+00:00' })
+    ).toBe(
+      'timestamp.lt."2025-07-04T12:00:00+00:00",' +
+        'and(timestamp.eq."2025-07-04T12:00:00+00:00",id.lt."b")'
+    );
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for keeping product label callouts in food notes
+ */
+
+import { appendLabelCallouts } from '@/lib/products/label-notes';
+
+describe('Label Notes', () => {
+  const callouts = {
+    allergens: ['milk', 'soy'],
+    certifications: ['USDA Organic'],
+  };
+
+  it('should fill empty notes with the callouts', () => {
+    expect(appendLabelCallouts('', callouts)).toBe(
+      'Contains: milk, soy\nCertified: USDA Organic'
+    );
+  });
+
+  it('should add the callouts after notes the user wrote', () => {
+    expect(
+      appendLabelCallouts('Afternoon snack ', {
+        allergens: ['milk'],
+        certifications: [],
+      })
+    ).toBe('Afternoon snack\nContains: milk');
+  });
+
+  it('should not repeat callouts already in the notes', () => {
+    const notes = appendLabelCallouts('Snack', callouts);
+
+    expect(appendLabelCallouts(notes, callouts)).toBe(notes);
+    expect(
+      appendLabelCallouts('Snack', { allergens: [], certifications: [] })
+    ).toBe('Snack');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for quick-log meal suggestions
+ */
+
+import { normalizeMealName, suggestMeals } from '@/lib/meals/suggestions';
+import { APP_CONFIG } from '@/lib/config/constants';
+import type { Food, MealTemplate } from '@/lib/types';
+import { getDayBoundary } from '@/lib/utils/day-buckets';
+
+// Local-time timestamps and the device timezone, so time-of-day ranking
+// doesn't depend on the test machine
+const LOCAL = getDayBoundary();
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2025, 6, day, hour, minute).toISOString();
+
+const NOW = new Date(2025, 6, 20, 8, 0); // 8am
+
+let nextId = 0;
+const food = (
+  name: string,
+  timestamp: string,
+  overrides: Partial<Food> = {}
+): Food => ({
+  id: `food-${++nextId}`,
+  name,
+  timestamp,
+  ingredients: [
+    { name: 'oats', zone: 'green', organic: true, group: 'Grains' },
+  ],
+  status: 'processed',
+  ...overrides,
+});
+
+const template = (overrides: Partial<MealTemplate>): MealTemplate => ({
+  id: 'template-1',
+  name: 'Green smoothie',
+  ingredients: [
+    { name: 'kale', zone: 'green', organic: true, group: 'Greens' },
+  ],
+  meal_type: 'breakfast',
+  use_count: 0,
+  created_at: at(1, 9),
+  ...overrides,
+});
+
+describe('Meal Suggestions', () => {
+  it('should normalize names for grouping', () => {
+    expect(normalizeMealName('  Overnight   Oats ')).toBe('overnight oats');
+  });
+
+  it('should rank meals eaten around now above more frequent ones', () => {
+    const foods = [
+      // Porridge: 3 breakfasts
+      food('Porridge', at(17, 7, 30), { meal_type: 'breakfast' }),
+      food('porridge', at(18, 8, 15), { meal_type: 'breakfast' }),
+      food('Porridge', at(19, 9), { meal_type: 'breakfast' }),
+      // Chicken salad: 4 lunches
+      food('Chicken salad', at(16, 12)),
+      food('Chicken salad', at(17, 12)),
+      food('Chicken salad', at(18, 13)),
+      food('Chicken salad', at(19, 12)),
+    ];
+
+    const suggestions = suggestMeals(foods, [], LOCAL, NOW);
+
+    expect(suggestions.map(s => s.name)).toEqual(['Porridge', 'Chicken salad']);
+    expect(suggestions[0]).toMatchObject({
+      timesLogged: 3,
+      timesAroundNow: 3,
+      label: 'Your usual breakfast',
+      lastLoggedAt: at(19, 9),
+    });
+    expect(suggestions[1].label).toBeUndefined();
+  });
+
+  it('should wrap the time-of-day window around midnight', () => {
+    const lateNow = new Date(2025, 6, 20, 23, 30);
+    const foods = [
+      food('Tea', at(17, 0, 30)),
+      food('Tea', at(18, 23)),
+      food('Tea', at(19, 1)),
+    ];
+
+    expect(suggestMeals(foods, [], LOCAL, lateNow)[0]).toMatchObject({
+      timesAroundNow: 3,
+      label: 'Your usual snack',
+    });
+  });
+
+  it("should read times of day in the user's timezone", () => {
+    // 7am in Tokyo, whatever the device's timezone
+    const tokyo = { timeZone: 'Asia/Tokyo', startHour: 0 };
+    const foods = [16, 17, 18].map(day =>
+      food('Miso soup', `2025-07-${day}T22:00:00.000Z`)
+    );
+
+    expect(
+      suggestMeals(foods, [], tokyo, new Date('2025-07-19T23:00:00.000Z'))[0]
+    ).toMatchObject({ timesAroundNow: 3, label: 'Your usual breakfast' });
+  });
+
+  it('should skip one-offs, unprocessed and old entries', () => {
+    const lookbackStart = new Date(NOW);
+    lookbackStart.setDate(
+      lookbackStart.getDate() - APP_CONFIG.MEAL.SUGGESTION_LOOKBACK_DAYS - 1
+    );
+    const foods = [
+      food('Birthday cake', at(18, 8)),
+      food('Toast', at(18, 8), { status: 'analyzing' }),
+      food('Toast', at(19, 8), { status: 'analyzing' }),
+      food('Eggs', lookbackStart.toISOString()),
+      food('Eggs', at(19, 8)),
+      food('Empty', at(18, 8), { ingredients: [] }),
+      food('Empty', at(19, 8), { ingredients: [] }),
+    ];
+
+    expect(suggestMeals(foods, [], LOCAL, NOW)).toEqual([]);
+  });
+
+  it('should let templates back suggestions and keep their history', () => {
+    const foods = [
+      food('Green Smoothie', at(18, 8)),
+      food('green smoothie', at(19, 8)),
+    ];
+
+    const [suggestion] = suggestMeals(foods, [template({})], LOCAL, NOW);
+
+    expect(suggestion).toMatchObject({
+      name: 'Green smoothie',
+      templateId: 'template-1',
+      timesLogged: 2,
+      ingredients: [expect.objectContaining({ name: 'kale' })],
+    });
+  });
+
+  it('should offer unused templates and cap the list', () => {
+    const templates = Array.from({ length: 8 }, (_, i) =>
+      template({ id: `template-${i}`, name: `Meal ${i}` })
+    );
+
+    const suggestions = suggestMeals([], templates, LOCAL, NOW);
+
+    expect(suggestions).toHaveLength(APP_CONFIG.MEAL.MAX_SUGGESTIONS);
+    expect(suggestions.every(s => s.templateId && s.timesLogged === 0)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for meal timing and timing hypotheses
+ */
+
+import {
+  computeTimingCorrelations,
+  testTimingHypothesis,
+} from '@/lib/insights/correlation';
+import {
+  buildMealTimings,
+  formatClockMinutes,
+  summarizeMealTiming,
+} from '@/lib/insights/meal-timing';
+import type { Food, Symptom } from '@/lib/types';
+
+const UTC = { timeZone: 'UTC', startHour: 0 };
+const UTC_4AM = { timeZone: 'UTC', startHour: 4 };
+
+const food = (timestamp: string, mealType?: Food['meal_type']): Food => ({
+  id: timestamp,
+  name: 'Meal',
+  timestamp,
+  ingredients: [],
+  status: 'processed',
+  meal_type: mealType,
+});
+
+const restless = (timestamp: string): Symptom => ({
+  id: timestamp,
+  symptom_id: 'restlessness',
+  category: 'energy',
+  name: 'Restlessness',
+  timestamp,
+});
+
+describe('Meal Timing', () => {
+  it('should measure the eating window and overnight fast, skipping beverages', () => {
+    const timings = buildMealTimings(
+      [
+        food('2025-07-01T08:00:00.000Z'),
+        food('2025-07-01T13:00:00.000Z'),
+        food('2025-07-01T19:30:00.000Z'),
+        food('2025-07-01T22:00:00.000Z', 'beverage'),
+        food('2025-07-02T07:30:00.000Z'),
+        food('2025-07-02T21:15:00.000Z'),
+      ],
+      UTC
+    );
+
+    expect(timings).toEqual([
+      expect.objectContaining({
+        day: '2025-07-01',
+        meals: 3,
+        firstMealMinutes: 8 * 60,
+        lastMealMinutes: 19 * 60 + 30,
+        eatingWindowMinutes: 11 * 60 + 30,
+        overnightFastMinutes: null,
+        lateNight: false,
+      }),
+      expect.objectContaining({
+        day: '2025-07-02',
+        meals: 2,
+        eatingWindowMinutes: 13 * 60 + 45,
+        overnightFastMinutes: 12 * 60,
+        lateNight: true,
+      }),
+    ]);
+  });
+
+  it('should count an after-midnight snack as the previous day, late', () => {
+    const timings = buildMealTimings(
+      [
+        food('2025-07-01T08:00:00.000Z'),
+        food('2025-07-01T23:00:00.000Z'),
+        food('2025-07-02T09:00:00.000Z'),
+        food('2025-07-03T01:00:00.000Z'),
+      ],
+      UTC_4AM
+    );
+
+    expect(timings.map(({ day, lateNight }) => ({ day, lateNight }))).toEqual([
+      { day: '2025-07-01', lateNight: true },
+      { day: '2025-07-02', lateNight: true },
+    ]);
+    expect(timings[1].overnightFastMinutes).toBe(10 * 60);
+
+    // 11 PM and 1 AM average to midnight, not to noon
+    expect(summarizeMealTiming(timings, UTC_4AM)).toEqual({
+      days: 2,
+      averageFirstMealMinutes: 8 * 60 + 30,
+      averageLastMealMinutes: 0,
+      averageEatingWindowMinutes: 15 * 60 + 30,
+      averageOvernightFastMinutes: 10 * 60,
+      lateNightDays: 2,
+    });
+    expect(formatClockMinutes(0)).toBe('12:00 AM');
+    expect(formatClockMinutes(20 * 60 + 5)).toBe('8:05 PM');
+  });
+
+  it('should test whether late dinners precede a symptom', () => {
+    const foods = [1, 2, 3, 4, 5, 6].map(day =>
+      food(`2025-07-0${day}T${day <= 3 ? '22' : '18'}:00:00.000Z`)
+    );
+    const symptoms = [2, 3, 4].map(day =>
+      restless(`2025-07-0${day}T03:00:00.000Z`)
+    );
+    const timings = buildMealTimings(foods, UTC);
+
+    const result = testTimingHypothesis(timings, symptoms, {
+      exposure: 'late_eating',
+      target: 'restlessness',
+      targetType: 'symptom',
+    });
+
+    expect(result).toMatchObject({
+      targetName: 'Restlessness',
+      exposures: 3,
+      support: 3,
+      exposedRate: 1,
+      baselineRate: 0,
+    });
+    expect(result!.confidence).toBeGreaterThan(0);
+
+    expect(
+      computeTimingCorrelations(timings, symptoms).map(
+        ({ exposure, target }) => `${exposure}:${target}`
+      )
+    ).toEqual(['late_eating:energy', 'late_eating:restlessness']);
+  });
+
+  it('should not test a pattern seen on every day or never', () => {
+    const timings = buildMealTimings(
+      [food('2025-07-01T12:00:00.000Z'), food('2025-07-02T12:00:00.000Z')],
+      UTC
+    );
+
+    expect(
+      testTimingHypothesis(timings, [], {
+        exposure: 'late_eating',
+        target: 'restlessness',
+        targetType: 'symptom',
+      })
+    ).toBeNull();
+  });
+});
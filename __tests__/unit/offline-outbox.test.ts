@@ -0,0 +1,211 @@
+/**
+ * Unit tests for the offline outbox helpers
+ * IndexedDB itself isn't available under jsdom; these cover the pure overlay
+ * and error classification used by db.ts and the dashboard hook
+ */
+
+import {
+  applyPendingOperations,
+  isOfflineError,
+  type OutboxEntry,
+} from '@/lib/offline/outbox';
+import type { Food, Symptom } from '@/lib/types';
+
+const storedFood: Food = {
+  id: 'food-1',
+  name: 'Oatmeal',
+  timestamp: '2025-07-01T08:00:00.000Z',
+  ingredients: [{ name: 'oats', zone: 'green', organic: true }],
+  status: 'processed',
+};
+
+const storedSymptom: Symptom = {
+  id: 'symptom-1',
+  symptom_id: 'bloating',
+  name: 'Bloating',
+  category: 'digestion',
+  timestamp: '2025-07-01T09:00:00.000Z',
+};
+
+function entry(operation: OutboxEntry['operation'], seq: number): OutboxEntry {
+  return {
+    seq,
+    operation,
+    createdAt: '2025-07-01T12:00:00.000Z',
+    attempts: 0,
+  };
+}
+
+describe('Offline Outbox', () => {
+  describe('isOfflineError', () => {
+    it('should recognise browser fetch failures', () => {
+      expect(isOfflineError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(
+        isOfflineError({ message: 'TypeError: NetworkError when fetching' })
+      ).toBe(true);
+      expect(isOfflineError(new Error('Load failed'))).toBe(true);
+    });
+
+    it('should treat unreachable auth and fetch errors as offline', () => {
+      expect(
+        isOfflineError(
+          Object.assign(new Error('fetch failed'), {
+            name: 'AuthRetryableFetchError',
+            status: 0,
+          })
+        )
+      ).toBe(true);
+      expect(isOfflineError(new TypeError('fetch failed'))).toBe(true);
+      expect(isOfflineError(new Error('User not authenticated'))).toBe(false);
+    });
+
+    it('should not treat server errors as offline', () => {
+      expect(isOfflineError(new Error('permission denied'))).toBe(false);
+      expect(isOfflineError({ code: '23505', message: 'duplicate key' })).toBe(
+        false
+      );
+      expect(isOfflineError(null)).toBe(false);
+    });
+  });
+
+  describe('applyPendingOperations', () => {
+    it('should return the inputs unchanged when nothing is queued', () => {
+      const foods = [storedFood];
+      const symptoms = [storedSymptom];
+
+      const result = applyPendingOperations(foods, symptoms, []);
+
+      expect(result.foods).toBe(foods);
+      expect(result.symptoms).toBe(symptoms);
+    });
+
+    it('should add queued foods newest first with dictionary zoning', () => {
+      const result = applyPendingOperations(
+        [storedFood],
+        [],
+        [
+          entry(
+            {
+              type: 'addFood',
+              foodId: 'food-2',
+              timestamp: '2025-07-01T13:00:00.000Z',
+              food: {
+                name: 'Lunch',
+                ingredients: [{ name: 'Broccoli', zone: 'unzoned' }],
+                images: ['data:image/jpeg;base64,abc'],
+              },
+            },
+            1
+          ),
+        ]
+      );
+
+      expect(result.foods.map(f => f.id)).toEqual(['food-2', 'food-1']);
+      const pending = result.foods[0];
+      expect(pending.pending_sync).toBe(true);
+      expect(pending.photo_url).toBe('data:image/jpeg;base64,abc');
+      expect(pending).not.toHaveProperty('images');
+      expect(pending.ingredients[0].zone).toBe('green');
+      expect(pending.status).toBe('processed');
+    });
+
+    it('should leave foods with unknown ingredients analyzing', () => {
+      const result = applyPendingOperations(
+        [],
+        [],
+        [
+          entry(
+            {
+              type: 'addFood',
+              foodId: 'food-2',
+              timestamp: '2025-07-01T13:00:00.000Z',
+              food: {
+                name: 'Lunch',
+                ingredients: [{ name: 'mystery sauce', zone: 'unzoned' }],
+              },
+            },
+            1
+          ),
+        ]
+      );
+
+      expect(result.foods[0].status).toBe('analyzing');
+    });
+
+    it('should filter added entries with includeAdded', () => {
+      const result = applyPendingOperations(
+        [],
+        [],
+        [
+          entry(
+            {
+              type: 'addSymptoms',
+              symptoms: [
+                {
+                  id: 'symptom-2',
+                  symptom_id: 'headache',
+                  name: 'Headache',
+                  category: 'mind',
+                  timestamp: '2025-06-30T09:00:00.000Z',
+                },
+                {
+                  id: 'symptom-3',
+                  symptom_id: 'fatigue',
+                  name: 'Fatigue',
+                  category: 'energy',
+                  timestamp: '2025-07-01T10:00:00.000Z',
+                },
+              ],
+            },
+            1
+          ),
+        ],
+        timestamp => timestamp.startsWith('2025-07-01')
+      );
+
+      expect(result.symptoms).toEqual([
+        expect.objectContaining({ id: 'symptom-3', pending_sync: true }),
+      ]);
+    });
+
+    it('should merge queued updates and drop queued deletes in order', () => {
+      const result = applyPendingOperations(
+        [storedFood],
+        [storedSymptom],
+        [
+          entry(
+            {
+              type: 'updateFood',
+              foodId: 'food-1',
+              updates: { notes: 'with berries' },
+            },
+            1
+          ),
+          entry({ type: 'deleteSymptom', symptomId: 'symptom-1' }, 2),
+        ]
+      );
+
+      expect(result.foods[0]).toMatchObject({
+        id: 'food-1',
+        notes: 'with berries',
+        pending_sync: true,
+      });
+      expect(result.symptoms).toEqual([]);
+    });
+
+    it('should leave out entries that were set aside', () => {
+      const result = applyPendingOperations(
+        [storedFood],
+        [storedSymptom],
+        [
+          {
+            ...entry({ type: 'deleteSymptom', symptomId: 'symptom-1' }, 1),
+            deadLettered: true,
+          },
+        ]
+      );
+
+      expect(result.symptoms).toEqual([storedSymptom]);
+    });
+  });
+});
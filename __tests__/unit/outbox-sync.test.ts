@@ -0,0 +1,143 @@
+/**
+ * Unit tests for replaying the offline outbox
+ * The IndexedDB store is mocked; replayed writes go to the mock Supabase client
+ */
+
+import { syncOutbox } from '@/lib/db';
+import {
+  getOutboxEntries,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type OutboxEntry,
+} from '@/lib/offline/outbox';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { mockSupabaseClient } from '../setup/jest.setup';
+
+jest.mock('@/lib/offline/outbox', () => ({
+  ...jest.requireActual('@/lib/offline/outbox'),
+  getOutboxEntries: jest.fn(),
+  removeOutboxEntry: jest.fn(),
+  updateOutboxEntry: jest.fn(),
+}));
+
+const { MAX_SYNC_ATTEMPTS } = APP_CONFIG.OFFLINE;
+
+const addSymptom = (id: string, seq: number, attempts = 0): OutboxEntry => ({
+  seq,
+  operation: {
+    type: 'addSymptoms',
+    symptoms: [
+      {
+        id,
+        symptom_id: 'bloating',
+        name: 'Bloating',
+        category: 'digestion',
+        timestamp: '2025-07-01T09:00:00.000Z',
+      },
+    ],
+  },
+  createdAt: '2025-07-01T09:00:00.000Z',
+  attempts,
+});
+
+const deleteSymptom = (id: string, seq: number): OutboxEntry => ({
+  seq,
+  operation: { type: 'deleteSymptom', symptomId: id },
+  createdAt: '2025-07-01T10:00:00.000Z',
+  attempts: 0,
+});
+
+describe('Offline Outbox Sync', () => {
+  const deleted: string[] = [];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    deleted.length = 0;
+
+    mockSupabaseClient.auth.getSession.mockResolvedValue({
+      data: { session: { user: { id: 'test-user-id' } } },
+      error: null,
+    });
+
+    // Inserting 'rejected' fails on the server; everything else lands
+    mockSupabaseClient.from.mockImplementation(() => ({
+      insert: jest.fn((rows: { id: string }[]) => ({
+        select: jest.fn().mockResolvedValue(
+          rows.some(row => row.id === 'rejected')
+            ? {
+                data: null,
+                error: { message: 'permission denied', code: '42501' },
+              }
+            : { data: rows.map(row => ({ id: row.id })), error: null }
+        ),
+      })),
+      delete: jest.fn(() => ({
+        eq: jest.fn((_column: string, id: string) => {
+          deleted.push(id);
+          return Promise.resolve({ error: null });
+        }),
+      })),
+    }));
+  });
+
+  it('should stop at a failed entry so later writes wait for it', async () => {
+    (getOutboxEntries as jest.Mock).mockResolvedValue([
+      addSymptom('rejected', 1),
+      deleteSymptom('rejected', 2),
+      addSymptom('symptom-2', 3),
+    ]);
+
+    const result = await syncOutbox();
+
+    expect(result).toEqual({ synced: 0, failed: 1, deadLettered: 0 });
+    expect(updateOutboxEntry).toHaveBeenCalledTimes(1);
+    expect(updateOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        seq: 1,
+        attempts: 1,
+        lastError: 'permission denied',
+        deadLettered: false,
+      })
+    );
+    expect(deleted).toEqual([]);
+    expect(removeOutboxEntry).not.toHaveBeenCalled();
+  });
+
+  it('should set aside an entry out of attempts, with later writes to the same entry', async () => {
+    (getOutboxEntries as jest.Mock).mockResolvedValue([
+      addSymptom('rejected', 1, MAX_SYNC_ATTEMPTS - 1),
+      deleteSymptom('rejected', 2),
+      addSymptom('symptom-2', 3),
+    ]);
+
+    const result = await syncOutbox();
+
+    expect(result).toEqual({ synced: 1, failed: 0, deadLettered: 2 });
+    expect(updateOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        seq: 1,
+        attempts: MAX_SYNC_ATTEMPTS,
+        deadLettered: true,
+      })
+    );
+    expect(updateOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ seq: 2, deadLettered: true })
+    );
+    // The delete never ran against a symptom that was never added
+    expect(deleted).toEqual([]);
+    expect(removeOutboxEntry).toHaveBeenCalledWith(3);
+  });
+
+  it('should skip writes behind an entry that was already set aside', async () => {
+    (getOutboxEntries as jest.Mock).mockResolvedValue([
+      { ...addSymptom('rejected', 1, MAX_SYNC_ATTEMPTS), deadLettered: true },
+      deleteSymptom('rejected', 2),
+      deleteSymptom('symptom-2', 3),
+    ]);
+
+    const result = await syncOutbox();
+
+    expect(result).toEqual({ synced: 1, failed: 0, deadLettered: 1 });
+    expect(deleted).toEqual(['symptom-2']);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for portion parsing and quantity-weighted zone statistics
+ */
+
+import {
+  calculateFoodStats,
+  formatPortion,
+  formatWeightedTotal,
+  getZoneTotals,
+  parsePortion,
+  scaleIngredient,
+} from '@/lib/portions/portions';
+import type { Ingredient } from '@/lib/types';
+
+const ingredient = (
+  name: string,
+  zone: Ingredient['zone'],
+  portion: Pick<Ingredient, 'quantity' | 'unit'> = {},
+  organic = false
+): Ingredient => ({ name, zone, organic, group: 'other', ...portion });
+
+// A big plate of greens with a pinch of salt and a splash of soda
+const meal = [
+  ingredient('spinach', 'green', { quantity: 2, unit: 'cup' }, true),
+  ingredient('salt', 'red', { quantity: 1, unit: 'g' }),
+  ingredient('soda', 'red', { quantity: 39, unit: 'ml' }),
+];
+
+describe('Portions', () => {
+  describe('parsePortion', () => {
+    it('should normalize unit aliases and round quantities', () => {
+      expect(parsePortion('150', 'grams')).toEqual({
+        quantity: 150,
+        unit: 'g',
+      });
+      expect(parsePortion(1.333, 'Cups')).toEqual({
+        quantity: 1.33,
+        unit: 'cup',
+      });
+    });
+
+    it('should drop unusable portions', () => {
+      expect(parsePortion(0, 'g')).toBeUndefined();
+      expect(parsePortion(-2, 'piece')).toBeUndefined();
+      expect(parsePortion(20000, 'g')).toBeUndefined();
+      expect(parsePortion(100, 'handful')).toBeUndefined();
+      expect(parsePortion(undefined, 'g')).toBeUndefined();
+    });
+  });
+
+  it('should format portions with plural units', () => {
+    expect(formatPortion({ quantity: 150, unit: 'g' })).toBe('150 g');
+    expect(formatPortion({ quantity: 1, unit: 'cup' })).toBe('1 cup');
+    expect(formatPortion({ quantity: 2, unit: 'piece' })).toBe('2 pieces');
+    expect(formatPortion({})).toBeNull();
+  });
+
+  describe('zone totals', () => {
+    it('should count ingredients by default', () => {
+      expect(getZoneTotals(meal)).toEqual({
+        green: 1,
+        yellow: 0,
+        red: 2,
+        unzoned: 0,
+        organic: 1,
+        total: 3,
+      });
+    });
+
+    it('should weigh ingredients by approximate grams', () => {
+      const stats = calculateFoodStats(meal, 'quantity');
+      expect(stats).toMatchObject({
+        greenIngredients: 480,
+        redIngredients: 40,
+        totalIngredients: 520,
+        weighting: 'quantity',
+      });
+      expect(stats.totalOrganicPercentage).toBeCloseTo(92.3, 1);
+    });
+
+    it('should treat ingredients without a portion as a default serving', () => {
+      expect(
+        getZoneTotals([ingredient('apple', 'green')], 'quantity').green
+      ).toBe(100);
+    });
+  });
+
+  it('should scale known portions only', () => {
+    expect(
+      scaleIngredient(
+        ingredient('rice', 'yellow', { quantity: 1, unit: 'cup' }),
+        1.5
+      ).quantity
+    ).toBe(1.5);
+    expect(scaleIngredient(ingredient('pepper', 'green'), 2).quantity).toBe(
+      undefined
+    );
+  });
+
+  it('should label weighted totals', () => {
+    expect(formatWeightedTotal(1)).toBe('1 ingredient');
+    expect(formatWeightedTotal(519.6, 'quantity')).toBe('~520 g');
+  });
+});
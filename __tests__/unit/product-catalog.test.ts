@@ -0,0 +1,140 @@
+/**
+ * Unit tests for barcode product catalog lookups
+ * Covers ingredient parsing and the local and Open Food Facts providers
+ */
+
+import {
+  createLocalCatalogProvider,
+  createOpenFoodFactsProvider,
+  getProductCatalog,
+  lookupProduct,
+  parseIngredientList,
+  setProductCatalog,
+} from '@/lib/products/catalog';
+import { mockProducts } from '@/__tests__/fixtures/products';
+
+describe('Product Catalog', () => {
+  describe('parseIngredientList', () => {
+    it('should split on commas outside brackets', () => {
+      expect(parseIngredientList('Water, sugar (cane, beet), salt.')).toEqual([
+        'Water',
+        'sugar (cane, beet)',
+        'salt',
+      ]);
+    });
+
+    it('should strip allergen markers and empty entries', () => {
+      expect(parseIngredientList('_milk_, *wheat* flour;; ')).toEqual([
+        'milk',
+        'wheat flour',
+      ]);
+    });
+  });
+
+  describe('createLocalCatalogProvider', () => {
+    const provider = createLocalCatalogProvider(mockProducts);
+
+    it('should find a product by EAN-13', async () => {
+      const product = await provider.lookup('4006381333931');
+      expect(product).toMatchObject({
+        name: 'Oat Crackers',
+        brand: 'Hearty Mill',
+        source: 'local',
+      });
+    });
+
+    it('should match UPC-A codes in either form', async () => {
+      const fromUpc = await provider.lookup('036000291452');
+      const fromEan = await provider.lookup('0036000291452');
+      expect(fromUpc?.name).toBe('Tomato Soup');
+      expect(fromEan?.barcode).toBe('0036000291452');
+    });
+
+    it('should return null for unknown barcodes', async () => {
+      expect(await provider.lookup('5901234123457')).toBeNull();
+    });
+  });
+
+  describe('createOpenFoodFactsProvider', () => {
+    const originalFetch = global.fetch;
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      global.fetch = mockFetch as unknown as typeof fetch;
+    });
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should map an Open Food Facts product', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          status: 1,
+          product: {
+            product_name: 'Granola',
+            brands: 'Acme, Acme Foods',
+            ingredients_text_en: 'Oats, honey, almonds (12%).',
+          },
+        }),
+      });
+
+      const product =
+        await createOpenFoodFactsProvider('https://off.test').lookup(
+          '036000291452'
+        );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'https://off.test/api/v2/product/0036000291452.json'
+        )
+      );
+      expect(product).toEqual({
+        barcode: '0036000291452',
+        name: 'Granola',
+        brand: 'Acme',
+        ingredients: ['Oats', 'honey', 'almonds (12%)'],
+        source: 'openfoodfacts',
+      });
+    });
+
+    it('should return null when the product is unknown', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ status: 0 }),
+      });
+
+      expect(
+        await createOpenFoodFactsProvider().lookup('4006381333931')
+      ).toBeNull();
+    });
+
+    it('should throw when the catalog is unavailable', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+      await expect(
+        createOpenFoodFactsProvider().lookup('4006381333931')
+      ).rejects.toThrow('Product lookup failed (503)');
+    });
+  });
+
+  describe('lookupProduct', () => {
+    const defaultProvider = getProductCatalog();
+
+    afterEach(() => {
+      setProductCatalog(defaultProvider);
+    });
+
+    it('should use the configured catalog provider', async () => {
+      setProductCatalog(createLocalCatalogProvider(mockProducts));
+
+      const product = await lookupProduct('96385074');
+      expect(product?.name).toBe('Dark Chocolate');
+      expect(getProductCatalog().name).toBe('local');
+    });
+  });
+});
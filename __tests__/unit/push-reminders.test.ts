@@ -0,0 +1,236 @@
+/**
+ * Unit tests for reminder timing and Web Push delivery via the mock push service
+ */
+
+import {
+  formatMinutesOfDay,
+  getDueReminders,
+  getUsualMealTimes,
+  type ReminderFood,
+} from '@/lib/push/reminders';
+import {
+  createPushSender,
+  generateVapidKeys,
+  isAllowedPushEndpoint,
+  type VapidKeys,
+} from '@/lib/push/web-push';
+import { createMockPushService } from '@/lib/push/mock-push-service';
+
+const TZ = 'Europe/Berlin'; // UTC+2 in July
+const boundary = { timeZone: TZ, startHour: 0 };
+
+const meal = (
+  id: string,
+  timestamp: string,
+  meal_type: ReminderFood['meal_type'] = 'lunch'
+): ReminderFood => ({
+  id,
+  name: 'Salad',
+  timestamp,
+  meal_type,
+  ingredients: [
+    { name: 'lettuce', organic: false, group: 'vegetable', zone: 'green' },
+  ],
+});
+
+// Lunch around 12:30 local on three previous days
+const lunchHistory = [
+  meal('l1', '2025-07-01T10:20:00Z'),
+  meal('l2', '2025-07-02T10:30:00Z'),
+  meal('l3', '2025-07-03T10:45:00Z'),
+];
+
+const remindersOn = { reminders: true, dailySummary: false };
+
+describe('Push Reminders', () => {
+  it('should learn usual meal times once a meal has enough history', () => {
+    expect(getUsualMealTimes(lunchHistory, TZ)).toEqual({
+      lunch: 12 * 60 + 30,
+    });
+    expect(getUsualMealTimes(lunchHistory.slice(0, 2), TZ)).toEqual({});
+    expect(formatMinutesOfDay(12 * 60 + 30)).toBe('12:30 PM');
+  });
+
+  it('should remind about a meal not logged by its usual time', () => {
+    const reminders = getDueReminders({
+      now: new Date('2025-07-04T11:20:00Z'), // 13:20 local
+      boundary,
+      notifications: remindersOn,
+      foods: lunchHistory,
+      symptoms: [],
+    });
+
+    expect(reminders).toEqual([
+      expect.objectContaining({
+        key: 'meal:lunch:2025-07-04',
+        title: 'Log your lunch',
+      }),
+    ]);
+  });
+
+  it('should not remind once the meal is logged or the window has passed', () => {
+    const base = {
+      boundary,
+      notifications: remindersOn,
+      symptoms: [],
+    };
+
+    expect(
+      getDueReminders({
+        ...base,
+        now: new Date('2025-07-04T11:20:00Z'),
+        foods: [...lunchHistory, meal('today', '2025-07-04T10:00:00Z')],
+      }).filter(r => r.kind === 'meal')
+    ).toEqual([]);
+    expect(
+      getDueReminders({
+        ...base,
+        now: new Date('2025-07-04T12:30:00Z'), // 14:30 local
+        foods: lunchHistory,
+      })
+    ).toEqual([]);
+  });
+
+  it('should ask how the user feels 3h after a meal without symptoms since', () => {
+    const dinner = meal('d1', '2025-07-04T17:00:00Z', 'dinner');
+    const now = new Date('2025-07-04T20:10:00Z');
+    const context = { now, boundary, notifications: remindersOn };
+
+    expect(
+      getDueReminders({ ...context, foods: [dinner], symptoms: [] })
+    ).toEqual([
+      expect.objectContaining({
+        key: 'symptom-check:d1',
+        title: 'How do you feel 3h after dinner?',
+      }),
+    ]);
+    expect(
+      getDueReminders({
+        ...context,
+        foods: [dinner],
+        symptoms: [{ timestamp: '2025-07-04T19:00:00Z' }],
+      })
+    ).toEqual([]);
+  });
+
+  it('should send the daily summary only when enabled and something was logged', () => {
+    const today = meal('t1', '2025-07-04T10:00:00Z');
+    const now = new Date('2025-07-04T20:15:00Z'); // 22:15 local, default 21:00 + 1h
+
+    const [summary] = getDueReminders({
+      now,
+      boundary,
+      notifications: { reminders: false, dailySummary: true },
+      foods: [today],
+      symptoms: [],
+    });
+    expect(summary).toMatchObject({
+      key: 'daily-summary:2025-07-04',
+      body: '1 entry today: 1 green, 0 yellow and 0 red ingredients.',
+    });
+
+    expect(
+      getDueReminders({
+        now,
+        boundary,
+        notifications: { reminders: true, dailySummary: false },
+        foods: [today],
+        symptoms: [{ timestamp: '2025-07-04T13:00:00Z' }],
+      })
+    ).toEqual([]);
+  });
+
+  describe('Web Push delivery', () => {
+    const vapid: VapidKeys = {
+      ...generateVapidKeys(),
+      subject: 'mailto:test@example.com',
+    };
+
+    it('should deliver an encrypted payload the subscription can read', async () => {
+      const service = createMockPushService();
+      const subscription = service.subscribe();
+      const send = createPushSender(vapid, service.fetch, service.hosts);
+
+      const result = await send(subscription, '{"title":"Log your lunch"}');
+
+      expect(result).toMatchObject({ status: 201, expired: false });
+      expect(service.deliveries).toEqual([
+        {
+          endpoint: subscription.endpoint,
+          ttl: 3600,
+          payload: '{"title":"Log your lunch"}',
+        },
+      ]);
+    });
+
+    it('should report expired subscriptions', async () => {
+      const service = createMockPushService();
+      const subscription = service.subscribe();
+      service.expire(subscription.endpoint);
+
+      const result = await createPushSender(
+        vapid,
+        service.fetch,
+        service.hosts
+      )(subscription, 'hi');
+
+      expect(result).toMatchObject({ status: 410, expired: true });
+    });
+
+    it('should be rejected when signed with another server key', async () => {
+      const service = createMockPushService();
+      const subscription = service.subscribe();
+      const forged = { ...vapid, publicKey: generateVapidKeys().publicKey };
+
+      await expect(
+        createPushSender(
+          forged,
+          service.fetch,
+          service.hosts
+        )(subscription, 'hi')
+      ).rejects.toThrow('Push service responded with 403');
+      expect(service.deliveries).toEqual([]);
+    });
+
+    it('should only accept https endpoints on known push services', () => {
+      expect(
+        isAllowedPushEndpoint('https://fcm.googleapis.com/fcm/send/abc')
+      ).toBe(true);
+      expect(
+        isAllowedPushEndpoint(
+          'https://updates.push.services.mozilla.com/wpush/v2/abc'
+        )
+      ).toBe(true);
+      expect(isAllowedPushEndpoint('https://web.push.apple.com/abc')).toBe(
+        true
+      );
+
+      [
+        'http://fcm.googleapis.com/fcm/send/abc',
+        'https://fcm.googleapis.com:8443/fcm/send/abc',
+        'https://localhost/push',
+        'https://127.0.0.1/push',
+        'https://169.254.169.254/latest/meta-data',
+        'https://10.0.0.5/push',
+        'https://[::1]/push',
+        'https://fcm.googleapis.com.evil.example/push',
+        'https://evilfcm.googleapis.com.example/push',
+      ].forEach(endpoint =>
+        expect(isAllowedPushEndpoint(endpoint)).toBe(false)
+      );
+    });
+
+    it('should not post to subscriptions outside the push services', async () => {
+      const service = createMockPushService();
+      const subscription = service.subscribe();
+
+      const result = await createPushSender(vapid, service.fetch)(
+        subscription,
+        'hi'
+      );
+
+      expect(result).toMatchObject({ status: 0, expired: true });
+      expect(service.deliveries).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for recipe expansion and change review
+ * Cycle prevention for stored recipes lives in the recipes trigger (migration 021)
+ */
+
+import {
+  createRecipeLink,
+  diffRecipeIngredients,
+  expandRecipe,
+  getNestableRecipes,
+  getRecipeRevision,
+  hasRecipeChangedSince,
+} from '@/lib/recipes/recipes';
+import type { Ingredient, Recipe } from '@/lib/types';
+
+const ingredient = (name: string, zone: Ingredient['zone'] = 'green') => ({
+  name,
+  zone,
+  organic: false,
+  group: 'other',
+});
+
+const recipe = (overrides: Partial<Recipe> & Pick<Recipe, 'id'>): Recipe => ({
+  name: overrides.id,
+  ingredients: [],
+  sub_recipe_ids: [],
+  created_at: '2025-07-01T00:00:00.000Z',
+  updated_at: '2025-07-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const vinaigrette = recipe({
+  id: 'vinaigrette',
+  ingredients: [ingredient('olive oil'), ingredient('vinegar', 'yellow')],
+  updated_at: '2025-07-05T00:00:00.000Z',
+});
+const salad = recipe({
+  id: 'salad',
+  ingredients: [ingredient('kale'), ingredient('Olive Oil')],
+  sub_recipe_ids: ['vinaigrette'],
+});
+const bowl = recipe({
+  id: 'bowl',
+  ingredients: [ingredient('rice', 'yellow')],
+  sub_recipe_ids: ['salad', 'missing'],
+});
+const recipes = [vinaigrette, salad, bowl];
+
+describe('Recipes', () => {
+  describe('expandRecipe', () => {
+    it('should include nested sub-recipes and list shared ingredients once', () => {
+      expect(expandRecipe(bowl, recipes).map(i => i.name)).toEqual([
+        'rice',
+        'kale',
+        'Olive Oil',
+        'vinegar',
+      ]);
+    });
+
+    it('should stop at cycles', () => {
+      const a = recipe({
+        id: 'a',
+        ingredients: [ingredient('x')],
+        sub_recipe_ids: ['b'],
+      });
+      const b = recipe({
+        id: 'b',
+        ingredients: [ingredient('y')],
+        sub_recipe_ids: ['a'],
+      });
+
+      expect(expandRecipe(a, [a, b]).map(i => i.name)).toEqual(['x', 'y']);
+    });
+
+    it('should scale portions and add up shared ingredients in the same unit', () => {
+      const dressing = recipe({
+        id: 'dressing',
+        ingredients: [{ ...ingredient('olive oil'), quantity: 10, unit: 'ml' }],
+      });
+      const greens = recipe({
+        id: 'greens',
+        ingredients: [
+          { ...ingredient('olive oil'), quantity: 5, unit: 'ml' },
+          { ...ingredient('kale'), quantity: 1, unit: 'cup' },
+          ingredient('salt'),
+        ],
+        sub_recipe_ids: ['dressing'],
+      });
+
+      expect(expandRecipe(greens, [dressing, greens], 2)).toEqual([
+        { ...ingredient('olive oil'), quantity: 30, unit: 'ml' },
+        { ...ingredient('kale'), quantity: 2, unit: 'cup' },
+        ingredient('salt'),
+      ]);
+    });
+  });
+
+  describe('change review', () => {
+    it('should date a recipe by its most recently edited sub-recipe', () => {
+      expect(getRecipeRevision(bowl, recipes)).toBe(vinaigrette.updated_at);
+    });
+
+    it('should flag foods logged before the latest revision', () => {
+      const link = createRecipeLink(salad, recipes, 1.5);
+      expect(link).toEqual({
+        recipe_id: 'salad',
+        recipe_scale: 1.5,
+        recipe_updated_at: vinaigrette.updated_at,
+      });
+      expect(hasRecipeChangedSince(link, recipes)).toBe(false);
+
+      const edited = { ...vinaigrette, updated_at: '2025-07-09T00:00:00.000Z' };
+      expect(hasRecipeChangedSince(link, [edited, salad, bowl])).toBe(true);
+    });
+
+    it('should ignore foods whose recipe is gone', () => {
+      expect(
+        hasRecipeChangedSince(
+          { recipe_id: 'deleted', recipe_updated_at: null },
+          recipes
+        )
+      ).toBe(false);
+    });
+
+    it('should list ingredients the latest recipe adds and drops', () => {
+      expect(
+        diffRecipeIngredients(
+          [ingredient('kale'), ingredient('feta')],
+          expandRecipe(salad, recipes)
+        )
+      ).toEqual({ added: ['Olive Oil', 'vinegar'], removed: ['feta'] });
+    });
+  });
+
+  describe('getNestableRecipes', () => {
+    it('should exclude the recipe itself and recipes that contain it', () => {
+      expect(getNestableRecipes('salad', recipes).map(r => r.id)).toEqual([
+        'vinaigrette',
+      ]);
+      expect(getNestableRecipes(undefined, recipes)).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for a reminder run against a stubbed Supabase client
+ * Which reminders are due is covered in push-reminders.test.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendDueReminders } from '@/lib/push/reminder-scheduler';
+import { getDueReminders } from '@/lib/push/reminders';
+
+jest.mock('@/lib/push/reminders', () => ({
+  getDueReminders: jest.fn(),
+}));
+
+const subscription = (endpoint: string) => ({
+  user_id: 'user-1',
+  endpoint,
+  p256dh: 'p256dh',
+  auth: 'auth',
+  timezone: 'UTC',
+});
+
+const reminder = (key: string) => ({
+  key,
+  title: 'Lunch',
+  body: 'Log your lunch',
+  url: '/app',
+});
+
+function createSupabaseStub(deleted: string[]) {
+  const rows: Record<string, unknown[]> = {
+    user_settings: [
+      {
+        user_id: 'user-1',
+        timezone: 'UTC',
+        day_boundary_hour: 0,
+        reminders_enabled: true,
+        daily_summary_enabled: true,
+      },
+    ],
+    push_subscriptions: [
+      subscription('https://fcm.googleapis.com/gone'),
+      subscription('https://fcm.googleapis.com/live'),
+    ],
+    foods: [],
+    symptoms: [],
+  };
+
+  // Every filter returns the same thenable, resolving to the table's rows
+  const query = (table: string) => {
+    const result = Promise.resolve({ data: rows[table], error: null });
+    const chain = Object.assign(result, {
+      select: () => chain,
+      or: () => chain,
+      in: () => chain,
+      eq: () => chain,
+      gte: () => chain,
+    });
+    return chain;
+  };
+
+  return {
+    from: (table: string) => ({
+      select: () => query(table),
+      insert: () => Promise.resolve({ error: null }),
+      delete: () => ({
+        eq: (_column: string, endpoint: string) => {
+          deleted.push(endpoint);
+          return Promise.resolve({ error: null });
+        },
+      }),
+    }),
+  } as unknown as SupabaseClient;
+}
+
+describe('Reminder Scheduler', () => {
+  it('should stop sending to a subscription once it has expired', async () => {
+    (getDueReminders as jest.Mock).mockReturnValue([
+      reminder('lunch:2025-07-04'),
+      reminder('summary:2025-07-04'),
+    ]);
+    const deleted: string[] = [];
+    const send = jest.fn(async ({ endpoint }: { endpoint: string }) => ({
+      status: endpoint.endsWith('/gone') ? 410 : 201,
+      expired: endpoint.endsWith('/gone'),
+    }));
+
+    const result = await sendDueReminders(createSupabaseStub(deleted), send);
+
+    expect(result).toEqual({ users: 1, sent: 2, expired: 1, failed: 0 });
+    expect(deleted).toEqual(['https://fcm.googleapis.com/gone']);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for symptom severity, duration and severity-weighted trends
+ */
+
+import {
+  UNRATED_SYMPTOM_SEVERITY,
+  describeSymptomIntensity,
+  formatSymptomDuration,
+  getSymptomDurationMinutes,
+  getSymptomSeverityWeight,
+  isSymptomSeverity,
+} from '@/lib/symptoms/symptom-index';
+import { buildSymptomTrends } from '@/lib/symptoms/symptom-trends';
+import type { Symptom } from '@/lib/types';
+
+const symptom = (overrides: Partial<Symptom>): Symptom => ({
+  id: 'symptom-1',
+  symptom_id: 'bloat',
+  name: 'Bloating',
+  category: 'digestion',
+  timestamp: '2025-07-01T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('Symptom Severity', () => {
+  describe('isSymptomSeverity', () => {
+    it('should accept whole numbers from 1 to 5 only', () => {
+      expect([1, 3, 5].every(isSymptomSeverity)).toBe(true);
+      expect([0, 6, 2.5, '3', null].some(isSymptomSeverity)).toBe(false);
+    });
+  });
+
+  describe('getSymptomSeverityWeight', () => {
+    it('should use the default weight for unrated entries', () => {
+      expect(getSymptomSeverityWeight(symptom({ severity: 5 }))).toBe(5);
+      expect(getSymptomSeverityWeight(symptom({}))).toBe(
+        UNRATED_SYMPTOM_SEVERITY
+      );
+      expect(getSymptomSeverityWeight(symptom({ severity: null }))).toBe(
+        UNRATED_SYMPTOM_SEVERITY
+      );
+    });
+  });
+
+  describe('getSymptomDurationMinutes', () => {
+    it('should measure from start to end', () => {
+      expect(
+        getSymptomDurationMinutes(
+          symptom({ ended_at: '2025-07-01T13:30:00.000Z' })
+        )
+      ).toBe(90);
+    });
+
+    it('should return null without a valid end time', () => {
+      expect(getSymptomDurationMinutes(symptom({}))).toBeNull();
+      expect(
+        getSymptomDurationMinutes(
+          symptom({ ended_at: '2025-07-01T11:00:00.000Z' })
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('describeSymptomIntensity', () => {
+    it('should combine severity and duration', () => {
+      expect(formatSymptomDuration(45)).toBe('45m');
+      expect(formatSymptomDuration(120)).toBe('2h');
+      expect(
+        describeSymptomIntensity(
+          symptom({ severity: 4, ended_at: '2025-07-01T13:30:00.000Z' })
+        )
+      ).toBe('Severe · 1h 30m');
+      expect(describeSymptomIntensity(symptom({}))).toBe('');
+    });
+  });
+
+  describe('buildSymptomTrends', () => {
+    it('should weight each day by severity instead of counting entries', () => {
+      const trends = buildSymptomTrends([
+        symptom({
+          id: 'b',
+          timestamp: '2025-07-02T09:00:00.000Z',
+          severity: 5,
+        }),
+        symptom({ id: 'a1', severity: 1 }),
+        symptom({
+          id: 'a2',
+          severity: 1,
+          ended_at: '2025-07-01T12:45:00.000Z',
+        }),
+        symptom({ id: 'a3', timestamp: '2025-07-01T18:00:00.000Z' }),
+      ]);
+
+      expect(trends).toEqual([
+        {
+          day: '2025-07-01',
+          count: 3,
+          severityScore: 1 + 1 + UNRATED_SYMPTOM_SEVERITY,
+          averageSeverity: 1.7,
+          ratedCount: 2,
+          durationMinutes: 45,
+        },
+        {
+          day: '2025-07-02',
+          count: 1,
+          severityScore: 5,
+          averageSeverity: 5,
+          ratedCount: 1,
+          durationMinutes: 0,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for user settings mapping and validation
+ */
+
+import {
+  DEFAULT_USER_SETTINGS,
+  formatDayBoundary,
+  fromUserSettingsRow,
+  isValidTimezone,
+  mergeUserSettings,
+  resolveTheme,
+  toUserSettingsRow,
+} from '@/lib/settings/user-settings';
+import { formatVolume } from '@/lib/hydration/hydration';
+import { formatWeightedTotal } from '@/lib/portions/portions';
+
+describe('User Settings', () => {
+  it('should fall back to defaults until the row exists', () => {
+    expect(fromUserSettingsRow(null)).toEqual(DEFAULT_USER_SETTINGS);
+  });
+
+  it('should map a stored row', () => {
+    expect(
+      fromUserSettingsRow({
+        water_goal_ml: 2500,
+        theme: 'system',
+        units: 'imperial',
+        timezone: 'Europe/Berlin',
+        day_boundary_hour: 3,
+        reminders_enabled: true,
+        daily_summary_enabled: false,
+      })
+    ).toEqual({
+      theme: 'system',
+      waterGoal: 2500,
+      units: 'imperial',
+      timezone: 'Europe/Berlin',
+      dayBoundaryHour: 3,
+      notifications: { reminders: true, dailySummary: false },
+    });
+  });
+
+  it('should write only the fields being changed', () => {
+    expect(toUserSettingsRow({ notifications: { reminders: true } })).toEqual({
+      reminders_enabled: true,
+    });
+    expect(
+      toUserSettingsRow({ waterGoal: 2130, timezone: null, theme: 'light' })
+    ).toEqual({ water_goal_ml: 2250, timezone: null, theme: 'light' });
+  });
+
+  it('should reject values the table would refuse', () => {
+    expect(() => toUserSettingsRow({ timezone: 'Mars/Olympus' })).toThrow(
+      'Unknown timezone: Mars/Olympus'
+    );
+    expect(() => toUserSettingsRow({ dayBoundaryHour: 7 })).toThrow(
+      'Day boundary must be a whole hour between 0 and 6'
+    );
+    expect(() => toUserSettingsRow({ units: 'nautical' as 'metric' })).toThrow(
+      'Unknown units: nautical'
+    );
+    expect(isValidTimezone('America/New_York')).toBe(true);
+  });
+
+  it('should merge partial notification updates', () => {
+    const merged = mergeUserSettings(DEFAULT_USER_SETTINGS, {
+      notifications: { dailySummary: true },
+    });
+
+    expect(merged.notifications).toEqual({
+      reminders: false,
+      dailySummary: true,
+    });
+  });
+
+  it('should resolve the system theme from the OS preference', () => {
+    expect(resolveTheme('system', true)).toBe('dark');
+    expect(resolveTheme('system', false)).toBe('light');
+    expect(resolveTheme('light', true)).toBe('light');
+  });
+
+  it('should format amounts and hours for the chosen units', () => {
+    expect(formatVolume(250, 'imperial')).toBe('8 fl oz');
+    expect(formatWeightedTotal(454, 'quantity', 'imperial')).toBe('~16 oz');
+    expect(formatDayBoundary(0)).toBe('Midnight');
+    expect(formatDayBoundary(4)).toBe('4 AM');
+  });
+});
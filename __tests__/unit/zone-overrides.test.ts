@@ -0,0 +1,136 @@
+/**
+ * Unit tests for personal zone overrides
+ * Covers precedence, reverting removed overrides and the food-level helper
+ */
+
+import {
+  applyZoneOverrides,
+  applyZoneOverridesToFoods,
+  findZoneOverride,
+} from '@/lib/zoning/overrides';
+import type { Food, Ingredient, ZoneOverride } from '@/lib/types';
+
+const override = (
+  target_type: ZoneOverride['target_type'],
+  target: string,
+  zone: ZoneOverride['zone']
+): ZoneOverride => ({
+  id: `${target_type}-${target}`,
+  target_type,
+  target,
+  zone,
+  created_at: '2025-07-01T12:00:00.000Z',
+});
+
+const milk: Ingredient = {
+  name: 'Whole Milk',
+  organic: false,
+  category: 'Dairy',
+  group: 'Conventional Dairy',
+  zone: 'yellow',
+  zoneSource: 'dictionary',
+};
+
+const whiteRice: Ingredient = {
+  name: 'white rice',
+  organic: false,
+  category: 'Grains',
+  group: 'Refined Grain Products',
+  zone: 'red',
+  zoneSource: 'ai',
+};
+
+describe('Zone Overrides', () => {
+  describe('findZoneOverride', () => {
+    it('should match groups case-insensitively', () => {
+      const dairy = override('group', 'conventional dairy', 'red');
+
+      expect(findZoneOverride(milk, [dairy])).toBe(dairy);
+    });
+
+    it('should prefer an ingredient override over its group', () => {
+      const dairy = override('group', 'conventional dairy', 'red');
+      const wholeMilk = override('ingredient', 'whole milk', 'green');
+
+      expect(findZoneOverride(milk, [dairy, wholeMilk])).toBe(wholeMilk);
+    });
+  });
+
+  describe('applyZoneOverrides', () => {
+    it('should pin the personal zone and keep the classification', () => {
+      const [result] = applyZoneOverrides(
+        [whiteRice],
+        [override('ingredient', 'white rice', 'green')]
+      );
+
+      expect(result).toMatchObject({
+        zone: 'green',
+        zoneSource: 'personal',
+        classifiedZone: 'red',
+        classifiedZoneSource: 'ai',
+      });
+    });
+
+    it('should revert to the classification when the override is removed', () => {
+      const [pinned] = applyZoneOverrides(
+        [milk],
+        [override('group', 'conventional dairy', 'red')]
+      );
+      const [reverted] = applyZoneOverrides([pinned], []);
+
+      expect(reverted.zone).toBe('yellow');
+      expect(reverted.zoneSource).toBe('dictionary');
+      expect(reverted.classifiedZone).toBeUndefined();
+    });
+
+    it('should re-resolve a changed override from the original classification', () => {
+      const [pinned] = applyZoneOverrides(
+        [milk],
+        [override('group', 'conventional dairy', 'red')]
+      );
+      const [changed] = applyZoneOverrides(
+        [pinned],
+        [override('ingredient', 'whole milk', 'green')]
+      );
+
+      expect(changed.zone).toBe('green');
+      expect(changed.classifiedZone).toBe('yellow');
+      expect(changed.classifiedZoneSource).toBe('dictionary');
+    });
+
+    it('should leave ingredients without overrides untouched', () => {
+      const [result] = applyZoneOverrides([whiteRice], []);
+
+      expect(result).toBe(whiteRice);
+    });
+  });
+
+  describe('applyZoneOverridesToFoods', () => {
+    const food: Food = {
+      id: 'food-1',
+      name: 'Rice pudding',
+      timestamp: '2025-07-01T12:00:00.000Z',
+      ingredients: [milk, whiteRice],
+      status: 'processed',
+    };
+
+    it('should return the same array when there is nothing to apply', () => {
+      const foods = [food];
+
+      expect(applyZoneOverridesToFoods(foods, [])).toBe(foods);
+    });
+
+    it('should apply overrides to every ingredient', () => {
+      const [result] = applyZoneOverridesToFoods(
+        [food],
+        [override('group', 'conventional dairy', 'red')]
+      );
+
+      expect(result.ingredients.map(i => i.zone)).toEqual(['red', 'red']);
+      expect(result.ingredients.map(i => i.zoneSource)).toEqual([
+        'personal',
+        'ai',
+      ]);
+    });
+  });
+});
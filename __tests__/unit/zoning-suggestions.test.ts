@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the zoning review queue helpers
+ * Uses a chainable Supabase stub; RLS and the RPC itself live in migration 014
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  findApprovedSuggestions,
+  normalizeSuggestionName,
+  recordZoningSuggestions,
+  suggestionToIngredient,
+} from '@/lib/zoning/suggestions';
+import type { ZoningSuggestion } from '@/lib/types';
+
+const approvedKale: ZoningSuggestion = {
+  id: 'suggestion-1',
+  ingredient_name: 'lacinato kale',
+  zone: 'green',
+  category: 'Vegetables',
+  ingredient_group: 'Leafy Greens',
+  model: 'test-model',
+  request_count: 4,
+  status: 'approved',
+  last_requested_at: '2025-07-01T12:00:00.000Z',
+  created_at: '2025-06-01T12:00:00.000Z',
+};
+
+function createSupabaseStub(result: { data?: unknown; error?: unknown }) {
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    eq: jest.fn().mockReturnThis(),
+    in: jest.fn().mockResolvedValue(result),
+  };
+  const client = {
+    from: jest.fn().mockReturnValue(query),
+    rpc: jest.fn().mockResolvedValue({ error: result.error ?? null }),
+  };
+  return { client: client as unknown as SupabaseClient, query, raw: client };
+}
+
+describe('Zoning Suggestions', () => {
+  describe('normalizeSuggestionName', () => {
+    it('should trim and lowercase names', () => {
+      expect(normalizeSuggestionName('  Lacinato Kale ')).toBe('lacinato kale');
+    });
+  });
+
+  describe('suggestionToIngredient', () => {
+    it('should keep the requested name and map the group column', () => {
+      expect(suggestionToIngredient('Lacinato Kale', approvedKale)).toEqual({
+        name: 'Lacinato Kale',
+        zone: 'green',
+        category: 'Vegetables',
+        group: 'Leafy Greens',
+        source: 'dictionary',
+      });
+    });
+  });
+
+  describe('findApprovedSuggestions', () => {
+    it('should query approved rows by normalized, deduplicated name', async () => {
+      const { client, query } = createSupabaseStub({ data: [approvedKale] });
+
+      const result = await findApprovedSuggestions(client, [
+        'Lacinato Kale',
+        'lacinato kale',
+        'dragon fruit',
+      ]);
+
+      expect(query.eq).toHaveBeenCalledWith('status', 'approved');
+      expect(query.in).toHaveBeenCalledWith('ingredient_name', [
+        'lacinato kale',
+        'dragon fruit',
+      ]);
+      expect(result.get('lacinato kale')).toEqual(approvedKale);
+      expect(result.has('dragon fruit')).toBe(false);
+    });
+
+    it('should skip the query when there are no names', async () => {
+      const { client, raw } = createSupabaseStub({ data: [] });
+
+      const result = await findApprovedSuggestions(client, ['  ']);
+
+      expect(result.size).toBe(0);
+      expect(raw.from).not.toHaveBeenCalled();
+    });
+
+    it('should throw query errors', async () => {
+      const { client } = createSupabaseStub({
+        error: new Error('permission denied'),
+      });
+
+      await expect(findApprovedSuggestions(client, ['kale'])).rejects.toThrow(
+        'permission denied'
+      );
+    });
+  });
+
+  describe('recordZoningSuggestions', () => {
+    it('should send normalized suggestions with the model to the RPC', async () => {
+      const { client, raw } = createSupabaseStub({});
+
+      await recordZoningSuggestions(
+        client,
+        [
+          {
+            name: 'Dragon Fruit',
+            zone: 'yellow',
+            group: 'Tropical Fruits',
+            source: 'ai',
+          },
+        ],
+        'test-model'
+      );
+
+      expect(raw.rpc).toHaveBeenCalledWith('record_zoning_suggestions', {
+        p_suggestions: [
+          {
+            name: 'dragon fruit',
+            zone: 'yellow',
+            category: null,
+            group: 'Tropical Fruits',
+          },
+        ],
+        p_model: 'test-model',
+      });
+    });
+
+    it('should not call the RPC for an empty batch', async () => {
+      const { client, raw } = createSupabaseStub({});
+
+      await recordZoningSuggestions(client, [], 'test-model');
+
+      expect(raw.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
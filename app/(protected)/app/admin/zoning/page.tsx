@@ -0,0 +1,54 @@
+'use client';
+
+import { AuthGuard } from '@/features/auth/components/auth-guard';
+import { ZoningReviewQueue } from '@/features/admin/components/zoning-review-queue';
+import { useIsAdmin } from '@/lib/hooks';
+import { ChevronLeft, Loader2, ShieldAlert } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+function ZoningReviewPage() {
+  const router = useRouter();
+  const { data: isAdmin, isLoading } = useIsAdmin();
+
+  return (
+    <div className="h-screen-dynamic bg-gray-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white px-4 py-4 flex items-center justify-between border-b border-gray-100 flex-shrink-0">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="h-6 w-6" />
+        </button>
+        <h1 className="text-xl font-semibold text-gray-900">Zoning Review</h1>
+        <div className="w-6" /> {/* Spacer */}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        ) : isAdmin ? (
+          <ZoningReviewQueue />
+        ) : (
+          // RLS enforces this too; the check just avoids an empty queue
+          <div className="text-center py-12">
+            <ShieldAlert className="h-8 w-8 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              This page is only available to admins.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ProtectedZoningReviewPage() {
+  return (
+    <AuthGuard>
+      <ZoningReviewPage />
+    </AuthGuard>
+  );
+}
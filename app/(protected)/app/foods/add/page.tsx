@@ -4,11 +4,15 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { FoodEntryForm } from '@/features/foods/components/food-entry-form';
+import {
+  FoodEntryForm,
+  type FoodPrefill,
+} from '@/features/foods/components/food-entry-form';
+import { QuickLogMeals } from '@/features/foods/components/quick-log-meals';
 import { ImageProcessingErrorBoundary } from '@/features/camera/components/image-processing-error-boundary';
 import { addFood as dbAddFood } from '@/lib/db';
-import { mutate } from 'swr';
-import type { Food } from '@/lib/types';
+import { useRecipes, revalidateEntries } from '@/lib/hooks';
+import type { Food, ImageAnalysisMode } from '@/lib/types';
 import { logger } from '@/lib/utils/logger';
 import { toast } from 'sonner';
 import { useIsMobile } from '@/components/ui/use-mobile';
@@ -19,7 +23,10 @@ import { useKeyboardAwareScroll } from '@/components/ui/use-keyboard-aware-scrol
 export default function AddFoodPage() {
   const router = useRouter();
   const [capturedImages, setCapturedImages] = useState<string[] | undefined>();
+  const [prefill, setPrefill] = useState<FoodPrefill | undefined>();
+  const [analysisMode, setAnalysisMode] = useState<ImageAnalysisMode>('meal');
   const isMobile = useIsMobile();
+  const { data: recipes } = useRecipes();
 
   // Enable keyboard-aware scrolling on mobile to prevent keyboard from hiding inputs
   useKeyboardAwareScroll({ enabled: isMobile });
@@ -34,8 +41,13 @@ export default function AddFoodPage() {
     const processSessionStorageImages = () => {
       // Retrieve and clear images data
       const pendingImagesJson = sessionStorage.getItem('pendingFoodImages');
+      const pendingAnalysisMode = sessionStorage.getItem(
+        'pendingFoodAnalysisMode'
+      );
+      sessionStorage.removeItem('pendingFoodAnalysisMode');
       if (pendingImagesJson) {
         sessionStorage.removeItem('pendingFoodImages');
+        setAnalysisMode(pendingAnalysisMode === 'label' ? 'label' : 'meal');
 
         try {
           const images = JSON.parse(pendingImagesJson);
@@ -61,9 +73,34 @@ export default function AddFoodPage() {
       }
     };
 
+    // Scanned product details (barcode mode) pre-fill the form
+    const processSessionStoragePrefill = () => {
+      const pendingPrefillJson = sessionStorage.getItem('pendingFoodPrefill');
+      if (!pendingPrefillJson) return;
+      sessionStorage.removeItem('pendingFoodPrefill');
+
+      try {
+        const parsed = JSON.parse(pendingPrefillJson);
+        if (parsed && typeof parsed === 'object') {
+          setPrefill({
+            name: typeof parsed.name === 'string' ? parsed.name : undefined,
+            ingredients: Array.isArray(parsed.ingredients)
+              ? parsed.ingredients.filter(
+                  (ing: unknown): ing is string => typeof ing === 'string'
+                )
+              : undefined,
+            notes: typeof parsed.notes === 'string' ? parsed.notes : undefined,
+          });
+        }
+      } catch (error) {
+        logger.error('Error parsing food prefill from sessionStorage', error);
+      }
+    };
+
     // Execute the atomic processing
     try {
       processSessionStorageImages();
+      processSessionStoragePrefill();
     } catch (error) {
       logger.error('Error processing session storage images', error);
       toast.error('Failed to load captured image. Please try again.');
@@ -81,7 +118,7 @@ export default function AddFoodPage() {
       }
 
       // Invalidate SWR cache to trigger immediate refresh
-      await mutate('dashboard-data');
+      await revalidateEntries();
 
       router.push('/app');
     } catch (error) {
@@ -117,6 +154,13 @@ export default function AddFoodPage() {
 
       {/* Form Content */}
       <main className="flex-1 overflow-y-auto px-4 py-6">
+        {/* Frequent meals and templates - only for a blank entry */}
+        {!capturedImages?.length && !prefill && (
+          <QuickLogMeals
+            onLogged={() => router.push('/app')}
+            className="mb-6"
+          />
+        )}
         <ImageProcessingErrorBoundary
           onRetry={() => {
             // Retry by refreshing the page state
@@ -138,6 +182,9 @@ export default function AddFoodPage() {
             onAddFood={handleAddFood}
             onClose={handleClose}
             capturedImages={capturedImages}
+            analysisMode={analysisMode}
+            prefill={prefill}
+            recipes={recipes}
           />
         </ImageProcessingErrorBoundary>
       </main>
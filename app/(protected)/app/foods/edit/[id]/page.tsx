@@ -7,11 +7,12 @@ import { Button } from '@/components/ui/button';
 import { FoodEntryForm } from '@/features/foods/components/food-entry-form';
 import { ImageProcessingErrorBoundary } from '@/features/camera/components/image-processing-error-boundary';
 import { getFoodById, updateFood as dbUpdateFood, deleteFood } from '@/lib/db';
-import { mutate } from 'swr';
 import type { Food } from '@/lib/types';
 import { logger } from '@/lib/utils/logger';
 import { toast } from 'sonner';
 import { processFoodSubmission } from '@/lib/services/food-submission';
+import { getRecipeLink } from '@/lib/recipes/recipes';
+import { useRecipes, revalidateEntries } from '@/lib/hooks';
 import { useIsMobile } from '@/components/ui/use-mobile';
 import { useKeyboardAwareScroll } from '@/components/ui/use-keyboard-aware-scroll';
 
@@ -25,6 +26,7 @@ export default function EditFoodPage({
   const [loading, setLoading] = useState(true);
   const isMountedRef = useRef(true);
   const isMobile = useIsMobile();
+  const { data: recipes } = useRecipes();
 
   // Enable keyboard-aware scrolling on mobile to prevent keyboard from hiding inputs
   useKeyboardAwareScroll({ enabled: isMobile });
@@ -100,6 +102,7 @@ export default function EditFoodPage({
           currentIngredient: '',
           notes: updatedFood.notes || '',
           selectedDateTime: new Date(updatedFood.timestamp),
+          recipe: getRecipeLink(updatedFood),
         };
 
         // Check if any ingredients need re-zoning with defensive null checks
@@ -129,7 +132,7 @@ export default function EditFoodPage({
         if (!isMountedRef.current) return;
 
         // Invalidate SWR cache to trigger immediate refresh
-        await mutate('dashboard-data');
+        await revalidateEntries();
 
         toast.success('Food updated successfully');
         router.push('/app');
@@ -155,7 +158,7 @@ export default function EditFoodPage({
         if (!isMountedRef.current) return;
 
         // Invalidate SWR cache to trigger immediate refresh
-        await mutate('dashboard-data');
+        await revalidateEntries();
 
         toast.success('Food deleted successfully');
         router.push('/app');
@@ -232,6 +235,7 @@ export default function EditFoodPage({
             onClose={handleClose}
             onDelete={handleDeleteFood}
             editingFood={food}
+            recipes={recipes}
           />
         </ImageProcessingErrorBoundary>
       </main>
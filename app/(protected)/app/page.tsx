@@ -17,19 +17,29 @@ import { EntriesView } from '@/features/dashboard/components/entries-view';
 import { DesktopSidebar } from '@/features/dashboard/components/desktop-sidebar';
 import { BottomNavigation } from '@/features/dashboard/components/bottom-navigation';
 import { FloatingActionButton } from '@/features/dashboard/components/floating-action-button';
+import { FailedSyncAlert } from '@/features/dashboard/components/failed-sync-alert';
 import { FullWidthHeader } from '@/components/ui/full-width-header';
 
 // Import custom hooks
 import {
-  useDashboardData,
   useFoodsForDate,
   useFoodStatsForDate,
   useEntriesForDate,
+  useActiveProtocol,
+  useOutboxSync,
+  useUserSettings,
+  useDayBoundary,
 } from '@/lib/hooks';
 import { useAuth } from '@/features/auth/components/auth-provider';
 import { useToast } from '@/components/ui/use-toast';
 import { usePersistentTab } from '@/lib/hooks/use-persistent-tab';
+import { useStatsWeighting } from '@/lib/hooks/use-stats-weighting';
+import { useThemePreference } from '@/lib/hooks/use-theme-preference';
+import { dateToDayKey, getTodayKey } from '@/lib/utils/day-buckets';
 import { getBase64ImageSize, formatFileSize } from '@/lib/utils/image-utils';
+import type { ProductInfo } from '@/lib/products/catalog';
+import type { ImageAnalysisMode } from '@/lib/types';
+import type { FoodPrefill } from '@/features/foods/components/food-entry-form';
 
 // Import data management functions
 
@@ -41,24 +51,11 @@ type ViewType = 'insights' | 'entries' | 'settings';
 const MAX_IMAGE_SIZE = 4 * 1024 * 1024; // 4MB limit for sessionStorage
 
 function Dashboard() {
-  // Use consolidated dashboard data hook to prevent infinite loops
-  const {
-    data: dashboardData,
-    // error: dashboardError,
-    // mutate: retryDashboard,
-  } = useDashboardData();
-
   // Settings state management
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const { toast } = useToast();
   const { user, logout } = useAuth();
 
-  // Extract data from consolidated hook
-  const recentFoods = dashboardData?.recentFoods;
-  const recentSymptoms = dashboardData?.recentSymptoms;
-  const allFoods = dashboardData?.allFoods;
-  const allSymptoms = dashboardData?.allSymptoms;
-
   const router = useRouter();
   const searchParams = useSearchParams();
   const isMobile = useIsMobile();
@@ -67,6 +64,10 @@ function Dashboard() {
   const [showCameraCapture, setShowCameraCapture] = useState(false);
   const [currentView, setCurrentView] = usePersistentTab('insights');
   const [selectedDate, setSelectedDate] = useState<Date>(() => new Date());
+  const [statsWeighting, setStatsWeighting] = useStatsWeighting();
+  const { data: settings } = useUserSettings();
+  useThemePreference(settings?.theme);
+  const dayBoundary = useDayBoundary();
 
   // Read view query param from URL and set view accordingly
   useEffect(() => {
@@ -76,13 +77,38 @@ function Dashboard() {
     }
   }, [searchParams, setCurrentView]);
 
-  // Date-specific data hooks - pass existing data to prevent duplicate API calls
-  const { data: foodsForSelectedDate } = useFoodsForDate(
+  // Date-specific data hooks - only the selected day is fetched
+  const { data: foodsForSelectedDate } = useFoodsForDate(selectedDate);
+  const { data: foodStatsForSelectedDate } = useFoodStatsForDate(
     selectedDate,
-    allFoods
+    statsWeighting
   );
-  const { data: foodStatsForSelectedDate } = useFoodStatsForDate(selectedDate);
   const { data: entriesForSelectedDate } = useEntriesForDate(selectedDate);
+  const { data: activeProtocol } = useActiveProtocol();
+
+  // Replay entries saved while offline once the connection is back
+  useOutboxSync(({ synced, failed, deadLettered }) => {
+    if (synced > 0) {
+      toast({
+        title: 'Offline entries synced',
+        description: `${synced} saved ${synced === 1 ? 'change was' : 'changes were'} synced.`,
+      });
+    }
+    if (failed > 0) {
+      toast({
+        title: 'Some offline entries did not sync',
+        description: `${failed} ${failed === 1 ? 'change' : 'changes'} will be retried later.`,
+        variant: 'destructive',
+      });
+    }
+    if (deadLettered > 0) {
+      toast({
+        title: 'Some offline entries could not be saved',
+        description: 'Review them at the top of the page.',
+        variant: 'destructive',
+      });
+    }
+  });
 
   // Helper function to get ingredients for selected date
   const getIngredientsForSelectedDate = useCallback(() => {
@@ -105,7 +131,7 @@ function Dashboard() {
   }, [router]);
 
   const handleCameraCapture = useCallback(
-    async (images: string[]) => {
+    async (images: string[], analysisMode: ImageAnalysisMode = 'meal') => {
       try {
         if (images.length === 0) {
           logger.warn('No images provided to handleCameraCapture');
@@ -153,6 +179,7 @@ function Dashboard() {
 
         // Store all captured images as JSON array in sessionStorage
         sessionStorage.setItem('pendingFoodImages', imagesJson);
+        sessionStorage.setItem('pendingFoodAnalysisMode', analysisMode);
         // Route is prefetched on mount for instant navigation
         router.replace('/app/foods/add');
       } catch (error) {
@@ -167,6 +194,20 @@ function Dashboard() {
     [router, toast]
   );
 
+  const handleProductScanned = useCallback(
+    (product: ProductInfo) => {
+      const prefill: FoodPrefill = {
+        name: product.brand ? `${product.brand} ${product.name}` : product.name,
+        ingredients: product.ingredients,
+        notes: `Barcode ${product.barcode}`,
+      };
+      sessionStorage.setItem('pendingFoodPrefill', JSON.stringify(prefill));
+      // Route is prefetched on mount for instant navigation
+      router.replace('/app/foods/add');
+    },
+    [router]
+  );
+
   const handleManualEntry = useCallback(() => {
     // Route is prefetched on mount for instant navigation
     router.replace('/app/foods/add');
@@ -228,8 +269,6 @@ function Dashboard() {
             <FullWidthHeader
               selectedDate={selectedDate}
               onDateChange={setSelectedDate}
-              allFoods={allFoods}
-              allSymptoms={allSymptoms}
             />
           )}
 
@@ -237,14 +276,10 @@ function Dashboard() {
             className={`px-4 py-6 space-y-6 max-w-full ${currentView === 'entries' ? 'pt-20' : ''}`}
           >
             {/* pt-20 (~80px) accounts for fixed header height when entries view is active */}
+            <FailedSyncAlert />
             {currentView === 'insights' && (
               <ErrorBoundary fallback={SupabaseErrorFallback}>
-                <InsightsView
-                  recentFoods={recentFoods}
-                  recentSymptoms={recentSymptoms}
-                  allFoods={allFoods}
-                  allSymptoms={allSymptoms}
-                />
+                <InsightsView activeProtocol={activeProtocol} />
               </ErrorBoundary>
             )}
             {currentView === 'settings' && (
@@ -262,6 +297,12 @@ function Dashboard() {
                   entriesForSelectedDate={entriesForSelectedDate}
                   foodStatsForSelectedDate={foodStatsForSelectedDate}
                   getIngredientsForSelectedDate={getIngredientsForSelectedDate}
+                  activeProtocol={activeProtocol}
+                  weighting={statsWeighting}
+                  onWeightingChange={setStatsWeighting}
+                  isSelectedDateToday={
+                    dateToDayKey(selectedDate) === getTodayKey(dayBoundary)
+                  }
                 />
               </ErrorBoundary>
             )}
@@ -292,6 +333,7 @@ function Dashboard() {
         onOpenChange={setShowCameraCapture}
         onCapture={handleCameraCapture}
         onManualEntry={handleManualEntry}
+        onProductScanned={handleProductScanned}
         title="Capture Food"
       />
     </div>
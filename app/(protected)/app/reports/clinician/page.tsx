@@ -0,0 +1,75 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ChevronLeft, Loader2, Printer } from 'lucide-react';
+import { AuthGuard } from '@/features/auth/components/auth-guard';
+import { useAuth } from '@/features/auth/components/auth-provider';
+import { ClinicianReportView } from '@/features/export/components/clinician-report';
+import { Button } from '@/components/ui/button';
+import { useDayBoundary, useEntriesInRange } from '@/lib/hooks';
+import { dateToDayKey } from '@/lib/utils/day-buckets';
+import {
+  buildClinicianReport,
+  parseReportRange,
+} from '@/lib/export/clinician-report';
+
+function ClinicianReportPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const range = useMemo(() => parseReportRange(from, to), [from, to]);
+  const boundary = useDayBoundary();
+
+  // Only the report's days are fetched, with personal zones applied
+  const { data, isLoading } = useEntriesInRange(
+    dateToDayKey(range.from),
+    dateToDayKey(range.to)
+  );
+
+  const report = useMemo(() => {
+    if (!data) return null;
+    return buildClinicianReport(data.foods, data.symptoms, range, boundary);
+  }, [data, range, boundary]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      {/* Header - hidden when printing */}
+      <div className="bg-white px-4 py-4 flex items-center justify-between border-b border-gray-100 print:hidden">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ChevronLeft className="h-6 w-6" />
+        </button>
+        <h1 className="text-xl font-semibold text-gray-900">
+          Clinician Report
+        </h1>
+        <Button size="sm" onClick={() => window.print()} disabled={!report}>
+          <Printer className="h-4 w-4 mr-2" />
+          Save PDF
+        </Button>
+      </div>
+
+      <div className="px-4 py-6 print:p-0">
+        {isLoading || !report ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        ) : (
+          <ClinicianReportView report={report} patientEmail={user?.email} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ProtectedClinicianReportPage() {
+  return (
+    <AuthGuard>
+      <ClinicianReportPage />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AuthGuard } from '@/features/auth/components/auth-guard';
+import { IngredientSearch } from '@/features/foods/components/ingredient-search';
+
+function IngredientSearchPage() {
+  const router = useRouter();
+
+  return (
+    <div className="h-screen-dynamic bg-background flex flex-col">
+      {/* Header */}
+      <header className="flex-shrink-0 z-10 bg-background border-b">
+        <div className="flex items-center px-4 py-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.back()}
+            className="mr-2"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-semibold">Search Ingredients</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-4 py-6">
+        <IngredientSearch />
+      </main>
+    </div>
+  );
+}
+
+export default function ProtectedIngredientSearchPage() {
+  return (
+    <AuthGuard>
+      <IngredientSearchPage />
+    </AuthGuard>
+  );
+}
@@ -6,7 +6,7 @@ import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { SymptomEntryForm } from '@/features/symptoms/components/symptom-entry-form';
 import { addSymptoms as dbAddSymptoms } from '@/lib/db';
-import { mutate } from 'swr';
+import { revalidateEntries } from '@/lib/hooks';
 import type { Symptom } from '@/lib/types';
 import { toast } from 'sonner';
 import { logger } from '@/lib/utils/logger';
@@ -44,7 +44,7 @@ export default function AddSymptomPage() {
       await dbAddSymptoms(symptomsWithTimestamps);
 
       // Invalidate SWR cache to trigger immediate refresh
-      await mutate('dashboard-data');
+      await revalidateEntries();
 
       const count = symptoms.length;
       toast.success(
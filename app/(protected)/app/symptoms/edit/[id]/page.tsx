@@ -10,7 +10,7 @@ import {
   updateSymptom as dbUpdateSymptom,
   deleteSymptom,
 } from '@/lib/db';
-import { mutate } from 'swr';
+import { revalidateEntries } from '@/lib/hooks';
 import type { Symptom } from '@/lib/types';
 import { logger } from '@/lib/utils/logger';
 import { toast } from 'sonner';
@@ -94,7 +94,7 @@ export default function EditSymptomPage({
         await dbUpdateSymptom(symptom.id, updatedSymptom);
 
         // Invalidate SWR cache to trigger immediate refresh
-        await mutate('dashboard-data');
+        await revalidateEntries();
 
         toast.success('Symptom updated successfully');
         router.push('/app');
@@ -115,7 +115,7 @@ export default function EditSymptomPage({
         await deleteSymptom(symptom.id);
 
         // Invalidate SWR cache to trigger immediate refresh
-        await mutate('dashboard-data');
+        await revalidateEntries();
 
         toast.success('Symptom deleted successfully');
         router.push('/app');
@@ -10,8 +10,17 @@ import {
 } from '@/lib/middleware/request-validation';
 import { logger } from '@/lib/utils/logger';
 import { aiPerformanceMonitor } from '@/lib/monitoring/ai-performance';
-import type { OpenRouterMessageContent } from '@/lib/types';
+import type {
+  CookingMethod,
+  Ingredient,
+  OpenRouterMessageContent,
+} from '@/lib/types';
 import { APP_CONFIG } from '@/lib/config/constants';
+import { parsePortion } from '@/lib/portions/portions';
+import {
+  COOKING_METHODS,
+  parseCookingMethod,
+} from '@/lib/zoning/cooking-methods';
 
 // Zod schema for request validation - supports both single and multiple images
 const analyzeImageSchema = z
@@ -28,6 +37,9 @@ interface RawAIIngredient {
   name: string;
   isOrganic?: boolean;
   organic?: boolean;
+  quantity?: number | string;
+  unit?: string;
+  cookingMethod?: string;
 }
 
 interface RawAIResponse {
@@ -36,6 +48,12 @@ interface RawAIResponse {
   ingredients?: RawAIIngredient[];
 }
 
+// Unrecognized or missing methods are left off the ingredient
+function withCookingMethod(value: unknown): Pick<Ingredient, 'cookingMethod'> {
+  const cookingMethod = parseCookingMethod(value);
+  return cookingMethod ? { cookingMethod } : {};
+}
+
 // Zod schema for AI response validation with fallback handling
 const aiResponseSchema = z.preprocess(
   (data: unknown) => {
@@ -44,7 +62,12 @@ const aiResponseSchema = z.preprocess(
     const rawData = data as RawAIResponse;
     const transformed: {
       mealSummary?: string;
-      ingredients?: Array<{ name: string; isOrganic: boolean }>;
+      ingredients?: Array<
+        { name: string; isOrganic: boolean } & Pick<
+          Ingredient,
+          'quantity' | 'unit' | 'cookingMethod'
+        >
+      >;
     } = {};
 
     // Handle mealSummary vs meal_summary
@@ -64,6 +87,9 @@ const aiResponseSchema = z.preprocess(
             ingredient.isOrganic !== undefined
               ? ingredient.isOrganic
               : (ingredient.organic ?? false),
+          // Portion estimates are optional; unusable ones are dropped
+          ...parsePortion(ingredient.quantity, ingredient.unit),
+          ...withCookingMethod(ingredient.cookingMethod),
         })
       );
     }
@@ -76,6 +102,11 @@ const aiResponseSchema = z.preprocess(
       z.object({
         name: z.string().min(1, 'Ingredient name is required'),
         isOrganic: z.boolean(),
+        quantity: z.number().positive().optional(),
+        unit: z.enum(['g', 'ml', 'cup', 'piece']).optional(),
+        cookingMethod: z
+          .enum(COOKING_METHODS as [CookingMethod, ...CookingMethod[]])
+          .optional(),
       })
     ),
   })
@@ -289,14 +320,27 @@ export async function POST(request: NextRequest) {
         return {
           name: ingredient.name.trim().toLowerCase(),
           isOrganic: ingredient.isOrganic,
+          // Portion estimates survive only as a quantity with its unit
+          ...(ingredient.quantity &&
+            ingredient.unit && {
+              quantity: ingredient.quantity,
+              unit: ingredient.unit,
+            }),
+          ...(ingredient.cookingMethod && {
+            cookingMethod: ingredient.cookingMethod,
+          }),
         };
       })
       .filter(
-        (ingredient): ingredient is { name: string; isOrganic: boolean } =>
-          ingredient !== null && ingredient.name.length > 0
+        (
+          ingredient
+        ): ingredient is { name: string; isOrganic: boolean } & Pick<
+          Ingredient,
+          'quantity' | 'unit' | 'cookingMethod'
+        > => ingredient !== null && ingredient.name.length > 0
       );
 
-    // Remove duplicates based on name
+    // Remove duplicates based on name; the first estimate of a portion wins
     const uniqueIngredients = normalizedIngredients.filter(
       (ingredient, index, array) =>
         array.findIndex(item => item.name === ingredient.name) === index
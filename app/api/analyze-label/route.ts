@@ -0,0 +1,368 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openrouter } from '@/lib/ai/openrouter';
+import { z } from 'zod';
+import { prompts } from '@/lib/prompts';
+import { getRateLimiter } from '@/lib/rate-limit';
+import { sanitizeAIPrompt } from '@/lib/security/sanitization';
+import {
+  validateImageAnalysisRequest,
+  createValidationErrorResponse,
+} from '@/lib/middleware/request-validation';
+import { logger } from '@/lib/utils/logger';
+import { aiPerformanceMonitor } from '@/lib/monitoring/ai-performance';
+import type { OpenRouterMessageContent } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+
+// Zod schema for request validation - supports both single and multiple images
+const analyzeLabelSchema = z
+  .object({
+    image: z.string().min(1, 'Image data is required').optional(),
+    images: z.array(z.string().min(1)).optional(),
+  })
+  .refine(data => data.image || (data.images && data.images.length > 0), {
+    message: 'Either image or images array is required',
+  });
+
+// Label ingredient as read by the model (tolerates "organic" vs "isOrganic")
+const labelSubIngredientSchema = z.preprocess(
+  (data: unknown) => {
+    if (!data || typeof data !== 'object') return data;
+    const raw = data as { isOrganic?: boolean; organic?: boolean };
+    return { ...raw, isOrganic: raw.isOrganic ?? raw.organic ?? false };
+  },
+  z.object({
+    name: z.string(),
+    isOrganic: z.boolean(),
+    isAllergen: z.boolean().optional().default(false),
+  })
+);
+
+const labelIngredientSchema = z.preprocess(
+  (data: unknown) => {
+    if (!data || typeof data !== 'object') return data;
+    const raw = data as { isOrganic?: boolean; organic?: boolean };
+    return { ...raw, isOrganic: raw.isOrganic ?? raw.organic ?? false };
+  },
+  z.object({
+    name: z.string(),
+    isOrganic: z.boolean(),
+    isAllergen: z.boolean().optional().default(false),
+    subIngredients: z.array(labelSubIngredientSchema).optional().default([]),
+  })
+);
+
+const aiResponseSchema = z.object({
+  productName: z.string().min(1, 'Product name is required'),
+  ingredients: z.array(labelIngredientSchema),
+  allergens: z.array(z.string()).optional().default([]),
+  certifications: z.array(z.string()).optional().default([]),
+});
+
+interface LabelIngredient {
+  name: string;
+  isOrganic: boolean;
+  isAllergen: boolean;
+}
+
+// Same shape as /api/analyze-image plus the label-only callouts
+interface AnalyzeLabelResponse {
+  mealSummary: string;
+  ingredients: LabelIngredient[];
+  allergens: string[];
+  certifications: string[];
+}
+
+interface AnalyzeLabelErrorResponse {
+  error: {
+    message: string;
+    code?: string;
+    statusCode: number;
+  };
+}
+
+/**
+ * Flatten the label statement in printed order
+ * Compound ingredients are kept and followed by their sub-ingredients
+ */
+function flattenLabelIngredients(
+  ingredients: z.infer<typeof aiResponseSchema>['ingredients']
+): LabelIngredient[] {
+  const flattened: LabelIngredient[] = [];
+
+  const add = (ingredient: LabelIngredient) => {
+    const name = ingredient.name.trim().toLowerCase();
+    if (!name) return;
+
+    const existing = flattened.find(item => item.name === name);
+    if (existing) {
+      // Keep the first position but don't lose a callout seen later
+      existing.isOrganic = existing.isOrganic || ingredient.isOrganic;
+      existing.isAllergen = existing.isAllergen || ingredient.isAllergen;
+      return;
+    }
+    flattened.push({
+      name,
+      isOrganic: ingredient.isOrganic,
+      isAllergen: ingredient.isAllergen,
+    });
+  };
+
+  ingredients.forEach(ingredient => {
+    add(ingredient);
+    ingredient.subIngredients.forEach(add);
+  });
+
+  return flattened;
+}
+
+export async function POST(request: NextRequest) {
+  logger.info('Label analysis request received');
+
+  const performanceId = aiPerformanceMonitor.startRequest('label-analysis');
+
+  try {
+    if (!process.env.OPENROUTER_API_KEY) {
+      logger.error('OPENROUTER_API_KEY is not configured');
+      return NextResponse.json(
+        {
+          error: {
+            message: 'AI service not configured. Please contact support.',
+            code: 'SERVICE_NOT_CONFIGURED',
+            statusCode: 503,
+          },
+        },
+        { status: 503 }
+      );
+    }
+
+    if (!prompts?.labelAnalysis) {
+      logger.error('Label analysis prompt not loaded');
+      return NextResponse.json(
+        {
+          error: {
+            message: 'AI service configuration error.',
+            code: 'PROMPT_NOT_LOADED',
+            statusCode: 500,
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    // Label reads cost the same as image analysis, so they share its limit
+    const rateLimiter = getRateLimiter();
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    const realIp = request.headers.get('x-real-ip');
+    const ip = forwardedFor?.split(',')[0] ?? realIp ?? '127.0.0.1';
+
+    const rateLimitResult = await rateLimiter.limitImageAnalysis(ip);
+
+    if (!rateLimitResult.success) {
+      logger.warn('Rate limit exceeded for label analysis', {
+        ip,
+        remaining: rateLimitResult.remaining,
+        resetTime: rateLimitResult.resetTime,
+      });
+
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Too many requests. Please wait before trying again.',
+            code: 'RATE_LIMIT_EXCEEDED',
+            statusCode: 429,
+          },
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit?.toString() || '10',
+            'X-RateLimit-Remaining':
+              rateLimitResult.remaining?.toString() || '0',
+            'X-RateLimit-Reset': rateLimitResult.resetTime?.toString() || '',
+          },
+        }
+      );
+    }
+
+    // Comprehensive request validation (size, format, count)
+    const requestValidationResult = await validateImageAnalysisRequest(request);
+    if (!requestValidationResult.isValid) {
+      return createValidationErrorResponse(requestValidationResult);
+    }
+
+    const validatedData = analyzeLabelSchema.parse(
+      requestValidationResult.data
+    );
+    const images: string[] =
+      validatedData.images ||
+      (validatedData.image ? [validatedData.image] : []);
+
+    logger.debug('Calling OpenRouter API with label images', {
+      imageCount: images.length,
+      promptLength: prompts.labelAnalysis.length,
+    });
+
+    const contentArray: OpenRouterMessageContent[] = [
+      {
+        type: 'text',
+        text: sanitizeAIPrompt(prompts.labelAnalysis),
+      },
+      ...images.map(img => ({
+        type: 'image_url' as const,
+        image_url: {
+          url: img,
+        },
+      })),
+    ];
+
+    // Ingredient statements with sub-ingredients run long; see LABEL_ANALYSIS_MAX_TOKENS
+    const response = await openrouter.chat.completions.create({
+      model: APP_CONFIG.AI.IMAGE_ANALYSIS_MODEL,
+      messages: [
+        {
+          role: 'user',
+          content: contentArray,
+        },
+      ],
+      max_tokens: APP_CONFIG.AI.LABEL_ANALYSIS_MAX_TOKENS,
+      temperature: APP_CONFIG.AI.IMAGE_ANALYSIS_TEMPERATURE,
+    });
+
+    const aiResponseText = response.choices[0]?.message?.content;
+
+    if (!aiResponseText) {
+      throw new Error('No response from AI model');
+    }
+
+    logger.debug('AI Response received', {
+      responseLength: aiResponseText.length,
+    });
+
+    // Parse the AI response, unwrapping markdown code blocks if present
+    let rawAiResponse: unknown;
+    try {
+      rawAiResponse = JSON.parse(aiResponseText);
+    } catch {
+      const jsonMatch = aiResponseText.match(/```json\s*([\s\S]*?)\s*```/);
+      if (!jsonMatch) {
+        logger.error('Failed to parse AI response as JSON', undefined, {
+          rawResponse: aiResponseText.substring(0, 200) + '...',
+        });
+        throw new Error(
+          `AI response was not valid JSON. Response: "${aiResponseText}"`
+        );
+      }
+      rawAiResponse = JSON.parse(jsonMatch[1]);
+      logger.debug('Successfully extracted JSON from markdown wrapper');
+    }
+
+    const aiValidationResult = aiResponseSchema.safeParse(rawAiResponse);
+    if (!aiValidationResult.success) {
+      logger.error('AI response validation failed', undefined, {
+        errors: aiValidationResult.error.issues,
+        rawResponse: rawAiResponse,
+      });
+      throw new Error(
+        `AI response validation failed: ${aiValidationResult.error.issues
+          .map(issue => `${issue.path.join('.')} - ${issue.message}`)
+          .join(', ')}`
+      );
+    }
+
+    const aiResponse = aiValidationResult.data;
+    const ingredients = flattenLabelIngredients(aiResponse.ingredients);
+    const allergens = [
+      ...new Set([
+        ...aiResponse.allergens.map(a => a.trim().toLowerCase()),
+        ...ingredients.filter(i => i.isAllergen).map(i => i.name),
+      ]),
+    ].filter(Boolean);
+
+    aiPerformanceMonitor.endRequest(performanceId, {
+      service: 'label-analysis',
+      success: true,
+      model: APP_CONFIG.AI.IMAGE_ANALYSIS_MODEL,
+      requestSize: JSON.stringify(images).length,
+      responseSize: aiResponseText.length,
+    });
+
+    return NextResponse.json(
+      {
+        mealSummary: aiResponse.productName.trim(),
+        ingredients,
+        allergens,
+        certifications: aiResponse.certifications.map(c => c.trim()),
+      } as AnalyzeLabelResponse,
+      { status: 200 }
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error('Error in analyze-label API', error, {
+      message: errorMessage,
+    });
+
+    aiPerformanceMonitor.endRequest(performanceId, {
+      service: 'label-analysis',
+      success: false,
+      error: errorMessage,
+      model: APP_CONFIG.AI.IMAGE_ANALYSIS_MODEL,
+    });
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            message: 'Invalid request data',
+            code: 'VALIDATION_ERROR',
+            statusCode: 400,
+          },
+        } as AnalyzeLabelErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes('401') ||
+        error.message.includes('Unauthorized')
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              message: 'AI service authentication failed',
+              code: 'AI_AUTH_ERROR',
+              statusCode: 503,
+            },
+          } as AnalyzeLabelErrorResponse,
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('API') || error.message.includes('fetch')) {
+        return NextResponse.json(
+          {
+            error: {
+              message: 'AI service temporarily unavailable',
+              code: 'AI_SERVICE_ERROR',
+              statusCode: 503,
+            },
+          } as AnalyzeLabelErrorResponse,
+          { status: 503 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          message: 'An unexpected error occurred during label analysis',
+          code: 'INTERNAL_SERVER_ERROR',
+          statusCode: 500,
+        },
+      } as AnalyzeLabelErrorResponse,
+      { status: 500 }
+    );
+  }
+}
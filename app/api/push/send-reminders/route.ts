@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { sendDueReminders } from '@/lib/push/reminder-scheduler';
+import { createPushSender, getVapidKeys } from '@/lib/push/web-push';
+import { createMockPushService } from '@/lib/push/mock-push-service';
+import { logger } from '@/lib/utils/logger';
+
+function errorResponse(message: string, code: string, statusCode: number) {
+  return NextResponse.json(
+    { error: { message, code, statusCode } },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Reminder scheduler endpoint, called by a cron job every 15 minutes
+ * Requires `Authorization: Bearer <CRON_SECRET>`. With PUSH_SERVICE=mock,
+ * messages go to an in-process mock push service and are only logged.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return errorResponse(
+      'Reminder scheduler is not configured',
+      'SCHEDULER_NOT_CONFIGURED',
+      503
+    );
+  }
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return errorResponse('Authentication required', 'UNAUTHORIZED', 401);
+  }
+
+  const vapid = getVapidKeys();
+  if (!vapid) {
+    return errorResponse(
+      'Push notifications are not configured',
+      'PUSH_NOT_CONFIGURED',
+      503
+    );
+  }
+
+  try {
+    const mockService =
+      process.env.PUSH_SERVICE === 'mock' ? createMockPushService() : null;
+    const send = createPushSender(
+      vapid,
+      mockService?.fetch,
+      mockService?.hosts
+    );
+
+    const result = await sendDueReminders(createAdminClient(), send);
+
+    if (mockService) {
+      logger.info('Mock push service deliveries', {
+        endpoints: mockService.deliveries.map(delivery => delivery.endpoint),
+      });
+    }
+    logger.info('Reminder run finished', { ...result });
+
+    return NextResponse.json(
+      { status: 'ok', data: result, timestamp: new Date().toISOString() },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Reminder run failed', error);
+    return errorResponse(
+      'Failed to send reminders',
+      'REMINDER_RUN_FAILED',
+      500
+    );
+  }
+}
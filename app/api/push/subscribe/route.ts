@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/api';
+import { createClient } from '@/lib/supabase/server';
+import {
+  createValidationErrorResponse,
+  validateAndParseJSON,
+} from '@/lib/middleware/request-validation';
+import { isValidTimezone } from '@/lib/settings/user-settings';
+import { isAllowedPushEndpoint } from '@/lib/push/web-push';
+import { logger } from '@/lib/utils/logger';
+
+const MAX_BODY_SIZE = 8 * 1024;
+
+// PushSubscription.toJSON() plus the device timezone for reminder timing
+const subscribeSchema = z.object({
+  endpoint: z
+    .string()
+    .url()
+    .max(2048)
+    .refine(isAllowedPushEndpoint, 'Unknown push service'),
+  keys: z.object({
+    p256dh: z.string().min(1).max(256),
+    auth: z.string().min(1).max(64),
+  }),
+  timezone: z
+    .string()
+    .max(64)
+    .refine(isValidTimezone, 'Unknown timezone')
+    .optional(),
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url().max(2048),
+});
+
+function errorResponse(message: string, code: string, statusCode: number) {
+  return NextResponse.json(
+    { error: { message, code, statusCode } },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Save this browser's push subscription for the signed-in user
+ * An endpoint another account saved on this browser moves to this user
+ * (migration 029), so reminders follow whoever enabled them last.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult instanceof NextResponse) {
+    return authResult;
+  }
+
+  const validation = await validateAndParseJSON(request, MAX_BODY_SIZE);
+  if (!validation.isValid) {
+    return createValidationErrorResponse(validation);
+  }
+
+  const parsed = subscribeSchema.safeParse(validation.data);
+  if (!parsed.success) {
+    return errorResponse('Invalid push subscription', 'INVALID_REQUEST', 400);
+  }
+
+  try {
+    const { endpoint, keys, timezone } = parsed.data;
+    const supabase = await createClient();
+    const { error } = await supabase.rpc('save_push_subscription', {
+      p_endpoint: endpoint,
+      p_p256dh: keys.p256dh,
+      p_auth: keys.auth,
+      p_timezone: timezone ?? null,
+      p_user_agent: request.headers.get('user-agent')?.slice(0, 512) ?? null,
+    });
+
+    if (error) throw error;
+    return NextResponse.json({ subscribed: true }, { status: 201 });
+  } catch (error) {
+    logger.error('Failed to save push subscription', error);
+    return errorResponse(
+      'Failed to save push subscription',
+      'PUSH_SUBSCRIBE_FAILED',
+      500
+    );
+  }
+}
+
+/**
+ * Forget a browser's subscription (notifications turned off, or signing out)
+ */
+export async function DELETE(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult instanceof NextResponse) {
+    return authResult;
+  }
+
+  const validation = await validateAndParseJSON(request, MAX_BODY_SIZE);
+  if (!validation.isValid) {
+    return createValidationErrorResponse(validation);
+  }
+
+  const parsed = unsubscribeSchema.safeParse(validation.data);
+  if (!parsed.success) {
+    return errorResponse('Invalid push subscription', 'INVALID_REQUEST', 400);
+  }
+
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', parsed.data.endpoint);
+
+    if (error) throw error;
+    return NextResponse.json({ subscribed: false }, { status: 200 });
+  } catch (error) {
+    logger.error('Failed to delete push subscription', error);
+    return errorResponse(
+      'Failed to delete push subscription',
+      'PUSH_UNSUBSCRIBE_FAILED',
+      500
+    );
+  }
+}
@@ -14,9 +14,39 @@ import {
 import { aiPerformanceMonitor } from '@/lib/monitoring/ai-performance';
 import { logger } from '@/lib/utils/logger';
 import { APP_CONFIG } from '@/lib/config/constants';
-
+import {
+  INGREDIENT_DICTIONARY_VERSION,
+  lookupIngredient,
+} from '@/lib/zoning/ingredient-dictionary';
+import {
+  findApprovedSuggestions,
+  recordZoningSuggestions,
+  suggestionToIngredient,
+  normalizeSuggestionName,
+} from '@/lib/zoning/suggestions';
+import {
+  COOKING_METHODS,
+  applyCookingMethod,
+  toZoningInput,
+} from '@/lib/zoning/cooking-methods';
+import { createClient } from '@/lib/supabase/server';
+import type { CookingMethod } from '@/lib/types';
+
+// Plain names, or names with how they were prepared
 const zoneIngredientsSchema = z.object({
-  ingredients: z.array(z.string()).min(1),
+  ingredients: z
+    .array(
+      z.union([
+        z.string(),
+        z.object({
+          name: z.string(),
+          cookingMethod: z
+            .enum(COOKING_METHODS as [CookingMethod, ...CookingMethod[]])
+            .optional(),
+        }),
+      ])
+    )
+    .min(1),
 });
 
 const zonedIngredientSchema = z.object({
@@ -24,6 +54,7 @@ const zonedIngredientSchema = z.object({
   zone: z.enum(['green', 'yellow', 'red', 'unzoned']),
   category: z.string().optional(), // Main classification (e.g., "Proteins", "Vegetables")
   group: z.string(), // Primary classification (e.g., "Low-Sugar Berries", "Quality Animal Proteins")
+  source: z.enum(['ai', 'dictionary']), // Reviewed suggestions count as dictionary
 });
 
 // Zod schemas for AI response validation
@@ -95,8 +126,15 @@ export async function POST(request: NextRequest) {
       requestValidationResult.data
     );
 
-    // Sanitize ingredients array
-    const sanitizedIngredients = sanitizeStringArray(ingredients);
+    // Sanitize ingredient names, keeping each name's cooking method
+    const sanitizedIngredients = ingredients.flatMap(item => {
+      const { name, cookingMethod } =
+        typeof item === 'string'
+          ? { name: item, cookingMethod: undefined }
+          : item;
+      const [sanitizedName] = sanitizeStringArray([name]);
+      return sanitizedName ? [{ name: sanitizedName, cookingMethod }] : [];
+    });
 
     logger.debug('Zoning request received', {
       ingredientCount: sanitizedIngredients.length,
@@ -116,9 +154,72 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Resolve known ingredients from the dictionary; only misses go to the model
+    const dictionaryHits: z.infer<typeof zonedIngredientSchema>[] = [];
+    const misses: typeof sanitizedIngredients = [];
+    sanitizedIngredients.forEach(ingredient => {
+      const { name, cookingMethod } = ingredient;
+      const entry = lookupIngredient(name);
+      if (entry) {
+        dictionaryHits.push({
+          name,
+          zone: applyCookingMethod(entry.zone, cookingMethod),
+          category: entry.category,
+          group: entry.group,
+          source: 'dictionary',
+        });
+      } else {
+        misses.push(ingredient);
+      }
+    });
+
+    logger.debug('Dictionary zoning applied', {
+      dictionaryVersion: INGREDIENT_DICTIONARY_VERSION,
+      hits: dictionaryHits.length,
+      misses: misses.length,
+    });
+
+    if (misses.length === 0) {
+      return NextResponse.json({ ingredients: dictionaryHits });
+    }
+
+    // Admin-approved suggestions are authoritative; the review queue is
+    // best-effort, so a lookup failure falls through to the model
+    const supabase = await createClient();
+    const reviewedHits: z.infer<typeof zonedIngredientSchema>[] = [];
+    let modelMisses = misses;
+    try {
+      const approved = await findApprovedSuggestions(
+        supabase,
+        misses.map(miss => miss.name)
+      );
+      modelMisses = misses.filter(({ name, cookingMethod }) => {
+        const suggestion = approved.get(normalizeSuggestionName(name));
+        if (suggestion) {
+          const hit = suggestionToIngredient(name, suggestion);
+          reviewedHits.push({
+            ...hit,
+            zone: applyCookingMethod(hit.zone, cookingMethod),
+          });
+        }
+        return !suggestion;
+      });
+    } catch (error) {
+      logger.warn('Approved zoning suggestion lookup failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const knownIngredients = [...dictionaryHits, ...reviewedHits];
+
+    if (modelMisses.length === 0) {
+      return NextResponse.json({ ingredients: knownIngredients });
+    }
+
     // Sanitize the AI prompt and use sanitized ingredients
     const basePrompt = sanitizeAIPrompt(prompts.ingredientZoning);
-    const fullPrompt = `${basePrompt}\n\nInput: ${JSON.stringify(sanitizedIngredients)}`;
+    const fullPrompt = `${basePrompt}\n\nInput: ${JSON.stringify(modelMisses.map(toZoningInput))}`;
+    const modelMissNames = modelMisses.map(miss => miss.name);
 
     logger.debug('Calling OpenRouter for ingredient zoning');
 
@@ -173,7 +274,7 @@ export async function POST(request: NextRequest) {
       parsedResponse.ingredients.length === 0
     ) {
       logger.warn('AI response contained no ingredients');
-      return NextResponse.json({ ingredients: [] });
+      return NextResponse.json({ ingredients: knownIngredients });
     }
 
     // Normalize AI response with proper zone handling
@@ -197,6 +298,7 @@ export async function POST(request: NextRequest) {
           zone: normalizedZone,
           category: ingredient.category, // Main classification
           group: ingredient.group, // Primary classification
+          source: 'ai' as const,
         };
       }
     );
@@ -207,18 +309,18 @@ export async function POST(request: NextRequest) {
 
     // Validate response completeness - check for truncated or missing ingredients
     const outputNames = new Set(validatedIngredients.map(i => i.name));
-    const missingIngredients = sanitizedIngredients.filter(
+    const missingIngredients = modelMissNames.filter(
       name => !outputNames.has(name)
     );
     const truncatedIngredients = validatedIngredients.filter(
       i =>
         i.name.length < 3 ||
-        !sanitizedIngredients.some(input => input.includes(i.name))
+        !modelMissNames.some(input => input.includes(i.name))
     );
 
     if (missingIngredients.length > 0 || truncatedIngredients.length > 0) {
       logger.warn('AI response quality issues detected', {
-        inputCount: sanitizedIngredients.length,
+        inputCount: modelMissNames.length,
         outputCount: validatedIngredients.length,
         missingIngredients,
         truncatedIngredients: truncatedIngredients.map(i => i.name),
@@ -230,16 +332,40 @@ export async function POST(request: NextRequest) {
       qualityIssues: missingIngredients.length + truncatedIngredients.length,
     });
 
+    // Queue the model's classifications for admin review. Truncated names are
+    // skipped, as are prepared ingredients: their zone reflects the cooking
+    // method, not the ingredient itself
+    const preparedNames = new Set(
+      modelMisses.filter(miss => miss.cookingMethod).map(miss => miss.name)
+    );
+    const suggestions = validatedIngredients.filter(
+      i => !truncatedIngredients.includes(i) && !preparedNames.has(i.name)
+    );
+    try {
+      await recordZoningSuggestions(
+        supabase,
+        suggestions,
+        APP_CONFIG.AI.ZONING_MODEL
+      );
+    } catch (error) {
+      logger.warn('Failed to record zoning suggestions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        suggestionCount: suggestions.length,
+      });
+    }
+
     // Record successful performance metrics
     aiPerformanceMonitor.endRequest(performanceId, {
       service: 'ingredient-zoning',
       success: true,
       model: APP_CONFIG.AI.ZONING_MODEL,
-      requestSize: JSON.stringify(sanitizedIngredients).length,
+      requestSize: JSON.stringify(modelMissNames).length,
       responseSize: aiResponse.length,
     });
 
-    return NextResponse.json({ ingredients: validatedIngredients });
+    return NextResponse.json({
+      ingredients: [...knownIngredients, ...validatedIngredients],
+    });
   } catch (error) {
     logger.error('Error in zone-ingredients API', error);
 
@@ -22,8 +22,8 @@ export default function OfflinePage() {
             You&apos;re Offline
           </CardTitle>
           <CardDescription className="text-gray-600">
-            Your health data is safe and stored locally. Some features may be
-            limited without an internet connection.
+            Entries you log now are saved on this device and sync automatically
+            when you&apos;re back online.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -33,9 +33,8 @@ export default function OfflinePage() {
             </h3>
             <ul className="text-sm text-blue-800 space-y-1">
               <li>• View your logged data</li>
-              <li>• Add new entries manually</li>
-              <li>• Export your data</li>
-              <li>• Access your insights</li>
+              <li>• Log foods and symptoms</li>
+              <li>• Edit foods and delete symptoms</li>
             </ul>
           </div>
 
@@ -45,6 +44,7 @@ export default function OfflinePage() {
             </h3>
             <ul className="text-sm text-amber-800 space-y-1">
               <li>• Camera-based food analysis</li>
+              <li>• AI zoning of new ingredients</li>
               <li>• Syncing across devices</li>
             </ul>
           </div>
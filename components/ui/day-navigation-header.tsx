@@ -5,25 +5,20 @@ import { ChevronLeft, ChevronRight, Bell, Flame } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useTrackingStreak } from '@/lib/hooks';
 import { cn } from '@/lib/utils';
-import { Food, Symptom } from '@/lib/types';
 
 interface DayNavigationHeaderProps {
   selectedDate?: Date;
   onDateChange?: (date: Date) => void;
   className?: string;
-  allFoods?: Food[];
-  allSymptoms?: Symptom[];
 }
 
 export function DayNavigationHeader({
   selectedDate,
   onDateChange,
   className,
-  allFoods,
-  allSymptoms,
 }: DayNavigationHeaderProps) {
   const [currentDate, setCurrentDate] = useState<Date | null>(null);
-  const streak = useTrackingStreak(allFoods, allSymptoms);
+  const streak = useTrackingStreak();
 
   // Format date for display - memoized to prevent excessive re-renders
   const formatDate = useCallback((date: Date) => {
@@ -1,60 +1,47 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { ChevronLeft, ChevronRight, Bell, Flame } from 'lucide-react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, Bell, Flame, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useTrackingStreak } from '@/lib/hooks';
+import { useDayBoundary, useTrackingStreak } from '@/lib/hooks';
+import {
+  dateToDayKey,
+  dayKeyToDate,
+  daysBetween,
+  getTodayKey,
+} from '@/lib/utils/day-buckets';
 import { cn } from '@/lib/utils';
-import { Food, Symptom } from '@/lib/types';
 
 interface FullWidthHeaderProps {
   selectedDate?: Date;
   onDateChange?: (date: Date) => void;
   className?: string;
-  allFoods?: Food[];
-  allSymptoms?: Symptom[];
 }
 
 export function FullWidthHeader({
   selectedDate,
   onDateChange,
   className,
-  allFoods,
-  allSymptoms,
 }: FullWidthHeaderProps) {
   const [currentDate, setCurrentDate] = useState<Date | null>(null);
-  const streak = useTrackingStreak(allFoods, allSymptoms);
+  const streak = useTrackingStreak();
+  const dayBoundary = useDayBoundary();
 
   // Format date for display - memoized to prevent excessive re-renders
-  const formatDate = useCallback((date: Date) => {
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    // Normalize dates to midnight for accurate comparison
-    const dateMidnight = new Date(date);
-    dateMidnight.setHours(0, 0, 0, 0);
-    const todayMidnight = new Date(today);
-    todayMidnight.setHours(0, 0, 0, 0);
-    const yesterdayMidnight = new Date(yesterday);
-    yesterdayMidnight.setHours(0, 0, 0, 0);
-
-    const dateString = dateMidnight.toDateString();
-    const todayString = todayMidnight.toDateString();
-    const yesterdayString = yesterdayMidnight.toDateString();
-
-    if (dateString === todayString) {
-      return 'Today';
-    } else if (dateString === yesterdayString) {
-      return 'Yesterday';
-    } else {
-      // Calculate days difference
-      const daysDiff = Math.floor(
-        (todayMidnight.getTime() - dateMidnight.getTime()) /
-          (1000 * 60 * 60 * 24)
+  const formatDate = useCallback(
+    (date: Date) => {
+      // Days count from the user's day start, not the device's midnight
+      const daysDiff = daysBetween(
+        dateToDayKey(date),
+        getTodayKey(dayBoundary)
       );
 
-      if (daysDiff >= 2 && daysDiff <= 7) {
+      if (daysDiff === 0) {
+        return 'Today';
+      } else if (daysDiff === 1) {
+        return 'Yesterday';
+      } else if (daysDiff >= 2 && daysDiff <= 7) {
         // Previous 6 days (2-7 days ago): Day name only
         return date.toLocaleDateString('en-US', {
           weekday: 'short',
@@ -66,8 +53,9 @@ export function FullWidthHeader({
           day: 'numeric',
         });
       }
-    }
-  }, []);
+    },
+    [dayBoundary]
+  );
 
   // Initialize currentDate on client side to avoid hydration mismatch
   useEffect(() => {
@@ -116,18 +104,14 @@ export function FullWidthHeader({
   };
 
   const handleToday = () => {
-    const today = new Date();
+    const today = dayKeyToDate(getTodayKey(dayBoundary));
     setCurrentDate(today);
     onDateChange?.(today);
   };
 
   // Check if we can go forward (not future dates)
-  const canGoForward = () => {
-    const tomorrow = new Date(currentDate);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const today = new Date();
-    return tomorrow.toDateString() <= today.toDateString();
-  };
+  const canGoForward = () =>
+    dateToDayKey(currentDate) < getTodayKey(dayBoundary);
 
   return (
     <div
@@ -183,8 +167,18 @@ export function FullWidthHeader({
           </Button>
         </div>
 
-        {/* Right: Notifications Placeholder */}
+        {/* Right: Ingredient search + notifications placeholder */}
         <div className="flex items-center">
+          <Button
+            asChild
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground active:text-foreground"
+          >
+            <Link href="/app/search" aria-label="Search ingredients">
+              <Search className="h-4 w-4" />
+            </Link>
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { Check, Pencil, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { reviewZoningSuggestions, updateZoningSuggestion } from '@/lib/db';
+import { useZoningSuggestions } from '@/lib/hooks';
+import { getZoneBgClass } from '@/lib/utils/zone-colors';
+import { logger } from '@/lib/utils/logger';
+import type {
+  Ingredient,
+  ZoningSuggestion,
+  ZoningSuggestionStatus,
+} from '@/lib/types';
+
+const STATUS_LABELS: Record<ZoningSuggestionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const ZONES: Ingredient['zone'][] = ['green', 'yellow', 'red', 'unzoned'];
+
+type SuggestionDraft = Pick<
+  ZoningSuggestion,
+  'zone' | 'category' | 'ingredient_group'
+>;
+
+export function ZoningReviewQueue() {
+  const [status, setStatus] = useState<ZoningSuggestionStatus>('pending');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SuggestionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: suggestions, error, isLoading } = useZoningSuggestions(status);
+
+  // Wraps a review write with saving state, refresh and error toast
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      await action();
+      // Reviewed rows move between tabs, so refresh every status
+      await mutate(
+        key => typeof key === 'string' && key.startsWith('zoning-suggestions-')
+      );
+      setSelectedIds(new Set());
+      setEditingId(null);
+      setDraft(null);
+      toast.success(success);
+    } catch (error) {
+      logger.error('Zoning review failed', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to update suggestion. Please try again.'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = (value: string) => {
+    setStatus(value as ZoningSuggestionStatus);
+    setSelectedIds(new Set());
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected =
+    !!suggestions?.length && selectedIds.size === suggestions.length;
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(suggestions?.map(s => s.id))
+    );
+  };
+
+  const review = (
+    ids: string[],
+    nextStatus: Exclude<ZoningSuggestionStatus, 'pending'>
+  ) =>
+    runAction(
+      () => reviewZoningSuggestions(ids, nextStatus),
+      `${ids.length} suggestion${ids.length === 1 ? '' : 's'} ${nextStatus}`
+    );
+
+  const startEditing = (suggestion: ZoningSuggestion) => {
+    setEditingId(suggestion.id);
+    setDraft({
+      zone: suggestion.zone,
+      category: suggestion.category ?? '',
+      ingredient_group: suggestion.ingredient_group,
+    });
+  };
+
+  const saveEdit = (suggestion: ZoningSuggestion) => {
+    if (!draft) return;
+    if (!draft.ingredient_group.trim()) {
+      toast.error('Group is required');
+      return;
+    }
+    runAction(
+      () =>
+        updateZoningSuggestion(suggestion.id, {
+          zone: draft.zone,
+          category: draft.category?.trim(),
+          ingredient_group: draft.ingredient_group.trim(),
+        }),
+      `Updated and approved "${suggestion.ingredient_name}"`
+    );
+  };
+
+  const selected = [...selectedIds];
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={handleStatusChange}>
+        <TabsList className="grid w-full grid-cols-3">
+          {(Object.keys(STATUS_LABELS) as ZoningSuggestionStatus[]).map(
+            value => (
+              <TabsTrigger key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </TabsTrigger>
+            )
+          )}
+        </TabsList>
+      </Tabs>
+
+      {/* Bulk actions */}
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={toggleAll}
+            disabled={!suggestions?.length || isSaving}
+            aria-label="Select all suggestions"
+          />
+          {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+        </label>
+        <div className="flex gap-2">
+          {status !== 'approved' && (
+            <Button
+              size="sm"
+              disabled={selectedIds.size === 0 || isSaving}
+              onClick={() => review(selected, 'approved')}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          )}
+          {status !== 'rejected' && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={selectedIds.size === 0 || isSaving}
+              onClick={() => review(selected, 'rejected')}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          Loading suggestions...
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 text-center py-8">
+          Failed to load suggestions.
+        </p>
+      )}
+
+      {!isLoading && !error && suggestions?.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No {STATUS_LABELS[status].toLowerCase()} suggestions.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {suggestions?.map(suggestion => {
+          const isEditing = editingId === suggestion.id && draft;
+
+          return (
+            <li
+              key={suggestion.id}
+              className="bg-white rounded-lg border border-gray-100 p-3"
+            >
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={selectedIds.has(suggestion.id)}
+                  onCheckedChange={() => toggleSelected(suggestion.id)}
+                  disabled={isSaving}
+                  aria-label={`Select ${suggestion.ingredient_name}`}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`h-2.5 w-2.5 rounded-full flex-shrink-0 ${getZoneBgClass(suggestion.zone)}`}
+                    />
+                    <span className="font-medium text-gray-900 truncate">
+                      {suggestion.ingredient_name}
+                    </span>
+                    <Badge variant="secondary" className="ml-auto">
+                      {suggestion.request_count}×
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {[suggestion.category, suggestion.ingredient_group]
+                      .filter(Boolean)
+                      .join(' · ')}{' '}
+                    · {suggestion.model}
+                  </p>
+
+                  {isEditing ? (
+                    <div className="mt-3 space-y-2">
+                      <Select
+                        value={draft.zone}
+                        onValueChange={value =>
+                          setDraft({
+                            ...draft,
+                            zone: value as Ingredient['zone'],
+                          })
+                        }
+                      >
+                        <SelectTrigger aria-label="Zone">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ZONES.map(zone => (
+                            <SelectItem key={zone} value={zone}>
+                              {zone}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={draft.category ?? ''}
+                        placeholder="Category (e.g. Vegetables)"
+                        aria-label="Category"
+                        onChange={e =>
+                          setDraft({ ...draft, category: e.target.value })
+                        }
+                      />
+                      <Input
+                        value={draft.ingredient_group}
+                        placeholder="Group (e.g. Leafy Greens)"
+                        aria-label="Group"
+                        onChange={e =>
+                          setDraft({
+                            ...draft,
+                            ingredient_group: e.target.value,
+                          })
+                        }
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() => {
+                            setEditingId(null);
+                            setDraft(null);
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={isSaving}
+                          onClick={() => saveEdit(suggestion)}
+                        >
+                          Save & approve
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="mt-2 flex gap-2">
+                      {status !== 'approved' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isSaving}
+                          onClick={() => review([suggestion.id], 'approved')}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {status !== 'rejected' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isSaving}
+                          onClick={() => review([suggestion.id], 'rejected')}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isSaving}
+                        onClick={() => startEditing(suggestion)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@/lib/types';
 import { createClient } from '@/lib/supabase/client';
+import { disablePushNotifications } from '@/lib/push/client';
 // Removed unused getCurrentUser import
 import { logger } from '@/lib/utils/logger';
 
@@ -48,6 +49,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const logout = async () => {
+    // Stop this device's reminders while the session can still delete the
+    // subscription, so the next person on this browser doesn't get them
+    try {
+      await disablePushNotifications();
+    } catch (error) {
+      logger.warn('Failed to unsubscribe from push notifications', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     try {
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
@@ -39,8 +39,8 @@ export function ModeSelector({
     { mode: 'cancel' as const, icon: X, disabled: false },
     { mode: 'upload' as const, icon: Images, disabled: false },
     { mode: 'camera' as const, icon: Camera, disabled: false },
-    { mode: 'barcode' as const, icon: ScanBarcode, disabled: true },
-    { mode: 'label' as const, icon: ScanText, disabled: true },
+    { mode: 'barcode' as const, icon: ScanBarcode, disabled: false },
+    { mode: 'label' as const, icon: ScanText, disabled: false },
     { mode: 'manual' as const, icon: Edit, disabled: false },
     { mode: 'submit' as const, icon: Check, disabled: !hasImages || !onSubmit },
   ];
@@ -3,7 +3,7 @@
 import { useEffect, useRef, useState, useTransition } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Camera, X } from 'lucide-react';
+import { Camera, Images, X } from 'lucide-react';
 import { logger } from '@/lib/utils/logger';
 import { APP_CONFIG } from '@/lib/config/constants';
 import { validateImageFile } from '@/lib/utils/file-validation';
@@ -14,12 +14,19 @@ import { useErrorHandler } from '@/components/error-boundary';
 import { CameraCycleButton } from './camera-cycle-button';
 import { LoadingSpinner } from '@/components/ui/loading-states';
 import { toast } from 'sonner';
+import { scanBarcode, loadImageFile } from '@/lib/barcode/scanner';
+import { lookupProduct, type ProductInfo } from '@/lib/products/catalog';
+import type { ImageAnalysisMode } from '@/lib/types';
+
+// How often the live video is sampled for barcodes in barcode mode
+const BARCODE_SCAN_INTERVAL_MS = 300;
 
 interface MultiCameraCaptureProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onCapture: (images: string[]) => void;
+  onCapture: (images: string[], analysisMode?: ImageAnalysisMode) => void;
   onManualEntry: () => void;
+  onProductScanned?: (product: ProductInfo) => void;
   title: string;
   maxImages?: number;
 }
@@ -29,6 +36,7 @@ export function MultiCameraCapture({
   onOpenChange,
   onCapture,
   onManualEntry,
+  onProductScanned,
   title: _title,
   maxImages = APP_CONFIG.IMAGE.MAX_CAMERA_IMAGES,
 }: MultiCameraCaptureProps) {
@@ -52,6 +60,13 @@ export function MultiCameraCapture({
   const isInitialCameraLoadRef = useRef<boolean>(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Barcode scanning state
+  const barcodeFileInputRef = useRef<HTMLInputElement>(null);
+  const [isLookingUpProduct, setIsLookingUpProduct] = useState(false);
+  // Codes that were not found or failed to look up; live scanning skips them
+  // until the user retries, so one code in frame isn't looked up every tick
+  const skippedBarcodesRef = useRef<Set<string>>(new Set());
+
   /**
    * Compress image using Web Worker with smart compression strategy
    * Uses the same logic as smartCompressImage but with Web Worker support
@@ -135,6 +150,36 @@ export function MultiCameraCapture({
     }
   }, [stream, showCamera]);
 
+  // Sample the live video for barcodes while in barcode mode
+  useEffect(() => {
+    if (selectedMode !== 'barcode' || !stream || isLookingUpProduct) return;
+
+    let cancelled = false;
+    let scanning = false;
+    const interval = setInterval(async () => {
+      if (scanning || !videoRef.current || !canvasRef.current) return;
+      scanning = true;
+      try {
+        const barcode = await scanBarcode(videoRef.current, canvasRef.current);
+        if (barcode && !cancelled && !skippedBarcodesRef.current.has(barcode)) {
+          clearInterval(interval);
+          handleBarcodeDetected(barcode);
+        }
+      } catch (err) {
+        logger.debug('Barcode scan frame failed', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      } finally {
+        scanning = false;
+      }
+    }, BARCODE_SCAN_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selectedMode, stream, isLookingUpProduct]);
+
   /**
    * Enumerate all available video input devices (cameras)
    * Filters for rear-facing cameras and loads preferred camera from localStorage
@@ -587,12 +632,86 @@ export function MultiCameraCapture({
     }
   };
 
+  /**
+   * Look up a decoded barcode and hand the product to the parent
+   * Unknown barcodes are remembered so the live scanner doesn't retry them
+   */
+  const handleBarcodeDetected = async (barcode: string) => {
+    setIsLookingUpProduct(true);
+    try {
+      const product = await lookupProduct(barcode);
+
+      if (!product) {
+        skippedBarcodesRef.current.add(barcode);
+        toast.error(
+          `Product ${barcode} not found. Try a photo of the ingredients or add it manually.`
+        );
+        return;
+      }
+
+      logger.debug('Product found for barcode', {
+        barcode,
+        source: product.source,
+        ingredientCount: product.ingredients.length,
+      });
+
+      stopCamera();
+      startTransition(() => {
+        onProductScanned?.(product);
+        onOpenChange(false);
+      });
+    } catch (error) {
+      logger.error('Product lookup failed', error);
+      skippedBarcodesRef.current.add(barcode);
+      toast.error('Unable to look up product.', {
+        action: {
+          label: 'Try again',
+          onClick: () => {
+            skippedBarcodesRef.current.delete(barcode);
+            handleBarcodeDetected(barcode);
+          },
+        },
+      });
+    } finally {
+      setIsLookingUpProduct(false);
+    }
+  };
+
+  const handleBarcodeFileUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    // Reset file input so the same photo can be selected again
+    e.target.value = '';
+    if (!file || !canvasRef.current) return;
+
+    try {
+      setIsUploading(true);
+      const image = await loadImageFile(file);
+      const barcode = await scanBarcode(image, canvasRef.current);
+      setIsUploading(false);
+
+      if (!barcode) {
+        toast.error('No barcode found in photo. Try a closer, sharper shot.');
+        return;
+      }
+
+      // An explicit upload always retries, even for previously skipped codes
+      skippedBarcodesRef.current.delete(barcode);
+      await handleBarcodeDetected(barcode);
+    } catch (error) {
+      setIsUploading(false);
+      logger.error('Barcode photo scan failed', error);
+      toast.error('Unable to read photo. Please try again.');
+    }
+  };
+
   const handleDone = () => {
     if (capturedImages.length > 0) {
       stopCamera();
       // Use React 19 transition to coordinate navigation and modal closing
       startTransition(() => {
-        onCapture(capturedImages);
+        onCapture(capturedImages, selectedMode === 'label' ? 'label' : 'meal');
         onOpenChange(false);
       });
     }
@@ -619,10 +738,11 @@ export function MultiCameraCapture({
         // Multi-camera mode - user can tap to capture multiple photos
         break;
       case 'barcode':
-        // Placeholder - not implemented yet
+        // Live scanning starts via effect; photo upload is offered in the overlay
+        skippedBarcodesRef.current.clear();
         break;
       case 'label':
-        // Placeholder - not implemented yet
+        // Same tap-to-capture flow; photos are read by the label pipeline on Done
         break;
     }
   };
@@ -718,8 +838,8 @@ export function MultiCameraCapture({
                 </div>
               </div>
 
-              {/* Capture Overlay - only active in camera mode */}
-              {selectedMode === 'camera' && (
+              {/* Capture Overlay - active in camera and label modes */}
+              {(selectedMode === 'camera' || selectedMode === 'label') && (
                 <div
                   className="absolute inset-0 cursor-pointer bg-black/5 active:bg-black/20 transition-colors"
                   onClick={captureImage}
@@ -735,11 +855,47 @@ export function MultiCameraCapture({
                         {capturedImages.length}/{maxImages}
                         {maxImages > 1 ? ' photos' : ''}
                       </p>
+                      {selectedMode === 'label' && (
+                        <p className="text-white/80 text-xs mt-2 bg-black/40 px-2 py-1 rounded backdrop-blur-sm">
+                          Photograph the ingredient list
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Barcode Overlay - live scanning with photo fallback */}
+              {selectedMode === 'barcode' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/20">
+                  <div className="w-4/5 max-w-sm h-32 rounded-xl border-4 border-white/70 shadow-lg" />
+                  <p className="text-white/80 text-sm font-medium bg-black/40 px-2 py-1 rounded backdrop-blur-sm">
+                    {isLookingUpProduct
+                      ? 'Looking up product...'
+                      : 'Line up the barcode inside the frame'}
+                  </p>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => barcodeFileInputRef.current?.click()}
+                    disabled={isLookingUpProduct || isUploading}
+                  >
+                    <Images className="h-4 w-4 mr-2" />
+                    Scan from photo
+                  </Button>
+                </div>
+              )}
+
+              {/* Hidden file input for barcode photos */}
+              <Input
+                ref={barcodeFileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleBarcodeFileUpload}
+                className="hidden"
+                aria-label="Barcode photo"
+              />
+
               {/* Hidden file input for upload functionality */}
               <Input
                 ref={fileInputRef}
@@ -0,0 +1,95 @@
+'use client';
+
+import { Compass, TrendingDown, TrendingUp } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useBodyCompassScores } from '@/lib/hooks';
+import { getZoneTextClass } from '@/lib/utils/zone-colors';
+import type { BodyCompassComponent } from '@/lib/insights/body-compass-score';
+
+const COMPONENT_LABELS: Record<BodyCompassComponent, string> = {
+  zones: 'Zones',
+  organic: 'Organic',
+  symptoms: 'Symptoms',
+};
+
+// Same bands as the zones: 70+ green, 40+ yellow, below that red
+const getScoreZone = (score: number) =>
+  score >= 70 ? 'green' : score >= 40 ? 'yellow' : 'red';
+
+export function BodyCompassScoreCard() {
+  const { today, comparison } = useBodyCompassScores();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Compass className="h-5 w-5" />
+          Body Compass Score
+        </CardTitle>
+        <CardDescription>
+          Today&apos;s zones, organics and symptoms combined into one score.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {today ? (
+          <div className="flex items-center gap-6">
+            <div
+              className={`text-4xl font-bold ${getZoneTextClass(getScoreZone(today.score))}`}
+            >
+              {today.score}
+            </div>
+            <dl className="flex-1 space-y-1 text-sm">
+              {(Object.keys(COMPONENT_LABELS) as BodyCompassComponent[]).map(
+                key => (
+                  <div key={key} className="flex justify-between">
+                    <dt className="text-muted-foreground">
+                      {COMPONENT_LABELS[key]}
+                    </dt>
+                    <dd className="font-medium">
+                      {today.components[key] ?? '—'}
+                    </dd>
+                  </div>
+                )
+              )}
+            </dl>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Log a meal or a signal to get today&apos;s score.
+          </p>
+        )}
+
+        {comparison && comparison.thisWeek !== null && (
+          <div className="flex items-center justify-between border-t pt-3 text-sm">
+            <span className="text-muted-foreground">
+              This week&apos;s average: {comparison.thisWeek}
+            </span>
+            {comparison.change !== null && (
+              <span
+                className={`flex items-center gap-1 font-medium ${
+                  comparison.change >= 0
+                    ? getZoneTextClass('green')
+                    : getZoneTextClass('red')
+                }`}
+              >
+                {comparison.change >= 0 ? (
+                  <TrendingUp className="h-4 w-4" />
+                ) : (
+                  <TrendingDown className="h-4 w-4" />
+                )}
+                {comparison.change > 0 ? '+' : ''}
+                {comparison.change} vs last week
+              </span>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,10 +14,20 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Utensils, MoreVertical, Copy, Edit, Trash2 } from 'lucide-react';
+import {
+  Utensils,
+  MoreVertical,
+  Copy,
+  BookmarkPlus,
+  Edit,
+  Trash2,
+  AlertTriangle,
+  CloudOff,
+} from 'lucide-react';
 import { FoodCompositionBar } from '@/features/foods/components/food-composition-bar';
 import { OrganicCompositionBar } from '@/features/foods/components/organic-composition-bar';
 import { FoodZoneSummaryBar } from '@/features/foods/components/food-zone-summary-bar';
+import { HydrationTracker } from '@/features/foods/components/hydration-tracker';
 import { UnifiedTimeline } from './unified-timeline';
 import { AnimatedComponentErrorBoundary } from '@/components/animated-component-error-boundary';
 import {
@@ -29,9 +39,14 @@ import {
   ErrorBoundary,
   SupabaseErrorFallback,
 } from '@/components/error-boundary';
-import { getCategoryInfoSafe } from '@/lib/symptoms/symptom-index';
-import { duplicateFood, deleteFood } from '@/lib/db';
+import {
+  describeSymptomIntensity,
+  getCategoryInfoSafe,
+} from '@/lib/symptoms/symptom-index';
+import { findProtocolViolations } from '@/lib/protocols/elimination';
+import { addMealTemplate, duplicateFood, deleteFood } from '@/lib/db';
 import { mutate } from 'swr';
+import { revalidateEntries } from '@/lib/hooks';
 import { toast } from 'sonner';
 import { logger } from '@/lib/utils/logger';
 import {
@@ -46,18 +61,43 @@ import {
 } from '@/components/ui/alert-dialog';
 
 // Import types
-import type { TimelineEntry, FoodStats, Ingredient } from '@/lib/types';
+import type {
+  Food,
+  TimelineEntry,
+  FoodStats,
+  FoodStatsWeighting,
+  Ingredient,
+  Protocol,
+} from '@/lib/types';
+
+// Shown on entries saved offline that haven't reached the server yet
+function PendingSyncBadge() {
+  return (
+    <Badge variant="secondary" className="text-xs gap-1 whitespace-nowrap">
+      <CloudOff className="h-3 w-3" />
+      Pending sync
+    </Badge>
+  );
+}
 
 interface EntriesViewProps {
   entriesForSelectedDate?: TimelineEntry[];
   foodStatsForSelectedDate?: FoodStats;
   getIngredientsForSelectedDate: () => Ingredient[];
+  activeProtocol?: Protocol | null;
+  weighting?: FoodStatsWeighting;
+  onWeightingChange?: (weighting: FoodStatsWeighting) => void;
+  isSelectedDateToday?: boolean;
 }
 
 export function EntriesView({
   entriesForSelectedDate,
   foodStatsForSelectedDate,
   getIngredientsForSelectedDate,
+  activeProtocol,
+  weighting = 'count',
+  onWeightingChange,
+  isSelectedDateToday = true,
 }: EntriesViewProps) {
   const router = useRouter();
   const [deletingFoodId, setDeletingFoodId] = useState<string | null>(null);
@@ -78,7 +118,7 @@ export function EntriesView({
       const newFoodId = await duplicateFood(foodId);
 
       // Refresh dashboard data
-      await mutate('dashboard-data');
+      await revalidateEntries();
 
       // Navigate to edit page for the new duplicated entry
       router.push(`/app/foods/edit/${newFoodId}`);
@@ -96,6 +136,24 @@ export function EntriesView({
     }
   };
 
+  const handleSaveTemplate = async (food: Food, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      await addMealTemplate(food);
+      await mutate('meal-templates');
+      toast.success(`Saved "${food.name}" for quick logging`);
+    } catch (error) {
+      logger.error('Failed to save meal template', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save meal template. Please try again.'
+      );
+    }
+  };
+
   const handleEditFood = (foodId: string, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -105,7 +163,7 @@ export function EntriesView({
   const handleDeleteFood = async (foodId: string) => {
     try {
       await deleteFood(foodId);
-      await mutate('dashboard-data');
+      await revalidateEntries();
       toast.success('Food entry deleted successfully');
       setDeletingFoodId(null);
     } catch (error) {
@@ -129,13 +187,25 @@ export function EntriesView({
         ) : (
           <div className="space-y-4">
             <UnifiedTimeline entries={entriesForSelectedDate} />
-            {/* Zone and Organic Bars directly under timeline */}
-            {foodStatsForSelectedDate && (
-              <FoodZoneSummaryBar
-                ingredients={getIngredientsForSelectedDate()}
-                showTitle={false}
+            {/* Zone and Organic Bars directly under timeline, with hydration */}
+            <div className="flex items-start gap-3">
+              {foodStatsForSelectedDate && (
+                <FoodZoneSummaryBar
+                  className="flex-1 min-w-0"
+                  ingredients={getIngredientsForSelectedDate()}
+                  showTitle={false}
+                  weighting={weighting}
+                  onWeightingChange={onWeightingChange}
+                />
+              )}
+              <HydrationTracker
+                className="flex-shrink-0 ml-auto"
+                foods={entriesForSelectedDate.flatMap(entry =>
+                  entry.type === 'food' ? [entry.data] : []
+                )}
+                canLog={isSelectedDateToday}
               />
-            )}
+            </div>
           </div>
         )}
       </div>
@@ -170,12 +240,20 @@ export function EntriesView({
                 // Render food entry
                 if (entry.type === 'food') {
                   const food = entry.data;
+                  const violations = findProtocolViolations(
+                    food,
+                    activeProtocol
+                  );
                   return (
                     <div key={entry.id} className="relative">
                       <Link
                         href={`/app/foods/edit/${food.id}`}
-                        prefetch={true}
+                        prefetch={!food.pending_sync}
                         className="block"
+                        onClick={e => {
+                          // Unsynced entries don't exist on the server yet
+                          if (food.pending_sync) e.preventDefault();
+                        }}
                       >
                         <Card className="cursor-pointer active:shadow-xl active:scale-[0.99] transition-all duration-200">
                           <CardContent className="!py-3 !px-4">
@@ -209,6 +287,20 @@ export function EntriesView({
                                       ?.map(ing => ing.name)
                                       .join(', ') || 'No ingredients'}
                                   </p>
+                                  {violations.length > 0 && (
+                                    <p
+                                      className="flex items-center gap-1 text-xs text-destructive truncate"
+                                      title={violations
+                                        .map(ing => ing.name)
+                                        .join(', ')}
+                                    >
+                                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                      Breaks protocol:{' '}
+                                      {violations
+                                        .map(ing => ing.name)
+                                        .join(', ')}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                               <div className="flex-shrink-0 flex items-center space-x-2 ml-2">
@@ -216,6 +308,7 @@ export function EntriesView({
                                   <AnimatedComponentErrorBoundary>
                                     <FoodCompositionBar
                                       ingredients={food.ingredients || []}
+                                      weighting={weighting}
                                     />
                                   </AnimatedComponentErrorBoundary>
                                   <AnimatedComponentErrorBoundary>
@@ -224,56 +317,70 @@ export function EntriesView({
                                     />
                                   </AnimatedComponentErrorBoundary>
                                 </div>
-                                <DropdownMenu>
-                                  <DropdownMenuTrigger asChild>
-                                    <Button
-                                      variant="ghost"
-                                      size="icon"
-                                      className="h-10 w-10 text-muted-foreground touch-manipulation [&_svg]:!h-[24px] [&_svg]:!w-[24px] active:text-foreground active:scale-95"
-                                      onClick={e => {
-                                        e.preventDefault();
-                                        e.stopPropagation();
-                                      }}
-                                      aria-label="Entry options"
-                                    >
-                                      <MoreVertical />
-                                    </Button>
-                                  </DropdownMenuTrigger>
-                                  <DropdownMenuContent
-                                    align="end"
-                                    onClick={e => e.stopPropagation()}
-                                  >
-                                    <DropdownMenuItem
-                                      onClick={e =>
-                                        handleDuplicateFood(food.id, e)
-                                      }
-                                      disabled={isDuplicating === food.id}
-                                    >
-                                      <Copy className="mr-2 h-4 w-4" />
-                                      {isDuplicating === food.id
-                                        ? 'Duplicating...'
-                                        : 'Duplicate'}
-                                    </DropdownMenuItem>
-                                    <DropdownMenuItem
-                                      onClick={e => handleEditFood(food.id, e)}
-                                    >
-                                      <Edit className="mr-2 h-4 w-4" />
-                                      Edit
-                                    </DropdownMenuItem>
-                                    <DropdownMenuSeparator />
-                                    <DropdownMenuItem
-                                      onClick={e => {
-                                        e.preventDefault();
-                                        e.stopPropagation();
-                                        setDeletingFoodId(food.id);
-                                      }}
-                                      className="text-destructive focus:text-destructive"
+                                {food.pending_sync ? (
+                                  <PendingSyncBadge />
+                                ) : (
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-10 w-10 text-muted-foreground touch-manipulation [&_svg]:!h-[24px] [&_svg]:!w-[24px] active:text-foreground active:scale-95"
+                                        onClick={e => {
+                                          e.preventDefault();
+                                          e.stopPropagation();
+                                        }}
+                                        aria-label="Entry options"
+                                      >
+                                        <MoreVertical />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent
+                                      align="end"
+                                      onClick={e => e.stopPropagation()}
                                     >
-                                      <Trash2 className="mr-2 h-4 w-4" />
-                                      Delete
-                                    </DropdownMenuItem>
-                                  </DropdownMenuContent>
-                                </DropdownMenu>
+                                      <DropdownMenuItem
+                                        onClick={e =>
+                                          handleDuplicateFood(food.id, e)
+                                        }
+                                        disabled={isDuplicating === food.id}
+                                      >
+                                        <Copy className="mr-2 h-4 w-4" />
+                                        {isDuplicating === food.id
+                                          ? 'Duplicating...'
+                                          : 'Duplicate'}
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        onClick={e =>
+                                          handleSaveTemplate(food, e)
+                                        }
+                                      >
+                                        <BookmarkPlus className="mr-2 h-4 w-4" />
+                                        Save as template
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        onClick={e =>
+                                          handleEditFood(food.id, e)
+                                        }
+                                      >
+                                        <Edit className="mr-2 h-4 w-4" />
+                                        Edit
+                                      </DropdownMenuItem>
+                                      <DropdownMenuSeparator />
+                                      <DropdownMenuItem
+                                        onClick={e => {
+                                          e.preventDefault();
+                                          e.stopPropagation();
+                                          setDeletingFoodId(food.id);
+                                        }}
+                                        className="text-destructive focus:text-destructive"
+                                      >
+                                        <Trash2 className="mr-2 h-4 w-4" />
+                                        Delete
+                                      </DropdownMenuItem>
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                )}
                               </div>
                             </div>
                           </CardContent>
@@ -290,8 +397,11 @@ export function EntriesView({
                     <Link
                       key={entry.id}
                       href={`/app/symptoms/edit/${symptom.id}`}
-                      prefetch={true}
+                      prefetch={!symptom.pending_sync}
                       className="block"
+                      onClick={e => {
+                        if (symptom.pending_sync) e.preventDefault();
+                      }}
                     >
                       <Card className="cursor-pointer active:shadow-xl active:scale-[0.99] transition-all duration-200">
                         <CardContent className="py-3 px-4">
@@ -319,14 +429,22 @@ export function EntriesView({
                                     }
                                   )}
                                 </p>
+                                {describeSymptomIntensity(symptom) && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {describeSymptomIntensity(symptom)}
+                                  </p>
+                                )}
                               </div>
                             </div>
-                            <Badge
-                              variant="outline"
-                              className="text-xs capitalize"
-                            >
-                              {symptom.category}
-                            </Badge>
+                            <div className="flex items-center gap-2">
+                              {symptom.pending_sync && <PendingSyncBadge />}
+                              <Badge
+                                variant="outline"
+                                className="text-xs capitalize"
+                              >
+                                {symptom.category}
+                              </Badge>
+                            </div>
                           </div>
                         </CardContent>
                       </Card>
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useFailedOutboxEntries } from '@/lib/hooks';
+import { describeOperation, type OutboxEntry } from '@/lib/offline/outbox';
+import { logger } from '@/lib/utils/logger';
+
+// Offline changes that gave up syncing; nothing is shown while there are none
+export function FailedSyncAlert() {
+  const { entries, retry, discard } = useFailedOutboxEntries();
+  const { toast } = useToast();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      const { synced } = await retry();
+      if (synced > 0) {
+        toast({
+          title: 'Offline entries synced',
+          description: `${synced} saved ${synced === 1 ? 'change was' : 'changes were'} synced.`,
+        });
+      }
+    } catch (error) {
+      logger.error('Retrying offline sync failed', error);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    try {
+      await discard(entry);
+    } catch (error) {
+      logger.error('Discarding offline change failed', error);
+    }
+  };
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {entries.length === 1
+          ? 'A change made offline could not be saved'
+          : `${entries.length} changes made offline could not be saved`}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li
+              key={entry.seq}
+              className="flex items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {describeOperation(entry.operation)}
+                </p>
+                {entry.lastError && (
+                  <p className="text-xs truncate">{entry.lastError}</p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDiscard(entry)}
+                aria-label="Discard change"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRetry}
+          disabled={isRetrying}
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${isRetrying ? 'animate-spin' : ''}`}
+          />
+          Try again
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
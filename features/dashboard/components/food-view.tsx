@@ -19,18 +19,20 @@ import {
 } from '@/components/error-boundary';
 
 // Import types
-import { Food, FoodStats } from '@/lib/types';
+import { Food, FoodStats, FoodStatsWeighting } from '@/lib/types';
 
 interface FoodViewProps {
   foodsForSelectedDate?: Food[];
   foodStatsForSelectedDate?: FoodStats;
   getIngredientsForSelectedDate: () => any[];
+  weighting?: FoodStatsWeighting;
 }
 
 export function FoodView({
   foodsForSelectedDate,
   foodStatsForSelectedDate,
   getIngredientsForSelectedDate,
+  weighting = 'count',
 }: FoodViewProps) {
   return (
     <ErrorBoundary fallback={SupabaseErrorFallback}>
@@ -41,7 +43,10 @@ export function FoodView({
             <DataLoadingState message="Loading food data..." />
           </div>
         ) : (
-          <FoodZoneSummaryBar ingredients={getIngredientsForSelectedDate()} />
+          <FoodZoneSummaryBar
+            ingredients={getIngredientsForSelectedDate()}
+            weighting={weighting}
+          />
         )}
       </div>
 
@@ -113,6 +118,7 @@ export function FoodView({
                             <AnimatedComponentErrorBoundary>
                               <FoodCompositionBar
                                 ingredients={food.ingredients || []}
+                                weighting={weighting}
                               />
                             </AnimatedComponentErrorBoundary>
                             <AnimatedComponentErrorBoundary>
@@ -1,74 +1,61 @@
 'use client';
 
-import { useMemo } from 'react';
+import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
-import { BarChart3, Flame, Utensils, Activity } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BarChart3, Flame, Utensils, Activity, TrendingUp } from 'lucide-react';
 import { getZoneBgClass, getZoneTextClass } from '@/lib/utils/zone-colors';
-import { Food, Symptom } from '@/lib/types';
+import {
+  useDayBoundary,
+  useEntriesInRange,
+  useEntrySummary,
+  useRecentEntries,
+} from '@/lib/hooks';
+import { getBaselineRange } from '@/lib/protocols/elimination';
+import { Protocol } from '@/lib/types';
+import { SuspectIngredientsCard } from './suspect-ingredients-card';
+import { ProtocolCard } from './protocol-card';
+import { BodyCompassScoreCard } from './body-compass-score-card';
+import { MealTimingCard } from './meal-timing-card';
 
 interface InsightsViewProps {
-  recentFoods?: Food[];
-  recentSymptoms?: Symptom[];
-  allFoods?: Food[];
-  allSymptoms?: Symptom[];
+  activeProtocol?: Protocol | null;
 }
 
-export function InsightsView({ allFoods, allSymptoms }: InsightsViewProps) {
-  // Calculate metrics using useMemo for performance
-  const metrics = useMemo(() => {
-    const totalFoods = allFoods?.length || 0;
-    const totalSymptoms = allSymptoms?.length || 0;
+export function InsightsView({ activeProtocol }: InsightsViewProps) {
+  // Totals and streak are counted server-side; the cards below only need
+  // the recent history
+  const { data: summary } = useEntrySummary();
+  const { data: history } = useRecentEntries();
 
-    // Calculate total days with any entries
-    const allEntries = [
-      ...(allFoods || []).map(f => ({ timestamp: f.timestamp, type: 'food' })),
-      ...(allSymptoms || []).map(s => ({
-        timestamp: s.timestamp,
-        type: 'symptom',
-      })),
-    ];
-
-    const uniqueDays = new Set(
-      allEntries.map(entry => {
-        const date = new Date(entry.timestamp);
-        return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
-      })
-    );
-    const totalDays = uniqueDays.size;
-
-    // Calculate current streak (consecutive days from yesterday backwards)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    let currentStreak = 0;
-    let checkDate = new Date(today);
-    checkDate.setDate(checkDate.getDate() - 1); // Start from yesterday
-
-    while (true) {
-      const dateKey = `${checkDate.getFullYear()}-${checkDate.getMonth()}-${checkDate.getDate()}`;
-      if (uniqueDays.has(dateKey)) {
-        currentStreak++;
-        checkDate.setDate(checkDate.getDate() - 1);
-      } else {
-        break;
-      }
-
-      // Prevent infinite loops - max reasonable streak is 365 days
-      if (currentStreak > 365) break;
-    }
+  // Reintroductions are ranked by meals from before the protocol, however
+  // long ago it started; without one this is today's range, already loaded
+  const boundary = useDayBoundary();
+  const { startDay, endDay } = getBaselineRange(
+    activeProtocol ?? { started_at: new Date().toISOString() },
+    boundary
+  );
+  const { data: baseline } = useEntriesInRange(startDay, endDay);
 
-    return {
-      totalFoods,
-      totalSymptoms,
-      totalDays,
-      currentStreak,
-    };
-  }, [allFoods, allSymptoms]);
+  const metrics = {
+    totalFoods: summary?.totalFoods ?? 0,
+    totalSymptoms: summary?.totalSymptoms ?? 0,
+    totalDays: summary?.daysTracked ?? 0,
+    currentStreak: summary?.currentStreak ?? 0,
+  };
 
   return (
     <div className="space-y-6">
       {/* Overview title */}
-      <h2 className="text-xl font-semibold">Overview</h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Overview</h2>
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/app/insights">
+            <TrendingUp className="h-4 w-4 mr-1" />
+            Trends
+          </Link>
+        </Button>
+      </div>
 
       {/* Day Streak Card */}
       <Card>
@@ -151,6 +138,25 @@ export function InsightsView({ allFoods, allSymptoms }: InsightsViewProps) {
           </div>
         </CardContent>
       </Card>
+
+      {/* Daily score and week-over-week change */}
+      <BodyCompassScoreCard />
+
+      {/* Elimination protocol */}
+      <ProtocolCard
+        protocol={activeProtocol}
+        baselineFoods={baseline?.foods}
+        symptoms={history?.symptoms}
+      />
+
+      {/* Food-symptom correlations */}
+      <SuspectIngredientsCard
+        foods={history?.foods}
+        symptoms={history?.symptoms}
+      />
+
+      {/* Eating window, overnight fast and timing correlations */}
+      <MealTimingCard foods={history?.foods} symptoms={history?.symptoms} />
     </div>
   );
 }
@@ -0,0 +1,156 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Clock } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { useDayBoundary } from '@/lib/hooks';
+import { getCategoryInfoSafe } from '@/lib/symptoms/symptom-index';
+import { computeTimingCorrelations } from '@/lib/insights/correlation';
+import {
+  buildMealTimings,
+  formatClockMinutes,
+  formatTimingDuration,
+  summarizeMealTiming,
+} from '@/lib/insights/meal-timing';
+import { getTodayKey, shiftDayKey } from '@/lib/utils/day-buckets';
+import type { Food, Symptom } from '@/lib/types';
+
+const { TIMING_SUMMARY_DAYS } = APP_CONFIG.MEAL;
+
+interface MealTimingCardProps {
+  foods?: Food[];
+  symptoms?: Symptom[];
+  maxItems?: number;
+}
+
+export function MealTimingCard({
+  foods,
+  symptoms,
+  maxItems = 3,
+}: MealTimingCardProps) {
+  const boundary = useDayBoundary();
+
+  const timings = useMemo(
+    () => buildMealTimings(foods || [], boundary),
+    [foods, boundary]
+  );
+
+  // Averages cover the recent days; correlations use the whole history
+  const summary = useMemo(() => {
+    const since = shiftDayKey(getTodayKey(boundary), 1 - TIMING_SUMMARY_DAYS);
+    return summarizeMealTiming(
+      timings.filter(timing => timing.day >= since),
+      boundary
+    );
+  }, [timings, boundary]);
+
+  const correlations = useMemo(
+    () => computeTimingCorrelations(timings, symptoms || []).slice(0, maxItems),
+    [timings, symptoms, maxItems]
+  );
+
+  const formatOrDash = (
+    value: number | null,
+    format: (minutes: number) => string
+  ) => (value === null ? '—' : format(value));
+
+  const rows = [
+    {
+      label: 'First meal',
+      value: formatOrDash(summary.averageFirstMealMinutes, formatClockMinutes),
+    },
+    {
+      label: 'Last meal',
+      value: formatOrDash(summary.averageLastMealMinutes, formatClockMinutes),
+    },
+    {
+      label: 'Eating window',
+      value: formatOrDash(
+        summary.averageEatingWindowMinutes,
+        formatTimingDuration
+      ),
+    },
+    {
+      label: 'Overnight fast',
+      value: formatOrDash(
+        summary.averageOvernightFastMinutes,
+        formatTimingDuration
+      ),
+    },
+    {
+      label: 'Late-night eating',
+      value: `${summary.lateNightDays} of ${summary.days} days`,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Meal Timing
+        </CardTitle>
+        <CardDescription>
+          Average eating window and overnight fast over the last{' '}
+          {TIMING_SUMMARY_DAYS} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary.days === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Log meals to see when you eat and how long you fast overnight.
+          </p>
+        ) : (
+          <dl className="space-y-1 text-sm">
+            {rows.map(row => (
+              <div key={row.label} className="flex justify-between">
+                <dt className="text-muted-foreground">{row.label}</dt>
+                <dd className="font-medium">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {correlations.length > 0 && (
+          <ul className="space-y-2 border-t pt-3">
+            {correlations.map(correlation => {
+              const categoryInfo =
+                correlation.targetType === 'category'
+                  ? getCategoryInfoSafe(correlation.target)
+                  : undefined;
+              return (
+                <li
+                  key={`${correlation.exposure}:${correlation.targetType}:${correlation.target}`}
+                  className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {correlation.exposureName}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {categoryInfo?.icon ? `${categoryInfo.icon} ` : ''}
+                      {categoryInfo?.displayName || correlation.targetName}{' '}
+                      after {correlation.support} of {correlation.exposures}{' '}
+                      days
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="flex-shrink-0 text-xs">
+                    {Math.round(correlation.confidence * 100)}% confidence
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
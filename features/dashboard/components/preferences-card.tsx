@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { updateUserSettings } from '@/lib/db';
+import {
+  disablePushNotifications,
+  enablePushNotifications,
+  isPushSupported,
+} from '@/lib/push/client';
+import { useUserSettings } from '@/lib/hooks';
+import { APP_CONFIG } from '@/lib/config/constants';
+import {
+  DEFAULT_USER_SETTINGS,
+  formatDayBoundary,
+  getDeviceTimezone,
+  getTimezoneOptions,
+  mergeUserSettings,
+  type UserSettingsUpdate,
+} from '@/lib/settings/user-settings';
+import { logger } from '@/lib/utils/logger';
+import type { UserSettings } from '@/lib/types';
+
+const THEME_LABELS: Record<UserSettings['theme'], string> = {
+  dark: 'Dark',
+  light: 'Light',
+  system: 'System',
+};
+
+const UNIT_LABELS: Record<UserSettings['units'], string> = {
+  metric: 'Metric (g, ml)',
+  imperial: 'Imperial (oz, fl oz)',
+};
+
+const DEVICE_TIMEZONE = 'device'; // Select value for a null timezone
+
+const DAY_BOUNDARY_OPTIONS = Array.from(
+  { length: APP_CONFIG.SETTINGS.MAX_DAY_BOUNDARY_HOUR + 1 },
+  (_, hour) => hour
+);
+
+export function PreferencesCard() {
+  const { data: settings = DEFAULT_USER_SETTINGS } = useUserSettings();
+  const timezones = useMemo(() => getTimezoneOptions(), []);
+  const deviceTimezone = useMemo(() => getDeviceTimezone(), []);
+  const [isPushAvailable, setIsPushAvailable] = useState(true);
+
+  // Checked after mount; the server render can't know
+  useEffect(() => setIsPushAvailable(isPushSupported()), []);
+
+  // Optimistic, so switches and selects respond before the round trip
+  const save = async (update: UserSettingsUpdate) => {
+    await mutate('user-settings', mergeUserSettings(settings, update), {
+      revalidate: false,
+    });
+    try {
+      const saved = await updateUserSettings(update);
+      await mutate('user-settings', saved, { revalidate: false });
+    } catch (error) {
+      logger.error('Failed to save settings', error);
+      toast.error('Failed to save settings. Please try again.');
+      await mutate('user-settings');
+    }
+  };
+
+  // Turning a notification on subscribes this device; turning the last one
+  // off unsubscribes it
+  const saveNotifications = async (
+    notifications: Partial<UserSettings['notifications']>
+  ) => {
+    const next = { ...settings.notifications, ...notifications };
+    const isEnabling = Object.values(notifications).some(Boolean);
+
+    try {
+      if (isEnabling) {
+        await enablePushNotifications();
+      } else if (!next.reminders && !next.dailySummary) {
+        await disablePushNotifications();
+      }
+    } catch (error) {
+      logger.warn('Failed to update push subscription', { error });
+      if (isEnabling) {
+        toast.error(
+          error instanceof Error
+            ? error.message
+            : 'Failed to enable notifications.'
+        );
+        return;
+      }
+    }
+
+    await save({ notifications });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Preferences
+        </CardTitle>
+        <CardDescription>
+          Saved to your account and synced across your devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="settings-theme">Theme</Label>
+          <Select
+            value={settings.theme}
+            onValueChange={value =>
+              save({ theme: value as UserSettings['theme'] })
+            }
+          >
+            <SelectTrigger id="settings-theme" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(THEME_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="settings-units">Units</Label>
+          <Select
+            value={settings.units}
+            onValueChange={value =>
+              save({ units: value as UserSettings['units'] })
+            }
+          >
+            <SelectTrigger id="settings-units" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(UNIT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="settings-timezone">Timezone</Label>
+          <Select
+            value={settings.timezone ?? DEVICE_TIMEZONE}
+            onValueChange={value =>
+              save({ timezone: value === DEVICE_TIMEZONE ? null : value })
+            }
+          >
+            <SelectTrigger id="settings-timezone" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEVICE_TIMEZONE}>
+                Device ({deviceTimezone})
+              </SelectItem>
+              {timezones.map(timezone => (
+                <SelectItem key={timezone} value={timezone}>
+                  {timezone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="settings-day-boundary">Day starts at</Label>
+            <p className="text-xs text-muted-foreground">
+              Late-night entries before this count towards the previous day.
+            </p>
+          </div>
+          <Select
+            value={String(settings.dayBoundaryHour)}
+            onValueChange={value => save({ dayBoundaryHour: Number(value) })}
+          >
+            <SelectTrigger id="settings-day-boundary" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_BOUNDARY_OPTIONS.map(hour => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {formatDayBoundary(hour)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="settings-reminders">Logging reminders</Label>
+            <p className="text-xs text-muted-foreground">
+              Timed from when you usually log meals, plus a check-in a few hours
+              after each one.
+            </p>
+          </div>
+          <Switch
+            id="settings-reminders"
+            checked={settings.notifications.reminders}
+            onCheckedChange={reminders => saveNotifications({ reminders })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="settings-daily-summary">Daily summary</Label>
+          <Switch
+            id="settings-daily-summary"
+            checked={settings.notifications.dailySummary}
+            onCheckedChange={dailySummary =>
+              saveNotifications({ dailySummary })
+            }
+          />
+        </div>
+
+        {!isPushAvailable && (
+          <p className="text-xs text-muted-foreground">
+            Notifications aren&apos;t available in this browser. Install the app
+            or use another device to receive reminders.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
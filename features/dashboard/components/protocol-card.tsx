@@ -0,0 +1,299 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { RotateCcw } from 'lucide-react';
+import { endProtocol, startProtocol, updateProtocol } from '@/lib/db';
+import { PROTOCOL_CONFIG } from '@/lib/config/constants';
+import {
+  advanceProtocolPhase,
+  createBigResetProtocol,
+  getActiveReintroduction,
+  getEliminationDaysRemaining,
+  getPhaseAdvanceBlocker,
+  getReintroductionStatus,
+  proposeNextReintroduction,
+  recordReintroductionOutcome,
+  startReintroduction,
+  suggestReintroductionOutcome,
+} from '@/lib/protocols/elimination';
+import { logger } from '@/lib/utils/logger';
+import type {
+  Food,
+  Protocol,
+  ProtocolPhase,
+  ReintroductionOutcome,
+  Symptom,
+} from '@/lib/types';
+
+interface ProtocolCardProps {
+  protocol?: Protocol | null;
+  baselineFoods?: Food[]; // Meals from before the protocol (getBaselineRange)
+  symptoms?: Symptom[];
+}
+
+const PHASE_LABELS: Record<ProtocolPhase, string> = {
+  elimination: 'Elimination',
+  reintroduction: 'Reintroduction',
+  maintenance: 'Maintenance',
+};
+
+export function ProtocolCard({
+  protocol,
+  baselineFoods,
+  symptoms,
+}: ProtocolCardProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeReintroduction = protocol
+    ? getActiveReintroduction(protocol)
+    : undefined;
+
+  const proposal = useMemo(
+    () =>
+      protocol
+        ? proposeNextReintroduction(protocol, baselineFoods || [])
+        : null,
+    [protocol, baselineFoods]
+  );
+
+  const suggestedOutcome = useMemo(
+    () =>
+      activeReintroduction
+        ? suggestReintroductionOutcome(activeReintroduction, symptoms || [])
+        : undefined,
+    [activeReintroduction, symptoms]
+  );
+
+  // Wraps a protocol write with saving state, refresh and error toast
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      await action();
+      await mutate('active-protocol');
+      toast.success(success);
+    } catch (error) {
+      logger.error('Protocol update failed', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to update protocol. Please try again.'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (protocol === undefined) return null;
+
+  if (!protocol) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Big Reset
+          </CardTitle>
+          <CardDescription>
+            Eat only green-zone foods for {PROTOCOL_CONFIG.ELIMINATION_DAYS}{' '}
+            days, then reintroduce yellow-zone groups one at a time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            className="w-full"
+            disabled={isSaving}
+            onClick={() =>
+              runAction(async () => {
+                await startProtocol(createBigResetProtocol());
+              }, 'Big Reset started')
+            }
+          >
+            Start Big Reset
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const daysRemaining = getEliminationDaysRemaining(protocol);
+  const advanceBlocker = getPhaseAdvanceBlocker(protocol);
+
+  const handleOutcome = (outcome: ReintroductionOutcome) =>
+    runAction(async () => {
+      await updateProtocol(
+        protocol.id,
+        recordReintroductionOutcome(protocol, outcome)
+      );
+    }, `Marked ${activeReintroduction?.group} as ${outcome}`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Big Reset
+          </span>
+          <Badge variant="outline" className="text-xs">
+            {PHASE_LABELS[protocol.phase]}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {protocol.phase === 'elimination' && (
+          <div className="space-y-2">
+            <Progress
+              value={
+                ((PROTOCOL_CONFIG.ELIMINATION_DAYS - daysRemaining) /
+                  PROTOCOL_CONFIG.ELIMINATION_DAYS) *
+                100
+              }
+            />
+            <p className="text-sm text-muted-foreground">
+              {daysRemaining > 0
+                ? `${daysRemaining} day${daysRemaining !== 1 ? 's' : ''} of green-zone eating left`
+                : 'Elimination complete - note your baseline energy and clarity'}
+            </p>
+          </div>
+        )}
+
+        {protocol.phase === 'reintroduction' && activeReintroduction && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Testing{' '}
+              <span className="font-medium">{activeReintroduction.group}</span>
+            </p>
+            {getReintroductionStatus(activeReintroduction) === 'observing' ? (
+              <p className="text-sm text-muted-foreground">
+                Observing until{' '}
+                {new Date(activeReintroduction.observe_until).toLocaleString(
+                  'en-US',
+                  {
+                    weekday: 'short',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                    hour12: true,
+                  }
+                )}
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {suggestedOutcome === 'reactive'
+                    ? 'Signals were logged during the observation window.'
+                    : 'No signals were logged during the observation window.'}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    disabled={isSaving}
+                    onClick={() => handleOutcome('tolerated')}
+                  >
+                    Tolerated
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    disabled={isSaving}
+                    onClick={() => handleOutcome('reactive')}
+                  >
+                    Reactive
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {protocol.phase === 'reintroduction' && proposal && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Next up: <span className="font-medium">{proposal.group}</span>
+            </p>
+            <Button
+              className="w-full"
+              disabled={isSaving}
+              onClick={() =>
+                runAction(async () => {
+                  await updateProtocol(
+                    protocol.id,
+                    startReintroduction(protocol, proposal.group)
+                  );
+                }, `Reintroducing ${proposal.group}`)
+              }
+            >
+              Start {PROTOCOL_CONFIG.REINTRODUCTION_OBSERVATION_HOURS}h test
+            </Button>
+          </div>
+        )}
+
+        {protocol.reintroductions.some(r => r.outcome) && (
+          <div className="flex flex-wrap gap-2">
+            {protocol.reintroductions
+              .filter(r => r.outcome)
+              .map(r => (
+                <Badge
+                  key={r.group}
+                  variant={
+                    r.outcome === 'reactive' ? 'destructive' : 'secondary'
+                  }
+                  className="text-xs"
+                >
+                  {r.group}
+                </Badge>
+              ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {protocol.phase !== 'maintenance' && (
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled={isSaving || advanceBlocker !== null}
+              title={advanceBlocker || undefined}
+              onClick={() =>
+                runAction(async () => {
+                  await updateProtocol(
+                    protocol.id,
+                    advanceProtocolPhase(protocol)
+                  );
+                }, 'Protocol phase updated')
+              }
+            >
+              {protocol.phase === 'elimination'
+                ? 'Begin reintroduction'
+                : 'Move to maintenance'}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            className="text-muted-foreground"
+            disabled={isSaving}
+            onClick={() =>
+              runAction(async () => {
+                await endProtocol(protocol.id);
+              }, 'Protocol ended')
+            }
+          >
+            End
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,9 +9,18 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
-import { User, LogOut, Smartphone } from 'lucide-react';
+import { User, LogOut, Smartphone, ShieldCheck } from 'lucide-react';
+import Link from 'next/link';
 import { getBuildInfo } from '@/lib/utils/app-version';
 import { LoadingSpinner } from '@/components/ui/loading-states';
+import { useIsAdmin } from '@/lib/hooks';
+import { ZoneOverridesCard } from './zone-overrides-card';
+import { DataExportCard } from '@/features/export/components/data-export-card';
+import { DataImportCard } from '@/features/export/components/data-import-card';
+import { CustomSymptomsCard } from '@/features/symptoms/components/custom-symptoms-card';
+import { RecipesCard } from '@/features/foods/components/recipes-card';
+import { WaterGoalCard } from '@/features/foods/components/water-goal-card';
+import { PreferencesCard } from './preferences-card';
 
 interface SettingsViewProps {
   user?: any;
@@ -25,6 +34,7 @@ export function SettingsView({
   handleLogout,
 }: SettingsViewProps) {
   const buildInfo = getBuildInfo();
+  const { data: isAdmin } = useIsAdmin();
   return (
     <div className="space-y-4">
       {/* Account Information */}
@@ -99,6 +109,45 @@ export function SettingsView({
         </CardContent>
       </Card>
 
+      {/* Preferences */}
+      <PreferencesCard />
+
+      {/* Hydration */}
+      <WaterGoalCard />
+
+      {/* Personal Zones */}
+      <ZoneOverridesCard />
+
+      {/* Recipes */}
+      <RecipesCard />
+
+      {/* Custom Symptoms */}
+      <CustomSymptomsCard />
+
+      {/* Data Export & Import */}
+      <DataExportCard />
+      <DataImportCard />
+
+      {/* Admin Tools */}
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Admin
+            </CardTitle>
+            <CardDescription>
+              Review AI ingredient classifications.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full sm:w-auto">
+              <Link href="/app/admin/zoning">Open zoning review</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Account Actions */}
       <Card>
         <CardHeader>
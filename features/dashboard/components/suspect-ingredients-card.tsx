@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Search } from 'lucide-react';
+import { getZoneTextClass } from '@/lib/utils/zone-colors';
+import { getCategoryInfoSafe } from '@/lib/symptoms/symptom-index';
+import {
+  CORRELATION_WINDOWS,
+  computeSuspectIngredients,
+  getSuspectsForWindow,
+  type CorrelationWindow,
+} from '@/lib/insights/correlation';
+import type { Food, Symptom } from '@/lib/types';
+
+interface SuspectIngredientsCardProps {
+  foods?: Food[];
+  symptoms?: Symptom[];
+  maxItems?: number;
+}
+
+export function SuspectIngredientsCard({
+  foods,
+  symptoms,
+  maxItems = 5,
+}: SuspectIngredientsCardProps) {
+  const [selectedWindow, setSelectedWindow] =
+    useState<CorrelationWindow>('immediate');
+
+  // Correlations are computed once per data change, then filtered per tab
+  const suspects = useMemo(
+    () => computeSuspectIngredients(foods || [], symptoms || []),
+    [foods, symptoms]
+  );
+
+  const visibleSuspects = useMemo(
+    () => getSuspectsForWindow(suspects, selectedWindow).slice(0, maxItems),
+    [suspects, selectedWindow, maxItems]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Suspect Ingredients
+        </CardTitle>
+        <CardDescription>
+          Foods most often followed by signals compared to meals without them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs
+          value={selectedWindow}
+          onValueChange={value => setSelectedWindow(value as CorrelationWindow)}
+        >
+          <TabsList className="grid w-full grid-cols-3">
+            {CORRELATION_WINDOWS.map(w => (
+              <TabsTrigger key={w.name} value={w.name} className="text-xs">
+                {w.displayName}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {visibleSuspects.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Not enough overlapping food and signal entries yet. Keep logging
+            meals and signals to surface likely triggers.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {visibleSuspects.map(suspect => {
+              const categoryInfo =
+                suspect.targetType === 'category'
+                  ? getCategoryInfoSafe(suspect.target)
+                  : undefined;
+              return (
+                <li
+                  key={`${suspect.subjectType}:${suspect.subject}:${suspect.targetType}:${suspect.target}`}
+                  className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3"
+                >
+                  <div className="min-w-0">
+                    <p
+                      className={`text-sm font-medium truncate capitalize ${
+                        suspect.zone ? getZoneTextClass(suspect.zone) : ''
+                      }`}
+                    >
+                      {suspect.subject}
+                      {suspect.subjectType === 'group' && (
+                        <span className="ml-1 text-xs text-muted-foreground normal-case">
+                          (group)
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {categoryInfo?.icon ? `${categoryInfo.icon} ` : ''}
+                      {categoryInfo?.displayName ||
+                        suspect.targetName} after {suspect.support} of{' '}
+                      {suspect.exposures} meals
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="flex-shrink-0 text-xs">
+                    {Math.round(suspect.confidence * 100)}% confidence
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
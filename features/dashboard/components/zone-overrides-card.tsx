@@ -0,0 +1,197 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { SlidersHorizontal, Trash2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { deleteZoneOverride, setZoneOverride } from '@/lib/db';
+import { useZoneOverrides, revalidateEntries } from '@/lib/hooks';
+import { INGREDIENT_DICTIONARY } from '@/lib/zoning/ingredient-dictionary';
+import { getZoneBgClass } from '@/lib/utils/zone-colors';
+import { logger } from '@/lib/utils/logger';
+import type { ZoneOverride, ZoneOverrideTarget } from '@/lib/types';
+
+const TARGET_LABELS: Record<ZoneOverrideTarget, string> = {
+  ingredient: 'Ingredient',
+  group: 'Group',
+};
+
+const OVERRIDE_ZONES: ZoneOverride['zone'][] = ['green', 'yellow', 'red'];
+
+export function ZoneOverridesCard() {
+  const { data: overrides } = useZoneOverrides();
+  const [targetType, setTargetType] = useState<ZoneOverrideTarget>('group');
+  const [target, setTarget] = useState('');
+  const [zone, setZone] = useState<ZoneOverride['zone']>('red');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Suggest the rubric's group names so group pins actually match
+  const groupNames = useMemo(
+    () => [...new Set(INGREDIENT_DICTIONARY.map(entry => entry.group))].sort(),
+    []
+  );
+
+  // Wraps an override write with saving state, refresh and error toast
+  const runAction = async (
+    action: () => Promise<void>,
+    success: string
+  ): Promise<boolean> => {
+    if (isSaving) return false;
+    setIsSaving(true);
+    try {
+      await action();
+      await Promise.all([mutate('zone-overrides'), revalidateEntries()]);
+      toast.success(success);
+      return true;
+    } catch (error) {
+      logger.error('Zone override update failed', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to update personal zones. Please try again.'
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!target.trim()) return;
+    const saved = await runAction(
+      () => setZoneOverride(targetType, target, zone),
+      `"${target.trim()}" is now ${zone} for you`
+    );
+    if (saved) setTarget('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Personal Zones
+        </CardTitle>
+        <CardDescription>
+          Pin your own zone for ingredients or groups you react to differently.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={targetType}
+            onValueChange={value => setTargetType(value as ZoneOverrideTarget)}
+          >
+            <SelectTrigger aria-label="Override type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TARGET_LABELS) as ZoneOverrideTarget[]).map(
+                value => (
+                  <SelectItem key={value} value={value}>
+                    {TARGET_LABELS[value]}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+          <Select
+            value={zone}
+            onValueChange={value => setZone(value as ZoneOverride['zone'])}
+          >
+            <SelectTrigger aria-label="Zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OVERRIDE_ZONES.map(value => (
+                <SelectItem key={value} value={value} className="capitalize">
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={target}
+            onChange={e => setTarget(e.target.value)}
+            placeholder={
+              targetType === 'group'
+                ? 'e.g. Conventional Dairy'
+                : 'e.g. white rice'
+            }
+            aria-label={TARGET_LABELS[targetType]}
+            list={targetType === 'group' ? 'zone-override-groups' : undefined}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+          />
+          <Button onClick={handleAdd} disabled={!target.trim() || isSaving}>
+            Pin
+          </Button>
+        </div>
+        <datalist id="zone-override-groups">
+          {groupNames.map(group => (
+            <option key={group} value={group} />
+          ))}
+        </datalist>
+
+        {overrides && overrides.length > 0 ? (
+          <ul className="space-y-2">
+            {overrides.map(override => (
+              <li key={override.id} className="flex items-center gap-2 text-sm">
+                <span
+                  className={`h-2.5 w-2.5 rounded-full flex-shrink-0 ${getZoneBgClass(override.zone)}`}
+                />
+                <span className="flex-1 truncate">
+                  {override.target}
+                  <span className="text-muted-foreground">
+                    {' '}
+                    · {TARGET_LABELS[override.target_type].toLowerCase()}
+                  </span>
+                </span>
+                <span className="capitalize text-muted-foreground">
+                  {override.zone}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    runAction(
+                      () => deleteZoneOverride(override.id),
+                      `Removed personal zone for "${override.target}"`
+                    )
+                  }
+                  disabled={isSaving}
+                  className="p-1 text-muted-foreground active:scale-110"
+                  aria-label={`Remove personal zone for ${override.target}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No personal zones yet. Ingredients use the AI and dictionary zones.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getZoneBgClass } from '@/lib/utils/zone-colors';
+import type {
+  ClinicianReport,
+  ZoneCounts,
+} from '@/lib/export/clinician-report';
+import type { Ingredient } from '@/lib/types';
+
+const ZONES: Ingredient['zone'][] = ['green', 'yellow', 'red', 'unzoned'];
+
+const formatPercent = (part: number, total: number) =>
+  total > 0 ? `${Math.round((part / total) * 100)}%` : '—';
+
+// Dates are local YYYY-MM-DD keys; parse as local so the label can't shift a day
+const formatDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+function ZoneBar({ counts, total }: { counts: ZoneCounts; total: number }) {
+  if (total === 0) {
+    return <div className="h-3 w-full rounded bg-gray-100" />;
+  }
+  return (
+    <div className="flex h-3 w-full overflow-hidden rounded">
+      {ZONES.map(zone =>
+        counts[zone] > 0 ? (
+          <div
+            key={zone}
+            className={getZoneBgClass(zone)}
+            style={{ width: `${(counts[zone] / total) * 100}%` }}
+          />
+        ) : null
+      )}
+    </div>
+  );
+}
+
+function Section({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+interface ClinicianReportViewProps {
+  report: ClinicianReport;
+  patientEmail?: string;
+}
+
+/**
+ * Printable report; the browser's print dialog saves it as a multi-page PDF
+ */
+export function ClinicianReportView({
+  report,
+  patientEmail,
+}: ClinicianReportViewProps) {
+  const { totals, zoneTotals } = report;
+
+  return (
+    <article
+      className="mx-auto max-w-3xl space-y-8 bg-white p-6 text-gray-900 print:max-w-none print:p-0"
+      style={{ printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}
+    >
+      {/* Page 1: overview and zones */}
+      <header className="space-y-1 border-b border-gray-200 pb-4">
+        <h1 className="text-2xl font-bold">Food &amp; Symptom Summary</h1>
+        <p className="text-sm text-gray-600">
+          {formatDateKey(report.range.from)} – {formatDateKey(report.range.to)}{' '}
+          ({report.range.days} days)
+        </p>
+        {patientEmail && (
+          <p className="text-sm text-gray-600">Patient: {patientEmail}</p>
+        )}
+        <p className="text-xs text-gray-500">
+          Generated {new Date().toLocaleString('en-US')}
+        </p>
+      </header>
+
+      <Section title="Overview">
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {[
+            ['Meals logged', totals.meals],
+            ['Ingredients', totals.ingredients],
+            ['Symptoms logged', totals.symptoms],
+            [
+              'Days with entries',
+              `${totals.daysLogged} / ${report.range.days}`,
+            ],
+          ].map(([label, value]) => (
+            <div key={label} className="rounded border border-gray-200 p-3">
+              <dt className="text-xs text-gray-500">{label}</dt>
+              <dd className="text-xl font-semibold">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </Section>
+
+      <Section title="Zone distribution">
+        <ZoneBar counts={zoneTotals} total={totals.ingredients} />
+        <div className="flex flex-wrap gap-4 text-sm">
+          {ZONES.map(zone => (
+            <span key={zone} className="flex items-center gap-1.5 capitalize">
+              <span
+                className={`h-2.5 w-2.5 rounded-full ${getZoneBgClass(zone)}`}
+              />
+              {zone}: {zoneTotals[zone]} (
+              {formatPercent(zoneTotals[zone], totals.ingredients)})
+            </span>
+          ))}
+        </div>
+      </Section>
+
+      <Section
+        title={`Zone distribution by ${report.bucketSize === 'day' ? 'day' : 'week'}`}
+      >
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                {report.bucketSize === 'day' ? 'Day' : 'Week'}
+              </TableHead>
+              <TableHead className="w-1/2">Zones</TableHead>
+              <TableHead className="text-right">Green</TableHead>
+              <TableHead className="text-right">Red</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.zoneDistribution.map(bucket => (
+              <TableRow key={bucket.start} className="break-inside-avoid">
+                <TableCell className="whitespace-nowrap">
+                  {bucket.start === bucket.end
+                    ? formatDateKey(bucket.start)
+                    : `${formatDateKey(bucket.start)} – ${formatDateKey(bucket.end)}`}
+                </TableCell>
+                <TableCell>
+                  <ZoneBar counts={bucket} total={bucket.total} />
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatPercent(bucket.green, bucket.total)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatPercent(bucket.red, bucket.total)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Section>
+
+      {/* Page 2: symptoms and red-zone exposure */}
+      <div className="space-y-8 print:break-before-page">
+        <Section title="Symptom frequency by category">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead className="w-1/3">Share</TableHead>
+                <TableHead className="text-right">Entries</TableHead>
+                <TableHead className="text-right">Days affected</TableHead>
+                <TableHead className="text-right">Avg severity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.symptomsByCategory.map(row => (
+                <TableRow key={row.category}>
+                  <TableCell>{row.displayName}</TableCell>
+                  <TableCell>
+                    <div className="h-3 w-full rounded bg-gray-100">
+                      <div
+                        className="h-3 rounded bg-destructive"
+                        style={{ width: `${row.share * 100}%` }}
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.count}</TableCell>
+                  <TableCell className="text-right">
+                    {row.daysAffected}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.averageSeverity !== null
+                      ? `${row.averageSeverity} / 5`
+                      : '–'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section title="Most frequent red-zone ingredients">
+          {report.topRedIngredients.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ingredient</TableHead>
+                  <TableHead className="text-right">Meals</TableHead>
+                  <TableHead className="text-right">Share of meals</TableHead>
+                  <TableHead className="text-right">Last eaten</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.topRedIngredients.map(row => (
+                  <TableRow key={row.name.toLowerCase()}>
+                    <TableCell className="capitalize">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.count}</TableCell>
+                    <TableCell className="text-right">
+                      {formatPercent(row.count, totals.meals)}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {new Date(row.lastSeen).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                      })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-600">
+              No red-zone ingredients were logged in this period.
+            </p>
+          )}
+        </Section>
+
+        <footer className="border-t border-gray-200 pt-4 text-xs text-gray-500">
+          Zones follow the EatZone rubric, including any personal zones the
+          patient has set. Entries are self-reported and this summary is not a
+          diagnosis.
+        </footer>
+      </div>
+    </article>
+  );
+}
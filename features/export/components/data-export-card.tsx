@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Download, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { exportAllData } from '@/lib/db';
+import {
+  INGREDIENT_CSV_COLUMNS,
+  SYMPTOM_CSV_COLUMNS,
+  buildIngredientRows,
+  buildSymptomRows,
+  downloadFile,
+  exportFilename,
+  toCsv,
+  type DataExport,
+} from '@/lib/export/formats';
+import { parseReportRange } from '@/lib/export/clinician-report';
+import { useDayBoundary } from '@/lib/hooks';
+import { dateToDayKey, type DayBoundary } from '@/lib/utils/day-buckets';
+import { applyZoneOverridesToFoods } from '@/lib/zoning/overrides';
+import { logger } from '@/lib/utils/logger';
+
+type ExportFormat = 'ingredients-csv' | 'symptoms-csv' | 'json';
+
+// Builds one download from a fresh server export
+const EXPORT_WRITERS: Record<
+  ExportFormat,
+  (
+    data: DataExport,
+    boundary: DayBoundary
+  ) => { filename: string; content: string; mime: string }
+> = {
+  'ingredients-csv': (data, boundary) => ({
+    filename: exportFilename('ingredients', 'csv'),
+    // Match the zones shown in the app, personal overrides included
+    content: toCsv(
+      buildIngredientRows(
+        applyZoneOverridesToFoods(data.foods, data.zoneOverrides),
+        boundary
+      ),
+      INGREDIENT_CSV_COLUMNS
+    ),
+    mime: 'text/csv;charset=utf-8',
+  }),
+  'symptoms-csv': (data, boundary) => ({
+    filename: exportFilename('symptoms', 'csv'),
+    content: toCsv(
+      buildSymptomRows(data.symptoms, boundary),
+      SYMPTOM_CSV_COLUMNS
+    ),
+    mime: 'text/csv;charset=utf-8',
+  }),
+  json: data => ({
+    filename: exportFilename('export', 'json'),
+    content: JSON.stringify(data, null, 2),
+    mime: 'application/json',
+  }),
+};
+
+export function DataExportCard() {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const boundary = useDayBoundary();
+  const [range, setRange] = useState(() => {
+    const { from, to } = parseReportRange(null, null);
+    return { from: dateToDayKey(from), to: dateToDayKey(to) };
+  });
+
+  const handleExport = async (format: ExportFormat) => {
+    if (exporting) return;
+    setExporting(format);
+    try {
+      const { filename, content, mime } = EXPORT_WRITERS[format](
+        await exportAllData(),
+        boundary
+      );
+      downloadFile(filename, content, mime);
+      toast.success(`Downloaded ${filename}`);
+    } catch (error) {
+      logger.error('Data export failed', error);
+      toast.error('Failed to export your data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const reportHref = `/app/reports/clinician?from=${range.from}&to=${range.to}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Data Export
+        </CardTitle>
+        <CardDescription>
+          Download your entries or a summary to share with your clinician.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 sm:grid-cols-3">
+          <Button
+            variant="outline"
+            onClick={() => handleExport('ingredients-csv')}
+            disabled={exporting !== null}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {exporting === 'ingredients-csv' ? 'Exporting...' : 'Foods CSV'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport('symptoms-csv')}
+            disabled={exporting !== null}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {exporting === 'symptoms-csv' ? 'Exporting...' : 'Symptoms CSV'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport('json')}
+            disabled={exporting !== null}
+          >
+            <FileJson className="h-4 w-4 mr-2" />
+            {exporting === 'json' ? 'Exporting...' : 'JSON backup'}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Clinician report</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={e => setRange({ ...range, from: e.target.value })}
+              aria-label="Report start date"
+            />
+            <Input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={e => setRange({ ...range, to: e.target.value })}
+              aria-label="Report end date"
+            />
+          </div>
+          <Button asChild variant="outline" className="w-full sm:w-auto">
+            <Link href={reportHref}>
+              <FileText className="h-4 w-4 mr-2" />
+              Open printable report
+            </Link>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
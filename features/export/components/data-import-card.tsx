@@ -0,0 +1,273 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, Upload } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getAllFoods, getAllSymptoms, importAllData } from '@/lib/db';
+import { revalidateEntries } from '@/lib/hooks';
+import {
+  parseImportFile,
+  planImport,
+  type ImportFile,
+  type ImportMode,
+} from '@/lib/export/import';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { formatFileSize } from '@/lib/utils/image-utils';
+import { logger } from '@/lib/utils/logger';
+import type { Food, Symptom } from '@/lib/types';
+
+const { IMPORT_MAX_FILE_SIZE } = APP_CONFIG.EXPORT;
+
+interface LoadedImport {
+  fileName: string;
+  file: ImportFile;
+  existing: { foods: Food[]; symptoms: Symptom[] };
+}
+
+export function DataImportCard() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [loaded, setLoaded] = useState<LoadedImport | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  // Dry run - recomputed when the mode changes, nothing is written
+  const plan = useMemo(
+    () => (loaded ? planImport(loaded.existing, loaded.file, mode) : null),
+    [loaded, mode]
+  );
+
+  const reset = () => {
+    setLoaded(null);
+    setErrors([]);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    setLoaded(null);
+    setErrors([]);
+    if (selected.size > IMPORT_MAX_FILE_SIZE) {
+      setErrors([
+        `File is ${formatFileSize(selected.size)}; the limit is ${formatFileSize(IMPORT_MAX_FILE_SIZE)}`,
+      ]);
+      return;
+    }
+
+    setIsReading(true);
+    try {
+      const result = parseImportFile(await selected.text());
+      if (!result.success) {
+        setErrors(result.errors);
+        return;
+      }
+
+      // Compare against what's stored, not the offline overlay
+      const [foods, symptoms] = await Promise.all([
+        getAllFoods(),
+        getAllSymptoms(),
+      ]);
+      setLoaded({
+        fileName: selected.name,
+        file: result.data,
+        existing: { foods, symptoms },
+      });
+    } catch (error) {
+      logger.error('Failed to prepare import', error);
+      setErrors(['Could not read your current data. Please try again.']);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!plan || isImporting) return;
+    setIsImporting(true);
+    try {
+      const result = await importAllData(plan);
+      await revalidateEntries();
+      toast.success(
+        `Imported ${result.foods_inserted} foods and ${result.symptoms_inserted} symptoms`
+      );
+      reset();
+    } catch (error) {
+      logger.error('Data import failed', error);
+      toast.error('Import failed. Your existing data was not changed.');
+    } finally {
+      setIsImporting(false);
+      setConfirmReplace(false);
+    }
+  };
+
+  const nothingToImport =
+    !!plan &&
+    plan.foods.toInsert.length === 0 &&
+    plan.symptoms.toInsert.length === 0 &&
+    plan.foods.toDelete === 0 &&
+    plan.symptoms.toDelete === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Data Import
+        </CardTitle>
+        <CardDescription>
+          Restore a JSON backup. You&apos;ll see what changes before anything is
+          saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup
+          value={mode}
+          onValueChange={value => setMode(value as ImportMode)}
+          className="grid gap-2"
+        >
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="merge" id="import-merge" />
+            <Label htmlFor="import-merge" className="font-normal leading-snug">
+              <span className="font-medium">Merge</span> – add entries that
+              aren&apos;t already logged
+            </Label>
+          </div>
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="replace" id="import-replace" />
+            <Label
+              htmlFor="import-replace"
+              className="font-normal leading-snug"
+            >
+              <span className="font-medium">Replace</span> – delete current
+              entries and use the file instead
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          disabled={isReading || isImporting}
+          aria-label="Import file"
+          className="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-sm file:font-medium file:text-secondary-foreground"
+        />
+
+        {isReading && (
+          <p className="text-sm text-muted-foreground">Checking file...</p>
+        )}
+
+        {errors.length > 0 && (
+          <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            <p className="flex items-center gap-1 font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              This file can&apos;t be imported
+            </p>
+            <ul className="mt-1 list-disc pl-5 space-y-0.5">
+              {errors.map(error => (
+                <li key={error} className="break-words">
+                  {error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {loaded && plan && (
+          <div className="space-y-3 rounded-md border p-3 text-sm">
+            <p className="font-medium truncate">Preview of {loaded.fileName}</p>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1">
+              <span />
+              <span className="text-muted-foreground">Foods</span>
+              <span className="text-muted-foreground">Symptoms</span>
+              <span>New</span>
+              <span>{plan.foods.toInsert.length}</span>
+              <span>{plan.symptoms.toInsert.length}</span>
+              <span>Skipped</span>
+              <span>{plan.foods.duplicates.length}</span>
+              <span>{plan.symptoms.duplicates.length}</span>
+              {mode === 'replace' && (
+                <>
+                  <span className="text-destructive">Deleted</span>
+                  <span className="text-destructive">
+                    {plan.foods.toDelete}
+                  </span>
+                  <span className="text-destructive">
+                    {plan.symptoms.toDelete}
+                  </span>
+                </>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Skipped entries match one already logged (same ID, or same time
+              and name) or repeat within the file.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                onClick={() =>
+                  mode === 'replace' ? setConfirmReplace(true) : runImport()
+                }
+                disabled={isImporting || nothingToImport}
+                variant={mode === 'replace' ? 'destructive' : 'default'}
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace all entries?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {plan?.foods.toDelete ?? 0} foods and{' '}
+              {plan?.symptoms.toDelete ?? 0} symptoms will be deleted and
+              replaced with the contents of this file. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isImporting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={runImport}
+              disabled={isImporting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
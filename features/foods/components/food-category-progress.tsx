@@ -1,6 +1,7 @@
 'use client';
 
 import { getZoneColor, getZoneColorWithAlpha } from '@/lib/utils/zone-colors';
+import type { FoodStatsWeighting } from '@/lib/types';
 
 interface FoodCategoryProgressProps {
   greenCount: number;
@@ -9,6 +10,7 @@ interface FoodCategoryProgressProps {
   size?: number;
   strokeWidth?: number;
   isFromToday?: boolean;
+  weighting?: FoodStatsWeighting; // With 'quantity' the counts are approximate grams
 }
 
 export function FoodCategoryProgress({
@@ -17,6 +19,7 @@ export function FoodCategoryProgress({
   redCount,
   size = 200,
   isFromToday = true,
+  weighting = 'count',
 }: FoodCategoryProgressProps) {
   const radius = size / 2;
   const centerX = size / 2;
@@ -97,9 +100,19 @@ export function FoodCategoryProgress({
       {/* Center count display */}
       <div className="absolute inset-0 flex items-center justify-center">
         <div className="text-center">
-          <p className="text-3xl font-bold text-slate-700">{totalCount}</p>
+          <p className="text-3xl font-bold text-slate-700">
+            {weighting === 'quantity'
+              ? `${Math.round(totalCount)}g`
+              : totalCount}
+          </p>
           <p className="text-xs text-slate-500 mt-1">
-            {isFromToday ? 'foods today' : 'recent foods'}
+            {weighting === 'quantity'
+              ? isFromToday
+                ? 'eaten today'
+                : 'eaten recently'
+              : isFromToday
+                ? 'foods today'
+                : 'recent foods'}
           </p>
         </div>
       </div>
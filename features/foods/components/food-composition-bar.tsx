@@ -1,6 +1,7 @@
 'use client';
 
-import type { Ingredient } from '@/lib/types';
+import type { FoodStatsWeighting, Ingredient } from '@/lib/types';
+import { getZoneTotals } from '@/lib/portions/portions';
 import {
   getZoneColor,
   getZoneBgClass,
@@ -9,9 +10,13 @@ import {
 
 interface FoodCompositionBarProps {
   ingredients: Ingredient[];
+  weighting?: FoodStatsWeighting; // 'quantity' sizes segments by portion
 }
 
-export function FoodCompositionBar({ ingredients }: FoodCompositionBarProps) {
+export function FoodCompositionBar({
+  ingredients,
+  weighting = 'count',
+}: FoodCompositionBarProps) {
   const safeIngredients = ingredients || [];
   const totalIngredients = safeIngredients.length;
 
@@ -64,12 +69,12 @@ export function FoodCompositionBar({ ingredients }: FoodCompositionBarProps) {
     );
   }
 
-  // Calculate percentages for display
-  const totalDisplayCount = totalIngredients; // Use all ingredients for display proportions
-  const greenPercent = (greenCount / totalDisplayCount) * 100;
-  const yellowPercent = (yellowCount / totalDisplayCount) * 100;
-  const redPercent = (redCount / totalDisplayCount) * 100;
-  const unzonedPercent = (unzonedCount / totalDisplayCount) * 100;
+  // Calculate percentages for display (all ingredients, weighted if requested)
+  const weights = getZoneTotals(safeIngredients, weighting);
+  const greenPercent = (weights.green / weights.total) * 100;
+  const yellowPercent = (weights.yellow / weights.total) * 100;
+  const redPercent = (weights.red / weights.total) * 100;
+  const unzonedPercent = (weights.unzoned / weights.total) * 100;
 
   return (
     <div
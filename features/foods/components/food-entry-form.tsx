@@ -1,7 +1,14 @@
 'use client';
 
 import type React from 'react';
-import type { Food, Ingredient } from '@/lib/types';
+import type {
+  CookingMethod,
+  Food,
+  ImageAnalysisMode,
+  Ingredient,
+  IngredientUnit,
+  Recipe,
+} from '@/lib/types';
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
@@ -18,6 +25,8 @@ import {
   Loader2,
   AlertCircle,
   Info,
+  BookOpen,
+  X,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -38,6 +47,37 @@ import {
   type FoodSubmissionData,
 } from '@/lib/services/food-submission';
 import { getBase64ImageSize } from '@/lib/utils/image-utils';
+import { ZONE_SOURCE_LABELS } from '@/lib/zoning/overrides';
+import {
+  INGREDIENT_UNITS,
+  formatPortion,
+  parsePortion,
+  scaleIngredient,
+} from '@/lib/portions/portions';
+import {
+  COOKING_METHODS,
+  COOKING_METHOD_LABELS,
+} from '@/lib/zoning/cooking-methods';
+import {
+  appendLabelCallouts,
+  type LabelCallouts,
+} from '@/lib/products/label-notes';
+import {
+  RECIPE_SCALE_OPTIONS,
+  createRecipeLink,
+  diffRecipeIngredients,
+  expandRecipe,
+  getRecipeLink,
+  hasRecipeChangedSince,
+  type RecipeLink,
+} from '@/lib/recipes/recipes';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Popover,
   PopoverContent,
@@ -55,6 +95,13 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
+// Values to start a new entry with, e.g. from a scanned product barcode
+export interface FoodPrefill {
+  name?: string;
+  ingredients?: string[];
+  notes?: string;
+}
+
 interface FoodEntryFormProps {
   onAddFood: (food: Omit<Food, 'id'>) => void;
   onClose: () => void;
@@ -62,6 +109,9 @@ interface FoodEntryFormProps {
   editingFood?: Food | null;
   imageData?: string; // Base64 image data for AI analysis (backward compatibility)
   capturedImages?: string[]; // Multiple images from camera capture
+  analysisMode?: ImageAnalysisMode; // Which pipeline reads capturedImages
+  prefill?: FoodPrefill;
+  recipes?: Recipe[]; // Offered as a starting point; expanded into ingredients
   className?: string;
 }
 
@@ -72,6 +122,9 @@ export function FoodEntryForm({
   editingFood,
   imageData,
   capturedImages,
+  analysisMode = 'meal',
+  prefill,
+  recipes = [],
   className,
 }: FoodEntryFormProps) {
   const [name, setName] = useState('');
@@ -82,6 +135,7 @@ export function FoodEntryForm({
   const [notes, setNotes] = useState('');
   const [showNotes, setShowNotes] = useState(false);
   const [selectedDateTime, setSelectedDateTime] = useState<Date>(new Date());
+  const [recipeLink, setRecipeLink] = useState<RecipeLink | null>(null);
 
   // Image gallery state
   const [primaryImageIndex, setPrimaryImageIndex] = useState(0);
@@ -273,7 +327,14 @@ export function FoodEntryForm({
       setAnalysisError(null);
 
       try {
-        logger.debug('Sending images to analyze-image API', {
+        // Labels get their own pipeline that reads the printed ingredient list
+        const endpoint =
+          analysisMode === 'label'
+            ? '/api/analyze-label'
+            : '/api/analyze-image';
+
+        logger.debug('Sending images for analysis', {
+          endpoint,
           imageCount: images.length,
           imageSizes: images.map(img => img.length),
         });
@@ -282,7 +343,7 @@ export function FoodEntryForm({
         const requestBody =
           imageCount === 1 ? { image: images[0] } : { images: images };
 
-        const response = await fetch('/api/analyze-image', {
+        const response = await fetch(endpoint, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(requestBody),
@@ -316,8 +377,12 @@ export function FoodEntryForm({
           throw new Error(`Analysis failed: ${errorMessage}`);
         }
 
-        const { mealSummary, ingredients: ingredientData } =
-          await response.json();
+        const {
+          mealSummary,
+          ingredients: ingredientData,
+          allergens,
+          certifications,
+        } = await response.json();
 
         logger.debug('Analysis successful', {
           mealSummary,
@@ -330,11 +395,24 @@ export function FoodEntryForm({
         }
 
         const aiIngredients: Ingredient[] = ingredientData.map(
-          (ingredient: { name: string; organic: boolean }): Ingredient => ({
+          (ingredient: {
+            name: string;
+            isOrganic?: boolean;
+            organic?: boolean;
+            quantity?: number;
+            unit?: string;
+            cookingMethod?: CookingMethod; // Validated by the analysis API
+            isAllergen?: boolean; // Label analysis only
+          }): Ingredient => ({
             name: ingredient.name,
-            organic: ingredient.organic || false,
+            organic: ingredient.isOrganic ?? ingredient.organic ?? false,
             group: 'other', // Default value
             zone: 'unzoned', // Default value - will be zoned later
+            ...parsePortion(ingredient.quantity, ingredient.unit),
+            ...(ingredient.cookingMethod && {
+              cookingMethod: ingredient.cookingMethod,
+            }),
+            ...(ingredient.isAllergen && { allergen: true }),
           })
         );
 
@@ -347,6 +425,18 @@ export function FoodEntryForm({
           }
           return currentName;
         });
+        // Keep label allergen and certification callouts in the notes
+        const callouts: LabelCallouts = {
+          allergens: Array.isArray(allergens) ? allergens : [],
+          certifications: Array.isArray(certifications) ? certifications : [],
+        };
+        if (
+          callouts.allergens.length > 0 ||
+          callouts.certifications.length > 0
+        ) {
+          setNotes(currentNotes => appendLabelCallouts(currentNotes, callouts));
+          setShowNotes(true);
+        }
         setHasAnalyzed(true);
 
         // Provide better messaging based on number of ingredients found
@@ -399,7 +489,7 @@ export function FoodEntryForm({
         }
       }
     },
-    [isAnalyzing, hasAnalyzed] // Include necessary state dependencies
+    [isAnalyzing, hasAnalyzed, analysisMode] // Include necessary state dependencies
   );
 
   // Pre-populate form when editing food
@@ -411,22 +501,36 @@ export function FoodEntryForm({
       setNotes(editingFood.notes || '');
       setShowNotes(!!editingFood.notes);
       setSelectedDateTime(new Date(editingFood.timestamp));
+      setRecipeLink(editingFood.recipe_id ? getRecipeLink(editingFood) : null);
       setHasAnalyzed(false);
       setPrimaryImageIndex(0); // Reset to first image
       analysisInitiatedRef.current = false;
     } else {
-      logger.debug('Resetting form for new entry');
-      setName('');
-      setIngredients([]);
-      setNotes('');
-      setShowNotes(false);
+      logger.debug('Resetting form for new entry', { hasPrefill: !!prefill });
+      setName(prefill?.name || '');
+      setIngredients(
+        (prefill?.ingredients || [])
+          .map(ingredientName => sanitizeIngredientName(ingredientName))
+          .filter(Boolean)
+          .map(
+            (ingredientName): Ingredient => ({
+              name: ingredientName,
+              organic: false,
+              group: 'other',
+              zone: 'unzoned', // Zoned on submit like manual entries
+            })
+          )
+      );
+      setNotes(prefill?.notes || '');
+      setShowNotes(!!prefill?.notes);
       setSelectedDateTime(new Date());
+      setRecipeLink(null);
       setHasAnalyzed(false);
       setAnalysisError(null);
       setPrimaryImageIndex(0); // Reset to first image
       analysisInitiatedRef.current = false;
     }
-  }, [editingFood]);
+  }, [editingFood, prefill]);
 
   // Separate effect for image analysis - optimized dependencies
   useEffect(() => {
@@ -512,6 +616,82 @@ export function FoodEntryForm({
     }
   };
 
+  const linkedRecipe = recipeLink?.recipe_id
+    ? recipes.find(recipe => recipe.id === recipeLink.recipe_id)
+    : undefined;
+
+  // Only logged entries can fall behind their recipe
+  const recipeChanges = useMemo(() => {
+    if (!editingFood || !linkedRecipe || !recipeLink) return null;
+    if (!hasRecipeChangedSince(recipeLink, recipes)) return null;
+    return diffRecipeIngredients(
+      ingredients,
+      expandRecipe(linkedRecipe, recipes)
+    );
+  }, [editingFood, linkedRecipe, recipeLink, recipes, ingredients]);
+
+  // Replace the ingredient list with the recipe's, keeping the chosen scale
+  const applyRecipe = (
+    recipe: Recipe,
+    scale = recipeLink?.recipe_scale ?? 1
+  ) => {
+    setIngredients(expandRecipe(recipe, recipes, scale));
+    setRecipeLink(createRecipeLink(recipe, recipes, scale));
+    setName(currentName => currentName || recipe.name);
+  };
+
+  // Rescale logged portions in place so manual edits survive a servings change
+  const handleRecipeScaleChange = (value: string) => {
+    const nextScale = Number(value);
+    const previousScale = recipeLink?.recipe_scale ?? 1;
+    setIngredients(current =>
+      current.map(ingredient =>
+        scaleIngredient(ingredient, nextScale / previousScale)
+      )
+    );
+    setRecipeLink(link => link && { ...link, recipe_scale: nextScale });
+  };
+
+  const handlePortionChange = (
+    index: number,
+    quantity: string,
+    unit: IngredientUnit
+  ) => {
+    setIngredients(current =>
+      current.map((ingredient, i) => {
+        if (i !== index) return ingredient;
+        const updated = { ...ingredient };
+        delete updated.quantity;
+        delete updated.unit;
+        return { ...updated, ...parsePortion(quantity, unit) };
+      })
+    );
+  };
+
+  // Preparation is a zoning input, so a changed method is zoned again
+  const handleCookingMethodChange = (
+    index: number,
+    cookingMethod: CookingMethod | undefined
+  ) => {
+    setIngredients(current =>
+      current.map((ingredient, i) => {
+        if (i !== index || ingredient.cookingMethod === cookingMethod) {
+          return ingredient;
+        }
+        const updated: Ingredient = { ...ingredient, cookingMethod };
+        if (!cookingMethod) delete updated.cookingMethod;
+        if (!isAnalyzing && updated.zone !== 'unzoned') {
+          updated.zone = 'unzoned';
+          // Clear category and group to trigger full re-analysis
+          updated.category = undefined;
+          updated.group = 'other'; // Reset to default
+          updated.zoneSource = undefined;
+        }
+        return updated;
+      })
+    );
+  };
+
   const handleDeleteIngredient = (index: number) => {
     if (isMountedRef.current) {
       setIngredients(ingredients.filter((_, i) => i !== index));
@@ -540,6 +720,7 @@ export function FoodEntryForm({
         // Clear category and group to trigger full re-analysis
         updatedIngredients[index].category = undefined;
         updatedIngredients[index].group = 'other'; // Reset to default
+        updatedIngredients[index].zoneSource = undefined;
       }
     }
 
@@ -568,6 +749,7 @@ export function FoodEntryForm({
         // Clear category and group to trigger full re-analysis
         updatedIngredients[index].category = undefined;
         updatedIngredients[index].group = 'other'; // Reset to default
+        updatedIngredients[index].zoneSource = undefined;
       }
 
       // Only update state if component is still mounted
@@ -631,6 +813,7 @@ export function FoodEntryForm({
         currentIngredient,
         notes,
         selectedDateTime,
+        recipe: recipeLink ?? getRecipeLink({}),
       };
 
       const result = await processFoodSubmission(submissionData);
@@ -750,6 +933,116 @@ export function FoodEntryForm({
           />
         </div>
 
+        {(recipes.length > 0 || recipeLink) && !isAnalyzing && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-1.5">
+              <BookOpen className="h-3.5 w-3.5" />
+              Recipe
+            </Label>
+            <div className="flex gap-2">
+              <Select
+                value={linkedRecipe?.id ?? ''}
+                onValueChange={id => {
+                  const recipe = recipes.find(r => r.id === id);
+                  if (recipe) applyRecipe(recipe);
+                }}
+              >
+                <SelectTrigger aria-label="Recipe" className="flex-1">
+                  <SelectValue
+                    placeholder={
+                      recipeLink ? 'Deleted recipe' : 'Start from a recipe'
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipes.map(recipe => (
+                    <SelectItem key={recipe.id} value={recipe.id}>
+                      {recipe.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {recipeLink && (
+                <>
+                  <Select
+                    value={String(recipeLink.recipe_scale ?? 1)}
+                    onValueChange={handleRecipeScaleChange}
+                  >
+                    <SelectTrigger aria-label="Servings" className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RECIPE_SCALE_OPTIONS.map(scale => (
+                        <SelectItem key={scale} value={String(scale)}>
+                          ×{scale}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRecipeLink(null)}
+                    aria-label="Unlink recipe"
+                    title="Unlink recipe (keeps the ingredients)"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+            {recipeChanges && linkedRecipe && (
+              <div className="rounded-md border p-3 text-sm space-y-2">
+                <p className="font-medium">
+                  {linkedRecipe.name} has changed since this entry was logged
+                </p>
+                {recipeChanges.added.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Adds: {recipeChanges.added.join(', ')}
+                  </p>
+                )}
+                {recipeChanges.removed.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Drops: {recipeChanges.removed.join(', ')}
+                  </p>
+                )}
+                {recipeChanges.added.length === 0 &&
+                  recipeChanges.removed.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Same ingredients; zones or details were updated
+                    </p>
+                  )}
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => applyRecipe(linkedRecipe)}
+                  >
+                    Use latest recipe
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setRecipeLink(
+                        createRecipeLink(
+                          linkedRecipe,
+                          recipes,
+                          recipeLink?.recipe_scale ?? 1
+                        )
+                      )
+                    }
+                  >
+                    Keep as logged
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         <div>
           <Label htmlFor="ingredient-input">Ingredients</Label>
           {isAnalyzing ? (
@@ -878,6 +1171,23 @@ export function FoodEntryForm({
                           <span className="text-sm font-medium text-foreground truncate">
                             {ingredient.name}
                           </span>
+                          {ingredient.allergen && (
+                            <span
+                              className="text-[10px] font-semibold uppercase text-destructive flex-shrink-0"
+                              title="Listed as an allergen on the label"
+                            >
+                              Allergen
+                            </span>
+                          )}
+                          <IngredientDetailsEditor
+                            ingredient={ingredient}
+                            onPortionChange={(quantity, unit) =>
+                              handlePortionChange(index, quantity, unit)
+                            }
+                            onCookingMethodChange={cookingMethod =>
+                              handleCookingMethodChange(index, cookingMethod)
+                            }
+                          />
                           {/* Info icon for zoned ingredients */}
                           {ingredient.zone !== 'unzoned' &&
                             ingredient.group && (
@@ -911,6 +1221,19 @@ export function FoodEntryForm({
                                       {ingredient.zone}
                                     </span>
                                   </div>
+                                  {ingredient.zoneSource && (
+                                    <div>
+                                      <strong>Source:</strong>{' '}
+                                      {
+                                        ZONE_SOURCE_LABELS[
+                                          ingredient.zoneSource
+                                        ]
+                                      }
+                                      {ingredient.zoneSource === 'personal' &&
+                                        ingredient.classifiedZone &&
+                                        ` (classified ${ingredient.classifiedZone})`}
+                                    </div>
+                                  )}
                                 </PopoverContent>
                               </Popover>
                             )}
@@ -1045,3 +1368,100 @@ export function FoodEntryForm({
     </div>
   );
 }
+
+// Amount and preparation chip on an ingredient row; empty amounts clear the portion
+function IngredientDetailsEditor({
+  ingredient,
+  onPortionChange,
+  onCookingMethodChange,
+}: {
+  ingredient: Ingredient;
+  onPortionChange: (quantity: string, unit: IngredientUnit) => void;
+  onCookingMethodChange: (cookingMethod: CookingMethod | undefined) => void;
+}) {
+  const [quantity, setQuantity] = useState(
+    ingredient.quantity ? String(ingredient.quantity) : ''
+  );
+  const [unit, setUnit] = useState<IngredientUnit>(ingredient.unit ?? 'g');
+
+  useEffect(() => {
+    setQuantity(ingredient.quantity ? String(ingredient.quantity) : '');
+    if (ingredient.unit) setUnit(ingredient.unit);
+  }, [ingredient.quantity, ingredient.unit]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-xs text-muted-foreground whitespace-nowrap flex-shrink-0 active:text-foreground"
+          aria-label={`Amount and preparation of ${ingredient.name}`}
+        >
+          {[
+            formatPortion(ingredient),
+            ingredient.cookingMethod &&
+              COOKING_METHOD_LABELS[ingredient.cookingMethod].toLowerCase(),
+          ]
+            .filter(Boolean)
+            .join(' · ') || '+ details'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="center" className="w-56 space-y-2">
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="any"
+            value={quantity}
+            onChange={e => {
+              setQuantity(e.target.value);
+              onPortionChange(e.target.value, unit);
+            }}
+            placeholder="Amount"
+            aria-label="Amount"
+            className="h-8"
+          />
+          <Select
+            value={unit}
+            onValueChange={value => {
+              setUnit(value as IngredientUnit);
+              onPortionChange(quantity, value as IngredientUnit);
+            }}
+          >
+            <SelectTrigger className="h-8 w-24" aria-label="Unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INGREDIENT_UNITS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Select
+          value={ingredient.cookingMethod ?? 'unknown'}
+          onValueChange={value =>
+            onCookingMethodChange(
+              value === 'unknown' ? undefined : (value as CookingMethod)
+            )
+          }
+        >
+          <SelectTrigger className="h-8" aria-label="Cooking method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unknown">Preparation unknown</SelectItem>
+            {COOKING_METHODS.map(method => (
+              <SelectItem key={method} value={method}>
+                {COOKING_METHOD_LABELS[method]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,20 +1,36 @@
 'use client';
 
-import type { Ingredient } from '@/lib/types';
-import { getZoneBgClass, getZoneBgStyle } from '@/lib/utils/zone-colors';
+import type { FoodStatsWeighting, Ingredient } from '@/lib/types';
+import { formatWeightedTotal, getZoneTotals } from '@/lib/portions/portions';
+import {
+  COOKING_METHODS,
+  COOKING_METHOD_LABELS,
+  getCookingMethodTotals,
+} from '@/lib/zoning/cooking-methods';
+import {
+  getZoneBgClass,
+  getZoneBgStyle,
+  getZoneTextClass,
+} from '@/lib/utils/zone-colors';
 import { Card, CardContent } from '@/components/ui/card';
+import { useUserSettings } from '@/lib/hooks';
 
 interface FoodZoneSummaryBarProps {
   ingredients: Ingredient[];
   className?: string;
   showTitle?: boolean;
+  weighting?: FoodStatsWeighting; // 'quantity' sizes the bars by portion
+  onWeightingChange?: (weighting: FoodStatsWeighting) => void;
 }
 
 export function FoodZoneSummaryBar({
   ingredients,
   className = '',
   showTitle = true,
+  weighting = 'count',
+  onWeightingChange,
 }: FoodZoneSummaryBarProps) {
+  const { data: settings } = useUserSettings();
   const safeIngredients = ingredients || [];
   const totalIngredients = safeIngredients.length;
 
@@ -33,17 +49,21 @@ export function FoodZoneSummaryBar({
     ing => ing.organic === true
   ).length;
 
-  // Calculate percentages for display
-  const greenPercent =
-    totalIngredients > 0 ? (greenCount / totalIngredients) * 100 : 0;
-  const yellowPercent =
-    totalIngredients > 0 ? (yellowCount / totalIngredients) * 100 : 0;
-  const redPercent =
-    totalIngredients > 0 ? (redCount / totalIngredients) * 100 : 0;
-  const unzonedPercent =
-    totalIngredients > 0 ? (unzonedCount / totalIngredients) * 100 : 0;
-  const organicPercent =
-    totalIngredients > 0 ? (organicCount / totalIngredients) * 100 : 0;
+  // Calculate percentages for display (weighted by portion if requested)
+  const weights = getZoneTotals(safeIngredients, weighting);
+  const percentOf = (value: number) =>
+    weights.total > 0 ? (value / weights.total) * 100 : 0;
+  const greenPercent = percentOf(weights.green);
+  const yellowPercent = percentOf(weights.yellow);
+  const redPercent = percentOf(weights.red);
+  const unzonedPercent = percentOf(weights.unzoned);
+  const organicPercent = percentOf(weights.organic);
+
+  // Share of each cooking method, for ingredients with a known preparation
+  const methodTotals = getCookingMethodTotals(safeIngredients, weighting);
+  const preparedMethods = COOKING_METHODS.filter(
+    method => methodTotals[method] > 0
+  );
 
   // Empty state
   if (totalIngredients === 0) {
@@ -81,7 +101,11 @@ export function FoodZoneSummaryBar({
         <div className="flex items-center justify-between mb-2">
           <h3 className="text-lg font-semibold text-foreground">Summary</h3>
           <span className="text-muted-foreground text-sm">
-            {totalIngredients} ingredient{totalIngredients !== 1 ? 's' : ''}
+            {formatWeightedTotal(
+              weighting === 'quantity' ? weights.total : totalIngredients,
+              weighting,
+              settings?.units
+            )}
           </span>
         </div>
       )}
@@ -158,6 +182,49 @@ export function FoodZoneSummaryBar({
               />
             )}
           </div>
+
+          {/* Cooking method breakdown */}
+          {preparedMethods.length > 0 && (
+            <div
+              className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground"
+              title="Share by cooking method"
+            >
+              {preparedMethods.map(method => (
+                <span key={method}>
+                  <span
+                    className={
+                      method === 'fried'
+                        ? getZoneTextClass('red')
+                        : 'text-foreground'
+                    }
+                  >
+                    {COOKING_METHOD_LABELS[method]}
+                  </span>{' '}
+                  {Math.round(percentOf(methodTotals[method]))}%
+                </span>
+              ))}
+            </div>
+          )}
+
+          {onWeightingChange && (
+            <div className="flex justify-end gap-1 text-xs">
+              {(['count', 'quantity'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => onWeightingChange(option)}
+                  aria-pressed={weighting === option}
+                  className={`rounded px-2 py-0.5 transition-colors ${
+                    weighting === option
+                      ? 'bg-secondary text-foreground'
+                      : 'text-muted-foreground'
+                  }`}
+                >
+                  {option === 'count' ? 'By count' : 'By amount'}
+                </button>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
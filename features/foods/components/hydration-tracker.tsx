@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Droplet } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { logWater } from '@/lib/db';
+import { useUserSettings, revalidateEntries } from '@/lib/hooks';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { DEFAULT_USER_SETTINGS } from '@/lib/settings/user-settings';
+import {
+  formatVolume,
+  getHydrationProgress,
+  getHydrationTotal,
+} from '@/lib/hydration/hydration';
+import { logger } from '@/lib/utils/logger';
+import type { Food } from '@/lib/types';
+
+interface HydrationTrackerProps {
+  foods: Food[]; // Entries for the selected day; beverages count towards the goal
+  canLog?: boolean; // Quick-add logs at the current time, so only for today
+  size?: number;
+  className?: string;
+}
+
+const RING_COLOR = '#38bdf8'; // Tailwind sky-400
+
+export function HydrationTracker({
+  foods,
+  canLog = true,
+  size = 88,
+  className = '',
+}: HydrationTrackerProps) {
+  const { data: settings = DEFAULT_USER_SETTINGS } = useUserSettings();
+  const { waterGoal: goal, units } = settings;
+  const [isLogging, setIsLogging] = useState(false);
+
+  const total = getHydrationTotal(foods);
+  const progress = getHydrationProgress(total, goal);
+
+  const strokeWidth = 8;
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  const handleQuickAdd = async (volumeMl: number) => {
+    if (isLogging) return;
+    setIsLogging(true);
+    try {
+      await logWater(volumeMl);
+      await revalidateEntries();
+      toast.success(`Logged ${formatVolume(volumeMl, units)} of water`);
+    } catch (error) {
+      logger.error('Failed to log water', error);
+      toast.error('Failed to log water. Please try again.');
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-3 flex flex-col items-center gap-2">
+        <div
+          className="relative"
+          style={{ width: size, height: size }}
+          role="progressbar"
+          aria-label="Water intake"
+          aria-valuemin={0}
+          aria-valuemax={goal}
+          aria-valuenow={Math.round(total)}
+          aria-valuetext={`${formatVolume(total, units)} of ${formatVolume(goal, units)}`}
+        >
+          <svg width={size} height={size} className="-rotate-90">
+            <circle
+              cx={size / 2}
+              cy={size / 2}
+              r={radius}
+              fill="none"
+              strokeWidth={strokeWidth}
+              className="stroke-muted"
+            />
+            <circle
+              cx={size / 2}
+              cy={size / 2}
+              r={radius}
+              fill="none"
+              stroke={RING_COLOR}
+              strokeWidth={strokeWidth}
+              strokeLinecap="round"
+              strokeDasharray={circumference}
+              strokeDashoffset={circumference * (1 - progress / 100)}
+              className="transition-all duration-500 ease-out"
+            />
+          </svg>
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <Droplet className="h-3 w-3 text-sky-400" />
+            <span className="text-sm font-semibold text-foreground">
+              {formatVolume(total, units)}
+            </span>
+            <span className="text-[10px] text-muted-foreground">
+              of {formatVolume(goal, units)}
+            </span>
+          </div>
+        </div>
+
+        {canLog && (
+          <div className="flex gap-1">
+            {APP_CONFIG.HYDRATION.QUICK_ADD_ML.map(volumeMl => (
+              <button
+                key={volumeMl}
+                type="button"
+                onClick={() => handleQuickAdd(volumeMl)}
+                disabled={isLogging}
+                className="rounded px-2 py-0.5 text-xs bg-secondary text-foreground transition-transform active:scale-95 disabled:opacity-50"
+                aria-label={`Log ${formatVolume(volumeMl, units)} of water`}
+              >
+                +
+                {units === 'imperial'
+                  ? formatVolume(volumeMl, units)
+                  : volumeMl}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
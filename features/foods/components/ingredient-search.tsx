@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDayBoundary, useIngredientSearch } from '@/lib/hooks';
+import { APP_CONFIG } from '@/lib/config/constants';
+import {
+  hasSearchCriteria,
+  type IngredientSearchField,
+  type IngredientSearchFilters,
+  type IngredientSearchResult,
+} from '@/lib/search/ingredient-search';
+import { getCategoryInfoSafe } from '@/lib/symptoms/symptom-index';
+import { getZoneBgClass } from '@/lib/utils/zone-colors';
+import {
+  daysBetween,
+  getDayKey,
+  getDayRange,
+  getTodayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+import type { Food, Ingredient } from '@/lib/types';
+
+const { DEBOUNCE_MS, RESULT_LIMIT, SYMPTOM_WINDOW_HOURS } = APP_CONFIG.SEARCH;
+
+const FIELD_LABELS: Record<IngredientSearchField, string> = {
+  any: 'Anything',
+  name: 'Ingredient',
+  group: 'Group',
+  category: 'Category',
+};
+
+const ZONES: Ingredient['zone'][] = ['green', 'yellow', 'red', 'unzoned'];
+
+type OrganicFilter = 'any' | 'organic' | 'conventional';
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+// "yesterday", "12 days ago"
+function formatDaysAgo(timestamp: string, boundary: DayBoundary): string {
+  const days = daysBetween(
+    getDayKey(timestamp, boundary),
+    getTodayKey(boundary)
+  );
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  return `${days} days ago`;
+}
+
+function hoursAfter(food: Food, timestamp: string): string {
+  const hours =
+    (new Date(timestamp).getTime() - new Date(food.timestamp).getTime()) /
+    3600000;
+  return hours < 1 ? `+${Math.round(hours * 60)}m` : `+${Math.round(hours)}h`;
+}
+
+function SearchResultCard({ result }: { result: IngredientSearchResult }) {
+  const { food, matchedIngredients, followingSymptoms } = result;
+  const matched = new Set(matchedIngredients);
+
+  return (
+    <Link href={`/app/foods/edit/${food.id}`}>
+      <Card className="active:scale-[0.99] transition-transform">
+        <CardContent className="space-y-2 p-4">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">{food.name}</p>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {formatDateTime(food.timestamp)}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {(food.ingredients || [])
+              .filter(ingredient => matched.has(ingredient.name))
+              .map((ingredient, index) => (
+                <Badge
+                  key={`${ingredient.name}-${index}`}
+                  variant="outline"
+                  className="gap-1 text-xs"
+                >
+                  <span
+                    className={`h-2 w-2 rounded-full ${getZoneBgClass(ingredient.zone)}`}
+                  />
+                  {ingredient.name}
+                  {ingredient.organic && (
+                    <span className="text-muted-foreground">· organic</span>
+                  )}
+                </Badge>
+              ))}
+          </div>
+          {followingSymptoms.length > 0 ? (
+            <ul className="space-y-0.5 text-xs">
+              {followingSymptoms.map(symptom => (
+                <li key={symptom.id} className="flex items-center gap-1.5">
+                  <span>{getCategoryInfoSafe(symptom.category)?.icon}</span>
+                  <span>{symptom.name}</span>
+                  <span className="text-muted-foreground">
+                    {hoursAfter(food, symptom.timestamp)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No symptoms in the next {SYMPTOM_WINDOW_HOURS}h
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
+
+export function IngredientSearch() {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [field, setField] = useState<IngredientSearchField>('any');
+  const [zone, setZone] = useState<Ingredient['zone'] | 'any'>('any');
+  const [organic, setOrganic] = useState<OrganicFilter>('any');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Date inputs are the user's days; the range covers the whole of both days
+  const boundary = useDayBoundary();
+  const filters = useMemo<IngredientSearchFilters>(
+    () => ({
+      query: debouncedQuery.trim() || undefined,
+      field,
+      zone: zone === 'any' ? undefined : zone,
+      organic: organic === 'any' ? undefined : organic === 'organic',
+      from: from ? new Date(getDayRange(from, boundary).start) : undefined,
+      // The search treats `to` as inclusive; day ranges end exclusively
+      to: to
+        ? new Date(new Date(getDayRange(to, boundary).end).getTime() - 1)
+        : undefined,
+    }),
+    [debouncedQuery, field, zone, organic, from, to, boundary]
+  );
+
+  const { data: results, error, isLoading } = useIngredientSearch(filters);
+  const hasCriteria = hasSearchCriteria(filters);
+  const lastEaten = filters.query && results?.[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="e.g. cashews, dairy, nightshades"
+            aria-label="Search ingredients"
+            className="pl-9"
+            autoFocus
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <Select
+            value={field}
+            onValueChange={value => setField(value as IngredientSearchField)}
+          >
+            <SelectTrigger aria-label="Search in">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FIELD_LABELS) as IngredientSearchField[]).map(
+                value => (
+                  <SelectItem key={value} value={value}>
+                    {FIELD_LABELS[value]}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+          <Select
+            value={zone}
+            onValueChange={value =>
+              setZone(value as Ingredient['zone'] | 'any')
+            }
+          >
+            <SelectTrigger aria-label="Zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any zone</SelectItem>
+              {ZONES.map(value => (
+                <SelectItem key={value} value={value} className="capitalize">
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={organic}
+            onValueChange={value => setOrganic(value as OrganicFilter)}
+          >
+            <SelectTrigger aria-label="Organic">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="organic">Organic</SelectItem>
+              <SelectItem value="conventional">Conventional</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={e => setFrom(e.target.value)}
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={e => setTo(e.target.value)}
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      {!hasCriteria ? (
+        <p className="text-sm text-muted-foreground">
+          Search by ingredient, group or category, or pick a zone to see when
+          you ate it and what followed.
+        </p>
+      ) : error ? (
+        <p className="text-sm text-destructive">
+          Search failed. Please try again.
+        </p>
+      ) : isLoading && !results ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : results && results.length > 0 ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {lastEaten &&
+              `Last eaten ${formatDaysAgo(lastEaten.food.timestamp, boundary)} · `}
+            {results.length}
+            {results.length >= RESULT_LIMIT ? '+' : ''} meal
+            {results.length !== 1 ? 's' : ''}
+          </p>
+          {results.map(result => (
+            <SearchResultCard key={result.food.id} result={result} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No matching meals.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { History, Trash2, Zap } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { deleteMealTemplate, quickLogMeal } from '@/lib/db';
+import { useMealSuggestions, revalidateEntries } from '@/lib/hooks';
+import type { MealSuggestion } from '@/lib/meals/suggestions';
+import { getZoneBgClass } from '@/lib/utils/zone-colors';
+import { logger } from '@/lib/utils/logger';
+
+interface QuickLogMealsProps {
+  onLogged?: (foodId: string) => void;
+  className?: string;
+}
+
+function describeSuggestion(suggestion: MealSuggestion): string {
+  if (suggestion.timesAroundNow > 0) {
+    return `${suggestion.timesAroundNow}× around this time`;
+  }
+  if (suggestion.timesLogged > 0) {
+    return `${suggestion.timesLogged}× recently`;
+  }
+  return 'Saved template';
+}
+
+export function QuickLogMeals({
+  onLogged,
+  className = '',
+}: QuickLogMealsProps) {
+  const { suggestions, templates } = useMealSuggestions();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  if (suggestions.length === 0) return null;
+
+  const handleLog = async (suggestion: MealSuggestion) => {
+    if (busyKey) return;
+    setBusyKey(suggestion.key);
+    try {
+      const template = templates.find(t => t.id === suggestion.templateId);
+      const foodId = await quickLogMeal(suggestion, template);
+      await Promise.all([revalidateEntries(), mutate('meal-templates')]);
+      toast.success(`Logged ${suggestion.name}`);
+      onLogged?.(foodId);
+    } catch (error) {
+      logger.error('Quick log failed', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to log meal. Please try again.'
+      );
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDeleteTemplate = async (suggestion: MealSuggestion) => {
+    if (!suggestion.templateId || busyKey) return;
+    setBusyKey(suggestion.key);
+    try {
+      await deleteMealTemplate(suggestion.templateId);
+      await mutate('meal-templates');
+      toast.success(`Removed template "${suggestion.name}"`);
+    } catch (error) {
+      logger.error('Failed to delete meal template', error);
+      toast.error('Failed to remove template. Please try again.');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Quick log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {suggestions.map(suggestion => (
+          <div
+            key={suggestion.key}
+            className="flex items-center gap-3 rounded-lg bg-muted/50 p-2"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate text-sm font-medium">
+                  {suggestion.name}
+                </span>
+                {suggestion.label && (
+                  <Badge variant="secondary" className="text-xs">
+                    {suggestion.label}
+                  </Badge>
+                )}
+              </div>
+              <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="flex gap-0.5" aria-hidden="true">
+                  {suggestion.ingredients.slice(0, 8).map((ingredient, i) => (
+                    <span
+                      key={`${ingredient.name}-${i}`}
+                      className={`h-2 w-2 rounded-full ${getZoneBgClass(ingredient.zone)}`}
+                    />
+                  ))}
+                </span>
+                <span>{describeSuggestion(suggestion)}</span>
+              </div>
+            </div>
+            {suggestion.templateId && (
+              <button
+                type="button"
+                onClick={() => handleDeleteTemplate(suggestion)}
+                disabled={busyKey !== null}
+                className="p-1 text-muted-foreground active:scale-110"
+                aria-label={`Remove template ${suggestion.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => handleLog(suggestion)}
+              disabled={busyKey !== null}
+            >
+              <Zap className="mr-1 h-4 w-4" />
+              {busyKey === suggestion.key ? 'Logging...' : 'Log'}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { BookOpen, Edit2, Trash2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { deleteRecipe, saveRecipe } from '@/lib/db';
+import { useRecipes } from '@/lib/hooks';
+import { expandRecipe, getNestableRecipes } from '@/lib/recipes/recipes';
+import { prepareRecipeIngredients } from '@/lib/services/food-submission';
+import { getZoneBgClass } from '@/lib/utils/zone-colors';
+import { logger } from '@/lib/utils/logger';
+import type { Ingredient, Recipe } from '@/lib/types';
+
+// Keep the stored classification for names that didn't change
+function toIngredients(text: string, previous: Ingredient[]): Ingredient[] {
+  const byName = new Map(
+    previous.map(ingredient => [ingredient.name.toLowerCase(), ingredient])
+  );
+  return text
+    .split(/[,\n]/)
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(
+      name =>
+        byName.get(name.toLowerCase()) ?? {
+          name,
+          organic: false,
+          group: 'other',
+          zone: 'unzoned',
+        }
+    );
+}
+
+export function RecipesCard() {
+  const { data: recipes = [] } = useRecipes();
+  const [editing, setEditing] = useState<Recipe | null>(null);
+  const [name, setName] = useState('');
+  const [ingredientText, setIngredientText] = useState('');
+  const [subRecipeIds, setSubRecipeIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nestable = getNestableRecipes(editing?.id, recipes);
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setIngredientText('');
+    setSubRecipeIds([]);
+  };
+
+  const startEditing = (recipe: Recipe) => {
+    setEditing(recipe);
+    setName(recipe.name);
+    setIngredientText(recipe.ingredients.map(i => i.name).join(', '));
+    setSubRecipeIds(recipe.sub_recipe_ids);
+  };
+
+  const toggleSubRecipe = (id: string, checked: boolean) => {
+    setSubRecipeIds(ids =>
+      checked ? [...ids, id] : ids.filter(subId => subId !== id)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      // Zoned once here; logging the recipe later reuses these zones
+      const { ingredients, warnings } = await prepareRecipeIngredients(
+        toIngredients(ingredientText, editing?.ingredients ?? [])
+      );
+      await saveRecipe({
+        id: editing?.id,
+        name,
+        ingredients,
+        sub_recipe_ids: subRecipeIds,
+      });
+      await mutate('recipes');
+      warnings.forEach(warning => toast.warning(warning));
+      toast.success(
+        editing ? `Updated "${name.trim()}"` : `Saved "${name.trim()}"`
+      );
+      resetForm();
+    } catch (error) {
+      logger.error('Failed to save recipe', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save recipe. Please try again.'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (recipe: Recipe) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      await deleteRecipe(recipe.id);
+      await mutate('recipes');
+      if (editing?.id === recipe.id) resetForm();
+      toast.success(`Deleted "${recipe.name}". Logged entries are kept.`);
+    } catch (error) {
+      logger.error('Failed to delete recipe', error);
+      toast.error('Failed to delete recipe. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Recipes
+        </CardTitle>
+        <CardDescription>
+          Save home-cooked meals once and start new entries from them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. House vinaigrette"
+            aria-label="Recipe name"
+            maxLength={100}
+          />
+          <Textarea
+            value={ingredientText}
+            onChange={e => setIngredientText(e.target.value)}
+            placeholder="Ingredients, comma separated"
+            aria-label="Recipe ingredients"
+            rows={3}
+          />
+          {nestable.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Includes</p>
+              {nestable.map(recipe => (
+                <div key={recipe.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`sub-recipe-${recipe.id}`}
+                    checked={subRecipeIds.includes(recipe.id)}
+                    onCheckedChange={checked =>
+                      toggleSubRecipe(recipe.id, checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`sub-recipe-${recipe.id}`}
+                    className="font-normal"
+                  >
+                    {recipe.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Saving...' : editing ? 'Update' : 'Save recipe'}
+            </Button>
+            {editing && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {recipes.length > 0 ? (
+          <ul className="space-y-2">
+            {recipes.map(recipe => {
+              const ingredients = expandRecipe(recipe, recipes);
+              const subRecipes = recipes.filter(r =>
+                recipe.sub_recipe_ids.includes(r.id)
+              );
+              return (
+                <li key={recipe.id} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {recipe.name}
+                    </p>
+                    <div className="flex items-center gap-1">
+                      {ingredients.map((ingredient, index) => (
+                        <span
+                          key={`${ingredient.name}-${index}`}
+                          className={`h-2 w-2 rounded-full ${getZoneBgClass(ingredient.zone)}`}
+                          title={ingredient.name}
+                        />
+                      ))}
+                      <span className="ml-1 text-xs text-muted-foreground truncate">
+                        {ingredients.length} ingredient
+                        {ingredients.length !== 1 ? 's' : ''}
+                        {subRecipes.length > 0 &&
+                          ` · with ${subRecipes.map(r => r.name).join(', ')}`}
+                      </span>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(recipe)}
+                    disabled={isSaving}
+                    className="p-1 text-muted-foreground active:scale-110"
+                    aria-label={`Edit ${recipe.name}`}
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(recipe)}
+                    disabled={isSaving}
+                    className="p-1 text-muted-foreground active:scale-110"
+                    aria-label={`Delete ${recipe.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No recipes yet. Saved recipes appear when you add a food.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
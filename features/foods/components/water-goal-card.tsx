@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { Droplet } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { updateUserSettings } from '@/lib/db';
+import { useUserSettings } from '@/lib/hooks';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { formatVolume } from '@/lib/hydration/hydration';
+import { DEFAULT_USER_SETTINGS } from '@/lib/settings/user-settings';
+import { logger } from '@/lib/utils/logger';
+
+const { MIN_GOAL_ML, MAX_GOAL_ML, GOAL_STEP_ML } = APP_CONFIG.HYDRATION;
+
+const GOAL_OPTIONS = Array.from(
+  { length: (MAX_GOAL_ML - MIN_GOAL_ML) / GOAL_STEP_ML + 1 },
+  (_, i) => MIN_GOAL_ML + i * GOAL_STEP_ML
+);
+
+export function WaterGoalCard() {
+  const { data: settings = DEFAULT_USER_SETTINGS } = useUserSettings();
+  const { waterGoal: goal, units } = settings;
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = async (value: string) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      const saved = await updateUserSettings({ waterGoal: Number(value) });
+      await mutate('user-settings', saved, { revalidate: false });
+      toast.success(
+        `Daily water goal set to ${formatVolume(saved.waterGoal, units)}`
+      );
+    } catch (error) {
+      logger.error('Failed to save water goal', error);
+      toast.error('Failed to save water goal. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Droplet className="h-5 w-5" />
+          Hydration
+        </CardTitle>
+        <CardDescription>
+          Drinks logged as beverages count towards your daily goal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="water-goal">Daily water goal</Label>
+          <Select
+            value={String(goal)}
+            onValueChange={handleChange}
+            disabled={isSaving}
+          >
+            <SelectTrigger id="water-goal" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GOAL_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>
+                  {formatVolume(option, units)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { MEAL_TIME_SERIES, type MealTimePoint } from '@/lib/insights/trends';
+
+const chartConfig = {
+  breakfast: { label: 'Breakfast', color: 'hsl(var(--chart-3))' },
+  lunch: { label: 'Lunch', color: 'hsl(var(--chart-2))' },
+  dinner: { label: 'Dinner', color: 'hsl(var(--chart-1))' },
+  snack: { label: 'Snack', color: 'hsl(var(--chart-4))' },
+  beverage: { label: 'Beverage', color: 'hsl(var(--chart-5))' },
+  other: { label: 'Other', color: 'hsl(220 9% 64%)' },
+} satisfies ChartConfig;
+
+interface MealTimingChartProps {
+  data: MealTimePoint[];
+}
+
+// Entries per hour of the day, stacked by meal type
+export function MealTimingChart({ data }: MealTimingChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+      <BarChart data={data} margin={{ left: 0, right: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval={5} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {MEAL_TIME_SERIES.map(series => (
+          <Bar
+            key={series}
+            dataKey={series}
+            stackId="meals"
+            fill={`var(--color-${series})`}
+          />
+        ))}
+        <ChartLegend content={<ChartLegendContent />} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
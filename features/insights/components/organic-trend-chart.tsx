@@ -0,0 +1,67 @@
+'use client';
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { getZoneColor } from '@/lib/utils/zone-colors';
+import { formatTrendDay, type OrganicPoint } from '@/lib/insights/trends';
+
+const chartConfig = {
+  organicPercentage: { label: 'Organic', color: getZoneColor('green') },
+} satisfies ChartConfig;
+
+interface OrganicTrendChartProps {
+  data: OrganicPoint[];
+}
+
+// Days without ingredients are gaps, not drops to zero
+export function OrganicTrendChart({ data }: OrganicTrendChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+      <LineChart data={data} margin={{ left: -16, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={24}
+          tickFormatter={formatTrendDay}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          domain={[0, 100]}
+          ticks={[0, 50, 100]}
+          tickFormatter={value => `${value}%`}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                formatTrendDay(payload?.[0]?.payload?.day ?? '')
+              }
+              formatter={value => (
+                <span className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">Organic</span>
+                  <span className="font-mono font-medium">{value}%</span>
+                </span>
+              )}
+            />
+          }
+        />
+        <Line
+          dataKey="organicPercentage"
+          type="monotone"
+          stroke="var(--color-organicPercentage)"
+          strokeWidth={2}
+          dot={data.length <= 30}
+          connectNulls={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
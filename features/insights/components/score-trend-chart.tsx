@@ -0,0 +1,66 @@
+'use client';
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { formatTrendDay } from '@/lib/insights/trends';
+import type { ScoreTrendPoint } from '@/lib/insights/body-compass-score';
+
+const chartConfig = {
+  score: { label: 'Score', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+interface ScoreTrendChartProps {
+  data: ScoreTrendPoint[];
+}
+
+// Days without a stored score are gaps, not drops to zero
+export function ScoreTrendChart({ data }: ScoreTrendChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+      <LineChart data={data} margin={{ left: -16, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={24}
+          tickFormatter={formatTrendDay}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          domain={[0, 100]}
+          ticks={[0, 50, 100]}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                formatTrendDay(payload?.[0]?.payload?.day ?? '')
+              }
+              formatter={value => (
+                <span className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">Score</span>
+                  <span className="font-mono font-medium">{value}</span>
+                </span>
+              )}
+            />
+          }
+        />
+        <Line
+          dataKey="score"
+          type="monotone"
+          stroke="var(--color-score)"
+          strokeWidth={2}
+          dot={data.length <= 30}
+          connectNulls={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
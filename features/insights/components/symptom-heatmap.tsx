@@ -0,0 +1,54 @@
+'use client';
+
+import { getZoneColor } from '@/lib/utils/zone-colors';
+import { formatTrendDay, type SymptomHeatmap } from '@/lib/insights/trends';
+
+interface SymptomHeatmapGridProps {
+  heatmap: SymptomHeatmap;
+}
+
+// Darker cells mean more entries; recharts has no heatmap, so this is a grid
+export function SymptomHeatmapGrid({ heatmap }: SymptomHeatmapGridProps) {
+  const { days, rows, max } = heatmap;
+  const color = getZoneColor('red', 'hex');
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-0.5">
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.category}>
+                <th
+                  scope="row"
+                  className="pr-2 text-left text-xs font-normal text-muted-foreground whitespace-nowrap"
+                >
+                  {row.label}
+                </th>
+                {row.counts.map((count, index) => (
+                  <td
+                    key={days[index]}
+                    title={`${row.label}, ${formatTrendDay(days[index])}: ${count}`}
+                    className="h-4 w-4 min-w-4 rounded-sm bg-muted"
+                    style={
+                      count > 0
+                        ? {
+                            backgroundColor: color,
+                            opacity: 0.25 + 0.75 * (count / max),
+                          }
+                        : undefined
+                    }
+                  />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatTrendDay(days[0])}</span>
+        <span>{formatTrendDay(days[days.length - 1])}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useInsightTrends, useScoreTrend } from '@/lib/hooks';
+import { APP_CONFIG } from '@/lib/config/constants';
+import type { TrendRangeDays } from '@/lib/insights/trends';
+import { ZoneRatioChart } from './zone-ratio-chart';
+import { OrganicTrendChart } from './organic-trend-chart';
+import { SymptomHeatmapGrid } from './symptom-heatmap';
+import { MealTimingChart } from './meal-timing-chart';
+import { ScoreTrendChart } from './score-trend-chart';
+
+const { RANGE_DAYS, DEFAULT_RANGE_DAYS } = APP_CONFIG.INSIGHTS;
+
+function TrendCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+export function TrendCharts() {
+  const [rangeDays, setRangeDays] =
+    useState<TrendRangeDays>(DEFAULT_RANGE_DAYS);
+  const { data: trends, error, isLoading } = useInsightTrends(rangeDays);
+  const { data: scores } = useScoreTrend(rangeDays);
+
+  return (
+    <div className="space-y-4">
+      <Tabs
+        value={String(rangeDays)}
+        onValueChange={value => setRangeDays(Number(value) as TrendRangeDays)}
+      >
+        <TabsList className="grid w-full grid-cols-3">
+          {RANGE_DAYS.map(days => (
+            <TabsTrigger key={days} value={String(days)}>
+              {days} days
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {error ? (
+        <p className="text-sm text-destructive">
+          Couldn&apos;t load your trends. Please try again.
+        </p>
+      ) : isLoading && !trends ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : trends ? (
+        <>
+          {trends.daysWithFoods === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No meals logged in the last {rangeDays} days yet.
+            </p>
+          )}
+          {scores && (
+            <TrendCard
+              title="Body Compass score"
+              description="Daily score from zones, organics and symptoms"
+            >
+              <ScoreTrendChart data={scores} />
+            </TrendCard>
+          )}
+          <TrendCard
+            title="Zone balance"
+            description="Share of each day's ingredients per zone"
+          >
+            <ZoneRatioChart data={trends.zoneRatios} />
+          </TrendCard>
+          <TrendCard
+            title="Organic"
+            description="Percentage of organic ingredients per day"
+          >
+            <OrganicTrendChart data={trends.organic} />
+          </TrendCard>
+          <TrendCard
+            title="Symptoms by category"
+            description="Entries per category per day"
+          >
+            <SymptomHeatmapGrid heatmap={trends.symptomHeatmap} />
+          </TrendCard>
+          <TrendCard
+            title="Meal timing"
+            description="When you log meals, by hour of the day"
+          >
+            <MealTimingChart data={trends.mealTimes} />
+          </TrendCard>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { getZoneColor } from '@/lib/utils/zone-colors';
+import { formatTrendDay, type ZoneRatioPoint } from '@/lib/insights/trends';
+
+const ZONES = ['green', 'yellow', 'red', 'unzoned'] as const;
+
+const chartConfig = {
+  green: { label: 'Green', color: getZoneColor('green') },
+  yellow: { label: 'Yellow', color: getZoneColor('yellow') },
+  red: { label: 'Red', color: getZoneColor('red') },
+  unzoned: { label: 'Unzoned', color: getZoneColor('unzoned') },
+} satisfies ChartConfig;
+
+interface ZoneRatioChartProps {
+  data: ZoneRatioPoint[];
+}
+
+// Share of each day's ingredients per zone, stacked to 100%
+export function ZoneRatioChart({ data }: ZoneRatioChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+      <AreaChart data={data} margin={{ left: -16, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={24}
+          tickFormatter={formatTrendDay}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          domain={[0, 100]}
+          ticks={[0, 50, 100]}
+          tickFormatter={value => `${value}%`}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                formatTrendDay(payload?.[0]?.payload?.day ?? '')
+              }
+              formatter={(value, name) => (
+                <span className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">
+                    {chartConfig[name as keyof typeof chartConfig]?.label}
+                  </span>
+                  <span className="font-mono font-medium">{value}%</span>
+                </span>
+              )}
+            />
+          }
+        />
+        {ZONES.map(zone => (
+          <Area
+            key={zone}
+            dataKey={zone}
+            type="monotone"
+            stackId="zones"
+            stroke={`var(--color-${zone})`}
+            fill={`var(--color-${zone})`}
+            fillOpacity={0.6}
+          />
+        ))}
+        <ChartLegend content={<ChartLegendContent />} />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { mutate } from 'swr';
+import { toast } from 'sonner';
+import { Archive, ArchiveRestore, ListPlus } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { addCustomSymptom, setCustomSymptomArchived } from '@/lib/db';
+import { useCustomSymptoms } from '@/lib/hooks';
+import {
+  SYMPTOM_CATEGORIES,
+  toSymptomDefinition,
+} from '@/lib/symptoms/symptom-index';
+import { logger } from '@/lib/utils/logger';
+import type { CustomSymptom, SymptomCategory } from '@/lib/types';
+
+export function CustomSymptomsCard() {
+  const { data: customSymptoms } = useCustomSymptoms();
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<SymptomCategory>('digestion');
+  const [icon, setIcon] = useState('');
+  const [searchTerms, setSearchTerms] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const active = (customSymptoms ?? []).filter(s => !s.archived_at);
+  const archived = (customSymptoms ?? []).filter(s => s.archived_at);
+
+  // Wraps a custom symptom write with saving state, refresh and error toast
+  const runAction = async (
+    action: () => Promise<unknown>,
+    success: string
+  ): Promise<boolean> => {
+    if (isSaving) return false;
+    setIsSaving(true);
+    try {
+      await action();
+      await mutate('custom-symptoms');
+      toast.success(success);
+      return true;
+    } catch (error) {
+      logger.error('Custom symptom update failed', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to update custom symptoms. Please try again.'
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+    const saved = await runAction(
+      () =>
+        addCustomSymptom({
+          name,
+          category,
+          icon,
+          search_terms: searchTerms.split(','),
+        }),
+      `Added "${name.trim()}"`
+    );
+    if (saved) {
+      setName('');
+      setIcon('');
+      setSearchTerms('');
+    }
+  };
+
+  const renderRow = (symptom: CustomSymptom) => {
+    const definition = toSymptomDefinition(symptom);
+    const isArchived = !!symptom.archived_at;
+    return (
+      <li key={symptom.id} className="flex items-center gap-2 text-sm">
+        <span className="w-6 text-center">{definition.categoryIcon}</span>
+        <span
+          className={`flex-1 truncate ${isArchived ? 'text-muted-foreground' : ''}`}
+        >
+          {symptom.name}
+          <span className="text-muted-foreground capitalize">
+            {' '}
+            · {symptom.category}
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={() =>
+            runAction(
+              () => setCustomSymptomArchived(symptom.id, !isArchived),
+              isArchived
+                ? `Restored "${symptom.name}"`
+                : `Archived "${symptom.name}". Past entries are kept.`
+            )
+          }
+          disabled={isSaving}
+          className="p-1 text-muted-foreground active:scale-110"
+          aria-label={`${isArchived ? 'Restore' : 'Archive'} ${symptom.name}`}
+        >
+          {isArchived ? (
+            <ArchiveRestore className="h-4 w-4" />
+          ) : (
+            <Archive className="h-4 w-4" />
+          )}
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListPlus className="h-5 w-5" />
+          Custom Symptoms
+        </CardTitle>
+        <CardDescription>
+          Track symptoms that aren&apos;t in the built-in list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Eczema flare"
+            aria-label="Symptom name"
+            maxLength={60}
+          />
+          <Input
+            value={icon}
+            onChange={e => setIcon(e.target.value)}
+            placeholder="🙂"
+            aria-label="Icon (optional emoji)"
+            maxLength={8}
+            className="w-16 text-center"
+          />
+        </div>
+        <Select
+          value={category}
+          onValueChange={value => setCategory(value as SymptomCategory)}
+        >
+          <SelectTrigger aria-label="Category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SYMPTOM_CATEGORIES.map(info => (
+              <SelectItem key={info.name} value={info.name}>
+                {info.icon} {info.displayName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Input
+            value={searchTerms}
+            onChange={e => setSearchTerms(e.target.value)}
+            placeholder="Search terms, comma separated (optional)"
+            aria-label="Search terms"
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+          />
+          <Button onClick={handleAdd} disabled={!name.trim() || isSaving}>
+            Add
+          </Button>
+        </div>
+
+        {active.length > 0 ? (
+          <ul className="space-y-2">{active.map(renderRow)}</ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No custom symptoms yet. Anything you add appears in the symptom
+            picker.
+          </p>
+        )}
+
+        {archived.length > 0 && (
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-sm text-muted-foreground"
+            >
+              {showArchived ? 'Hide' : 'Show'} archived ({archived.length})
+            </button>
+            {showArchived && (
+              <ul className="space-y-2">{archived.map(renderRow)}</ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
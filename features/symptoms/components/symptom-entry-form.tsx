@@ -1,20 +1,36 @@
 'use client';
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import Link from 'next/link';
+import { ChevronDown, ChevronUp, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { Symptom, SymptomCategory } from '@/lib/types';
+import { Symptom, SymptomCategory, SymptomSeverity } from '@/lib/types';
 import {
-  SYMPTOMS,
   SYMPTOM_CATEGORIES,
+  SYMPTOM_SEVERITY_DESCRIPTIONS,
+  SYMPTOM_SEVERITY_LABELS,
+  SYMPTOM_SEVERITY_LEVELS,
   SymptomDefinition,
+  getSymptomsByCategory,
+  searchSymptoms,
 } from '@/lib/symptoms/symptom-index';
+import { useCustomSymptoms } from '@/lib/hooks';
 import { TimestampEditor } from '@/components/shared/timestamp-editor';
 
+interface SelectedSymptom {
+  symptom_id: string;
+  category: SymptomCategory;
+  name: string;
+  startTime: Date;
+  severity: SymptomSeverity | null; // Optional - unrated entries record presence only
+  endTime: Date | null; // Optional - null while ongoing or not tracked
+}
+
 interface SymptomEntryFormProps {
   onAddSymptom: (
     symptoms: Omit<Symptom, 'id' | 'timestamp'>[],
@@ -34,15 +50,12 @@ export function SymptomEntryForm({
   className = '',
 }: SymptomEntryFormProps) {
   // State management
+  const { data: customSymptoms } = useCustomSymptoms();
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
-  const [selectedSymptoms, setSelectedSymptoms] = useState<
-    Array<{
-      symptom_id: string;
-      category: SymptomCategory;
-      name: string;
-      startTime: Date;
-    }>
-  >([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedSymptoms, setSelectedSymptoms] = useState<SelectedSymptom[]>(
+    []
+  );
   const [notes, setNotes] = useState('');
   const [showNotes, setShowNotes] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -56,6 +69,10 @@ export function SymptomEntryForm({
           category: editingSymptom.category,
           name: editingSymptom.name,
           startTime: new Date(editingSymptom.timestamp),
+          severity: editingSymptom.severity ?? null,
+          endTime: editingSymptom.ended_at
+            ? new Date(editingSymptom.ended_at)
+            : null,
         },
       ]);
       setNotes(editingSymptom.notes || '');
@@ -65,13 +82,18 @@ export function SymptomEntryForm({
     }
   }, [editingSymptom]);
 
-  // Category overview for quick access
+  // Category overview for quick access, built-in and custom symptoms merged
   const categoryOverview = useMemo(() => {
     return SYMPTOM_CATEGORIES.map(category => ({
       category,
-      symptoms: SYMPTOMS.filter(s => s.category === category.name),
+      symptoms: getSymptomsByCategory(category.name, customSymptoms),
     }));
-  }, []);
+  }, [customSymptoms]);
+
+  const searchResults = useMemo(
+    () => searchSymptoms(searchQuery, customSymptoms),
+    [searchQuery, customSymptoms]
+  );
 
   // Toggle category accordion
   const toggleCategory = useCallback((categoryName: string) => {
@@ -87,26 +109,52 @@ export function SymptomEntryForm({
         return;
       }
 
-      const newSymptom = {
+      const newSymptom: SelectedSymptom = {
         symptom_id: symptom.id,
         category: symptom.category,
         name: symptom.name,
         startTime: new Date(), // Default to now, user can adjust
+        severity: null,
+        endTime: null,
       };
 
       setSelectedSymptoms(prev => [...prev, newSymptom]);
       setExpandedCategory(null); // Close accordion after selection
+      setSearchQuery('');
       setError(null);
     },
     [selectedSymptoms]
   );
 
-  // Update symptom start time
-  const updateSymptomStartTime = useCallback(
-    (symptomId: string, startTime: Date) => {
+  const renderSymptomOption = (symptom: SymptomDefinition) => (
+    <div
+      key={symptom.id}
+      className="flex items-center justify-between p-2 rounded-lg bg-muted/50 transition-colors cursor-pointer active:bg-muted active:scale-[0.98]"
+      onClick={() => addSymptom(symptom)}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-lg">{symptom.categoryIcon}</span>
+        <span className="text-sm font-medium">{symptom.name}</span>
+      </div>
+      {symptom.isCustom && (
+        <Badge variant="outline" className="text-xs">
+          Custom
+        </Badge>
+      )}
+    </div>
+  );
+
+  // Update start time, severity or end time of a selected symptom
+  const updateSelectedSymptom = useCallback(
+    (
+      symptomId: string,
+      changes: Partial<
+        Pick<SelectedSymptom, 'startTime' | 'severity' | 'endTime'>
+      >
+    ) => {
       setSelectedSymptoms(symptoms =>
         symptoms.map(s =>
-          s.symptom_id === symptomId ? { ...s, startTime } : s
+          s.symptom_id === symptomId ? { ...s, ...changes } : s
         )
       );
     },
@@ -132,12 +180,23 @@ export function SymptomEntryForm({
       return;
     }
 
+    const endsBeforeStart = selectedSymptoms.find(
+      s => s.endTime && s.endTime.getTime() < s.startTime.getTime()
+    );
+    if (endsBeforeStart) {
+      setError(`${endsBeforeStart.name} can't end before it started.`);
+      return;
+    }
+
     try {
+      // Explicit nulls so editing can clear a previously set value
       const symptomsToSubmit = selectedSymptoms.map(s => ({
         symptom_id: s.symptom_id,
         category: s.category,
         name: s.name,
         notes: notes.trim() || undefined,
+        severity: s.severity,
+        ended_at: s.endTime ? s.endTime.toISOString() : null,
       }));
 
       const timestamps = selectedSymptoms.map(s => s.startTime);
@@ -173,8 +232,35 @@ export function SymptomEntryForm({
             </div>
           )}
 
-          {/* Accordion Category Selection - Only show when no symptoms selected */}
+          {/* Search - built-in and custom symptoms */}
           {selectedSymptoms.length === 0 && (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={e => setSearchQuery(e.target.value)}
+                  placeholder="Search symptoms..."
+                  aria-label="Search symptoms"
+                  className="pl-9"
+                />
+              </div>
+              {searchQuery.trim() && (
+                <div className="space-y-1">
+                  {searchResults.length > 0 ? (
+                    searchResults.map(renderSymptomOption)
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No symptoms match &quot;{searchQuery.trim()}&quot;.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Accordion Category Selection - Only show when no symptoms selected */}
+          {selectedSymptoms.length === 0 && !searchQuery.trim() && (
             <div>
               <Label className="text-sm text-muted-foreground">
                 Browse by Category:
@@ -207,22 +293,7 @@ export function SymptomEntryForm({
                     {/* Expanded Symptoms */}
                     {expandedCategory === category.name && (
                       <div className="ml-6 space-y-1">
-                        {symptoms.map(symptom => (
-                          <div
-                            key={symptom.id}
-                            className="flex items-center justify-between p-2 rounded-lg bg-muted/50 transition-colors cursor-pointer active:bg-muted active:scale-[0.98]"
-                            onClick={() => addSymptom(symptom)}
-                          >
-                            <div className="flex items-center gap-2">
-                              <span className="text-lg">
-                                {symptom.categoryIcon}
-                              </span>
-                              <span className="text-sm font-medium">
-                                {symptom.name}
-                              </span>
-                            </div>
-                          </div>
-                        ))}
+                        {symptoms.map(renderSymptomOption)}
                       </div>
                     )}
                   </div>
@@ -231,6 +302,15 @@ export function SymptomEntryForm({
             </div>
           )}
 
+          {selectedSymptoms.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Don&apos;t see your symptom?{' '}
+              <Link href="/app?view=settings" className="underline">
+                Add a custom one in Settings
+              </Link>
+            </p>
+          )}
+
           {/* Selected Symptoms */}
           {selectedSymptoms.length > 0 && (
             <div>
@@ -279,10 +359,106 @@ export function SymptomEntryForm({
                       <TimestampEditor
                         value={symptom.startTime}
                         onChange={date =>
-                          updateSymptomStartTime(symptom.symptom_id, date)
+                          updateSelectedSymptom(symptom.symptom_id, {
+                            startTime: date,
+                          })
                         }
                         label="When did this symptom start?"
                       />
+
+                      {/* Severity - optional, tap the selected level to clear */}
+                      <div className="mt-4">
+                        <Label className="text-sm font-medium">
+                          How bad was it?{' '}
+                          <span className="font-normal text-muted-foreground">
+                            (optional)
+                          </span>
+                        </Label>
+                        <div
+                          className="mt-2 grid grid-cols-5 gap-2"
+                          role="radiogroup"
+                          aria-label={`${symptom.name} severity`}
+                        >
+                          {SYMPTOM_SEVERITY_LEVELS.map(level => (
+                            <Button
+                              key={level}
+                              type="button"
+                              role="radio"
+                              aria-checked={symptom.severity === level}
+                              variant={
+                                symptom.severity === level
+                                  ? 'default'
+                                  : 'outline'
+                              }
+                              size="sm"
+                              title={SYMPTOM_SEVERITY_DESCRIPTIONS[level]}
+                              onClick={() =>
+                                updateSelectedSymptom(symptom.symptom_id, {
+                                  severity:
+                                    symptom.severity === level ? null : level,
+                                })
+                              }
+                            >
+                              {level}
+                            </Button>
+                          ))}
+                        </div>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {symptom.severity
+                            ? `${SYMPTOM_SEVERITY_LABELS[symptom.severity]} – ${SYMPTOM_SEVERITY_DESCRIPTIONS[symptom.severity]}`
+                            : '1 = very mild, 5 = very severe'}
+                        </p>
+                      </div>
+
+                      {/* End Time - optional */}
+                      <div className="mt-4">
+                        {symptom.endTime ? (
+                          <div className="space-y-2">
+                            <TimestampEditor
+                              value={symptom.endTime}
+                              onChange={date =>
+                                updateSelectedSymptom(symptom.symptom_id, {
+                                  endTime: date,
+                                })
+                              }
+                              label="When did it end?"
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs text-muted-foreground"
+                              onClick={() =>
+                                updateSelectedSymptom(symptom.symptom_id, {
+                                  endTime: null,
+                                })
+                              }
+                            >
+                              Remove end time
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="text-xs"
+                            onClick={() =>
+                              updateSelectedSymptom(symptom.symptom_id, {
+                                // Start from the later of now and the start time
+                                endTime: new Date(
+                                  Math.max(
+                                    Date.now(),
+                                    symptom.startTime.getTime()
+                                  )
+                                ),
+                              })
+                            }
+                          >
+                            Add end time
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   );
                 })}
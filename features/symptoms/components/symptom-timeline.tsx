@@ -1,7 +1,11 @@
 'use client';
 
 import type { Symptom } from '@/lib/types';
-import { getCategoryInfo } from '@/lib/symptoms/symptom-index';
+import {
+  describeSymptomIntensity,
+  getCategoryInfo,
+  getSymptomDurationMinutes,
+} from '@/lib/symptoms/symptom-index';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 
 interface SymptomTimelineProps {
@@ -23,6 +27,31 @@ export function SymptomTimeline({
     return (hours / 24) * 100; // Returns percentage for left position
   };
 
+  // End position of a duration bar; symptoms running past midnight fill the day
+  const getEndPosition = (symptom: Symptom): number | null => {
+    if (getSymptomDurationMinutes(symptom) === null || !symptom.ended_at) {
+      return null;
+    }
+    const start = new Date(symptom.timestamp);
+    const end = new Date(symptom.ended_at);
+    return end.toDateString() === start.toDateString()
+      ? getTimelinePosition(symptom.ended_at)
+      : 100;
+  };
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+
+  const getTooltip = (symptom: Symptom): string => {
+    const intensity = describeSymptomIntensity(symptom);
+    const title = `${symptom.name} - ${formatTime(symptom.timestamp)}`;
+    return intensity ? `${title} · ${intensity}` : title;
+  };
+
   // Group symptoms by similar time positions to handle overlaps
   const groupedSymptoms = safeSymptoms.reduce(
     (groups, symptom) => {
@@ -111,6 +140,26 @@ export function SymptomTimeline({
               {/* Timeline line */}
               <div className="absolute top-1/2 left-0 right-0 h-0.5 bg-border transform -translate-y-1/2" />
 
+              {/* Duration bars - drawn under the markers, stronger for worse symptoms */}
+              {safeSymptoms.map(symptom => {
+                const endPosition = getEndPosition(symptom);
+                if (endPosition === null) return null;
+                const start = getTimelinePosition(symptom.timestamp);
+
+                return (
+                  <div
+                    key={`duration-${symptom.id}`}
+                    className="absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-primary"
+                    style={{
+                      left: `${start}%`,
+                      width: `${Math.max(endPosition - start, 0.5)}%`,
+                      opacity: 0.2 + (symptom.severity ?? 2) * 0.12,
+                    }}
+                    aria-hidden="true"
+                  />
+                );
+              })}
+
               {/* Symptom markers - positioned ON the timeline */}
               {Object.entries(groupedSymptoms).map(([_key, groupSymptoms]) => {
                 const avgPosition =
@@ -131,18 +180,23 @@ export function SymptomTimeline({
                         transform: `translate(-50%, calc(-50% + ${index * -8}px))`, // Stack overlapping symptoms above timeline
                         zIndex: 10 + index,
                       }}
-                      title={`${symptom.name} - ${new Date(
-                        symptom.timestamp
-                      ).toLocaleTimeString('en-US', {
-                        hour: 'numeric',
-                        minute: '2-digit',
-                        hour12: true,
-                      })}`}
+                      title={getTooltip(symptom)}
                     >
-                      <div className="w-7 h-7 sm:w-8 sm:h-8 border-2 border-primary bg-transparent rounded-full flex items-center justify-center shadow-md active:shadow-lg active:scale-110 transition-all duration-200 cursor-pointer touch-manipulation">
+                      <div
+                        className={`relative w-7 h-7 sm:w-8 sm:h-8 border-2 bg-background rounded-full flex items-center justify-center shadow-md active:shadow-lg active:scale-110 transition-all duration-200 cursor-pointer touch-manipulation ${
+                          (symptom.severity ?? 0) >= 4
+                            ? 'border-destructive'
+                            : 'border-primary'
+                        }`}
+                      >
                         <span className="text-foreground text-xs sm:text-sm">
                           {emoji}
                         </span>
+                        {symptom.severity && (
+                          <span className="absolute -top-1.5 -right-1.5 flex h-4 w-4 items-center justify-center rounded-full bg-foreground text-[10px] font-semibold text-background">
+                            {symptom.severity}
+                          </span>
+                        )}
                       </div>
                     </div>
                   );
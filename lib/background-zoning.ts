@@ -1,7 +1,11 @@
 import { createClient } from '@/lib/supabase/client';
 import { logger } from '@/lib/utils/logger';
-import type { Food, Ingredient } from '@/lib/types';
+import type { Food, Ingredient, ZoneOverride } from '@/lib/types';
 import { APP_CONFIG } from '@/lib/config/constants';
+import { zoneIngredientsFromDictionary } from '@/lib/zoning/ingredient-dictionary';
+import { toZoningInput } from '@/lib/zoning/cooking-methods';
+import { applyZoneOverrides } from '@/lib/zoning/overrides';
+import { getZoneOverrides } from '@/lib/db';
 
 // Type for zoning API response
 interface ZonedIngredientData {
@@ -10,6 +14,7 @@ interface ZonedIngredientData {
   category?: string;
   group: string;
   organic: boolean;
+  source: 'ai' | 'dictionary';
 }
 
 // Food type now includes retry tracking fields in the base interface
@@ -42,6 +47,18 @@ function shouldRetry(
   return timeSinceLastRetry >= requiredDelay;
 }
 
+// Personal overrides are optional - zoning still proceeds without them
+async function loadZoneOverrides(): Promise<ZoneOverride[]> {
+  try {
+    return await getZoneOverrides();
+  } catch (error) {
+    logger.warn('Failed to load zone overrides for retry', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return [];
+  }
+}
+
 /**
  * Enhanced background service with exponential backoff and monitoring
  * Tracks retry attempts and implements smart retry logic
@@ -94,9 +111,11 @@ export async function retryFailedZoning(): Promise<void> {
       `${foodsReadyForRetry.length} foods ready for retry after backoff filtering`
     );
 
+    const zoneOverrides = await loadZoneOverrides();
+
     // Process each eligible food entry
     for (const food of foodsReadyForRetry) {
-      await retryFoodZoning(food);
+      await retryFoodZoning(food, zoneOverrides);
     }
 
     // Log monitoring information
@@ -109,26 +128,31 @@ export async function retryFailedZoning(): Promise<void> {
 /**
  * Retry zoning for a specific food entry with retry tracking
  */
-async function retryFoodZoning(food: Food): Promise<void> {
+async function retryFoodZoning(
+  food: Food,
+  zoneOverrides: ZoneOverride[]
+): Promise<void> {
   try {
-    const ingredients = food.ingredients as Ingredient[];
-    const unzonedIngredients = ingredients.filter(
-      ing => ing.zone === 'unzoned'
+    // Resolve what we can from the dictionary before calling the model
+    const { ingredients, misses } = zoneIngredientsFromDictionary(
+      food.ingredients as Ingredient[]
     );
 
-    if (unzonedIngredients.length === 0) {
-      // All ingredients are already zoned, mark as processed
-      await updateFoodStatus(food.id, 'processed', ingredients);
+    if (misses.length === 0) {
+      // All ingredients are zoned, mark as processed
+      await updateFoodStatus(
+        food.id,
+        'processed',
+        applyZoneOverrides(ingredients, zoneOverrides)
+      );
       return;
     }
 
-    // Try to zone the unzoned ingredients
-    const ingredientNames = unzonedIngredients.map(ing => ing.name);
-
+    // Try to zone the remaining unzoned ingredients
     const response = await fetch('/api/zone-ingredients', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ ingredients: ingredientNames }),
+      body: JSON.stringify({ ingredients: misses.map(toZoningInput) }),
     });
 
     if (response.ok) {
@@ -136,17 +160,19 @@ async function retryFoodZoning(food: Food): Promise<void> {
         await response.json();
       const zonedMap = new Map(zonedData.map(item => [item.name, item]));
 
-      // Update ingredients with zoned data
-      const updatedIngredients = ingredients.map(ing => {
+      // Update ingredients with zoned data, then layer personal overrides on top
+      const classifiedIngredients = ingredients.map(ing => {
         if (ing.zone === 'unzoned') {
           const zonedData = zonedMap.get(ing.name);
           if (zonedData) {
+            const { source, ...classification } = zonedData;
             return {
               ...ing,
-              ...zonedData,
+              ...classification,
               // Ensure required fields have proper types
               group: zonedData.group || 'other',
               zone: zonedData.zone || 'unzoned',
+              zoneSource: source,
               organic:
                 typeof zonedData.organic === 'boolean'
                   ? zonedData.organic
@@ -158,6 +184,10 @@ async function retryFoodZoning(food: Food): Promise<void> {
         }
         return ing;
       });
+      const updatedIngredients = applyZoneOverrides(
+        classifiedIngredients,
+        zoneOverrides
+      );
 
       // Check if all ingredients are now zoned
       const stillUnzoned = updatedIngredients.some(
@@ -188,10 +218,11 @@ async function retryFoodZoning(food: Food): Promise<void> {
         logger.error(
           `Food ${food.id} marked as failed after ${retryCount} retry attempts`
         );
+        // Keep the dictionary zones so review only covers the misses
         await updateFoodStatus(
           food.id,
           'pending_review',
-          food.ingredients as Ingredient[]
+          applyZoneOverrides(ingredients, zoneOverrides)
         );
       }
     }
@@ -285,7 +316,7 @@ export async function retryFoodZoningManually(
       return false;
     }
 
-    await retryFoodZoning(food);
+    await retryFoodZoning(food, await loadZoneOverrides());
     return true;
   } catch (error) {
     logger.error(`Manual retry failed for food ${foodId}`, error);
@@ -0,0 +1,332 @@
+/**
+ * EAN-13 / EAN-8 / UPC-A barcode decoder
+ * Pure scanline decoder used when the native BarcodeDetector API is not
+ * available. Works on raw RGBA pixel data so it runs in any browser and in tests.
+ */
+
+// Module widths (space, bar, space, bar) for L-code digits 0-9
+// G-codes are the reverse; R-codes share the L widths starting with a bar
+const L_PATTERNS: number[][] = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// L/G parity of the six left-hand digits encodes the first EAN-13 digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// Maximum average per-module deviation accepted when matching a digit
+const MAX_DIGIT_VARIANCE = 0.38;
+
+// Number of scanlines tried across the image height
+const SCANLINE_COUNT = 15;
+
+export interface PixelSource {
+  data: Uint8ClampedArray | number[];
+  width: number;
+  height: number;
+}
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+/**
+ * Validate the GS1 check digit of an EAN-8, UPC-A or EAN-13 code
+ */
+export function isValidGtin(code: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(code)) return false;
+
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/**
+ * Normalize UPC-A codes to their 13-digit EAN form so catalog lookups
+ * are keyed consistently
+ */
+export function normalizeGtin(code: string): string {
+  const digits = code.replace(/\D/g, '');
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+function gtinCheckDigit(body: string): number {
+  const sum = body
+    .split('')
+    .map(Number)
+    .reverse()
+    .reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Expand a zero-suppressed UPC-E code to its 12-digit UPC-A form
+ * Accepts the six data digits alone, with the number system digit (0 or 1),
+ * or with both number system and check digit, as barcode readers vary.
+ * Returns null for anything that isn't a valid UPC-E code.
+ */
+export function expandUpcE(code: string): string | null {
+  const digits = code.replace(/\D/g, '');
+  if (digits.length < 6 || digits.length > 8) return null;
+
+  const numberSystem = digits.length === 6 ? '0' : digits[0];
+  if (numberSystem !== '0' && numberSystem !== '1') return null;
+
+  const data = digits.length === 6 ? digits : digits.slice(1, 7);
+  const [d1, d2, d3, d4, d5, d6] = data.split('');
+
+  // The last data digit says where the suppressed zeros go
+  let body: string;
+  if (d6 === '0' || d6 === '1' || d6 === '2') {
+    body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === '3') {
+    body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === '4') {
+    body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  const upcA = `${numberSystem}${body}`;
+  const check = gtinCheckDigit(upcA);
+  if (digits.length === 8 && Number(digits[7]) !== check) return null;
+  return `${upcA}${check}`;
+}
+
+function toRuns(luminance: number[]): Run[] {
+  let min = 255;
+  let max = 0;
+  luminance.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+
+  // Not enough contrast for a barcode on this line
+  if (max - min < 48) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: Run[] = [];
+  luminance.forEach(value => {
+    const dark = value < threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.width++;
+    } else {
+      runs.push({ dark, width: 1 });
+    }
+  });
+  return runs;
+}
+
+function matchDigit(
+  widths: number[],
+  patterns: number[][]
+): { digit: number; variance: number } | null {
+  const total = widths.reduce((a, b) => a + b, 0);
+  if (total === 0) return null;
+  const modules = widths.map(w => (w * 7) / total);
+
+  let best = { digit: -1, variance: Infinity };
+  for (let digit = 0; digit < patterns.length; digit++) {
+    const variance =
+      patterns[digit].reduce((acc, p, i) => acc + Math.abs(p - modules[i]), 0) /
+      4;
+    if (variance < best.variance) best = { digit, variance };
+  }
+
+  return best.variance <= MAX_DIGIT_VARIANCE ? best : null;
+}
+
+function isGuard(runs: Run[], start: number, count: number): boolean {
+  if (start + count > runs.length) return false;
+  const slice = runs.slice(start, start + count);
+  const moduleWidth = slice.reduce((acc, r) => acc + r.width, 0) / count;
+  return slice.every(
+    r => r.width > moduleWidth * 0.4 && r.width < moduleWidth * 1.8
+  );
+}
+
+function widthsAt(runs: Run[], start: number): number[] {
+  return runs.slice(start, start + 4).map(r => r.width);
+}
+
+interface DecodedDigit {
+  digit: number;
+  parity: 'L' | 'G';
+}
+
+// Read `count` digits, matching each against both L and G codes
+function readDigits(
+  runs: Run[],
+  offset: number,
+  count: number
+): DecodedDigit[] | null {
+  const digits: DecodedDigit[] = [];
+  for (let i = 0; i < count; i++) {
+    const widths = widthsAt(runs, offset + i * 4);
+    const l = matchDigit(widths, L_PATTERNS);
+    const g = matchDigit(widths, G_PATTERNS);
+    if (!l && !g) return null;
+    digits.push(
+      l && (!g || l.variance <= g.variance)
+        ? { digit: l.digit, parity: 'L' }
+        : { digit: g!.digit, parity: 'G' }
+    );
+  }
+  return digits;
+}
+
+const allParity = (digits: DecodedDigit[], parity: 'L' | 'G') =>
+  digits.every(d => d.parity === parity);
+
+/**
+ * Put both halves of a symbol into reading order
+ * Read right-to-left (upside down) every digit is mirrored: R-codes look
+ * like G-codes and the left half's L/G parity is swapped.
+ */
+function orientHalves(
+  first: DecodedDigit[],
+  second: DecodedDigit[]
+): { left: DecodedDigit[]; right: DecodedDigit[] } | null {
+  if (allParity(second, 'L')) {
+    return { left: first, right: second };
+  }
+  if (allParity(first, 'G')) {
+    return {
+      left: [...second]
+        .reverse()
+        .map(d => ({ digit: d.digit, parity: d.parity === 'L' ? 'G' : 'L' })),
+      right: [...first].reverse(),
+    };
+  }
+  return null;
+}
+
+// Try to decode a symbol whose start guard begins at runs[start]
+function decodeAt(runs: Run[], start: number): string | null {
+  if (!runs[start]?.dark || !isGuard(runs, start, 3)) return null;
+
+  // Quiet zone: the light run before the start guard must be wide
+  const moduleWidth =
+    (runs[start].width + runs[start + 1].width + runs[start + 2].width) / 3;
+  const quiet = runs[start - 1];
+  if (quiet && quiet.width < moduleWidth * 3) return null;
+
+  return decodeSymbol(runs, start + 3, 6) || decodeSymbol(runs, start + 3, 4);
+}
+
+/**
+ * Decode an EAN-13 (6 digits per half) or EAN-8 (4 digits per half) symbol
+ * Layout: half (digits * 4 runs), middle guard (5 runs), half, end guard (3 runs)
+ */
+function decodeSymbol(
+  runs: Run[],
+  offset: number,
+  digitsPerHalf: 4 | 6
+): string | null {
+  const halfRuns = digitsPerHalf * 4;
+  if (offset + halfRuns * 2 + 8 > runs.length) return null;
+
+  const first = readDigits(runs, offset, digitsPerHalf);
+  if (!first) return null;
+
+  const middle = offset + halfRuns;
+  if (!isGuard(runs, middle, 5)) return null;
+
+  const second = readDigits(runs, middle + 5, digitsPerHalf);
+  if (!second || !isGuard(runs, middle + 5 + halfRuns, 3)) return null;
+
+  const halves = orientHalves(first, second);
+  if (!halves) return null;
+
+  const { left, right } = halves;
+  let code: string;
+  if (digitsPerHalf === 6) {
+    const parity = left.map(d => d.parity).join('');
+    const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+    if (firstDigit === -1) return null;
+    code = [
+      firstDigit,
+      ...left.map(d => d.digit),
+      ...right.map(d => d.digit),
+    ].join('');
+  } else {
+    if (!allParity(left, 'L')) return null;
+    code = [...left, ...right].map(d => d.digit).join('');
+  }
+
+  return isValidGtin(code) ? code : null;
+}
+
+/**
+ * Decode a single row of luminance values (0-255)
+ * Upside-down barcodes are handled by orientHalves
+ */
+export function decodeScanline(luminance: number[]): string | null {
+  const runs = toRuns(luminance);
+  // Smallest symbol (EAN-8) has 43 runs between its guards
+  if (runs.length < 43) return null;
+
+  for (let i = 0; i < runs.length; i++) {
+    const code = decodeAt(runs, i);
+    if (code) return code;
+  }
+  return null;
+}
+
+/**
+ * Decode an EAN/UPC barcode from RGBA pixel data
+ * Scans several horizontal lines around the middle of the image
+ *
+ * @returns The decoded code (UPC-A codes are returned as 13-digit EAN) or null
+ */
+export function decodeBarcodeFromPixels(image: PixelSource): string | null {
+  const { data, width, height } = image;
+  if (width === 0 || height === 0) return null;
+
+  // Scan from the centre outwards; barcodes are usually framed in the middle
+  const rows: number[] = [];
+  for (let i = 0; i < SCANLINE_COUNT; i++) {
+    const step = Math.floor(i / 2 + 0.5) * (i % 2 === 0 ? 1 : -1);
+    const row = Math.floor(height / 2 + (step * height) / (SCANLINE_COUNT + 1));
+    if (row >= 0 && row < height && !rows.includes(row)) rows.push(row);
+  }
+
+  for (const row of rows) {
+    const luminance: number[] = new Array(width);
+    for (let x = 0; x < width; x++) {
+      const i = (row * width + x) * 4;
+      luminance[x] =
+        0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    const code = decodeScanline(luminance);
+    if (code) return normalizeGtin(code);
+  }
+
+  return null;
+}
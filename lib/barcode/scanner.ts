@@ -0,0 +1,115 @@
+/**
+ * Client-side barcode scanning
+ * Uses the native BarcodeDetector API where the browser provides it and
+ * falls back to the bundled scanline decoder everywhere else
+ */
+
+import { logger } from '@/lib/utils/logger';
+import { decodeBarcodeFromPixels, expandUpcE, normalizeGtin } from './decoder';
+
+const SUPPORTED_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+// Minimal typing for the Shape Detection API (not yet in lib.dom.d.ts)
+interface NativeBarcodeDetector {
+  detect(
+    source: CanvasImageSource
+  ): Promise<Array<{ rawValue: string; format: string }>>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+let nativeDetector: NativeBarcodeDetector | null | undefined;
+
+async function getNativeDetector(): Promise<NativeBarcodeDetector | null> {
+  if (nativeDetector !== undefined) return nativeDetector;
+
+  const Detector = (
+    globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor }
+  ).BarcodeDetector;
+
+  nativeDetector = null;
+  if (!Detector) return nativeDetector;
+
+  try {
+    const supported = (await Detector.getSupportedFormats?.()) || [];
+    const formats = SUPPORTED_FORMATS.filter(f => supported.includes(f));
+    if (formats.length > 0) {
+      nativeDetector = new Detector({ formats });
+    }
+  } catch (error) {
+    logger.warn('Native barcode detector unavailable', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return nativeDetector;
+}
+
+/**
+ * Scan a video frame or image for an EAN/UPC barcode
+ *
+ * @param source - Live video element or loaded image
+ * @param canvas - Scratch canvas used by the fallback decoder
+ * @returns Normalized barcode (13-digit EAN for UPC-A and UPC-E) or null
+ */
+export async function scanBarcode(
+  source: HTMLVideoElement | HTMLImageElement,
+  canvas: HTMLCanvasElement
+): Promise<string | null> {
+  const width =
+    source instanceof HTMLVideoElement
+      ? source.videoWidth
+      : source.naturalWidth;
+  const height =
+    source instanceof HTMLVideoElement
+      ? source.videoHeight
+      : source.naturalHeight;
+  if (!width || !height) return null;
+
+  const detector = await getNativeDetector();
+  if (detector) {
+    try {
+      const [barcode] = await detector.detect(source);
+      if (!barcode) return null;
+      // UPC-E is zero-suppressed UPC-A; the catalog only knows the full form
+      if (barcode.format === 'upc_e') {
+        const upcA = expandUpcE(barcode.rawValue);
+        return upcA ? normalizeGtin(upcA) : null;
+      }
+      return normalizeGtin(barcode.rawValue);
+    } catch (error) {
+      logger.debug('Native barcode detection failed, using fallback', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(source, 0, 0, width, height);
+  return decodeBarcodeFromPixels(ctx.getImageData(0, 0, width, height));
+}
+
+/**
+ * Load an uploaded photo so it can be scanned
+ */
+export function loadImageFile(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    image.src = url;
+  });
+}
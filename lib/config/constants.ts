@@ -90,6 +90,7 @@ export const DATABASE_CONFIG = {
   // Query limits
   DEFAULT_RECENT_LIMIT: 5,
   MAX_QUERY_LIMIT: 100,
+  HISTORY_PAGE_SIZE: 500, // Per request when reading the whole history
 } as const;
 
 // Validation configuration
@@ -116,6 +117,121 @@ export const CAMERA_CONFIG = {
   DEFAULT_FACING_MODE: 'environment' as const, // Rear-facing camera on mobile
 } as const;
 
+// Offline outbox configuration
+export const OFFLINE_CONFIG = {
+  // IndexedDB database holding writes made while offline
+  DB_NAME: 'eatzone-offline',
+  DB_VERSION: 1,
+  OUTBOX_STORE: 'outbox',
+  MAX_SYNC_ATTEMPTS: 5, // Failed replays before an entry is set aside for the user
+} as const;
+
+// Data export configuration
+export const EXPORT_CONFIG = {
+  // Bump when the JSON export shape changes; import checks it
+  SCHEMA_VERSION: 1,
+  FILE_PREFIX: 'eatzone',
+
+  // Clinician report defaults
+  REPORT_DEFAULT_DAYS: 30,
+  REPORT_DAILY_BUCKET_MAX_DAYS: 14, // Longer ranges are grouped by week
+  REPORT_TOP_RED_INGREDIENTS: 10,
+
+  // Import limits (checked before the file is parsed and validated)
+  IMPORT_MAX_FILE_SIZE: 20 * 1024 * 1024, // 20MB
+  IMPORT_MAX_ENTRIES: 20000, // Foods and symptoms combined
+} as const;
+
+// Meal templates and quick-log suggestions
+export const MEAL_CONFIG = {
+  SUGGESTION_LOOKBACK_DAYS: 60, // History considered for frequent meals
+  SUGGESTION_WINDOW_HOURS: 2, // "Around now" means within this many hours of the current time
+  MAX_SUGGESTIONS: 5,
+  USUAL_MEAL_MIN_COUNT: 3, // Logged this often around now to be "your usual"
+
+  // Meal timing and fasting windows
+  LATE_EATING_HOUR: 21, // A last meal at or after this local hour is late-night eating
+  LONG_EATING_WINDOW_HOURS: 12, // First to last meal spanning longer than this
+  SHORT_OVERNIGHT_FAST_HOURS: 12, // Fasting shorter than this before the first meal
+  TIMING_SUMMARY_DAYS: 14, // Days averaged on the meal timing card
+  TIMING_EFFECT_HOURS: 24, // Signals this long after the day's last meal count towards its timing
+} as const;
+
+// Portion sizes and quantity-weighted zone statistics
+export const PORTION_CONFIG = {
+  // Rough gram equivalents so mixed units can be compared (1 ml ~ 1 g)
+  GRAMS_PER_UNIT: { g: 1, ml: 1, cup: 240, piece: 100 },
+  DEFAULT_PORTION_GRAMS: 100, // Weight of an ingredient logged without a quantity
+  MAX_QUANTITY: 10000,
+  GRAMS_PER_OZ: 28.3495, // Weighted totals shown with imperial units
+  WEIGHTING_STORAGE_KEY: 'stats-weighting',
+} as const;
+
+// Hydration tracking against the daily water goal
+export const HYDRATION_CONFIG = {
+  DEFAULT_GOAL_ML: 2000,
+  MIN_GOAL_ML: 500, // Matches the user_settings CHECK (migration 022)
+  MAX_GOAL_ML: 6000,
+  GOAL_STEP_ML: 250,
+  QUICK_ADD_ML: [250, 500],
+  DEFAULT_BEVERAGE_ML: 250, // Volume of a beverage logged without one (a glass)
+  ML_PER_CUP: 240,
+  ML_PER_FL_OZ: 29.5735, // US fluid ounce, shown with imperial units
+} as const;
+
+// User settings configuration
+export const SETTINGS_CONFIG = {
+  MAX_DAY_BOUNDARY_HOUR: 6, // Matches the user_settings CHECK (migration 023)
+} as const;
+
+// Web Push reminders; times are learned from each user's logging history
+export const REMINDER_CONFIG = {
+  HISTORY_DAYS: 28,
+  MIN_MEAL_SAMPLES: 3, // Days a meal must be logged on before its time is trusted
+  MEAL_REMINDER_DELAY_MIN: 45, // After the usual meal time, if nothing is logged
+  SYMPTOM_CHECK_DELAY_MIN: 180, // "How do you feel 3h after dinner?"
+  DEFAULT_SUMMARY_MINUTES: 21 * 60, // Daily summary before there's a pattern
+  SUMMARY_DELAY_MIN: 60, // After the usual last entry of the day
+  SEND_WINDOW_MIN: 60, // Reminders this late are dropped rather than sent
+  TTL_SECONDS: 60 * 60, // Push services drop undelivered reminders after this
+  VAPID_EXPIRATION_SECONDS: 12 * 60 * 60,
+  // Browser push services (FCM, Mozilla autopush, Apple, WNS); subdomains match
+  PUSH_SERVICE_HOSTS: [
+    'fcm.googleapis.com',
+    'android.googleapis.com',
+    'push.services.mozilla.com',
+    'push.apple.com',
+    'notify.windows.com',
+  ],
+} as const;
+
+// Ingredient search configuration
+export const SEARCH_CONFIG = {
+  MIN_SIMILARITY: 0.3, // Trigram similarity for fuzzy matches (pg_trgm default)
+  RESULT_LIMIT: 100,
+  SYMPTOM_WINDOW_HOURS: 72, // Symptoms shown after each matching meal
+  DEBOUNCE_MS: 300,
+} as const;
+
+// Insights trend charts, aggregated server-side per day
+export const INSIGHTS_CONFIG = {
+  RANGE_DAYS: [7, 30, 90],
+  DEFAULT_RANGE_DAYS: 30,
+  HISTORY_DAYS: 90, // Entries loaded for suspect ingredients and the protocol card
+} as const;
+
+// Elimination protocol (Big Reset) configuration
+export const PROTOCOL_CONFIG = {
+  // Strict green-zone-only phase length
+  ELIMINATION_DAYS: 30,
+
+  // Observation window after reintroducing a single group
+  REINTRODUCTION_OBSERVATION_HOURS: 72,
+
+  // Days of eating before the start that rank the groups to reintroduce
+  BASELINE_DAYS: 90,
+} as const;
+
 // AI Model configuration
 export const AI_CONFIG = {
   // Image analysis model (vision AI)
@@ -129,6 +245,9 @@ export const AI_CONFIG = {
   IMAGE_ANALYSIS_MODEL: process.env.IMAGE_ANALYSIS_MODEL || 'openai/gpt-4o',
   IMAGE_ANALYSIS_MAX_TOKENS: getEnvNumber('IMAGE_ANALYSIS_MAX_TOKENS', 600),
   IMAGE_ANALYSIS_TEMPERATURE: getEnvFloat('IMAGE_ANALYSIS_TEMPERATURE', 0.1),
+  // Label reading uses the vision model above; full ingredient statements
+  // with sub-ingredients need a larger output budget than a meal photo
+  LABEL_ANALYSIS_MAX_TOKENS: getEnvNumber('LABEL_ANALYSIS_MAX_TOKENS', 1200),
 
   // Ingredient zoning model (text AI)
   // Default: anthropic/claude-3.7-sonnet
@@ -151,5 +270,15 @@ export const APP_CONFIG = {
   DATABASE: DATABASE_CONFIG,
   VALIDATION: VALIDATION_CONFIG,
   CAMERA: CAMERA_CONFIG,
+  OFFLINE: OFFLINE_CONFIG,
+  EXPORT: EXPORT_CONFIG,
+  MEAL: MEAL_CONFIG,
+  PORTION: PORTION_CONFIG,
+  HYDRATION: HYDRATION_CONFIG,
+  SETTINGS: SETTINGS_CONFIG,
+  REMINDER: REMINDER_CONFIG,
+  SEARCH: SEARCH_CONFIG,
+  INSIGHTS: INSIGHTS_CONFIG,
+  PROTOCOL: PROTOCOL_CONFIG,
   AI: AI_CONFIG,
 } as const;
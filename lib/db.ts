@@ -1,7 +1,92 @@
 import { createClient } from '@/lib/supabase/client';
-import { Food, Symptom, User, SymptomCategory } from './types';
-import { getSymptomById as getSymptomDefinition } from './symptoms/symptom-index';
+import {
+  EntrySummary,
+  Food,
+  Symptom,
+  User,
+  UserSettings,
+  SymptomCategory,
+  Protocol,
+  CustomSymptom,
+  MealTemplate,
+  Recipe,
+  ZoneOverride,
+  ZoneOverrideTarget,
+  ZoningSuggestion,
+  ZoningSuggestionStatus,
+} from './types';
+import {
+  getCategoryInfoSafe,
+  getSymptomById as getSymptomDefinition,
+  isCustomSymptomId,
+  isSymptomSeverity,
+} from './symptoms/symptom-index';
 import { sanitizeUserNote } from './security/sanitization';
+import { zoneIngredientsFromDictionary } from './zoning/ingredient-dictionary';
+import { toZoningInput } from './zoning/cooking-methods';
+import { logger } from './utils/logger';
+import {
+  applyZoneOverrides,
+  applyZoneOverridesToFoods,
+  normalizeOverrideTarget,
+} from './zoning/overrides';
+import {
+  enqueueOperation,
+  getOperationEntryIds,
+  getOutboxEntries,
+  isOffline,
+  isOfflineError,
+  isOutboxAvailable,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type NewFood,
+  type NewSymptom,
+  type OutboxOperation,
+} from './offline/outbox';
+import { createDataExport, type DataExport } from './export/formats';
+import type { ImportPlan, ImportResult } from './export/import';
+import {
+  buildSearchResults,
+  hasSearchCriteria,
+  ingredientMatches,
+  symptomRangeFor,
+  type IngredientSearchFilters,
+  type IngredientSearchResult,
+} from './search/ingredient-search';
+import { APP_CONFIG } from './config/constants';
+import { createWaterEntry } from './hydration/hydration';
+import {
+  fromUserSettingsRow,
+  toUserSettingsRow,
+  USER_SETTINGS_COLUMNS,
+  type UserSettingsUpdate,
+} from './settings/user-settings';
+import {
+  getDayBoundary,
+  getDayKey,
+  getDayRange,
+  getTodayKey,
+  type DayBoundary,
+} from './utils/day-buckets';
+import {
+  getCursorFilter,
+  toEntryPage,
+  type EntryCursor,
+  type EntryPage,
+} from './pagination/keyset';
+import {
+  fromDailyScoreRow,
+  toDailyScoreRow,
+  type DailyScore,
+  type DailyScoreRow,
+} from './insights/body-compass-score';
+import type {
+  InsightTrendRows,
+  MealTimeRow,
+  SymptomCategoryRow,
+  TrendRange,
+  ZoneTrendRow,
+} from './insights/trends';
 
 // Type for zoning API response
 interface ZonedIngredientData {
@@ -10,6 +95,7 @@ interface ZonedIngredientData {
   category?: string;
   group: string;
   organic: boolean;
+  source: 'ai' | 'dictionary';
 }
 
 // Get Supabase client
@@ -20,33 +106,90 @@ export const generateTimestamp = (): string => {
   return new Date().toISOString();
 };
 
-// Helper function to get today's date in YYYY-MM-DD format
-export const getTodayDate = (): string => {
-  return new Date().toISOString().split('T')[0];
+// Today's day key (YYYY-MM-DD) in the user's timezone and day-start hour
+export const getTodayDate = (
+  boundary: DayBoundary = getDayBoundary()
+): string => {
+  return getTodayKey(boundary);
 };
 
 // Helper function to check if a timestamp is from today
-export const isToday = (timestamp: string): boolean => {
-  const today = getTodayDate();
-  return timestamp.startsWith(today);
+export const isToday = (
+  timestamp: string,
+  boundary: DayBoundary = getDayBoundary()
+): boolean => {
+  return getDayKey(timestamp, boundary) === getTodayKey(boundary);
 };
 
-// FOOD OPERATIONS
-export const addFood = async (
-  food: Omit<Food, 'id' | 'timestamp'> & { image?: string; images?: string[] }
-): Promise<string> => {
-  const { data: user } = await supabase.auth.getUser();
-  if (!user.user) throw new Error('User not authenticated');
+// Postgres unique violation - a replayed insert that already landed
+const isDuplicateKeyError = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === '23505';
+
+/**
+ * The signed-in user's id from the locally cached session
+ * getUser() asks the auth server, so on an unreachable network it reports no
+ * user; writes that may be queued read the session instead, which only needs
+ * the network to refresh an expired token (and then fails as a fetch error).
+ */
+const getSessionUserId = async (): Promise<string> => {
+  const { data, error } = await supabase.auth.getSession();
+  if (error) throw error;
+  if (!data.session?.user) throw new Error('User not authenticated');
+  return data.session.user.id;
+};
+
+/**
+ * Run a write now, or queue it in the offline outbox when there is no network
+ * Queued writes are replayed by syncOutbox with the same client-generated IDs
+ */
+const writeOrQueue = async <T>(
+  operation: OutboxOperation,
+  write: () => Promise<T>,
+  queuedResult: T
+): Promise<T> => {
+  if (!isOffline()) {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isOfflineError(error) || !isOutboxAvailable()) throw error;
+    }
+  }
 
-  // Generate food ID early for image naming
+  if (!isOutboxAvailable()) {
+    throw new Error('You are offline. Please reconnect and try again.');
+  }
+  await enqueueOperation(operation);
+  return queuedResult;
+};
+
+// FOOD OPERATIONS
+export const addFood = async (food: NewFood): Promise<string> => {
+  // Generate food ID early for image naming and idempotent offline replay
   const foodId = crypto.randomUUID();
+  const timestamp = generateTimestamp();
+
+  return writeOrQueue(
+    { type: 'addFood', foodId, timestamp, food },
+    () => persistFood(foodId, timestamp, food),
+    foodId
+  );
+};
+
+const persistFood = async (
+  foodId: string,
+  timestamp: string,
+  food: NewFood
+): Promise<string> => {
+  const userId = await getSessionUserId();
 
   // Import image storage utilities
   const { uploadFoodImage, uploadFoodImages } = await import('./image-storage');
 
   let photo_url: string | undefined;
   let image_urls: string[] = [];
-  let zonedIngredients = food.ingredients;
+  // Dictionary zoning is instant; only misses need the zoning API
+  const dictionaryZoning = zoneIngredientsFromDictionary(food.ingredients);
+  let zonedIngredients = dictionaryZoning.ingredients;
 
   // Parallel operations: image upload + ingredient zoning
   const operations: Promise<unknown>[] = [];
@@ -55,7 +198,7 @@ export const addFood = async (
   if (food.images && food.images.length > 0) {
     // Multiple images provided
     operations.push(
-      uploadFoodImages(food.images, user.user.id, foodId)
+      uploadFoodImages(food.images, userId, foodId)
         .then(urls => {
           image_urls = urls;
           photo_url = urls[0] || undefined; // First image as primary for backward compat
@@ -71,7 +214,7 @@ export const addFood = async (
   } else if (food.image) {
     // Single image provided (backward compatibility)
     operations.push(
-      uploadFoodImage(food.image, user.user.id)
+      uploadFoodImage(food.image, userId)
         .then(url => {
           photo_url = url || undefined;
           if (url) image_urls = [url];
@@ -86,20 +229,17 @@ export const addFood = async (
     );
   }
 
-  // 2. Ingredient zoning (if ingredients need zoning)
-  const unzonedIngredients = food.ingredients.filter(
-    ing => ing.zone === 'unzoned'
-  );
+  // 2. Ingredient zoning (if ingredients missed the dictionary)
   let zoningSucceeded = true;
 
-  if (unzonedIngredients.length > 0) {
-    const ingredientNames = unzonedIngredients.map(ing => ing.name);
-
+  if (dictionaryZoning.misses.length > 0) {
     operations.push(
       fetch('/api/zone-ingredients', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ingredients: ingredientNames }),
+        body: JSON.stringify({
+          ingredients: dictionaryZoning.misses.map(toZoningInput),
+        }),
       })
         .then(async response => {
           if (response.ok) {
@@ -109,17 +249,19 @@ export const addFood = async (
             const zonedMap = new Map(zonedData.map(item => [item.name, item]));
 
             // Update ingredients with zoned data
-            zonedIngredients = food.ingredients.map(ing => {
+            zonedIngredients = zonedIngredients.map(ing => {
               if (ing.zone === 'unzoned') {
                 const zonedData = zonedMap.get(ing.name);
                 if (zonedData) {
+                  const { source, ...classification } = zonedData;
                   return {
                     ...ing,
-                    ...zonedData,
+                    ...classification,
                     // Ensure required fields have proper types
                     category: zonedData.category,
                     group: zonedData.group || 'other',
                     zone: zonedData.zone || 'unzoned',
+                    zoneSource: source,
                     organic:
                       typeof zonedData.organic === 'boolean'
                         ? zonedData.organic
@@ -145,11 +287,24 @@ export const addFood = async (
     );
   }
 
-  // Wait for both operations to complete
+  // 3. Personal zone overrides (graceful degradation - classification still saves)
+  let zoneOverrides: ZoneOverride[] = [];
+  operations.push(
+    getZoneOverrides()
+      .then(overrides => {
+        zoneOverrides = overrides;
+        return overrides;
+      })
+      .catch(() => [])
+  );
+
+  // Wait for all operations to complete
   if (operations.length > 0) {
     await Promise.allSettled(operations);
   }
 
+  zonedIngredients = applyZoneOverrides(zonedIngredients, zoneOverrides);
+
   // Determine status based on zoning results
   const hasUnzonedIngredients = zonedIngredients.some(
     ing => ing.zone === 'unzoned'
@@ -172,8 +327,14 @@ export const addFood = async (
     status: finalStatus,
     photo_url, // Keep for backward compatibility
     image_urls: image_urls.length > 0 ? image_urls : null, // New field for multiple images
-    user_id: user.user.id,
-    timestamp: generateTimestamp(),
+    user_id: userId,
+    timestamp,
+    // Only entries logged from a recipe carry the link
+    ...(food.recipe_id && {
+      recipe_id: food.recipe_id,
+      recipe_scale: food.recipe_scale ?? 1,
+      recipe_updated_at: food.recipe_updated_at ?? null,
+    }),
   };
 
   const { data, error } = await supabase
@@ -182,13 +343,27 @@ export const addFood = async (
     .select('id')
     .single();
 
-  if (error) throw error;
+  if (error) {
+    if (isDuplicateKeyError(error)) return foodId; // Already synced
+    throw error;
+  }
   return data.id;
 };
 
 export const updateFood = async (
   id: string,
   updates: Partial<Omit<Food, 'id'>>
+): Promise<void> => {
+  await writeOrQueue(
+    { type: 'updateFood', foodId: id, updates },
+    () => persistFoodUpdate(id, updates),
+    undefined
+  );
+};
+
+const persistFoodUpdate = async (
+  id: string,
+  updates: Partial<Omit<Food, 'id'>>
 ): Promise<void> => {
   const { error } = await supabase.from('foods').update(updates).eq('id', id);
 
@@ -214,30 +389,42 @@ export const duplicateFood = async (foodId: string): Promise<string> => {
   const originalFood = await getFoodById(foodId);
   if (!originalFood) throw new Error('Food not found');
 
-  // Generate new food ID
-  const newFoodId = crypto.randomUUID();
+  return insertFoodCopy(user.user.id, originalFood);
+};
 
-  // Create duplicated food entry with:
-  // - New ID
-  // - Current timestamp
-  // - Same user_id
-  // - All other data copied as-is (images, ingredients already zoned, etc.)
-  const duplicatedFood = {
-    id: newFoodId,
-    user_id: user.user.id,
-    name: originalFood.name,
+type LoggableMeal = Pick<
+  Food,
+  'name' | 'ingredients' | 'notes' | 'meal_type' | 'photo_url' | 'image_urls'
+> &
+  Partial<Pick<Food, 'status'>>;
+
+/**
+ * Insert a new entry copied from an existing food or template
+ * - New ID
+ * - Current timestamp
+ * - All other data copied as-is (images, ingredients already zoned, etc.)
+ * No zoning or AI analysis runs
+ */
+const insertFoodCopy = async (
+  userId: string,
+  source: LoggableMeal
+): Promise<string> => {
+  const copiedFood = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    name: source.name,
     timestamp: generateTimestamp(), // Current time
-    ingredients: originalFood.ingredients, // Already zoned, copy as-is
-    notes: originalFood.notes,
-    meal_type: originalFood.meal_type,
-    photo_url: originalFood.photo_url, // Reuse existing image URLs
-    image_urls: originalFood.image_urls, // Reuse existing image URLs
-    status: originalFood.status, // Preserve status (should be 'processed' for existing entries)
+    ingredients: source.ingredients, // Already zoned, copy as-is
+    notes: source.notes,
+    meal_type: source.meal_type,
+    photo_url: source.photo_url, // Reuse existing image URLs
+    image_urls: source.image_urls, // Reuse existing image URLs
+    status: source.status ?? 'processed', // Existing entries keep their status
   };
 
   const { data, error } = await supabase
     .from('foods')
-    .insert(duplicatedFood)
+    .insert(copiedFood)
     .select('id')
     .single();
 
@@ -246,13 +433,7 @@ export const duplicateFood = async (foodId: string): Promise<string> => {
 };
 
 export const getAllFoods = async (): Promise<Food[]> => {
-  const { data, error } = await supabase
-    .from('foods')
-    .select('*')
-    .order('timestamp', { ascending: false });
-
-  if (error) throw error;
-  return data || [];
+  return fetchAllEntries<Food>('foods');
 };
 
 export const getRecentFoods = async (limit: number = 10): Promise<Food[]> => {
@@ -266,16 +447,16 @@ export const getRecentFoods = async (limit: number = 10): Promise<Food[]> => {
   return data || [];
 };
 
-export const getTodaysFoods = async (): Promise<Food[]> => {
-  const today = getTodayDate();
-  const startRange = today + 'T00:00:00.000Z';
-  const endRange = today + 'T23:59:59.999Z';
+export const getTodaysFoods = async (
+  boundary: DayBoundary = getDayBoundary()
+): Promise<Food[]> => {
+  const { start, end } = getDayRange(getTodayKey(boundary), boundary);
 
   const { data, error } = await supabase
     .from('foods')
     .select('*')
-    .gte('timestamp', startRange)
-    .lte('timestamp', endRange)
+    .gte('timestamp', start)
+    .lt('timestamp', end)
     .order('timestamp', { ascending: false });
 
   if (error) throw error;
@@ -301,25 +482,35 @@ export const getFoodById = async (id: string): Promise<Food | undefined> => {
 /**
  * Validate symptom data before database insertion
  */
-function validateSymptomData(symptom: Omit<Symptom, 'id' | 'timestamp'>): void {
-  // Validate symptom_id exists in new symptom database
-  const symptomDef = getSymptomDefinition(symptom.symptom_id);
-  if (!symptomDef) {
-    throw new Error(`Invalid symptom_id: ${symptom.symptom_id}`);
-  }
+function validateSymptomData(
+  symptom: Omit<Symptom, 'id' | 'timestamp'> & { timestamp?: string }
+): void {
+  if (isCustomSymptomId(symptom.symptom_id)) {
+    // Custom symptoms can be renamed later, so entries keep the name they were
+    // logged with; ownership is enforced by RLS on custom_symptoms
+    if (!symptom.name?.trim()) {
+      throw new Error(`Missing name for symptom_id: ${symptom.symptom_id}`);
+    }
+  } else {
+    // Validate symptom_id exists in new symptom database
+    const symptomDef = getSymptomDefinition(symptom.symptom_id);
+    if (!symptomDef) {
+      throw new Error(`Invalid symptom_id: ${symptom.symptom_id}`);
+    }
 
-  // Validate category matches symptom definition
-  if (symptom.category !== symptomDef.category) {
-    throw new Error(
-      `Category mismatch for symptom_id: ${symptom.symptom_id}. Expected: ${symptomDef.category}, got: ${symptom.category}`
-    );
-  }
+    // Validate category matches symptom definition
+    if (symptom.category !== symptomDef.category) {
+      throw new Error(
+        `Category mismatch for symptom_id: ${symptom.symptom_id}. Expected: ${symptomDef.category}, got: ${symptom.category}`
+      );
+    }
 
-  // Validate name matches symptom definition
-  if (symptom.name !== symptomDef.name) {
-    throw new Error(
-      `Name mismatch for symptom_id: ${symptom.symptom_id}. Expected: ${symptomDef.name}, got: ${symptom.name}`
-    );
+    // Validate name matches symptom definition
+    if (symptom.name !== symptomDef.name) {
+      throw new Error(
+        `Name mismatch for symptom_id: ${symptom.symptom_id}. Expected: ${symptomDef.name}, got: ${symptom.name}`
+      );
+    }
   }
 
   // Validate category is one of the allowed values
@@ -334,6 +525,29 @@ function validateSymptomData(symptom: Omit<Symptom, 'id' | 'timestamp'>): void {
       `Invalid category: ${symptom.category}. Must be one of: ${validCategories.join(', ')}`
     );
   }
+
+  validateSymptomDetails(symptom);
+}
+
+// Severity and end time are optional; null clears them on update
+function validateSymptomDetails(
+  symptom: Pick<Partial<Symptom>, 'severity' | 'timestamp' | 'ended_at'>
+): void {
+  if (symptom.severity != null && !isSymptomSeverity(symptom.severity)) {
+    throw new Error(
+      `Invalid severity: ${symptom.severity}. Must be a whole number from 1 to 5`
+    );
+  }
+
+  if (symptom.ended_at != null) {
+    const endedAt = new Date(symptom.ended_at).getTime();
+    if (Number.isNaN(endedAt)) {
+      throw new Error(`Invalid ended_at: ${symptom.ended_at}`);
+    }
+    if (symptom.timestamp && endedAt < new Date(symptom.timestamp).getTime()) {
+      throw new Error('Symptom cannot end before it started');
+    }
+  }
 }
 
 export const addSymptom = async (
@@ -370,9 +584,6 @@ export const addSymptom = async (
 export const addSymptoms = async (
   symptoms: Omit<Symptom, 'id'>[]
 ): Promise<string[]> => {
-  const { data: user } = await supabase.auth.getUser();
-  if (!user.user) throw new Error('User not authenticated');
-
   if (symptoms.length === 0) {
     throw new Error('No symptoms provided');
   }
@@ -380,20 +591,40 @@ export const addSymptoms = async (
   // Validate all symptom data
   symptoms.forEach(symptom => validateSymptomData(symptom));
 
-  // Prepare symptoms for insertion
-  const symptomsToInsert = symptoms.map(symptom => ({
+  // Client-generated IDs make offline replay idempotent
+  const newSymptoms: NewSymptom[] = symptoms.map(symptom => ({
     ...symptom,
+    id: crypto.randomUUID(),
     notes: symptom.notes ? sanitizeUserNote(symptom.notes) : undefined,
-    user_id: user.user.id,
     timestamp: symptom.timestamp || generateTimestamp(),
   }));
+  const ids = newSymptoms.map(symptom => symptom.id);
+
+  return writeOrQueue(
+    { type: 'addSymptoms', symptoms: newSymptoms },
+    () => persistSymptoms(newSymptoms),
+    ids
+  );
+};
+
+const persistSymptoms = async (symptoms: NewSymptom[]): Promise<string[]> => {
+  const userId = await getSessionUserId();
+
+  const symptomsToInsert = symptoms.map(symptom => ({
+    ...symptom,
+    user_id: userId,
+  }));
 
   const { data, error } = await supabase
     .from('symptoms')
     .insert(symptomsToInsert)
     .select('id');
 
-  if (error) throw error;
+  if (error) {
+    // The batch insert is atomic, so a duplicate means it all landed
+    if (isDuplicateKeyError(error)) return symptoms.map(s => s.id);
+    throw error;
+  }
   return data.map(item => item.id);
 };
 
@@ -430,6 +661,8 @@ export const updateSymptom = async (
     validateSymptomData(mergedSymptom);
   }
 
+  validateSymptomDetails(updates);
+
   // Sanitize updates to prevent invalid fields
   const allowedFields = [
     'symptom_id',
@@ -437,6 +670,8 @@ export const updateSymptom = async (
     'name',
     'timestamp',
     'notes',
+    'severity',
+    'ended_at',
   ] as const;
   const sanitizedUpdates = Object.keys(updates).reduce(
     (acc, key) => {
@@ -461,19 +696,21 @@ export const updateSymptom = async (
 };
 
 export const deleteSymptom = async (id: string): Promise<void> => {
+  await writeOrQueue(
+    { type: 'deleteSymptom', symptomId: id },
+    () => persistSymptomDeletion(id),
+    undefined
+  );
+};
+
+const persistSymptomDeletion = async (id: string): Promise<void> => {
   const { error } = await supabase.from('symptoms').delete().eq('id', id);
 
   if (error) throw error;
 };
 
 export const getAllSymptoms = async (): Promise<Symptom[]> => {
-  const { data, error } = await supabase
-    .from('symptoms')
-    .select('*')
-    .order('timestamp', { ascending: false });
-
-  if (error) throw error;
-  return data || [];
+  return fetchAllEntries<Symptom>('symptoms');
 };
 
 export const getRecentSymptoms = async (
@@ -489,16 +726,16 @@ export const getRecentSymptoms = async (
   return data || [];
 };
 
-export const getTodaysSymptoms = async (): Promise<Symptom[]> => {
-  const today = getTodayDate();
-  const startRange = today + 'T00:00:00.000Z';
-  const endRange = today + 'T23:59:59.999Z';
+export const getTodaysSymptoms = async (
+  boundary: DayBoundary = getDayBoundary()
+): Promise<Symptom[]> => {
+  const { start, end } = getDayRange(getTodayKey(boundary), boundary);
 
   const { data, error } = await supabase
     .from('symptoms')
     .select('*')
-    .gte('timestamp', startRange)
-    .lte('timestamp', endRange)
+    .gte('timestamp', start)
+    .lt('timestamp', end)
     .order('timestamp', { ascending: false });
 
   if (error) throw error;
@@ -537,18 +774,17 @@ export const getSymptomsByCategory = async (
 };
 
 export const getSymptomsByCategoryToday = async (
-  category: string
+  category: string,
+  boundary: DayBoundary = getDayBoundary()
 ): Promise<Symptom[]> => {
-  const today = getTodayDate();
-  const startRange = today + 'T00:00:00.000Z';
-  const endRange = today + 'T23:59:59.999Z';
+  const { start, end } = getDayRange(getTodayKey(boundary), boundary);
 
   const { data, error } = await supabase
     .from('symptoms')
     .select('*')
     .eq('category', category)
-    .gte('timestamp', startRange)
-    .lte('timestamp', endRange)
+    .gte('timestamp', start)
+    .lt('timestamp', end)
     .order('timestamp', { ascending: false });
 
   if (error) throw error;
@@ -583,21 +819,872 @@ export const getCategorySummary = async (dateRange?: {
   return summary;
 };
 
+/**
+ * Symptoms logged from the first through the last day, inclusive
+ * @param startDay - First day key (YYYY-MM-DD)
+ * @param endDay - Last day key (YYYY-MM-DD)
+ */
 export const getSymptomsByDateRange = async (
-  startDate: string,
-  endDate: string
+  startDay: string,
+  endDay: string,
+  boundary: DayBoundary = getDayBoundary()
 ): Promise<Symptom[]> => {
   const { data, error } = await supabase
     .from('symptoms')
     .select('*')
-    .gte('timestamp', startDate)
-    .lte('timestamp', endDate)
+    .gte('timestamp', getDayRange(startDay, boundary).start)
+    .lt('timestamp', getDayRange(endDay, boundary).end)
     .order('timestamp', { ascending: false });
 
   if (error) throw error;
   return data || [];
 };
 
+// PAGINATED AND DATE-RANGE OPERATIONS
+// Screens read a page, a few days or a server aggregate, never the whole
+// history (see migration 026)
+
+const fetchEntriesPage = async <T extends EntryCursor>(
+  table: 'foods' | 'symptoms',
+  cursor: EntryCursor | null,
+  limit: number
+): Promise<EntryPage<T>> => {
+  let query = supabase.from(table).select('*');
+  if (cursor) query = query.or(getCursorFilter(cursor));
+
+  const { data, error } = await query
+    .order('timestamp', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) throw error;
+  return toEntryPage((data || []) as T[], limit);
+};
+
+// The whole history (export, import), page by page so the API's row cap
+// never truncates it
+const fetchAllEntries = async <T extends EntryCursor>(
+  table: 'foods' | 'symptoms'
+): Promise<T[]> => {
+  const entries: T[] = [];
+  let cursor: EntryCursor | null = null;
+
+  do {
+    const page: EntryPage<T> = await fetchEntriesPage<T>(
+      table,
+      cursor,
+      APP_CONFIG.DATABASE.HISTORY_PAGE_SIZE
+    );
+    entries.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return entries;
+};
+
+/**
+ * Foods logged from the first through the last day, inclusive
+ * @param startDay - First day key (YYYY-MM-DD)
+ * @param endDay - Last day key (YYYY-MM-DD)
+ */
+export const getFoodsByDateRange = async (
+  startDay: string,
+  endDay: string,
+  boundary: DayBoundary = getDayBoundary()
+): Promise<Food[]> => {
+  const { data, error } = await supabase
+    .from('foods')
+    .select('*')
+    .gte('timestamp', getDayRange(startDay, boundary).start)
+    .lt('timestamp', getDayRange(endDay, boundary).end)
+    .order('timestamp', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Overview totals and the current streak, counted in the database with the
+ * user's day buckets
+ */
+export const getEntrySummary = async (
+  boundary: DayBoundary = getDayBoundary()
+): Promise<EntrySummary> => {
+  const { data, error } = await supabase
+    .rpc('get_entry_summary', {
+      p_time_zone: boundary.timeZone,
+      p_day_start_hour: boundary.startHour,
+    })
+    .single();
+
+  if (error) throw error;
+
+  const row = data as {
+    total_foods: number;
+    total_symptoms: number;
+    days_tracked: number;
+    current_streak: number;
+  } | null;
+
+  return {
+    totalFoods: row?.total_foods ?? 0,
+    totalSymptoms: row?.total_symptoms ?? 0,
+    daysTracked: row?.days_tracked ?? 0,
+    currentStreak: row?.current_streak ?? 0,
+  };
+};
+
+// INGREDIENT SEARCH OPERATIONS
+
+/**
+ * Find foods by ingredient name, group, category, zone or organic flag and
+ * attach the symptoms logged in the window after each meal
+ * Personal zones are applied at read time, so with any overrides the zone
+ * filter runs client-side on the RPC results instead of in the query.
+ */
+export const searchFoodsByIngredient = async (
+  filters: IngredientSearchFilters
+): Promise<IngredientSearchResult[]> => {
+  if (!hasSearchCriteria(filters)) return [];
+
+  const zoneOverrides = await getZoneOverrides().catch(
+    () => [] as ZoneOverride[]
+  );
+  const filterZoneOnServer = zoneOverrides.length === 0;
+
+  const { data, error } = await supabase.rpc('search_food_ingredients', {
+    p_query: filters.query?.trim() || null,
+    p_field: filters.field ?? 'any',
+    p_zone: filterZoneOnServer ? (filters.zone ?? null) : null,
+    p_organic: filters.organic ?? null,
+    p_from: filters.from?.toISOString() ?? null,
+    p_to: filters.to?.toISOString() ?? null,
+    p_min_similarity: APP_CONFIG.SEARCH.MIN_SIMILARITY,
+    p_limit: APP_CONFIG.SEARCH.RESULT_LIMIT,
+  });
+
+  if (error) throw error;
+
+  const foods = applyZoneOverridesToFoods(
+    (data || []) as Food[],
+    zoneOverrides
+  );
+  const matches = foods
+    .map(food => ({
+      food,
+      matchedIngredients: [
+        ...new Set(
+          (food.ingredients || [])
+            .filter(ingredient => ingredientMatches(ingredient, filters))
+            .map(ingredient => ingredient.name)
+        ),
+      ],
+    }))
+    .filter(
+      match =>
+        match.matchedIngredients.length > 0 ||
+        filterZoneOnServer ||
+        !filters.zone
+    );
+
+  // Whole days around the meals; buildSearchResults narrows to each window
+  const range = symptomRangeFor(matches.map(match => match.food));
+  const boundary = getDayBoundary();
+  const symptoms = range
+    ? await getSymptomsByDateRange(
+        getDayKey(range.start, boundary),
+        getDayKey(range.end, boundary),
+        boundary
+      )
+    : [];
+
+  return buildSearchResults(matches, symptoms);
+};
+
+// INSIGHT TREND OPERATIONS
+
+/**
+ * Per-day aggregates for the Insights charts (see migration 025)
+ * Counting happens in the database; only one row per day comes back.
+ */
+export const getInsightTrendRows = async (
+  range: Pick<TrendRange, 'from' | 'to'>,
+  boundary: DayBoundary = getDayBoundary()
+): Promise<InsightTrendRows> => {
+  const dayParams = {
+    p_from: range.from,
+    p_to: range.to,
+    p_time_zone: boundary.timeZone,
+    p_day_start_hour: boundary.startHour,
+  };
+
+  const [zones, symptoms, mealTimes] = await Promise.all([
+    supabase.rpc('get_daily_zone_trends', dayParams),
+    supabase.rpc('get_daily_symptom_categories', dayParams),
+    supabase.rpc('get_meal_time_distribution', {
+      p_from: range.from,
+      p_to: range.to,
+      p_time_zone: boundary.timeZone,
+    }),
+  ]);
+
+  if (zones.error) throw zones.error;
+  if (symptoms.error) throw symptoms.error;
+  if (mealTimes.error) throw mealTimes.error;
+
+  return {
+    zones: (zones.data || []) as ZoneTrendRow[],
+    symptoms: (symptoms.data || []) as SymptomCategoryRow[],
+    mealTimes: (mealTimes.data || []) as MealTimeRow[],
+  };
+};
+
+// DAILY SCORE OPERATIONS
+// Body Compass scores are computed in the app and stored per day for trends
+// (see useBodyCompassScores)
+
+const DAILY_SCORE_COLUMNS =
+  'day, score, zone_score, organic_score, symptom_score, version';
+
+/**
+ * Stored scores from the first through the last day, oldest first
+ * @param startDay - First day key (YYYY-MM-DD)
+ * @param endDay - Last day key (YYYY-MM-DD)
+ */
+export const getDailyScores = async (
+  startDay: string,
+  endDay: string
+): Promise<DailyScore[]> => {
+  const { data, error } = await supabase
+    .from('daily_scores')
+    .select(DAILY_SCORE_COLUMNS)
+    .gte('day', startDay)
+    .lte('day', endDay)
+    .order('day', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as DailyScoreRow[]).map(fromDailyScoreRow);
+};
+
+// Insert or replace the score for each day
+export const saveDailyScores = async (scores: DailyScore[]): Promise<void> => {
+  if (scores.length === 0) return;
+
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+  const userId = user.user.id;
+
+  const { error } = await supabase.from('daily_scores').upsert(
+    scores.map(score => ({ user_id: userId, ...toDailyScoreRow(score) })),
+    { onConflict: 'user_id,day' }
+  );
+
+  if (error) throw error;
+};
+
+// Days whose entries were all deleted no longer have a score
+export const deleteDailyScores = async (days: string[]): Promise<void> => {
+  if (days.length === 0) return;
+
+  const { error } = await supabase
+    .from('daily_scores')
+    .delete()
+    .in('day', days);
+
+  if (error) throw error;
+};
+
+// OFFLINE SYNC OPERATIONS
+
+const replayOperation = async (operation: OutboxOperation): Promise<void> => {
+  switch (operation.type) {
+    case 'addFood':
+      await persistFood(operation.foodId, operation.timestamp, operation.food);
+      return;
+    case 'addSymptoms':
+      await persistSymptoms(operation.symptoms);
+      return;
+    case 'updateFood':
+      await persistFoodUpdate(operation.foodId, operation.updates);
+      return;
+    case 'deleteSymptom':
+      await persistSymptomDeletion(operation.symptomId);
+      return;
+  }
+};
+
+export interface OutboxSyncResult {
+  synced: number;
+  failed: number; // Will be retried on the next sync
+  deadLettered: number; // Set aside this run; see useFailedOutboxEntries
+}
+
+let activeSync: Promise<OutboxSyncResult> | null = null;
+
+/**
+ * Replay queued offline writes in order
+ * Stops at the first failure so later writes never overtake earlier ones: an
+ * edit replayed before its meal was added would match no rows and be lost.
+ * After MAX_SYNC_ATTEMPTS failures an entry is dead-lettered, along with any
+ * later entry that writes to the same food or symptom, and replay moves on.
+ */
+export const syncOutbox = async (): Promise<OutboxSyncResult> => {
+  if (activeSync) return activeSync;
+
+  activeSync = (async () => {
+    const result: OutboxSyncResult = { synced: 0, failed: 0, deadLettered: 0 };
+    // Entries whose earlier writes were set aside
+    const blockedIds = new Set<string>();
+
+    for (const entry of await getOutboxEntries()) {
+      if (isOffline()) break;
+
+      const ids = getOperationEntryIds(entry.operation);
+      if (entry.deadLettered) {
+        ids.forEach(id => blockedIds.add(id));
+        continue;
+      }
+      if (ids.some(id => blockedIds.has(id))) {
+        ids.forEach(id => blockedIds.add(id));
+        result.deadLettered++;
+        await updateOutboxEntry({
+          ...entry,
+          deadLettered: true,
+          lastError: 'An earlier change to this entry did not sync',
+        });
+        continue;
+      }
+
+      try {
+        await replayOperation(entry.operation);
+        await removeOutboxEntry(entry.seq!);
+        result.synced++;
+      } catch (error) {
+        if (isOfflineError(error)) break;
+
+        const attempts = entry.attempts + 1;
+        const deadLettered = attempts >= APP_CONFIG.OFFLINE.MAX_SYNC_ATTEMPTS;
+        await updateOutboxEntry({
+          ...entry,
+          attempts,
+          // PostgREST errors are plain objects with a message
+          lastError: String(
+            (error as { message?: unknown } | null)?.message ?? error
+          ),
+          deadLettered,
+        });
+
+        if (!deadLettered) {
+          result.failed++;
+          break;
+        }
+        ids.forEach(id => blockedIds.add(id));
+        result.deadLettered++;
+      }
+    }
+
+    return result;
+  })();
+
+  try {
+    return await activeSync;
+  } finally {
+    activeSync = null;
+  }
+};
+
+// Give dead-lettered entries another go from the start
+export const retryFailedOutboxEntries = async (): Promise<OutboxSyncResult> => {
+  const entries = await getOutboxEntries();
+  await Promise.all(
+    entries
+      .filter(entry => entry.deadLettered)
+      .map(entry =>
+        updateOutboxEntry({ ...entry, attempts: 0, deadLettered: false })
+      )
+  );
+  return syncOutbox();
+};
+
+// The user gave up on a change that could not sync
+export const discardOutboxEntry = async (seq: number): Promise<void> => {
+  await removeOutboxEntry(seq);
+};
+
+// PROTOCOL OPERATIONS
+
+/**
+ * Get the user's active (not ended) elimination protocol, if any
+ */
+export const getActiveProtocol = async (): Promise<Protocol | undefined> => {
+  const { data, error } = await supabase
+    .from('protocols')
+    .select('*')
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data || undefined;
+};
+
+export const startProtocol = async (
+  protocol: Omit<Protocol, 'id'>
+): Promise<string> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const existing = await getActiveProtocol();
+  if (existing) throw new Error('A protocol is already active');
+
+  const { data, error } = await supabase
+    .from('protocols')
+    .insert({ ...protocol, user_id: user.user.id })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const updateProtocol = async (
+  id: string,
+  updates: Partial<Omit<Protocol, 'id'>>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('protocols')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const endProtocol = async (id: string): Promise<void> => {
+  await updateProtocol(id, { ended_at: generateTimestamp() });
+};
+
+// MEAL TEMPLATE OPERATIONS
+
+export const getMealTemplates = async (): Promise<MealTemplate[]> => {
+  const { data, error } = await supabase
+    .from('meal_templates')
+    .select(
+      'id, name, ingredients, meal_type, photo_url, use_count, last_used_at, created_at'
+    )
+    .order('use_count', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Save a logged food as a reusable template (name must be unique per user)
+ */
+export const addMealTemplate = async (
+  food: Pick<Food, 'name' | 'ingredients' | 'meal_type' | 'photo_url'>
+): Promise<void> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const name = food.name.trim();
+  if (!name) throw new Error('Template name is required');
+
+  const { error } = await supabase.from('meal_templates').insert({
+    user_id: user.user.id,
+    name,
+    ingredients: food.ingredients,
+    meal_type: food.meal_type ?? null,
+    photo_url: food.photo_url ?? null,
+  });
+
+  if (isDuplicateKeyError(error)) {
+    throw new Error(`You already have a template called "${name}"`);
+  }
+  if (error) throw error;
+};
+
+export const deleteMealTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('meal_templates').delete().eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Log a template or frequent meal now, reusing its zoned ingredients
+ * Template usage feeds suggestion ranking; a failed counter update doesn't
+ * undo the logged food
+ */
+export const quickLogMeal = async (
+  meal: LoggableMeal,
+  template?: Pick<MealTemplate, 'id' | 'use_count'>
+): Promise<string> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const foodId = await insertFoodCopy(user.user.id, {
+    ...meal,
+    status: 'processed',
+  });
+
+  if (template) {
+    const { error } = await supabase
+      .from('meal_templates')
+      .update({
+        use_count: template.use_count + 1,
+        last_used_at: generateTimestamp(),
+      })
+      .eq('id', template.id);
+    if (error) {
+      logger.warn('Failed to record meal template use', {
+        templateId: template.id,
+        error: error.message,
+      });
+    }
+  }
+
+  return foodId;
+};
+
+// USER SETTINGS OPERATIONS
+// One row per user, created on the first save; other devices pick up changes
+// through realtime (see useUserSettings)
+
+export const getUserSettings = async (): Promise<UserSettings> => {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select(USER_SETTINGS_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return fromUserSettingsRow(data);
+};
+
+/**
+ * Save the given fields, leaving the rest as stored
+ */
+export const updateUserSettings = async (
+  update: UserSettingsUpdate
+): Promise<UserSettings> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('user_settings')
+    .upsert(
+      { user_id: user.user.id, ...toUserSettingsRow(update) },
+      { onConflict: 'user_id' }
+    )
+    .select(USER_SETTINGS_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return fromUserSettingsRow(data);
+};
+
+// HYDRATION OPERATIONS
+// Intake is derived from beverage entries; the goal is a user setting
+
+/**
+ * Log a glass of water as a beverage entry at the current time
+ * Zoned from the dictionary, so no AI call runs
+ */
+export const logWater = async (volumeMl: number): Promise<string> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const entry = createWaterEntry(volumeMl);
+  const { ingredients, misses } = zoneIngredientsFromDictionary(
+    entry.ingredients
+  );
+
+  return insertFoodCopy(user.user.id, {
+    ...entry,
+    ingredients,
+    status: misses.length > 0 ? 'analyzing' : 'processed',
+  });
+};
+
+// RECIPE OPERATIONS
+// Ingredients are zoned before saving (see prepareRecipeIngredients); cycles
+// between sub-recipes are rejected by a trigger
+
+export const getRecipes = async (): Promise<Recipe[]> => {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select('id, name, ingredients, sub_recipe_ids, created_at, updated_at')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create a recipe, or update it when an id is given (name must be unique per user)
+ */
+export const saveRecipe = async (
+  recipe: Pick<Recipe, 'name' | 'ingredients' | 'sub_recipe_ids'> & {
+    id?: string;
+  }
+): Promise<string> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const name = recipe.name.trim();
+  if (!name) throw new Error('Recipe name is required');
+  if (recipe.ingredients.length === 0 && recipe.sub_recipe_ids.length === 0) {
+    throw new Error('Add at least one ingredient or sub-recipe');
+  }
+
+  const fields = {
+    name,
+    ingredients: recipe.ingredients,
+    sub_recipe_ids: [...new Set(recipe.sub_recipe_ids)],
+  };
+  const { data, error } = recipe.id
+    ? await supabase
+        .from('recipes')
+        .update(fields)
+        .eq('id', recipe.id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('recipes')
+        .insert({ ...fields, user_id: user.user.id })
+        .select('id')
+        .single();
+
+  if (isDuplicateKeyError(error)) {
+    throw new Error(`You already have a recipe called "${name}"`);
+  }
+  if (error) throw error;
+  return data.id;
+};
+
+export const deleteRecipe = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('recipes').delete().eq('id', id);
+
+  if (error) throw error;
+};
+
+// CUSTOM SYMPTOM OPERATIONS
+// Archived symptoms are included so past entries keep resolving; pickers filter them out
+
+export const getCustomSymptoms = async (): Promise<CustomSymptom[]> => {
+  const { data, error } = await supabase
+    .from('custom_symptoms')
+    .select('id, name, category, icon, search_terms, archived_at, created_at')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+type CustomSymptomInput = Pick<
+  CustomSymptom,
+  'name' | 'category' | 'icon' | 'search_terms'
+>;
+
+function normalizeCustomSymptom(
+  input: Partial<CustomSymptomInput>
+): Partial<CustomSymptomInput> {
+  const normalized: Partial<CustomSymptomInput> = {};
+  if (input.name !== undefined) {
+    const name = input.name.trim().replace(/\s+/g, ' ');
+    if (!name) throw new Error('Symptom name is required');
+    if (name.length > 60) {
+      throw new Error('Symptom name must be 60 characters or fewer');
+    }
+    normalized.name = name;
+  }
+  if (input.category !== undefined) {
+    if (!getCategoryInfoSafe(input.category)) {
+      throw new Error(`Invalid category: ${input.category}`);
+    }
+    normalized.category = input.category;
+  }
+  if (input.icon !== undefined) {
+    normalized.icon = input.icon?.trim() || null;
+  }
+  if (input.search_terms !== undefined) {
+    normalized.search_terms = [
+      ...new Set(
+        input.search_terms
+          .map(term => term.trim().toLowerCase())
+          .filter(Boolean)
+      ),
+    ];
+  }
+  return normalized;
+}
+
+export const addCustomSymptom = async (
+  symptom: CustomSymptomInput
+): Promise<CustomSymptom> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('custom_symptoms')
+    .insert({ ...normalizeCustomSymptom(symptom), user_id: user.user.id })
+    .select('id, name, category, icon, search_terms, archived_at, created_at')
+    .single();
+
+  if (isDuplicateKeyError(error)) {
+    throw new Error(
+      `You already have a symptom called "${symptom.name.trim()}"`
+    );
+  }
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Hide a custom symptom from pickers, or bring it back
+ * Entries already logged against it are untouched
+ */
+export const setCustomSymptomArchived = async (
+  id: string,
+  archived: boolean
+): Promise<void> => {
+  const { error } = await supabase
+    .from('custom_symptoms')
+    .update({ archived_at: archived ? generateTimestamp() : null })
+    .eq('id', id);
+
+  if (isDuplicateKeyError(error)) {
+    throw new Error('An active symptom already uses this name');
+  }
+  if (error) throw error;
+};
+
+// ZONE OVERRIDE OPERATIONS
+
+export const getZoneOverrides = async (): Promise<ZoneOverride[]> => {
+  const { data, error } = await supabase
+    .from('zone_overrides')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Pin a personal zone for an ingredient or group (replaces any existing pin)
+ */
+export const setZoneOverride = async (
+  targetType: ZoneOverrideTarget,
+  target: string,
+  zone: ZoneOverride['zone']
+): Promise<void> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const normalizedTarget = normalizeOverrideTarget(target);
+  if (!normalizedTarget) throw new Error('Override target is required');
+
+  const { error } = await supabase.from('zone_overrides').upsert(
+    {
+      user_id: user.user.id,
+      target_type: targetType,
+      target: normalizedTarget,
+      zone,
+    },
+    { onConflict: 'user_id,target_type,target' }
+  );
+
+  if (error) throw error;
+};
+
+export const deleteZoneOverride = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('zone_overrides').delete().eq('id', id);
+
+  if (error) throw error;
+};
+
+// ZONING REVIEW OPERATIONS
+// Admin access is enforced by RLS on zoning_suggestions; these just shape the queries
+
+/**
+ * Whether the signed-in user has the admin role (migration 011)
+ */
+export const isCurrentUserAdmin = async (): Promise<boolean> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) return false;
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('user_role')
+    .eq('id', user.user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_role === 'admin';
+};
+
+/**
+ * Get suggestions with the given status, most requested first
+ */
+export const getZoningSuggestions = async (
+  status: ZoningSuggestionStatus
+): Promise<ZoningSuggestion[]> => {
+  const { data, error } = await supabase
+    .from('zoning_suggestions')
+    .select('*')
+    .eq('status', status)
+    .order('request_count', { ascending: false })
+    .order('last_requested_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Approve or reject one or more suggestions
+ */
+export const reviewZoningSuggestions = async (
+  ids: string[],
+  status: Exclude<ZoningSuggestionStatus, 'pending'>
+): Promise<void> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('zoning_suggestions')
+    .update({
+      status,
+      reviewed_by: user.user.id,
+      reviewed_at: generateTimestamp(),
+    })
+    .in('id', ids);
+
+  if (error) throw error;
+};
+
+/**
+ * Correct a suggestion's classification and approve it
+ */
+export const updateZoningSuggestion = async (
+  id: string,
+  updates: Pick<ZoningSuggestion, 'zone' | 'category' | 'ingredient_group'>
+): Promise<void> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('zoning_suggestions')
+    .update({
+      ...updates,
+      category: updates.category || null,
+      status: 'approved',
+      reviewed_by: user.user.id,
+      reviewed_at: generateTimestamp(),
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
 // UTILITY OPERATIONS
 export const clearAllData = async (): Promise<void> => {
   // Clear user's foods and symptoms
@@ -616,60 +1703,37 @@ export const clearAllData = async (): Promise<void> => {
   if (symptomsError) throw symptomsError;
 };
 
-export const exportAllData = async (): Promise<{
-  foods: Food[];
-  symptoms: Symptom[];
-  exportedAt: string;
-}> => {
-  const [foods, symptoms] = await Promise.all([
+export const exportAllData = async (): Promise<DataExport> => {
+  const [foods, symptoms, zoneOverrides] = await Promise.all([
     getAllFoods(),
     getAllSymptoms(),
+    getZoneOverrides(),
   ]);
 
-  return {
-    foods,
-    symptoms,
-    exportedAt: generateTimestamp(),
-  };
+  return createDataExport(
+    { foods, symptoms, zoneOverrides },
+    generateTimestamp()
+  );
 };
 
-export const importAllData = async (data: {
-  foods: Food[];
-  symptoms: Symptom[];
-}): Promise<void> => {
+/**
+ * Apply a planned import (see planImport) in a single RPC transaction
+ * A failure leaves the existing foods and symptoms untouched
+ */
+export const importAllData = async (
+  plan: ImportPlan
+): Promise<ImportResult> => {
   const { data: user } = await supabase.auth.getUser();
   if (!user.user) throw new Error('User not authenticated');
 
-  // Clear existing data first
-  await clearAllData();
-
-  // Import foods
-  if (data.foods.length > 0) {
-    const foodsToInsert = data.foods.map(food => ({
-      ...food,
-      user_id: user.user.id,
-    }));
-
-    const { error: foodsError } = await supabase
-      .from('foods')
-      .insert(foodsToInsert);
-
-    if (foodsError) throw foodsError;
-  }
-
-  // Import symptoms
-  if (data.symptoms.length > 0) {
-    const symptomsToInsert = data.symptoms.map(symptom => ({
-      ...symptom,
-      user_id: user.user.id,
-    }));
-
-    const { error: symptomsError } = await supabase
-      .from('symptoms')
-      .insert(symptomsToInsert);
+  const { data, error } = await supabase.rpc('import_user_data', {
+    p_mode: plan.mode,
+    p_foods: plan.foods.toInsert,
+    p_symptoms: plan.symptoms.toInsert,
+  });
 
-    if (symptomsError) throw symptomsError;
-  }
+  if (error) throw error;
+  return data as ImportResult;
 };
 
 // USER OPERATIONS (Simplified since Supabase handles auth)
@@ -771,17 +1835,6 @@ export const clearExpiredSessions = async (): Promise<void> => {
   // Supabase handles session expiration automatically
 };
 
-export const updateUserSettings = async (
-  _userId: string,
-  _settings: Partial<User['settings']>
-): Promise<void> => {
-  console.warn(
-    'updateUserSettings() is deprecated - user settings moved to auth metadata'
-  );
-  // User settings would now be handled through Supabase user metadata
-  // This function is kept for backward compatibility but doesn't do anything
-};
-
 // Backwards compatibility - maintain the HealthTrackerDB class structure for any direct references
 export class HealthTrackerDB {
   constructor() {
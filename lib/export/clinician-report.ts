@@ -0,0 +1,251 @@
+/**
+ * Clinician report
+ * Summarises a date range for a dietitian or doctor: zone distribution over
+ * time, symptom frequency by category and the most frequent red-zone ingredients
+ */
+
+import type { Food, Ingredient, Symptom, SymptomCategory } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { SYMPTOM_CATEGORIES } from '@/lib/symptoms/symptom-index';
+import { normalizeToLocalDate } from '@/lib/utils/date-utils';
+import {
+  dateToDayKey,
+  getDayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const {
+  REPORT_DEFAULT_DAYS,
+  REPORT_DAILY_BUCKET_MAX_DAYS,
+  REPORT_TOP_RED_INGREDIENTS,
+} = APP_CONFIG.EXPORT;
+
+export interface ReportRange {
+  from: Date; // Local midnight, inclusive
+  to: Date; // Local midnight, inclusive
+}
+
+export type ZoneCounts = Record<Ingredient['zone'], number>;
+
+export interface ZoneBucket extends ZoneCounts {
+  start: string; // YYYY-MM-DD (local)
+  end: string; // YYYY-MM-DD (local), inclusive
+  total: number;
+}
+
+export interface SymptomCategoryCount {
+  category: SymptomCategory;
+  displayName: string;
+  count: number;
+  share: number; // 0-1 of all symptoms in range
+  daysAffected: number;
+  averageSeverity: number | null; // Over entries rated 1-5; null when none were rated
+}
+
+export interface RedIngredientCount {
+  name: string; // As last logged
+  count: number; // Meals containing it
+  lastSeen: string; // ISO 8601 string
+}
+
+export interface ClinicianReport {
+  range: { from: string; to: string; days: number };
+  bucketSize: 'day' | 'week';
+  totals: {
+    meals: number;
+    ingredients: number;
+    symptoms: number;
+    daysLogged: number;
+  };
+  zoneTotals: ZoneCounts;
+  zoneDistribution: ZoneBucket[];
+  symptomsByCategory: SymptomCategoryCount[];
+  topRedIngredients: RedIngredientCount[];
+}
+
+function parseDateKey(value: string | null | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(+match[1], +match[2] - 1, +match[3]);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Calendar arithmetic in local time so DST changes don't shift days
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Parse a YYYY-MM-DD range from the URL
+ * Missing or invalid bounds fall back to the last REPORT_DEFAULT_DAYS days,
+ * and reversed bounds are swapped
+ */
+export function parseReportRange(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  now: Date = new Date()
+): ReportRange {
+  const end = parseDateKey(to) ?? normalizeToLocalDate(now);
+  const start = parseDateKey(from) ?? addDays(end, -(REPORT_DEFAULT_DAYS - 1));
+
+  return start <= end ? { from: start, to: end } : { from: end, to: start };
+}
+
+function emptyZoneCounts(): ZoneCounts {
+  return { green: 0, yellow: 0, red: 0, unzoned: 0 };
+}
+
+function countDays(range: ReportRange): number {
+  return Math.round((range.to.getTime() - range.from.getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * Day buckets for short ranges, Monday-start weeks (clipped to the range)
+ * for longer ones
+ */
+function createBuckets(
+  range: ReportRange,
+  bucketSize: 'day' | 'week'
+): ZoneBucket[] {
+  const buckets: ZoneBucket[] = [];
+  let start = range.from;
+
+  while (start <= range.to) {
+    let end = start;
+    if (bucketSize === 'week') {
+      const daysToSunday = (7 - start.getDay()) % 7;
+      end = addDays(start, daysToSunday);
+      if (end > range.to) end = range.to;
+    }
+    buckets.push({
+      start: dateToDayKey(start),
+      end: dateToDayKey(end),
+      total: 0,
+      ...emptyZoneCounts(),
+    });
+    start = addDays(end, 1);
+  }
+
+  return buckets;
+}
+
+/**
+ * Summarise the entries in a range
+ * Entries count toward the user's day (see getDayKey), the same days the
+ * report's entries were fetched for.
+ */
+export function buildClinicianReport(
+  foods: Food[],
+  symptoms: Symptom[],
+  range: ReportRange,
+  boundary: DayBoundary
+): ClinicianReport {
+  const days = countDays(range);
+  const bucketSize = days <= REPORT_DAILY_BUCKET_MAX_DAYS ? 'day' : 'week';
+  const fromKey = dateToDayKey(range.from);
+  const toKey = dateToDayKey(range.to);
+  const dayOf = (timestamp: string) => getDayKey(timestamp, boundary);
+
+  const inRange = (timestamp: string) => {
+    const key = dayOf(timestamp);
+    return key >= fromKey && key <= toKey;
+  };
+  const rangeFoods = foods.filter(food => inRange(food.timestamp));
+  const rangeSymptoms = symptoms.filter(symptom => inRange(symptom.timestamp));
+
+  // Zone distribution over time
+  const buckets = createBuckets(range, bucketSize);
+  const zoneTotals = emptyZoneCounts();
+  const loggedDays = new Set<string>();
+  let ingredientCount = 0;
+
+  rangeFoods.forEach(food => {
+    const key = dayOf(food.timestamp);
+    loggedDays.add(key);
+    const bucket = buckets.find(b => key >= b.start && key <= b.end);
+
+    (food.ingredients || []).forEach(ingredient => {
+      // Legacy rows without a zone count as unzoned
+      const zone = ingredient.zone in zoneTotals ? ingredient.zone : 'unzoned';
+      ingredientCount++;
+      zoneTotals[zone]++;
+      if (bucket) {
+        bucket[zone]++;
+        bucket.total++;
+      }
+    });
+  });
+
+  // Symptom frequency by category
+  const symptomsByCategory = SYMPTOM_CATEGORIES.map(info => {
+    const matching = rangeSymptoms.filter(s => s.category === info.name);
+    const affectedDays = new Set(matching.map(s => dayOf(s.timestamp)));
+    matching.forEach(s => loggedDays.add(dayOf(s.timestamp)));
+    const rated = matching.filter(s => s.severity != null);
+    return {
+      category: info.name,
+      displayName: info.displayName,
+      count: matching.length,
+      share:
+        rangeSymptoms.length > 0 ? matching.length / rangeSymptoms.length : 0,
+      daysAffected: affectedDays.size,
+      averageSeverity:
+        rated.length > 0
+          ? Math.round(
+              (rated.reduce((sum, s) => sum + (s.severity ?? 0), 0) /
+                rated.length) *
+                10
+            ) / 10
+          : null,
+    };
+  }).sort((a, b) => b.count - a.count);
+
+  // Most frequent red-zone ingredients, counted once per meal
+  const redIngredients = new Map<string, RedIngredientCount>();
+  rangeFoods.forEach(food => {
+    const seenInMeal = new Set<string>();
+    (food.ingredients || [])
+      .filter(ingredient => ingredient.zone === 'red')
+      .forEach(ingredient => {
+        const key = ingredient.name.trim().toLowerCase();
+        if (!key || seenInMeal.has(key)) return;
+        seenInMeal.add(key);
+
+        const existing = redIngredients.get(key);
+        if (!existing) {
+          redIngredients.set(key, {
+            name: ingredient.name.trim(),
+            count: 1,
+            lastSeen: food.timestamp,
+          });
+          return;
+        }
+        existing.count++;
+        if (food.timestamp > existing.lastSeen) {
+          existing.name = ingredient.name.trim();
+          existing.lastSeen = food.timestamp;
+        }
+      });
+  });
+
+  const topRedIngredients = [...redIngredients.values()]
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+    .slice(0, REPORT_TOP_RED_INGREDIENTS);
+
+  return {
+    range: { from: fromKey, to: toKey, days },
+    bucketSize,
+    totals: {
+      meals: rangeFoods.length,
+      ingredients: ingredientCount,
+      symptoms: rangeSymptoms.length,
+      daysLogged: loggedDays.size,
+    },
+    zoneTotals,
+    zoneDistribution: buckets,
+    symptomsByCategory,
+    topRedIngredients,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Data export formats
+ * Versioned JSON for backups and re-import, and normalized CSVs (one row per
+ * ingredient, one row per symptom) for spreadsheets and clinicians.
+ */
+
+import type { Food, Symptom, ZoneOverride } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { getSymptomDurationMinutes } from '@/lib/symptoms/symptom-index';
+import {
+  dateToDayKey,
+  getDayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+
+const { SCHEMA_VERSION, FILE_PREFIX } = APP_CONFIG.EXPORT;
+
+export interface DataExport {
+  schemaVersion: number;
+  app: typeof FILE_PREFIX;
+  exportedAt: string; // ISO 8601 string
+  foods: Food[];
+  symptoms: Symptom[];
+  zoneOverrides: ZoneOverride[];
+}
+
+function withoutSyncFlag<T extends { pending_sync?: boolean }>(entry: T): T {
+  const copy = { ...entry };
+  delete copy.pending_sync;
+  return copy;
+}
+
+/**
+ * Wrap stored entries in the versioned export envelope
+ * Client-only fields (offline sync flags) are dropped
+ */
+export function createDataExport(
+  data: Pick<DataExport, 'foods' | 'symptoms' | 'zoneOverrides'>,
+  exportedAt: string = new Date().toISOString()
+): DataExport {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    app: FILE_PREFIX,
+    exportedAt,
+    foods: data.foods.map(withoutSyncFlag),
+    symptoms: data.symptoms.map(withoutSyncFlag),
+    zoneOverrides: data.zoneOverrides,
+  };
+}
+
+export type CsvRow = Record<string, string | number | boolean | undefined>;
+
+export const INGREDIENT_CSV_COLUMNS = [
+  'food_id',
+  'food_name',
+  'timestamp',
+  'date',
+  'meal_type',
+  'ingredient',
+  'zone',
+  'zone_source',
+  'category',
+  'group',
+  'organic',
+  'cooking_method',
+  'notes',
+] as const;
+
+export const SYMPTOM_CSV_COLUMNS = [
+  'symptom_entry_id',
+  'symptom_id',
+  'name',
+  'category',
+  'timestamp',
+  'date',
+  'severity',
+  'ended_at',
+  'duration_minutes',
+  'notes',
+] as const;
+
+/**
+ * One row per ingredient; foods without ingredients keep a single blank row
+ * so no meal disappears from the export. `date` is the user's day for the
+ * entry, as shown in the app.
+ */
+export function buildIngredientRows(
+  foods: Food[],
+  boundary: DayBoundary
+): CsvRow[] {
+  return foods.flatMap(food => {
+    const meal: CsvRow = {
+      food_id: food.id,
+      food_name: food.name,
+      timestamp: food.timestamp,
+      date: getDayKey(food.timestamp, boundary),
+      meal_type: food.meal_type,
+      notes: food.notes,
+    };
+    const ingredients = food.ingredients || [];
+    if (ingredients.length === 0) return [meal];
+
+    return ingredients.map(ingredient => ({
+      ...meal,
+      ingredient: ingredient.name,
+      zone: ingredient.zone,
+      zone_source: ingredient.zoneSource,
+      category: ingredient.category,
+      group: ingredient.group,
+      organic: ingredient.organic,
+      cooking_method: ingredient.cookingMethod,
+    }));
+  });
+}
+
+export function buildSymptomRows(
+  symptoms: Symptom[],
+  boundary: DayBoundary
+): CsvRow[] {
+  return symptoms.map(symptom => ({
+    symptom_entry_id: symptom.id,
+    symptom_id: symptom.symptom_id,
+    name: symptom.name,
+    category: symptom.category,
+    timestamp: symptom.timestamp,
+    date: getDayKey(symptom.timestamp, boundary),
+    severity: symptom.severity ?? undefined,
+    ended_at: symptom.ended_at ?? undefined,
+    duration_minutes: getSymptomDurationMinutes(symptom) ?? undefined,
+    notes: symptom.notes,
+  }));
+}
+
+// Quote per RFC 4180 and neutralise spreadsheet formulas in user text
+function escapeCsvValue(value: CsvRow[string]): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvRow[], columns: readonly string[]): string {
+  const lines = [
+    columns.join(','),
+    ...rows.map(row => columns.map(col => escapeCsvValue(row[col])).join(',')),
+  ];
+  return lines.join('\r\n');
+}
+
+export function exportFilename(
+  kind: string,
+  extension: string,
+  date: Date = new Date()
+): string {
+  return `${FILE_PREFIX}-${kind}-${dateToDayKey(date)}.${extension}`;
+}
+
+/**
+ * Save generated content through a temporary object URL
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Let the download start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
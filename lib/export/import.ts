@@ -0,0 +1,247 @@
+/**
+ * Data import
+ * Validates an export file against zod schemas and plans a dry run (what would
+ * be added, skipped or removed) before anything is written.
+ */
+
+import { z } from 'zod';
+import type { Food, Symptom } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { sanitizeUserNote } from '@/lib/security/sanitization';
+import {
+  getSymptomById,
+  isCustomSymptomId,
+} from '@/lib/symptoms/symptom-index';
+
+const { SCHEMA_VERSION, IMPORT_MAX_ENTRIES } = APP_CONFIG.EXPORT;
+
+export type ImportMode = 'merge' | 'replace';
+
+const zoneSchema = z.enum(['green', 'yellow', 'red', 'unzoned']);
+const noteSchema = z
+  .string()
+  .nullish()
+  .transform(note => (note ? sanitizeUserNote(note) : undefined));
+
+const ingredientSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  organic: z.boolean().default(false),
+  cookingMethod: z
+    .enum(['raw', 'fried', 'steamed', 'baked', 'grilled', 'roasted', 'other'])
+    .optional(),
+  category: z.string().max(100).optional(),
+  group: z.string().max(100).default(''),
+  quantity: z
+    .number()
+    .positive()
+    .max(APP_CONFIG.PORTION.MAX_QUANTITY)
+    .optional(),
+  unit: z.enum(['g', 'ml', 'cup', 'piece']).optional(),
+  allergen: z.boolean().optional(),
+  zone: zoneSchema.default('unzoned'),
+  zoneSource: z.enum(['ai', 'dictionary', 'personal']).optional(),
+  classifiedZone: zoneSchema.optional(),
+  classifiedZoneSource: z.enum(['ai', 'dictionary']).optional(),
+});
+
+export const importFoodSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(200),
+  timestamp: z.string().datetime({ offset: true }),
+  ingredients: z.array(ingredientSchema).default([]),
+  photo_url: z.string().url().nullish(),
+  image_urls: z.array(z.string().url()).nullish(),
+  notes: noteSchema,
+  meal_type: z
+    .enum(['breakfast', 'lunch', 'dinner', 'snack', 'beverage'])
+    .nullish(),
+  status: z
+    .enum(['pending_review', 'analyzing', 'processed'])
+    .default('processed'),
+  // Kept only when the recipe belongs to the importing user (migration 028)
+  recipe_id: z.string().uuid().nullish(),
+  recipe_scale: z.number().positive().max(9999.99).nullish(), // NUMERIC(6, 2)
+  recipe_updated_at: z.string().datetime({ offset: true }).nullish(),
+});
+
+export const importSymptomSchema = z
+  .object({
+    id: z.string().uuid(),
+    symptom_id: z.string().min(1),
+    category: z.enum(['digestion', 'energy', 'mind', 'recovery']),
+    name: z.string().trim().min(1).max(200),
+    timestamp: z.string().datetime({ offset: true }),
+    notes: noteSchema,
+    severity: z.number().int().min(1).max(5).nullish(),
+    ended_at: z.string().datetime({ offset: true }).nullish(),
+  })
+  .superRefine((symptom, ctx) => {
+    if (
+      symptom.ended_at &&
+      new Date(symptom.ended_at).getTime() <
+        new Date(symptom.timestamp).getTime()
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['ended_at'],
+        message: 'Symptom cannot end before it started',
+      });
+    }
+
+    // Same rules addSymptoms applies to new entries; custom symptoms carry
+    // their own name and category
+    if (isCustomSymptomId(symptom.symptom_id)) return;
+    const definition = getSymptomById(symptom.symptom_id);
+    if (!definition) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['symptom_id'],
+        message: `Unknown symptom "${symptom.symptom_id}"`,
+      });
+    } else if (definition.category !== symptom.category) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['category'],
+        message: `Expected "${definition.category}" for ${symptom.symptom_id}`,
+      });
+    }
+  });
+
+// Exports made before schemaVersion existed are treated as version 0
+export const importFileSchema = z
+  .object({
+    schemaVersion: z.number().int().min(0).max(SCHEMA_VERSION).default(0),
+    foods: z.array(importFoodSchema).default([]),
+    symptoms: z.array(importSymptomSchema).default([]),
+  })
+  .refine(
+    file => file.foods.length + file.symptoms.length <= IMPORT_MAX_ENTRIES,
+    { message: `Files are limited to ${IMPORT_MAX_ENTRIES} entries` }
+  );
+
+export type ImportFood = z.infer<typeof importFoodSchema>;
+export type ImportSymptom = z.infer<typeof importSymptomSchema>;
+export type ImportFile = z.infer<typeof importFileSchema>;
+
+export type ImportParseResult =
+  | { success: true; data: ImportFile }
+  | { success: false; errors: string[] };
+
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * Parse and validate an export file
+ * Errors name the failing entry (e.g. "foods[3].timestamp: Invalid datetime")
+ */
+export function parseImportFile(text: string): ImportParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ['File is not valid JSON'] };
+  }
+
+  if (
+    json &&
+    typeof json === 'object' &&
+    typeof (json as { schemaVersion?: unknown }).schemaVersion === 'number' &&
+    (json as { schemaVersion: number }).schemaVersion > SCHEMA_VERSION
+  ) {
+    return {
+      success: false,
+      errors: ['This file was exported by a newer version of the app'],
+    };
+  }
+
+  const result = importFileSchema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors = result.error.issues.map(issue => {
+    const path = issue.path
+      .map(part => (typeof part === 'number' ? `[${part}]` : `.${part}`))
+      .join('')
+      .replace(/^\./, '');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  const extra = errors.length - MAX_REPORTED_ERRORS;
+  return {
+    success: false,
+    errors: [
+      ...errors.slice(0, MAX_REPORTED_ERRORS),
+      ...(extra > 0 ? [`...and ${extra} more`] : []),
+    ],
+  };
+}
+
+export interface ImportDiff<T> {
+  toInsert: T[];
+  duplicates: T[]; // Already stored, or repeated within the file
+  toDelete: number; // Stored entries removed by replace mode
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  foods: ImportDiff<ImportFood>;
+  symptoms: ImportDiff<ImportSymptom>;
+}
+
+// Counts returned by the import_user_data RPC (migration 028)
+export interface ImportResult {
+  foods_deleted: number;
+  symptoms_deleted: number;
+  foods_inserted: number;
+  symptoms_inserted: number;
+}
+
+type Identifiable = { id: string; timestamp: string; name: string };
+
+// Same instant and name (case-insensitive) counts as the same entry
+function entryKey(entry: Pick<Identifiable, 'timestamp' | 'name'>): string {
+  return `${new Date(entry.timestamp).toISOString()}|${entry.name.trim().toLowerCase()}`;
+}
+
+function diffEntries<T extends Identifiable>(
+  existing: Identifiable[],
+  incoming: T[],
+  mode: ImportMode
+): ImportDiff<T> {
+  // Replace starts from an empty history, so only in-file repeats are skipped
+  const stored = mode === 'merge' ? existing : [];
+  const seenIds = new Set(stored.map(entry => entry.id));
+  const seenKeys = new Set(stored.map(entryKey));
+
+  const toInsert: T[] = [];
+  const duplicates: T[] = [];
+  incoming.forEach(entry => {
+    const key = entryKey(entry);
+    if (seenIds.has(entry.id) || seenKeys.has(key)) {
+      duplicates.push(entry);
+      return;
+    }
+    seenIds.add(entry.id);
+    seenKeys.add(key);
+    toInsert.push(entry);
+  });
+
+  return {
+    toInsert,
+    duplicates,
+    toDelete: mode === 'replace' ? existing.length : 0,
+  };
+}
+
+/**
+ * Dry run: work out what an import would change without writing anything
+ * The import RPC applies the same de-duplication server-side.
+ */
+export function planImport(
+  existing: { foods: Food[]; symptoms: Symptom[] },
+  file: ImportFile,
+  mode: ImportMode
+): ImportPlan {
+  return {
+    mode,
+    foods: diffEntries(existing.foods, file.foods, mode),
+    symptoms: diffEntries(existing.symptoms, file.symptoms, mode),
+  };
+}
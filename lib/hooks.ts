@@ -2,23 +2,94 @@
 // Uses shared subscriptions and better error handling patterns
 
 import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
-import useSWR from 'swr';
+import useSWR, { mutate } from 'swr';
 import { createClient } from '@/lib/supabase/client';
-import { Symptom, Food, FoodStats, TimelineEntry } from './types';
+import {
+  Symptom,
+  CustomSymptom,
+  MealTemplate,
+  Recipe,
+  Food,
+  FoodStats,
+  FoodStatsWeighting,
+  TimelineEntry,
+  UserSettings,
+  ZoneOverride,
+  ZoningSuggestionStatus,
+} from './types';
 import {
   getAllFoods,
   getAllSymptoms,
   getTodaysFoods,
   getTodaysSymptoms,
+  getRecentFoods,
+  getRecentSymptoms,
+  getFoodsByDateRange,
+  getSymptomsByDateRange,
+  getEntrySummary,
+  getDailyScores,
+  saveDailyScores,
+  deleteDailyScores,
   getFoodById,
   getSymptomById,
+  getActiveProtocol,
+  getCustomSymptoms,
+  getMealTemplates,
+  getRecipes,
+  getUserSettings,
+  searchFoodsByIngredient,
+  getInsightTrendRows,
+  getZoneOverrides,
+  getZoningSuggestions,
+  isCurrentUserAdmin,
+  syncOutbox,
+  retryFailedOutboxEntries,
+  discardOutboxEntry,
+  type OutboxSyncResult,
 } from './db';
+import { applyZoneOverridesToFoods } from './zoning/overrides';
+import { buildSymptomTrends } from './symptoms/symptom-trends';
+import { suggestMeals } from './meals/suggestions';
+import {
+  buildInsightTrends,
+  getTrendRange,
+  type TrendRangeDays,
+} from './insights/trends';
+import {
+  buildDailyScores,
+  compareWeeks,
+  diffDailyScores,
+  SCORE_COMPARISON_DAYS,
+  type ScoreTrendPoint,
+} from './insights/body-compass-score';
+import { calculateFoodStats } from './portions/portions';
+import { DEFAULT_USER_SETTINGS } from './settings/user-settings';
+import {
+  hasSearchCriteria,
+  type IngredientSearchFilters,
+} from './search/ingredient-search';
+import {
+  applyPendingOperations,
+  getOutboxEntries,
+  isOfflineError,
+  type OutboxEntry,
+} from './offline/outbox';
 import { logger } from './utils/logger';
-import { isSameLocalDate, timestampToLocalDate } from './utils/date-utils';
+import { APP_CONFIG } from './config/constants';
+import {
+  dateToDayKey,
+  getDayBoundary,
+  getDayKey,
+  getTodayKey,
+  shiftDayKey,
+  type DayBoundary,
+} from './utils/day-buckets';
 
 // Create a shared supabase client for all hooks
 const supabase = createClient();
 
+const { DEFAULT_RECENT_LIMIT } = APP_CONFIG.DATABASE;
+
 // Type for Supabase subscription configuration
 // Based on Supabase Realtime postgres_changes configuration
 type SubscriptionConfig = {
@@ -144,9 +215,122 @@ function useSupabaseData<T>(
   return { data, error, isLoading, retry };
 }
 
+// Personal zone overrides are applied at read time so changes reach past entries
+// A failed fetch falls back to the stored zones rather than failing the dashboard
+const loadZoneOverrides = async (): Promise<ZoneOverride[]> => {
+  try {
+    return await getZoneOverrides();
+  } catch (error) {
+    logger.error('Error fetching zone overrides', error);
+    return [];
+  }
+};
+
+// Queued offline writes are overlaid on server data until they sync
+const loadOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  try {
+    return await getOutboxEntries();
+  } catch (error) {
+    logger.error('Error reading offline outbox', error);
+    return [];
+  }
+};
+
+type ServerEntries = {
+  recentFoods: Food[];
+  todaysFoods: Food[];
+  todaysSymptoms: Symptom[];
+};
+
+// Last successful dashboard fetch, shown again while the device is offline
+let lastServerEntries: ServerEntries | null = null;
+
+// Only today and the latest few foods; history views fetch their own days
+const loadServerEntries = async (
+  boundary: DayBoundary
+): Promise<ServerEntries> => {
+  try {
+    const [recentFoods, todaysFoods, todaysSymptoms] = await Promise.all([
+      getRecentFoods(DEFAULT_RECENT_LIMIT),
+      getTodaysFoods(boundary),
+      getTodaysSymptoms(boundary),
+    ]);
+    lastServerEntries = { recentFoods, todaysFoods, todaysSymptoms };
+    return lastServerEntries;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    logger.warn('Offline - showing last loaded entries', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return (
+      lastServerEntries ?? {
+        recentFoods: [],
+        todaysFoods: [],
+        todaysSymptoms: [],
+      }
+    );
+  }
+};
+
+type RangeEntries = {
+  foods: Food[];
+  symptoms: Symptom[];
+};
+
+// Last successful fetch per range, shown again while the device is offline
+const lastRangeEntries = new Map<string, RangeEntries>();
+
+const loadRangeEntries = async (
+  startDay: string,
+  endDay: string,
+  boundary: DayBoundary
+): Promise<RangeEntries> => {
+  const rangeKey = [
+    startDay,
+    endDay,
+    boundary.timeZone,
+    boundary.startHour,
+  ].join('|');
+
+  try {
+    const [foods, symptoms] = await Promise.all([
+      getFoodsByDateRange(startDay, endDay, boundary),
+      getSymptomsByDateRange(startDay, endDay, boundary),
+    ]);
+    const entries = { foods, symptoms };
+    lastRangeEntries.set(rangeKey, entries);
+    return entries;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    logger.warn('Offline - showing last loaded entries', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return lastRangeEntries.get(rangeKey) ?? { foods: [], symptoms: [] };
+  }
+};
+
+// Cache keys whose data is derived from foods and symptoms
+const ENTRY_CACHE_KEYS = new Set([
+  'dashboard-data',
+  'entries',
+  'entry-summary',
+  'insight-trends',
+  'outbox-failed',
+]);
+
+// Refresh every cached view of foods and symptoms after a write
+export const revalidateEntries = () =>
+  mutate(key => ENTRY_CACHE_KEYS.has(Array.isArray(key) ? key[0] : key));
+
 // OPTIMIZED FOOD HOOKS
 export const useTodaysFoods = () => {
-  return useSupabaseData(getTodaysFoods, 'todays_foods', {
+  const boundary = useDayBoundary();
+  const fetchTodaysFoods = useCallback(
+    () => getTodaysFoods(boundary),
+    [boundary]
+  );
+
+  return useSupabaseData(fetchTodaysFoods, 'todays_foods', {
     event: '*',
     schema: 'public',
     table: 'foods',
@@ -175,12 +359,11 @@ export const useFoodById = (id: string | null) => {
   );
 };
 
-export const useRecentFoods = (limit: number = 5) => {
+export const useRecentFoods = (limit: number = DEFAULT_RECENT_LIMIT) => {
+  const fetchRecentFoods = useCallback(() => getRecentFoods(limit), [limit]);
+
   return useSupabaseData(
-    async () => {
-      const data = await getAllFoods();
-      return data.slice(0, limit);
-    },
+    fetchRecentFoods,
     'recent_foods',
     {
       event: '*',
@@ -193,7 +376,13 @@ export const useRecentFoods = (limit: number = 5) => {
 
 // OPTIMIZED SYMPTOM HOOKS
 export const useTodaysSymptoms = () => {
-  return useSupabaseData(getTodaysSymptoms, 'todays_symptoms', {
+  const boundary = useDayBoundary();
+  const fetchTodaysSymptoms = useCallback(
+    () => getTodaysSymptoms(boundary),
+    [boundary]
+  );
+
+  return useSupabaseData(fetchTodaysSymptoms, 'todays_symptoms', {
     event: '*',
     schema: 'public',
     table: 'symptoms',
@@ -222,12 +411,14 @@ export const useSymptomById = (id: string | null) => {
   );
 };
 
-export const useRecentSymptoms = (limit: number = 5) => {
+export const useRecentSymptoms = (limit: number = DEFAULT_RECENT_LIMIT) => {
+  const fetchRecentSymptoms = useCallback(
+    () => getRecentSymptoms(limit),
+    [limit]
+  );
+
   return useSupabaseData(
-    async () => {
-      const data = await getAllSymptoms();
-      return data.slice(0, limit);
-    },
+    fetchRecentSymptoms,
     'recent_symptoms',
     {
       event: '*',
@@ -240,15 +431,18 @@ export const useRecentSymptoms = (limit: number = 5) => {
 
 // OPTIMIZED ANALYTICS HOOKS
 export const useFoodStats = () => {
+  const boundary = useDayBoundary();
+
   return useSupabaseData(
     async () => {
       try {
-        let foodsToAnalyze = await getTodaysFoods();
+        const zoneOverrides = await loadZoneOverrides();
+        const todaysFoods = await getTodaysFoods(boundary);
+        let foodsToAnalyze = todaysFoods;
 
         // If no foods today, fallback to recent foods for better UX
         if (!foodsToAnalyze || foodsToAnalyze.length === 0) {
-          const recentFoods = await getAllFoods();
-          foodsToAnalyze = recentFoods.slice(0, 5);
+          foodsToAnalyze = await getRecentFoods(DEFAULT_RECENT_LIMIT);
 
           if (!foodsToAnalyze || foodsToAnalyze.length === 0) {
             return {
@@ -263,40 +457,14 @@ export const useFoodStats = () => {
           }
         }
 
-        const todaysFoods = await getTodaysFoods();
         const isFromToday = todaysFoods.length > 0;
 
-        const ingredients = foodsToAnalyze.flatMap(
-          food => food.ingredients || []
-        );
-
-        const greenIngredients = ingredients.filter(
-          ing => ing.zone === 'green'
-        ).length;
-        const yellowIngredients = ingredients.filter(
-          ing => ing.zone === 'yellow'
-        ).length;
-        const redIngredients = ingredients.filter(
-          ing => ing.zone === 'red'
-        ).length;
-
-        const organicIngredientsCount = ingredients.filter(
-          ing => ing.organic === true
-        ).length;
-        const totalOrganicPercentage =
-          ingredients.length > 0
-            ? (organicIngredientsCount / ingredients.length) * 100
-            : 0;
+        const ingredients = applyZoneOverridesToFoods(
+          foodsToAnalyze,
+          zoneOverrides
+        ).flatMap(food => food.ingredients || []);
 
-        return {
-          greenIngredients,
-          yellowIngredients,
-          redIngredients,
-          totalIngredients: ingredients.length,
-          organicCount: organicIngredientsCount,
-          totalOrganicPercentage,
-          isFromToday,
-        };
+        return { ...calculateFoodStats(ingredients), isFromToday };
       } catch (error) {
         logger.error('Error calculating food stats', error);
         return {
@@ -320,37 +488,20 @@ export const useFoodStats = () => {
 };
 
 export const useSymptomTrends = (days: number = 7) => {
+  const boundary = useDayBoundary();
+
   return useSupabaseData(
     async () => {
       try {
-        const allSymptoms = await getAllSymptoms();
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - days);
-
-        const recentSymptoms = allSymptoms.filter(
-          symptom => new Date(symptom.timestamp) >= cutoffDate
+        // Today and the days before it, as whole days
+        const today = getTodayKey(boundary);
+        const recentSymptoms = await getSymptomsByDateRange(
+          shiftDayKey(today, 1 - days),
+          today,
+          boundary
         );
 
-        // Group symptoms by day
-        const symptomsByDay: { [key: string]: Symptom[] } = {};
-        recentSymptoms.forEach(symptom => {
-          const day = symptom.timestamp.split('T')[0];
-          if (!symptomsByDay[day]) {
-            symptomsByDay[day] = [];
-          }
-          symptomsByDay[day].push(symptom);
-        });
-
-        // Calculate average score per day (delta scale -2 to +2)
-        const trendData = Object.entries(symptomsByDay).map(
-          ([day, symptoms]) => ({
-            day,
-            count: symptoms.length,
-            averageScore: symptoms.length, // Count of symptoms instead of average score
-          })
-        );
-
-        return trendData.sort((a, b) => a.day.localeCompare(b.day));
+        return buildSymptomTrends(recentSymptoms, boundary);
       } catch (error) {
         logger.error('Error calculating symptom trends', error);
         return [];
@@ -362,7 +513,7 @@ export const useSymptomTrends = (days: number = 7) => {
       schema: 'public',
       table: 'symptoms',
     },
-    [days]
+    [days, boundary]
   );
 };
 
@@ -394,69 +545,69 @@ export const useDailySummary = () => {
 };
 
 // CONSOLIDATED DASHBOARD DATA HOOK - Fixes infinite loop by batching requests
-export const useDashboardData = () => {
-  return useSWR(
+const useDashboardEntries = () => {
+  const boundary = useDayBoundary();
+
+  const entries = useSWR(
     'dashboard-data',
     async () => {
       try {
         // Batch all data requests with Promise.all for coordinated fetching
-        const [allFoods, allSymptoms, todaysFoods, todaysSymptoms] =
-          await Promise.all([
-            getAllFoods(),
-            getAllSymptoms(),
-            getTodaysFoods(),
-            getTodaysSymptoms(),
-          ]);
-
-        // Process data client-side to avoid additional API calls
-        const recentFoods = allFoods.slice(0, 5);
+        const [serverEntries, outboxEntries, zoneOverrides] = await Promise.all(
+          [
+            loadServerEntries(boundary),
+            loadOutboxEntries(),
+            loadZoneOverrides(),
+          ]
+        );
+
+        // Unsynced offline entries show up alongside stored ones
+        const today = getTodayKey(boundary);
+        const pendingRecent = applyPendingOperations(
+          serverEntries.recentFoods,
+          [],
+          outboxEntries
+        );
+        const pendingToday = applyPendingOperations(
+          serverEntries.todaysFoods,
+          serverEntries.todaysSymptoms,
+          outboxEntries,
+          timestamp => getDayKey(timestamp, boundary) === today
+        );
+        const todaysSymptoms = pendingToday.symptoms;
+
+        // Queued foods are appended, so re-sort before taking the latest few
+        const latestFoods = [...pendingRecent.foods]
+          .sort(
+            (a, b) =>
+              new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+          )
+          .slice(0, DEFAULT_RECENT_LIMIT);
+
+        // Every downstream stat sees personal zones
+        const recentFoods = applyZoneOverridesToFoods(
+          latestFoods,
+          zoneOverrides
+        );
+        const todaysFoods = applyZoneOverridesToFoods(
+          pendingToday.foods,
+          zoneOverrides
+        );
+
         // Use today's symptoms instead of limiting to 5 recent ones
         const recentSymptoms = todaysSymptoms;
 
-        // Calculate food stats client-side (eliminates duplicate getAllFoods call)
+        // Stats cover today, or the latest few foods before anything is logged
         const foodsToAnalyze =
-          todaysFoods.length > 0 ? todaysFoods : allFoods.slice(0, 5);
+          todaysFoods.length > 0 ? todaysFoods : recentFoods;
         const isFromToday = todaysFoods.length > 0;
 
-        const ingredients = foodsToAnalyze.flatMap(
-          food => food.ingredients || []
-        );
-
-        const greenIngredients = ingredients.filter(
-          ing => ing.zone === 'green'
-        ).length;
-        const yellowIngredients = ingredients.filter(
-          ing => ing.zone === 'yellow'
-        ).length;
-        const redIngredients = ingredients.filter(
-          ing => ing.zone === 'red'
-        ).length;
-
-        const organicIngredientsCount = ingredients.filter(
-          ing => ing.organic === true
-        ).length;
-        const totalOrganicPercentage =
-          ingredients.length > 0
-            ? (organicIngredientsCount / ingredients.length) * 100
-            : 0;
-
-        const foodStats = {
-          greenIngredients,
-          yellowIngredients,
-          redIngredients,
-          totalIngredients: ingredients.length,
-          organicCount: organicIngredientsCount,
-          totalOrganicPercentage,
-          isFromToday,
-        };
-
         return {
           recentFoods,
           recentSymptoms,
           todaysSymptoms,
-          foodStats,
-          allFoods,
-          allSymptoms,
+          statsFoods: foodsToAnalyze,
+          isFromToday,
         };
       } catch (error) {
         logger.error('Error fetching dashboard data', error);
@@ -465,17 +616,8 @@ export const useDashboardData = () => {
           recentFoods: [] as Food[],
           recentSymptoms: [] as Symptom[],
           todaysSymptoms: [] as Symptom[],
-          foodStats: {
-            greenIngredients: 0,
-            yellowIngredients: 0,
-            redIngredients: 0,
-            totalIngredients: 0,
-            organicCount: 0,
-            totalOrganicPercentage: 0,
-            isFromToday: false,
-          },
-          allFoods: [] as Food[],
-          allSymptoms: [] as Symptom[],
+          statsFoods: [] as Food[],
+          isFromToday: false,
         };
       }
     },
@@ -486,106 +628,455 @@ export const useDashboardData = () => {
       errorRetryInterval: 2000, // 2 second delay between retries
     }
   );
+
+  // Today's entries depend on where the user's day starts
+  const { mutate: revalidate } = entries;
+  const loadedBoundary = useRef(boundary);
+  useEffect(() => {
+    if (loadedBoundary.current === boundary) return;
+    loadedBoundary.current = boundary;
+    revalidate();
+  }, [boundary, revalidate]);
+
+  return entries;
+};
+
+// Stats are derived per caller so the weighting doesn't split the SWR cache
+export const useDashboardData = (weighting: FoodStatsWeighting = 'count') => {
+  const { data: entries, error, isLoading, mutate } = useDashboardEntries();
+
+  const data = useMemo(
+    () =>
+      entries && {
+        ...entries,
+        foodStats: {
+          ...calculateFoodStats(
+            entries.statsFoods.flatMap(food => food.ingredients || []),
+            weighting
+          ),
+          isFromToday: entries.isFromToday,
+        },
+      },
+    [entries, weighting]
+  );
+
+  return { data, error, isLoading, mutate };
+};
+
+// ACTIVE PROTOCOL HOOK - Current Big Reset protocol, if one is running
+export const useActiveProtocol = () => {
+  return useSWR(
+    'active-protocol',
+    async () => {
+      try {
+        return (await getActiveProtocol()) ?? null;
+      } catch (error) {
+        logger.error('Error fetching active protocol', error);
+        return null;
+      }
+    },
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 30000,
+    }
+  );
 };
 
-// TRACKING STREAK HOOK - Calculate consecutive days with entries
-// Reuses dashboard data to prevent duplicate API calls
-export const useTrackingStreak = (
-  allFoods?: Food[],
-  allSymptoms?: Symptom[]
+// OFFLINE SYNC HOOK - Replays the offline outbox on mount and on reconnect
+export const useOutboxSync = (
+  onSynced?: (result: OutboxSyncResult) => void
 ) => {
-  const { data: dashboardData } = useDashboardData();
-  const foods = allFoods || dashboardData?.allFoods;
-  const symptoms = allSymptoms || dashboardData?.allSymptoms;
-
-  return useMemo(() => {
-    if (!foods || !symptoms) return 0;
-
-    try {
-      // Combine all entries and group by date
-      const allEntries = [
-        ...foods.map(f => ({
-          date: f.timestamp.split('T')[0],
-          type: 'food',
-        })),
-        ...symptoms.map(s => ({
-          date: s.timestamp.split('T')[0],
-          type: 'symptom',
-        })),
-      ];
-
-      // Get unique dates with entries
-      const datesWithEntries = new Set(allEntries.map(entry => entry.date));
-
-      // Calculate streak starting from today
-      let streak = 0;
-      const currentDate = new Date();
-
-      // Check each day backwards from today
-      while (true) {
-        const dateString = currentDate.toISOString().split('T')[0];
-
-        if (datesWithEntries.has(dateString)) {
-          streak++;
-          // Move to previous day
-          currentDate.setDate(currentDate.getDate() - 1);
-        } else {
-          break; // Streak broken
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  useEffect(() => {
+    const sync = async () => {
+      try {
+        const result = await syncOutbox();
+        if (
+          result.synced === 0 &&
+          result.failed === 0 &&
+          result.deadLettered === 0
+        ) {
+          return;
         }
+        await revalidateEntries();
+        onSyncedRef.current?.(result);
+      } catch (error) {
+        logger.error('Offline sync failed', error);
       }
+    };
 
-      return streak;
-    } catch (error) {
-      logger.error('Error calculating tracking streak', error);
-      return 0;
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, []);
+};
+
+// Offline writes that gave up syncing, for the user to retry or discard
+const loadFailedOutboxEntries = async (): Promise<OutboxEntry[]> =>
+  (await loadOutboxEntries()).filter(entry => entry.deadLettered);
+
+export const useFailedOutboxEntries = () => {
+  const { data } = useSWR('outbox-failed', loadFailedOutboxEntries, {
+    revalidateOnFocus: false,
+  });
+
+  const retry = useCallback(async () => {
+    const result = await retryFailedOutboxEntries();
+    await revalidateEntries();
+    return result;
+  }, []);
+
+  const discard = useCallback(async (entry: OutboxEntry) => {
+    await discardOutboxEntry(entry.seq!);
+    await revalidateEntries();
+  }, []);
+
+  return { entries: data ?? [], retry, discard };
+};
+
+// MEAL TEMPLATE HOOKS - Saved meals and quick-log suggestions
+const loadMealTemplates = async (): Promise<MealTemplate[]> => {
+  try {
+    return await getMealTemplates();
+  } catch (error) {
+    logger.error('Error fetching meal templates', error);
+    return [];
+  }
+};
+
+export const useMealTemplates = () => {
+  return useSWR('meal-templates', loadMealTemplates, {
+    revalidateOnFocus: false,
+  });
+};
+
+// Ranked from the shared recent history, which covers the suggestion lookback
+export const useMealSuggestions = () => {
+  const { data: history, isLoading } = useRecentEntries();
+  const { data: templates } = useMealTemplates();
+  const boundary = useDayBoundary();
+  const foods = history?.foods;
+
+  const suggestions = useMemo(
+    () => suggestMeals(foods ?? [], templates ?? [], boundary),
+    [foods, templates, boundary]
+  );
+
+  return { suggestions, templates: templates ?? [], isLoading };
+};
+
+// RECIPES HOOK - Recipes and sub-recipes, sorted by name
+const loadRecipes = async (): Promise<Recipe[]> => {
+  try {
+    return await getRecipes();
+  } catch (error) {
+    logger.error('Error fetching recipes', error);
+    return [];
+  }
+};
+
+export const useRecipes = () => {
+  return useSWR('recipes', loadRecipes, {
+    revalidateOnFocus: false,
+  });
+};
+
+// USER SETTINGS HOOK - Stored per account; realtime keeps devices in sync
+// A failed fetch falls back to the defaults rather than blocking the app
+const loadUserSettings = async (): Promise<UserSettings> => {
+  try {
+    return await getUserSettings();
+  } catch (error) {
+    logger.error('Error fetching user settings', error);
+    return DEFAULT_USER_SETTINGS;
+  }
+};
+
+const USER_SETTINGS_SUBSCRIPTION: SubscriptionConfig = {
+  event: '*',
+  schema: 'public',
+  table: 'user_settings',
+};
+
+export const useUserSettings = () => {
+  useEffect(
+    () =>
+      subscriptionManager.subscribe(
+        'user_settings',
+        USER_SETTINGS_SUBSCRIPTION,
+        () => mutate('user-settings')
+      ),
+    []
+  );
+
+  return useSWR('user-settings', loadUserSettings, {
+    revalidateOnFocus: true,
+  });
+};
+
+// DAY BOUNDARY HOOK - The user's timezone and day-start hour, for day buckets
+export const useDayBoundary = (): DayBoundary => {
+  const { data: settings } = useUserSettings();
+  const timezone = settings?.timezone ?? null;
+  const dayBoundaryHour =
+    settings?.dayBoundaryHour ?? DEFAULT_USER_SETTINGS.dayBoundaryHour;
+
+  return useMemo(
+    () => getDayBoundary({ timezone, dayBoundaryHour }),
+    [timezone, dayBoundaryHour]
+  );
+};
+
+// INSIGHT TRENDS HOOK - Server-side daily aggregates for the trend charts
+export const useInsightTrends = (days: TrendRangeDays) => {
+  const boundary = useDayBoundary();
+
+  return useSWR(
+    ['insight-trends', days, boundary.timeZone, boundary.startHour],
+    async () => {
+      const range = getTrendRange(days, boundary);
+      const rows = await getInsightTrendRows(range, boundary);
+      return buildInsightTrends(rows, range);
+    },
+    { revalidateOnFocus: false, keepPreviousData: true }
+  );
+};
+
+// INGREDIENT SEARCH HOOK - Keyed by the filters; no request until one is set
+export const useIngredientSearch = (filters: IngredientSearchFilters) => {
+  return useSWR(
+    hasSearchCriteria(filters)
+      ? ['ingredient-search', JSON.stringify(filters)]
+      : null,
+    () => searchFoodsByIngredient(filters),
+    { revalidateOnFocus: false, keepPreviousData: true }
+  );
+};
+
+// CUSTOM SYMPTOMS HOOK - User-defined symptoms, including archived ones
+// A failed fetch leaves only the built-in index rather than breaking the form
+const loadCustomSymptoms = async (): Promise<CustomSymptom[]> => {
+  try {
+    return await getCustomSymptoms();
+  } catch (error) {
+    logger.error('Error fetching custom symptoms', error);
+    return [];
+  }
+};
+
+export const useCustomSymptoms = () => {
+  return useSWR('custom-symptoms', loadCustomSymptoms, {
+    revalidateOnFocus: false,
+  });
+};
+
+// ZONE OVERRIDES HOOK - The user's personal zone pins
+export const useZoneOverrides = () => {
+  return useSWR('zone-overrides', loadZoneOverrides, {
+    revalidateOnFocus: false,
+  });
+};
+
+// ADMIN HOOKS - Role check and the zoning review queue
+export const useIsAdmin = () => {
+  return useSWR(
+    'is-admin',
+    async () => {
+      try {
+        return await isCurrentUserAdmin();
+      } catch (error) {
+        logger.error('Error checking admin role', error);
+        return false;
+      }
+    },
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000,
     }
-  }, [foods, symptoms]);
+  );
+};
+
+export const useZoningSuggestions = (status: ZoningSuggestionStatus) => {
+  return useSWR(`zoning-suggestions-${status}`, () =>
+    getZoningSuggestions(status)
+  );
+};
+
+// ENTRY SUMMARY HOOK - Overview totals and streak, aggregated server-side
+export const useEntrySummary = () => {
+  const boundary = useDayBoundary();
+
+  return useSWR(
+    ['entry-summary', boundary.timeZone, boundary.startHour],
+    () => getEntrySummary(boundary),
+    { revalidateOnFocus: false, keepPreviousData: true }
+  );
 };
 
-// DAY-SPECIFIC DATA HOOKS - Filter data by selected date
-// These hooks reuse data from useDashboardData to prevent duplicate API calls
-export const useFoodsForDate = (selectedDate: Date, allFoods?: Food[]) => {
-  const { data: dashboardData } = useDashboardData();
-  const foods = allFoods || dashboardData?.allFoods;
+// TRACKING STREAK HOOK - Consecutive days with entries, from the summary
+export const useTrackingStreak = () => {
+  const { data: summary } = useEntrySummary();
+  return summary?.currentStreak ?? 0;
+};
 
-  const foodsForDate = useMemo(() => {
-    if (!foods) return [];
+// DATE-RANGE DATA HOOKS - Fetch only the requested days
+// Days are the user's day buckets; queued offline writes and personal zones
+// are applied the same way as on the dashboard
+export const useEntriesInRange = (startDay: string, endDay: string) => {
+  const boundary = useDayBoundary();
 
-    return foods.filter(food => {
-      return isSameLocalDate(
-        timestampToLocalDate(food.timestamp),
-        selectedDate
+  return useSWR(
+    ['entries', startDay, endDay, boundary.timeZone, boundary.startHour],
+    async () => {
+      const [serverEntries, outboxEntries, zoneOverrides] = await Promise.all([
+        loadRangeEntries(startDay, endDay, boundary),
+        loadOutboxEntries(),
+        loadZoneOverrides(),
+      ]);
+
+      const pending = applyPendingOperations(
+        serverEntries.foods,
+        serverEntries.symptoms,
+        outboxEntries,
+        timestamp => {
+          const day = getDayKey(timestamp, boundary);
+          return day >= startDay && day <= endDay;
+        }
       );
-    });
-  }, [foods, selectedDate]);
 
-  return { data: foodsForDate };
+      return {
+        foods: applyZoneOverridesToFoods(pending.foods, zoneOverrides),
+        symptoms: pending.symptoms,
+      };
+    },
+    { revalidateOnFocus: false, keepPreviousData: true }
+  );
 };
 
-export const useSymptomsForDate = (
-  selectedDate: Date,
-  allSymptoms?: Symptom[]
+// The last few weeks, shared by the insight cards and meal suggestions
+export const useRecentEntries = (
+  days: number = APP_CONFIG.INSIGHTS.HISTORY_DAYS
 ) => {
-  const { data: dashboardData } = useDashboardData();
-  const symptoms = allSymptoms || dashboardData?.allSymptoms;
+  const boundary = useDayBoundary();
+  const today = getTodayKey(boundary);
+
+  return useEntriesInRange(shiftDayKey(today, 1 - days), today);
+};
+
+// BODY COMPASS SCORE HOOKS - Daily scores, computed here and stored per day
+// The last two weeks are recomputed from entries whenever they change, and
+// any day whose stored score differs (edits, new entries, a new scoring
+// version) is written back, so stored scores stay current for trends
+const revalidateDailyScores = () =>
+  mutate(key => Array.isArray(key) && key[0] === 'daily-scores');
+
+export const useBodyCompassScores = () => {
+  const boundary = useDayBoundary();
+  const today = getTodayKey(boundary);
+  const days = useMemo(
+    () =>
+      Array.from({ length: SCORE_COMPARISON_DAYS }, (_, index) =>
+        shiftDayKey(today, index + 1 - SCORE_COMPARISON_DAYS)
+      ),
+    [today]
+  );
+  const firstDay = days[0];
+
+  const { data: entries, isLoading } = useEntriesInRange(firstDay, today);
+  const { data: stored } = useSWR(
+    ['daily-scores', firstDay, today],
+    () => getDailyScores(firstDay, today),
+    { revalidateOnFocus: false }
+  );
+
+  const scores = useMemo(
+    () =>
+      entries &&
+      buildDailyScores(entries.foods, entries.symptoms, days, boundary),
+    [entries, days, boundary]
+  );
+
+  // Each change set is attempted once, so a failed write doesn't retry in a loop
+  const lastAttempt = useRef<string | null>(null);
+  useEffect(() => {
+    // Previous range's entries are kept while the new range loads
+    if (!scores || !stored || isLoading) return;
+
+    const { save, remove } = diffDailyScores(stored, scores, days);
+    if (save.length === 0 && remove.length === 0) return;
+
+    const attempt = JSON.stringify({ save, remove });
+    if (lastAttempt.current === attempt) return;
+    lastAttempt.current = attempt;
+
+    Promise.all([saveDailyScores(save), deleteDailyScores(remove)])
+      .then(revalidateDailyScores)
+      .catch(error => logger.error('Error saving daily scores', error));
+  }, [scores, stored, days, isLoading]);
+
+  const comparison = useMemo(
+    () => (scores ? compareWeeks(scores, today) : undefined),
+    [scores, today]
+  );
+
+  return {
+    today: scores?.find(score => score.day === today) ?? null,
+    comparison,
+    isLoading,
+  };
+};
 
-  const symptomsForDate = useMemo(() => {
-    if (!symptoms) return [];
+// Stored scores for the Trends page; days without a score are gaps
+export const useScoreTrend = (days: TrendRangeDays) => {
+  const boundary = useDayBoundary();
 
-    return symptoms.filter(symptom => {
-      return isSameLocalDate(
-        timestampToLocalDate(symptom.timestamp),
-        selectedDate
+  return useSWR(
+    ['daily-scores', 'trend', days, boundary.timeZone, boundary.startHour],
+    async () => {
+      const range = getTrendRange(days, boundary);
+      const scores = await getDailyScores(
+        range.days[0],
+        range.days[range.days.length - 1]
       );
-    });
-  }, [symptoms, selectedDate]);
+      const byDay = new Map(scores.map(score => [score.day, score.score]));
+      return range.days.map(
+        (day): ScoreTrendPoint => ({ day, score: byDay.get(day) ?? null })
+      );
+    },
+    { revalidateOnFocus: false, keepPreviousData: true }
+  );
+};
+
+// DAY-SPECIFIC DATA HOOKS - Entries for the selected date only
+export const useDayEntries = (selectedDate: Date) => {
+  const day = dateToDayKey(selectedDate);
+  return useEntriesInRange(day, day);
+};
+
+export const useFoodsForDate = (selectedDate: Date) => {
+  const { data: entries } = useDayEntries(selectedDate);
+  const foods = entries?.foods;
+
+  const foodsForDate = useMemo(() => foods ?? [], [foods]);
+
+  return { data: foodsForDate };
+};
+
+export const useSymptomsForDate = (selectedDate: Date) => {
+  const { data: entries } = useDayEntries(selectedDate);
+  const symptoms = entries?.symptoms;
+
+  const symptomsForDate = useMemo(() => symptoms ?? [], [symptoms]);
 
   return { data: symptomsForDate };
 };
 
 // FOOD STATS FOR SPECIFIC DATE
 export const useFoodStatsForDate = (
-  selectedDate: Date
+  selectedDate: Date,
+  weighting: FoodStatsWeighting = 'count'
 ): { data: FoodStats } => {
   const { data: foodsForDate } = useFoodsForDate(selectedDate);
 
@@ -599,72 +1090,43 @@ export const useFoodStatsForDate = (
         organicCount: 0,
         totalOrganicPercentage: 0,
         isFromSelectedDate: false,
+        weighting,
       };
     }
 
     const ingredients = foodsForDate.flatMap(food => food.ingredients || []);
 
-    const greenIngredients = ingredients.filter(
-      ing => ing.zone === 'green'
-    ).length;
-    const yellowIngredients = ingredients.filter(
-      ing => ing.zone === 'yellow'
-    ).length;
-    const redIngredients = ingredients.filter(ing => ing.zone === 'red').length;
-    const organicIngredientsCount = ingredients.filter(
-      ing => ing.organic === true
-    ).length;
-    const totalOrganicPercentage =
-      ingredients.length > 0
-        ? (organicIngredientsCount / ingredients.length) * 100
-        : 0;
-
     return {
-      greenIngredients,
-      yellowIngredients,
-      redIngredients,
-      totalIngredients: ingredients.length,
-      organicCount: organicIngredientsCount,
-      totalOrganicPercentage,
+      ...calculateFoodStats(ingredients, weighting),
       isFromSelectedDate: true,
     };
-  }, [foodsForDate]);
+  }, [foodsForDate, weighting]);
 
   return { data: statsForDate };
 };
 
 // UNIFIED ENTRIES FOR DATE - Combines foods and signals into chronological timeline
 export const useEntriesForDate = (selectedDate: Date) => {
-  const { data: dashboardData } = useDashboardData();
+  const { data: dayEntries } = useDayEntries(selectedDate);
 
   const entries = useMemo(() => {
-    if (!dashboardData) return [];
-
-    const { allFoods, allSymptoms } = dashboardData;
+    if (!dayEntries) return [];
 
     // Build timeline entries for foods
-    const foodEntries: TimelineEntry[] = (allFoods || [])
-      .filter(f =>
-        isSameLocalDate(timestampToLocalDate(f.timestamp), selectedDate)
-      )
-      .map(f => ({
-        id: f.id,
-        type: 'food' as const,
-        timestamp: f.timestamp,
-        data: f,
-      }));
+    const foodEntries: TimelineEntry[] = dayEntries.foods.map(f => ({
+      id: f.id,
+      type: 'food' as const,
+      timestamp: f.timestamp,
+      data: f,
+    }));
 
     // Build timeline entries for signals
-    const signalEntries: TimelineEntry[] = (allSymptoms || [])
-      .filter(s =>
-        isSameLocalDate(timestampToLocalDate(s.timestamp), selectedDate)
-      )
-      .map(s => ({
-        id: s.id,
-        type: 'signal' as const,
-        timestamp: s.timestamp,
-        data: s,
-      }));
+    const signalEntries: TimelineEntry[] = dayEntries.symptoms.map(s => ({
+      id: s.id,
+      type: 'signal' as const,
+      timestamp: s.timestamp,
+      data: s,
+    }));
 
     // Combine and sort chronologically
     const combined = [...foodEntries, ...signalEntries];
@@ -672,7 +1134,7 @@ export const useEntriesForDate = (selectedDate: Date) => {
       (a, b) =>
         new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
-  }, [dashboardData, selectedDate]);
+  }, [dayEntries]);
 
   return { data: entries };
 };
@@ -0,0 +1,39 @@
+// Custom hook for the zone statistics weighting preference
+// Uses localStorage so the choice of count vs portion weighting sticks per device
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/lib/utils/logger';
+import { APP_CONFIG } from '@/lib/config/constants';
+import type { FoodStatsWeighting } from '@/lib/types';
+
+const STORAGE_KEY = APP_CONFIG.PORTION.WEIGHTING_STORAGE_KEY;
+
+export function useStatsWeighting(defaultValue: FoodStatsWeighting = 'count') {
+  const [weighting, setWeighting] = useState<FoodStatsWeighting>(defaultValue);
+
+  // Initialize from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored === 'count' || stored === 'quantity') {
+        setWeighting(stored);
+      }
+    } catch (error) {
+      // localStorage may not be available (incognito mode, etc.)
+      logger.warn('Failed to read stats weighting from localStorage', {
+        error,
+      });
+    }
+  }, []);
+
+  const setPersistedWeighting = useCallback((value: FoodStatsWeighting) => {
+    setWeighting(value);
+    try {
+      localStorage.setItem(STORAGE_KEY, value);
+    } catch (error) {
+      logger.warn('Failed to save stats weighting to localStorage', { error });
+    }
+  }, []);
+
+  return [weighting, setPersistedWeighting] as const;
+}
@@ -0,0 +1,31 @@
+// Custom hook that applies the theme setting to the document
+// The dark palette is the :root default, so only light needs a class on <html>
+
+import { useEffect } from 'react';
+import { resolveTheme } from '@/lib/settings/user-settings';
+import type { UserSettings } from '@/lib/types';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+export function useThemePreference(theme: UserSettings['theme'] = 'dark') {
+  useEffect(() => {
+    const root = document.documentElement;
+    const media =
+      typeof window.matchMedia === 'function'
+        ? window.matchMedia(DARK_QUERY)
+        : null;
+
+    const apply = () => {
+      const resolved = resolveTheme(theme, media?.matches ?? true);
+      root.classList.toggle('light', resolved === 'light');
+      root.style.colorScheme = resolved;
+    };
+
+    apply();
+    if (theme !== 'system' || !media) return;
+
+    // Follow OS changes while 'system' is selected
+    media.addEventListener('change', apply);
+    return () => media.removeEventListener('change', apply);
+  }, [theme]);
+}
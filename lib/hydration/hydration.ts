@@ -0,0 +1,99 @@
+/**
+ * Hydration
+ * Daily fluid intake is derived from beverage entries (meal_type 'beverage'),
+ * so drinks logged through the normal food flow count towards the water goal
+ * alongside quick-added glasses of water.
+ */
+
+import type { Food, Ingredient, UserSettings } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+
+const {
+  DEFAULT_BEVERAGE_ML,
+  ML_PER_CUP,
+  ML_PER_FL_OZ,
+  MIN_GOAL_ML,
+  MAX_GOAL_ML,
+  GOAL_STEP_ML,
+} = APP_CONFIG.HYDRATION;
+
+export function isBeverage(food: Pick<Food, 'meal_type'>): boolean {
+  return food.meal_type === 'beverage';
+}
+
+function getIngredientVolume(ingredient: Ingredient): number {
+  if (!ingredient.quantity) return 0;
+  if (ingredient.unit === 'ml') return ingredient.quantity;
+  if (ingredient.unit === 'cup') return ingredient.quantity * ML_PER_CUP;
+  return 0; // Grams and pieces aren't volumes
+}
+
+/**
+ * Volume of a beverage entry in ml
+ * Beverages logged without a volume count as one glass; other entries count as 0.
+ */
+export function getBeverageVolume(
+  food: Pick<Food, 'meal_type' | 'ingredients'>
+): number {
+  if (!isBeverage(food)) return 0;
+  const volume = (food.ingredients || []).reduce(
+    (sum, ingredient) => sum + getIngredientVolume(ingredient),
+    0
+  );
+  return volume > 0 ? volume : DEFAULT_BEVERAGE_ML;
+}
+
+export function getHydrationTotal(
+  foods: Pick<Food, 'meal_type' | 'ingredients'>[]
+): number {
+  return foods.reduce((sum, food) => sum + getBeverageVolume(food), 0);
+}
+
+// Share of the goal reached, 0-100
+export function getHydrationProgress(totalMl: number, goalMl: number): number {
+  if (goalMl <= 0) return 0;
+  return Math.min(100, (totalMl / goalMl) * 100);
+}
+
+// "250 ml", "1.5 L"; "8 fl oz" with imperial units
+export function formatVolume(
+  ml: number,
+  units: UserSettings['units'] = 'metric'
+): string {
+  if (units === 'imperial') return `${Math.round(ml / ML_PER_FL_OZ)} fl oz`;
+  if (ml >= 1000) return `${Math.round(ml / 100) / 10} L`;
+  return `${Math.round(ml)} ml`;
+}
+
+/**
+ * Clamp a goal to the range the user_settings CHECK allows, in whole steps
+ */
+export function normalizeWaterGoal(goalMl: number): number {
+  if (!Number.isFinite(goalMl)) {
+    throw new Error('Water goal must be a number');
+  }
+  const stepped = Math.round(goalMl / GOAL_STEP_ML) * GOAL_STEP_ML;
+  return Math.min(MAX_GOAL_ML, Math.max(MIN_GOAL_ML, stepped));
+}
+
+/**
+ * A glass of water as a beverage entry, ready for dictionary zoning
+ */
+export function createWaterEntry(
+  volumeMl: number
+): Pick<Food, 'name' | 'ingredients' | 'meal_type'> {
+  return {
+    name: 'Water',
+    meal_type: 'beverage',
+    ingredients: [
+      {
+        name: 'water',
+        organic: false,
+        group: 'other',
+        zone: 'unzoned',
+        quantity: volumeMl,
+        unit: 'ml',
+      },
+    ],
+  };
+}
@@ -127,7 +127,7 @@ export async function uploadSingleImage(
       .from('food-images')
       .upload(filename, file, {
         cacheControl: '3600', // Cache for 1 hour
-        upsert: false, // Don't overwrite existing files
+        upsert: true, // Filenames are per food, so an offline replay overwrites its own upload
       });
 
     if (error) {
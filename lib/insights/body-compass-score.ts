@@ -0,0 +1,274 @@
+/**
+ * Body Compass score
+ * A 0-100 score per day combining what was eaten with how the body responded.
+ * Scores are stored per day (migration 027) along with the version of the
+ * rules below. Any change to the weights or curves must bump
+ * BODY_COMPASS_SCORE_VERSION, so stored days are recomputed instead of
+ * mixing two scales in one trend.
+ *
+ * Version 1
+ * - Zones (50%): green ingredients count 1, yellow 0.5 and red 0, averaged
+ *   over the zoned ingredients. Unzoned ingredients are left out, so a day
+ *   with only unzoned ingredients has no zone component.
+ * - Organic (15%): the day's organic percentage.
+ * - Symptoms (35%): each category's burden is the summed severity of its
+ *   entries (unrated entries count as moderate), scored from 100 with no
+ *   entries down to 0 at SYMPTOM_BURDEN_LIMIT. The component is the mean over
+ *   the four categories, so a rough day in one area costs at most a quarter.
+ *
+ * Components without data are left out and the remaining weights rescaled.
+ * A day with neither ingredients nor symptoms has no score.
+ */
+
+import type { Food, FoodStats, Symptom, SymptomCategory } from '@/lib/types';
+import { calculateFoodStats } from '@/lib/portions/portions';
+import {
+  getSymptomSeverityWeight,
+  SYMPTOM_CATEGORIES,
+} from '@/lib/symptoms/symptom-index';
+import {
+  groupByDay,
+  shiftDayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+
+export const BODY_COMPASS_SCORE_VERSION = 1;
+
+// Two weeks of days, for the week-over-week comparison
+export const SCORE_COMPARISON_DAYS = 14;
+
+const COMPONENT_WEIGHTS = {
+  zones: 0.5,
+  organic: 0.15,
+  symptoms: 0.35,
+} as const;
+
+const ZONE_VALUES = { green: 1, yellow: 0.5, red: 0 } as const;
+
+// Summed severity at which a category scores 0, e.g. two very severe entries
+const SYMPTOM_BURDEN_LIMIT = 10;
+
+export type BodyCompassComponent = keyof typeof COMPONENT_WEIGHTS;
+
+export type SymptomBurden = Partial<Record<SymptomCategory, number>>;
+
+export interface BodyCompassInputs {
+  // Count-weighted stats; portion weighting would make days incomparable
+  foodStats: Pick<
+    FoodStats,
+    | 'greenIngredients'
+    | 'yellowIngredients'
+    | 'redIngredients'
+    | 'totalIngredients'
+    | 'totalOrganicPercentage'
+  >;
+  symptomBurden: SymptomBurden;
+}
+
+export interface BodyCompassScore {
+  score: number; // 0-100, rounded
+  components: Record<BodyCompassComponent, number | null>; // null without data
+  version: number;
+}
+
+export interface DailyScore extends BodyCompassScore {
+  day: string; // Day key in the user's day buckets
+}
+
+export interface WeeklyScoreComparison {
+  thisWeek: number | null; // Mean of the last 7 days through today
+  lastWeek: number | null; // Mean of the 7 days before
+  change: number | null; // thisWeek - lastWeek
+}
+
+export interface ScoreTrendPoint {
+  day: string;
+  score: number | null; // null on days without a stored score
+}
+
+// daily_scores row shape
+export interface DailyScoreRow {
+  day: string;
+  score: number;
+  zone_score: number | null;
+  organic_score: number | null;
+  symptom_score: number | null;
+  version: number;
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Summed severity per category; unrated entries count as moderate
+export function getSymptomBurden(symptoms: Symptom[]): SymptomBurden {
+  const burden: SymptomBurden = {};
+  symptoms.forEach(symptom => {
+    burden[symptom.category] =
+      (burden[symptom.category] ?? 0) + getSymptomSeverityWeight(symptom);
+  });
+  return burden;
+}
+
+export function calculateBodyCompassScore({
+  foodStats,
+  symptomBurden,
+}: BodyCompassInputs): BodyCompassScore | null {
+  const { greenIngredients, yellowIngredients, redIngredients } = foodStats;
+  const zoned = greenIngredients + yellowIngredients + redIngredients;
+  const burdens = SYMPTOM_CATEGORIES.map(
+    category => symptomBurden[category.name] ?? 0
+  );
+
+  if (foodStats.totalIngredients <= 0 && burdens.every(burden => burden <= 0)) {
+    return null;
+  }
+
+  const components: Record<BodyCompassComponent, number | null> = {
+    zones:
+      zoned > 0
+        ? ((greenIngredients * ZONE_VALUES.green +
+            yellowIngredients * ZONE_VALUES.yellow +
+            redIngredients * ZONE_VALUES.red) /
+            zoned) *
+          100
+        : null,
+    organic:
+      foodStats.totalIngredients > 0
+        ? clampPercent(foodStats.totalOrganicPercentage)
+        : null,
+    symptoms:
+      mean(
+        burdens.map(
+          burden =>
+            1 -
+            Math.min(Math.max(burden, 0), SYMPTOM_BURDEN_LIMIT) /
+              SYMPTOM_BURDEN_LIMIT
+        )
+      ) * 100,
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  (Object.keys(COMPONENT_WEIGHTS) as BodyCompassComponent[]).forEach(key => {
+    const value = components[key];
+    if (value === null) return;
+    weighted += value * COMPONENT_WEIGHTS[key];
+    totalWeight += COMPONENT_WEIGHTS[key];
+  });
+
+  return {
+    score: Math.round(weighted / totalWeight),
+    components: {
+      zones: components.zones === null ? null : Math.round(components.zones),
+      organic:
+        components.organic === null ? null : Math.round(components.organic),
+      symptoms:
+        components.symptoms === null ? null : Math.round(components.symptoms),
+    },
+    version: BODY_COMPASS_SCORE_VERSION,
+  };
+}
+
+/**
+ * Scores for each of the given days that has entries
+ * Foods should already have personal zones applied.
+ */
+export function buildDailyScores(
+  foods: Food[],
+  symptoms: Symptom[],
+  days: string[],
+  boundary: DayBoundary
+): DailyScore[] {
+  const foodsByDay = groupByDay(foods, boundary);
+  const symptomsByDay = groupByDay(symptoms, boundary);
+
+  return days.flatMap(day => {
+    const ingredients = (foodsByDay.get(day) ?? []).flatMap(
+      food => food.ingredients || []
+    );
+    const score = calculateBodyCompassScore({
+      foodStats: calculateFoodStats(ingredients),
+      symptomBurden: getSymptomBurden(symptomsByDay.get(day) ?? []),
+    });
+    return score ? [{ day, ...score }] : [];
+  });
+}
+
+// Days without a score are skipped rather than counted as zero
+export function compareWeeks(
+  scores: Pick<DailyScore, 'day' | 'score'>[],
+  todayKey: string
+): WeeklyScoreComparison {
+  const thisWeekStart = shiftDayKey(todayKey, -6);
+  const lastWeekStart = shiftDayKey(todayKey, -13);
+
+  const average = (from: string, to: string) => {
+    const inWeek = scores
+      .filter(({ day }) => day >= from && day <= to)
+      .map(({ score }) => score);
+    return inWeek.length > 0 ? Math.round(mean(inWeek)) : null;
+  };
+
+  const thisWeek = average(thisWeekStart, todayKey);
+  const lastWeek = average(lastWeekStart, shiftDayKey(thisWeekStart, -1));
+
+  return {
+    thisWeek,
+    lastWeek,
+    change: thisWeek !== null && lastWeek !== null ? thisWeek - lastWeek : null,
+  };
+}
+
+const isSameScore = (a: DailyScore, b: DailyScore) =>
+  a.score === b.score &&
+  a.version === b.version &&
+  a.components.zones === b.components.zones &&
+  a.components.organic === b.components.organic &&
+  a.components.symptoms === b.components.symptoms;
+
+/**
+ * What to write so the stored scores for `days` match the computed ones:
+ * new or changed days to save, and stored days that no longer have entries
+ */
+export function diffDailyScores(
+  stored: DailyScore[],
+  computed: DailyScore[],
+  days: string[]
+): { save: DailyScore[]; remove: string[] } {
+  const storedByDay = new Map(stored.map(score => [score.day, score]));
+  const computedDays = new Set(computed.map(score => score.day));
+
+  return {
+    save: computed.filter(score => {
+      const existing = storedByDay.get(score.day);
+      return !existing || !isSameScore(existing, score);
+    }),
+    remove: days.filter(day => storedByDay.has(day) && !computedDays.has(day)),
+  };
+}
+
+export function fromDailyScoreRow(row: DailyScoreRow): DailyScore {
+  return {
+    day: row.day,
+    score: row.score,
+    components: {
+      zones: row.zone_score,
+      organic: row.organic_score,
+      symptoms: row.symptom_score,
+    },
+    version: row.version,
+  };
+}
+
+export function toDailyScoreRow(score: DailyScore): DailyScoreRow {
+  return {
+    day: score.day,
+    score: score.score,
+    zone_score: score.components.zones,
+    organic_score: score.components.organic,
+    symptom_score: score.components.symptoms,
+    version: score.version,
+  };
+}
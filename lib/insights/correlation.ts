@@ -0,0 +1,514 @@
+/**
+ * Food–symptom correlation engine
+ * Scores ingredients and ingredient groups against symptom categories and
+ * individual symptoms across the Body Compass symptom timeline windows, and
+ * meal timing patterns (late eating, long eating windows, short overnight
+ * fasts) against the signals that follow them
+ */
+
+import type { Food, Ingredient, Symptom, SymptomCategory } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import {
+  MEAL_TIMING_EXPOSURES,
+  type DailyMealTiming,
+  type MealTimingExposure,
+  type MealTimingExposureInfo,
+} from './meal-timing';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type CorrelationWindow = 'immediate' | 'delayed' | 'chronic';
+
+export interface CorrelationWindowInfo {
+  name: CorrelationWindow;
+  displayName: string;
+  startHours: number; // Exclusive lower bound after the meal
+  endHours: number; // Inclusive upper bound after the meal
+}
+
+// Windows follow the "Symptom Timeline" section of the Body Compass spec
+export const CORRELATION_WINDOWS: CorrelationWindowInfo[] = [
+  {
+    name: 'immediate',
+    displayName: 'Immediate (0-6h)',
+    startHours: 0,
+    endHours: 6,
+  },
+  {
+    name: 'delayed',
+    displayName: 'Delayed (6-72h)',
+    startHours: 6,
+    endHours: 72,
+  },
+  {
+    name: 'chronic',
+    displayName: 'Chronic (weeks)',
+    startHours: 72,
+    endHours: 21 * 24,
+  },
+];
+
+export type CorrelationSubjectType = 'ingredient' | 'group';
+export type CorrelationTargetType = 'category' | 'symptom';
+
+export interface SuspectIngredient {
+  subject: string; // Normalized ingredient name or group name
+  subjectType: CorrelationSubjectType;
+  zone?: Ingredient['zone']; // Most recent zone seen for the subject
+  target: string; // SymptomCategory or symptom_id
+  targetType: CorrelationTargetType;
+  targetName: string; // Human-readable target label
+  window: CorrelationWindow;
+  exposures: number; // Meals containing the subject
+  support: number; // Exposures followed by the target within the window
+  exposedRate: number; // support / exposures
+  baselineRate: number; // Same rate for meals without the subject
+  relativeRisk: number; // exposedRate / baselineRate (Infinity when baseline is 0)
+  confidence: number; // 0-1, see scoreConfidence
+}
+
+export interface TimingCorrelation {
+  exposure: MealTimingExposure;
+  exposureName: string; // Human-readable pattern label
+  target: string; // SymptomCategory or symptom_id
+  targetType: CorrelationTargetType;
+  targetName: string; // Human-readable target label
+  exposures: number; // Days showing the pattern
+  support: number; // Exposed days followed by the target
+  exposedRate: number; // support / exposures
+  baselineRate: number; // Same rate for days without the pattern
+  relativeRisk: number; // exposedRate / baselineRate (Infinity when baseline is 0)
+  confidence: number; // 0-1, see scoreConfidence
+}
+
+export interface TimingHypothesis {
+  exposure: MealTimingExposure;
+  target: string;
+  targetType: CorrelationTargetType;
+}
+
+export interface CorrelationOptions {
+  windows?: CorrelationWindow[];
+  minExposures?: number;
+  minSupport?: number;
+  minConfidence?: number;
+  includeGroups?: boolean;
+  limit?: number; // Per window, so one busy window can't crowd out the others
+}
+
+const DEFAULT_OPTIONS: Required<CorrelationOptions> = {
+  windows: ['immediate', 'delayed', 'chronic'],
+  minExposures: 3,
+  minSupport: 2,
+  minConfidence: 0.05,
+  includeGroups: true,
+  limit: 50,
+};
+
+/**
+ * Normalizes an ingredient name so "Organic Spinach " and "organic spinach"
+ * count as the same exposure
+ */
+export function normalizeIngredientName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Lower bound of the 95% Wilson score interval for a binomial proportion
+ * Penalizes rates backed by only a handful of meals
+ */
+export function wilsonLowerBound(successes: number, trials: number): number {
+  if (trials === 0) return 0;
+  const z = 1.96;
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const centre = p + (z * z) / (2 * trials);
+  const margin = z * Math.sqrt((p * (1 - p) + (z * z) / (4 * trials)) / trials);
+  return Math.max(0, (centre - margin) / denominator);
+}
+
+/**
+ * Confidence that the subject raises the symptom rate above baseline
+ * Uses the conservative (Wilson lower bound) exposed rate and scales the
+ * excess over baseline into 0-1, so 1 means "always followed by the symptom
+ * with strong support" and 0 means "no better than meals without it"
+ */
+export function scoreConfidence(
+  support: number,
+  exposures: number,
+  baselineRate: number
+): number {
+  const lower = wilsonLowerBound(support, exposures);
+  if (lower <= baselineRate || baselineRate >= 1) return 0;
+  return Math.min(1, (lower - baselineRate) / (1 - baselineRate));
+}
+
+interface Meal {
+  time: number;
+  ingredients: Set<string>;
+  groups: Set<string>;
+}
+
+interface TargetSeries {
+  target: string;
+  targetType: CorrelationTargetType;
+  targetName: string;
+  times: number[]; // Sorted ascending
+}
+
+function buildMeals(foods: Food[]): {
+  meals: Meal[];
+  zones: Map<string, Ingredient['zone']>;
+} {
+  const zones = new Map<string, Ingredient['zone']>();
+  const sortedFoods = [...foods].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const meals = sortedFoods
+    .map(food => {
+      const ingredients = new Set<string>();
+      const groups = new Set<string>();
+      (food.ingredients || []).forEach(ing => {
+        if (!ing?.name) return;
+        const name = normalizeIngredientName(ing.name);
+        if (!name) return;
+        ingredients.add(name);
+        if (ing.zone) zones.set(name, ing.zone);
+        if (ing.group && ing.group !== 'other') {
+          groups.add(ing.group);
+          if (ing.zone) zones.set(`group:${ing.group}`, ing.zone);
+        }
+      });
+      return { time: new Date(food.timestamp).getTime(), ingredients, groups };
+    })
+    .filter(meal => !isNaN(meal.time) && meal.ingredients.size > 0);
+
+  return { meals, zones };
+}
+
+function buildTargets(symptoms: Symptom[]): TargetSeries[] {
+  const byKey = new Map<string, TargetSeries>();
+
+  const push = (
+    target: string,
+    targetType: CorrelationTargetType,
+    targetName: string,
+    time: number
+  ) => {
+    const key = `${targetType}:${target}`;
+    if (!byKey.has(key)) {
+      byKey.set(key, { target, targetType, targetName, times: [] });
+    }
+    byKey.get(key)!.times.push(time);
+  };
+
+  symptoms.forEach(symptom => {
+    const time = new Date(symptom.timestamp).getTime();
+    if (isNaN(time)) return;
+    if (symptom.category) {
+      push(symptom.category, 'category', symptom.category, time);
+    }
+    if (symptom.symptom_id) {
+      push(
+        symptom.symptom_id,
+        'symptom',
+        symptom.name || symptom.symptom_id,
+        time
+      );
+    }
+  });
+
+  const targets = Array.from(byKey.values());
+  targets.forEach(series => series.times.sort((a, b) => a - b));
+  return targets;
+}
+
+// Index of the first element strictly greater than value
+function upperBound(sorted: number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function occursInWindow(
+  times: number[],
+  mealTime: number,
+  window: Pick<CorrelationWindowInfo, 'startHours' | 'endHours'>
+): boolean {
+  const start = mealTime + window.startHours * HOUR_MS;
+  const end = mealTime + window.endHours * HOUR_MS;
+  const index = upperBound(times, start);
+  return index < times.length && times[index] <= end;
+}
+
+/**
+ * Rank suspect ingredients and groups for every symptom category and
+ * symptom_id in each requested window
+ *
+ * A meal "exposes" a subject when one of its ingredients matches it; the
+ * exposure is a "hit" when the target symptom is logged within the window
+ * after the meal. Subjects are compared against meals that did not contain
+ * them so that frequently-eaten staples are not flagged by volume alone.
+ *
+ * @param foods - Food entries to analyze
+ * @param symptoms - Symptom entries to analyze
+ * @param options - Thresholds and windows (defaults suit a few weeks of data)
+ * @returns Up to `limit` suspects per window, sorted by confidence, then support
+ */
+export function computeSuspectIngredients(
+  foods: Food[],
+  symptoms: Symptom[],
+  options: CorrelationOptions = {}
+): SuspectIngredient[] {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const { meals, zones } = buildMeals(foods || []);
+  const targets = buildTargets(symptoms || []);
+
+  if (meals.length === 0 || targets.length === 0) return [];
+
+  // Collect exposures per subject once; reused for every target/window
+  const subjects = new Map<
+    string,
+    { subject: string; subjectType: CorrelationSubjectType; meals: Set<number> }
+  >();
+  meals.forEach((meal, index) => {
+    meal.ingredients.forEach(name => {
+      const key = `ingredient:${name}`;
+      if (!subjects.has(key)) {
+        subjects.set(key, {
+          subject: name,
+          subjectType: 'ingredient',
+          meals: new Set(),
+        });
+      }
+      subjects.get(key)!.meals.add(index);
+    });
+    if (config.includeGroups) {
+      meal.groups.forEach(group => {
+        const key = `group:${group}`;
+        if (!subjects.has(key)) {
+          subjects.set(key, {
+            subject: group,
+            subjectType: 'group',
+            meals: new Set(),
+          });
+        }
+        subjects.get(key)!.meals.add(index);
+      });
+    }
+  });
+
+  const eligibleSubjects = Array.from(subjects.values()).filter(
+    s => s.meals.size >= config.minExposures
+  );
+
+  const windows = CORRELATION_WINDOWS.filter(w =>
+    config.windows.includes(w.name)
+  );
+  const results: SuspectIngredient[] = [];
+  const byStrength = (a: SuspectIngredient, b: SuspectIngredient) =>
+    b.confidence - a.confidence || b.support - a.support;
+
+  windows.forEach(window => {
+    const windowResults: SuspectIngredient[] = [];
+
+    targets.forEach(series => {
+      // Which meals were followed by this target in this window
+      const hitMeals = meals.map(meal =>
+        occursInWindow(series.times, meal.time, window)
+      );
+      const totalHits = hitMeals.filter(Boolean).length;
+      if (totalHits < config.minSupport) return;
+
+      eligibleSubjects.forEach(({ subject, subjectType, meals: exposed }) => {
+        let support = 0;
+        exposed.forEach(index => {
+          if (hitMeals[index]) support++;
+        });
+        if (support < config.minSupport) return;
+
+        const exposures = exposed.size;
+        const unexposed = meals.length - exposures;
+        // Eaten at every meal: nothing to compare against
+        if (unexposed === 0) return;
+
+        const exposedRate = support / exposures;
+        const baselineRate = (totalHits - support) / unexposed;
+        const confidence = scoreConfidence(support, exposures, baselineRate);
+        if (confidence < config.minConfidence) return;
+
+        windowResults.push({
+          subject,
+          subjectType,
+          zone: zones.get(
+            subjectType === 'group' ? `group:${subject}` : subject
+          ),
+          target: series.target,
+          targetType: series.targetType,
+          targetName: series.targetName,
+          window: window.name,
+          exposures,
+          support,
+          exposedRate,
+          baselineRate,
+          relativeRisk:
+            baselineRate > 0
+              ? exposedRate / baselineRate
+              : Number.POSITIVE_INFINITY,
+          confidence,
+        });
+      });
+    });
+
+    results.push(...windowResults.sort(byStrength).slice(0, config.limit));
+  });
+
+  return results.sort(byStrength);
+}
+
+/**
+ * Convenience filter for one window and, optionally, one symptom category
+ */
+export function getSuspectsForWindow(
+  suspects: SuspectIngredient[],
+  window: CorrelationWindow,
+  category?: SymptomCategory
+): SuspectIngredient[] {
+  return suspects.filter(
+    s =>
+      s.window === window &&
+      (!category || (s.targetType === 'category' && s.target === category))
+  );
+}
+
+// Signals after each day's last meal, up to TIMING_EFFECT_HOURS later
+const TIMING_WINDOW = {
+  startHours: 0,
+  endHours: APP_CONFIG.MEAL.TIMING_EFFECT_HOURS,
+};
+
+function compareTimingDays(
+  timings: DailyMealTiming[],
+  series: TargetSeries,
+  exposure: MealTimingExposureInfo
+): TimingCorrelation | null {
+  let exposures = 0;
+  let support = 0;
+  let totalHits = 0;
+  timings.forEach(timing => {
+    const hit = occursInWindow(
+      series.times,
+      new Date(timing.lastMeal).getTime(),
+      TIMING_WINDOW
+    );
+    if (hit) totalHits++;
+    if (exposure.test(timing)) {
+      exposures++;
+      if (hit) support++;
+    }
+  });
+
+  const unexposed = timings.length - exposures;
+  // Every day or no day shows the pattern: nothing to compare against
+  if (exposures === 0 || unexposed === 0) return null;
+
+  const exposedRate = support / exposures;
+  const baselineRate = (totalHits - support) / unexposed;
+
+  return {
+    exposure: exposure.name,
+    exposureName: exposure.displayName,
+    target: series.target,
+    targetType: series.targetType,
+    targetName: series.targetName,
+    exposures,
+    support,
+    exposedRate,
+    baselineRate,
+    relativeRisk:
+      baselineRate > 0 ? exposedRate / baselineRate : Number.POSITIVE_INFINITY,
+    confidence: scoreConfidence(support, exposures, baselineRate),
+  };
+}
+
+/**
+ * Test one meal timing hypothesis, e.g. "late dinners precede poor sleep" as
+ * { exposure: 'late_eating', target: 'insomnia', targetType: 'symptom' }
+ *
+ * Days showing the pattern count as exposures and are compared with days
+ * that don't; a day is a hit when the target is logged within
+ * TIMING_EFFECT_HOURS after its last meal.
+ *
+ * @param timings - Daily meal timings (see buildMealTimings)
+ * @param symptoms - Symptom entries to analyze
+ * @param hypothesis - Timing pattern and target symptom or category
+ * @returns The comparison, or null when there are no days on one side
+ */
+export function testTimingHypothesis(
+  timings: DailyMealTiming[],
+  symptoms: Symptom[],
+  hypothesis: TimingHypothesis
+): TimingCorrelation | null {
+  const exposure = MEAL_TIMING_EXPOSURES.find(
+    e => e.name === hypothesis.exposure
+  );
+  if (!exposure) return null;
+
+  const series = buildTargets(symptoms || []).find(
+    s =>
+      s.target === hypothesis.target && s.targetType === hypothesis.targetType
+  ) ?? {
+    target: hypothesis.target,
+    targetType: hypothesis.targetType,
+    targetName: hypothesis.target,
+    times: [],
+  };
+
+  return compareTimingDays(timings, series, exposure);
+}
+
+/**
+ * Rank every meal timing pattern against every symptom category and
+ * symptom_id, with the same thresholds as computeSuspectIngredients
+ * (exposures and support counted in days)
+ *
+ * @returns Correlations sorted by confidence, then support
+ */
+export function computeTimingCorrelations(
+  timings: DailyMealTiming[],
+  symptoms: Symptom[],
+  options: Pick<
+    CorrelationOptions,
+    'minExposures' | 'minSupport' | 'minConfidence' | 'limit'
+  > = {}
+): TimingCorrelation[] {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const targets = buildTargets(symptoms || []);
+
+  if (timings.length === 0 || targets.length === 0) return [];
+
+  const results: TimingCorrelation[] = [];
+  MEAL_TIMING_EXPOSURES.forEach(exposure => {
+    targets.forEach(series => {
+      const result = compareTimingDays(timings, series, exposure);
+      if (
+        result &&
+        result.exposures >= config.minExposures &&
+        result.support >= config.minSupport &&
+        result.confidence >= config.minConfidence
+      ) {
+        results.push(result);
+      }
+    });
+  });
+
+  return results
+    .sort((a, b) => b.confidence - a.confidence || b.support - a.support)
+    .slice(0, config.limit);
+}
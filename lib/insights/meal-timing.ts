@@ -0,0 +1,207 @@
+/**
+ * Meal timing
+ * When eating happens each day: the first and last meal, the eating window
+ * between them, the overnight fast before the first meal and late-night
+ * eating, following the "How to Eat for Healing" section of the Body Compass
+ * spec. Days are the user's day buckets, so with a 4 AM day start a 1 AM
+ * snack is the previous evening's (late) last meal. Beverages are left out;
+ * a glass of water doesn't open or extend the eating window.
+ */
+
+import type { Food } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { isBeverage } from '@/lib/hydration/hydration';
+import { getZonedDateParts } from '@/lib/utils/date-utils';
+import {
+  groupByDay,
+  shiftDayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+
+const {
+  LATE_EATING_HOUR,
+  LONG_EATING_WINDOW_HOURS,
+  SHORT_OVERNIGHT_FAST_HOURS,
+} = APP_CONFIG.MEAL;
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface DailyMealTiming {
+  day: string; // Day key in the user's day buckets
+  meals: number;
+  firstMeal: string; // ISO timestamp
+  lastMeal: string; // ISO timestamp
+  firstMealMinutes: number; // Local clock time, minutes after midnight
+  lastMealMinutes: number; // Local clock time, minutes after midnight
+  eatingWindowMinutes: number; // First to last meal
+  overnightFastMinutes: number | null; // Since the previous day's last meal; null when that day has no meals
+  lateNight: boolean; // Last meal at or after LATE_EATING_HOUR
+}
+
+export interface MealTimingSummary {
+  days: number; // Days with meals
+  averageFirstMealMinutes: number | null; // Local clock time
+  averageLastMealMinutes: number | null; // Local clock time
+  averageEatingWindowMinutes: number | null;
+  averageOvernightFastMinutes: number | null;
+  lateNightDays: number;
+}
+
+export type MealTimingExposure =
+  | 'late_eating'
+  | 'long_eating_window'
+  | 'short_overnight_fast';
+
+export interface MealTimingExposureInfo {
+  name: MealTimingExposure;
+  displayName: string;
+  test: (timing: DailyMealTiming) => boolean;
+}
+
+// Day-level patterns the correlation engine can test against signals
+export const MEAL_TIMING_EXPOSURES: MealTimingExposureInfo[] = [
+  {
+    name: 'late_eating',
+    displayName: 'Late-night eating',
+    test: timing => timing.lateNight,
+  },
+  {
+    name: 'long_eating_window',
+    displayName: `Eating window over ${LONG_EATING_WINDOW_HOURS}h`,
+    test: timing => timing.eatingWindowMinutes > LONG_EATING_WINDOW_HOURS * 60,
+  },
+  {
+    name: 'short_overnight_fast',
+    displayName: `Overnight fast under ${SHORT_OVERNIGHT_FAST_HOURS}h`,
+    test: timing =>
+      timing.overnightFastMinutes !== null &&
+      timing.overnightFastMinutes < SHORT_OVERNIGHT_FAST_HOURS * 60,
+  },
+];
+
+// Minutes since the start of the user's day, so 1 AM sorts after 11 PM
+const toDayMinutes = (clockMinutes: number, startHour: number) =>
+  (clockMinutes - startHour * 60 + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+const toClockMinutes = (dayMinutes: number, startHour: number) =>
+  (dayMinutes + startHour * 60) % MINUTES_PER_DAY;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : null;
+
+/**
+ * Timing of each day with meals, oldest first
+ *
+ * @param foods - Food entries to analyze; beverages are skipped
+ * @param boundary - The user's timezone and day-start hour
+ */
+export function buildMealTimings(
+  foods: Food[],
+  boundary: DayBoundary
+): DailyMealTiming[] {
+  const meals = foods.filter(
+    food => !isBeverage(food) && !isNaN(new Date(food.timestamp).getTime())
+  );
+  const mealsByDay = groupByDay(meals, boundary);
+
+  const lastMealTime = (day: string) => {
+    const dayMeals = mealsByDay.get(day);
+    if (!dayMeals) return null;
+    return Math.max(
+      ...dayMeals.map(food => new Date(food.timestamp).getTime())
+    );
+  };
+
+  return Array.from(mealsByDay.keys())
+    .sort()
+    .map(day => {
+      const times = mealsByDay
+        .get(day)!
+        .map(food => new Date(food.timestamp).getTime())
+        .sort((a, b) => a - b);
+      const first = times[0];
+      const last = times[times.length - 1];
+      const previousLast = lastMealTime(shiftDayKey(day, -1));
+      const lastMealMinutes = getZonedDateParts(
+        new Date(last),
+        boundary.timeZone
+      ).minutes;
+
+      return {
+        day,
+        meals: times.length,
+        firstMeal: new Date(first).toISOString(),
+        lastMeal: new Date(last).toISOString(),
+        firstMealMinutes: getZonedDateParts(new Date(first), boundary.timeZone)
+          .minutes,
+        lastMealMinutes,
+        eatingWindowMinutes: Math.round((last - first) / MINUTE_MS),
+        overnightFastMinutes:
+          previousLast !== null
+            ? Math.round((first - previousLast) / MINUTE_MS)
+            : null,
+        lateNight:
+          toDayMinutes(lastMealMinutes, boundary.startHour) >=
+          toDayMinutes(LATE_EATING_HOUR * 60, boundary.startHour),
+      };
+    });
+}
+
+/**
+ * Averages over the given days
+ * Meal times are averaged within the user's day, so a 1 AM snack pulls the
+ * average last meal later rather than towards the morning.
+ */
+export function summarizeMealTiming(
+  timings: DailyMealTiming[],
+  boundary: DayBoundary
+): MealTimingSummary {
+  const averageClock = (minutes: number[]) => {
+    const dayAverage = average(
+      minutes.map(value => toDayMinutes(value, boundary.startHour))
+    );
+    return dayAverage === null
+      ? null
+      : toClockMinutes(dayAverage, boundary.startHour);
+  };
+
+  return {
+    days: timings.length,
+    averageFirstMealMinutes: averageClock(
+      timings.map(timing => timing.firstMealMinutes)
+    ),
+    averageLastMealMinutes: averageClock(
+      timings.map(timing => timing.lastMealMinutes)
+    ),
+    averageEatingWindowMinutes: average(
+      timings.map(timing => timing.eatingWindowMinutes)
+    ),
+    averageOvernightFastMinutes: average(
+      timings.flatMap(timing =>
+        timing.overnightFastMinutes !== null
+          ? [timing.overnightFastMinutes]
+          : []
+      )
+    ),
+    lateNightDays: timings.filter(timing => timing.lateNight).length,
+  };
+}
+
+// e.g. "8:30 PM"
+export function formatClockMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  const rest = minutes % 60;
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(rest).padStart(2, '0')} ${period}`;
+}
+
+// e.g. "13h 30m"
+export function formatTimingDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
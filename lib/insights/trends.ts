@@ -0,0 +1,232 @@
+/**
+ * Insight trends
+ * Shapes the per-day aggregates from the trend RPCs (migration 025) into
+ * chart series. The database does the counting, so a 90-day chart costs a
+ * few hundred rows rather than the whole history; this module only fills in
+ * empty days, turns counts into shares and lays out the heatmap.
+ */
+
+import type { Food } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { SYMPTOM_CATEGORIES } from '@/lib/symptoms/symptom-index';
+import {
+  dayKeyToDate,
+  getDayRange,
+  getTodayKey,
+  shiftDayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+
+export type TrendRangeDays = (typeof APP_CONFIG.INSIGHTS.RANGE_DAYS)[number];
+
+// RPC rows; `day` is a day key in the caller's timezone
+export interface ZoneTrendRow {
+  day: string;
+  green: number;
+  yellow: number;
+  red: number;
+  unzoned: number;
+  organic: number;
+  total: number;
+}
+
+export interface SymptomCategoryRow {
+  day: string;
+  category: string;
+  count: number;
+}
+
+export interface MealTimeRow {
+  hour: number; // Local hour of day, 0-23
+  meal_type: Food['meal_type'] | null;
+  count: number;
+}
+
+export interface InsightTrendRows {
+  zones: ZoneTrendRow[];
+  symptoms: SymptomCategoryRow[];
+  mealTimes: MealTimeRow[];
+}
+
+export interface TrendRange {
+  days: string[]; // Every day key in the range, oldest first
+  from: string; // ISO instant the first day starts
+  to: string; // ISO instant after the last day ends (exclusive)
+}
+
+// Share of the day's ingredients per zone, in percent
+export interface ZoneRatioPoint {
+  day: string;
+  green: number;
+  yellow: number;
+  red: number;
+  unzoned: number;
+  total: number; // Ingredients logged that day
+}
+
+export interface OrganicPoint {
+  day: string;
+  organicPercentage: number | null; // null on days without ingredients
+}
+
+export interface SymptomHeatmapRow {
+  category: string;
+  label: string;
+  counts: number[]; // One per day of the range
+}
+
+export interface SymptomHeatmap {
+  days: string[];
+  rows: SymptomHeatmapRow[];
+  max: number; // Highest single-day count, for shading
+}
+
+export type MealTimeSeries = NonNullable<Food['meal_type']> | 'other';
+
+export const MEAL_TIME_SERIES: readonly MealTimeSeries[] = [
+  'breakfast',
+  'lunch',
+  'dinner',
+  'snack',
+  'beverage',
+  'other',
+];
+
+export type MealTimePoint = { hour: number; label: string } & Record<
+  MealTimeSeries,
+  number
+>;
+
+export interface InsightTrends {
+  zoneRatios: ZoneRatioPoint[];
+  organic: OrganicPoint[];
+  symptomHeatmap: SymptomHeatmap;
+  mealTimes: MealTimePoint[];
+  daysWithFoods: number;
+}
+
+/**
+ * The last `length` days up to and including today
+ */
+export function getTrendRange(
+  length: number,
+  boundary: DayBoundary,
+  now: Date = new Date()
+): TrendRange {
+  const today = getTodayKey(boundary, now);
+  const days = Array.from({ length }, (_, index) =>
+    shiftDayKey(today, index + 1 - length)
+  );
+  return {
+    days,
+    from: getDayRange(days[0], boundary).start,
+    to: getDayRange(today, boundary).end,
+  };
+}
+
+const toPercent = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+
+// "Jul 4"
+export function formatTrendDay(day: string): string {
+  return dayKeyToDate(day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// "6 AM", "12 PM"
+export function formatHour(hour: number): string {
+  return `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+function buildSymptomHeatmap(
+  rows: SymptomCategoryRow[],
+  days: string[]
+): SymptomHeatmap {
+  const dayIndex = new Map(days.map((day, index) => [day, index]));
+  // Built-in categories always get a row; anything else only when logged
+  const categories: { category: string; label: string }[] = [
+    ...SYMPTOM_CATEGORIES.map(({ name, displayName }) => ({
+      category: name,
+      label: displayName,
+    })),
+    ...[...new Set(rows.map(row => row.category))]
+      .filter(category => !SYMPTOM_CATEGORIES.some(c => c.name === category))
+      .map(category => ({ category, label: category })),
+  ];
+
+  const heatmapRows = categories.map(({ category, label }) => {
+    const counts = days.map(() => 0);
+    rows
+      .filter(row => row.category === category)
+      .forEach(row => {
+        const index = dayIndex.get(row.day);
+        if (index !== undefined) counts[index] += row.count;
+      });
+    return { category, label, counts };
+  });
+
+  return {
+    days,
+    rows: heatmapRows,
+    max: Math.max(0, ...heatmapRows.flatMap(row => row.counts)),
+  };
+}
+
+function buildMealTimes(rows: MealTimeRow[]): MealTimePoint[] {
+  const points: MealTimePoint[] = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    label: formatHour(hour),
+    breakfast: 0,
+    lunch: 0,
+    dinner: 0,
+    snack: 0,
+    beverage: 0,
+    other: 0,
+  }));
+  rows.forEach(row => {
+    const point = points[row.hour];
+    if (point) point[row.meal_type ?? 'other'] += row.count;
+  });
+  return points;
+}
+
+/**
+ * Chart series for a range, with empty days filled in
+ */
+export function buildInsightTrends(
+  rows: InsightTrendRows,
+  range: Pick<TrendRange, 'days'>
+): InsightTrends {
+  const zonesByDay = new Map(rows.zones.map(row => [row.day, row]));
+
+  const zoneRatios = range.days.map(day => {
+    const row = zonesByDay.get(day);
+    const total = row?.total ?? 0;
+    return {
+      day,
+      green: toPercent(row?.green ?? 0, total),
+      yellow: toPercent(row?.yellow ?? 0, total),
+      red: toPercent(row?.red ?? 0, total),
+      unzoned: toPercent(row?.unzoned ?? 0, total),
+      total,
+    };
+  });
+
+  const organic = range.days.map(day => {
+    const row = zonesByDay.get(day);
+    return {
+      day,
+      organicPercentage: row?.total ? toPercent(row.organic, row.total) : null,
+    };
+  });
+
+  return {
+    zoneRatios,
+    organic,
+    symptomHeatmap: buildSymptomHeatmap(rows.symptoms, range.days),
+    mealTimes: buildMealTimes(rows.mealTimes),
+    daysWithFoods: zoneRatios.filter(point => point.total > 0).length,
+  };
+}
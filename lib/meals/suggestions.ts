@@ -0,0 +1,168 @@
+/**
+ * Quick-log meal suggestions
+ * Ranks saved templates and frequently logged meals by how often they were
+ * eaten around the current time of day, then by overall frequency.
+ */
+
+import type { Food, Ingredient, MealTemplate } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { getZonedDateParts } from '@/lib/utils/date-utils';
+import type { DayBoundary } from '@/lib/utils/day-buckets';
+
+const {
+  SUGGESTION_LOOKBACK_DAYS,
+  SUGGESTION_WINDOW_HOURS,
+  MAX_SUGGESTIONS,
+  USUAL_MEAL_MIN_COUNT,
+} = APP_CONFIG.MEAL;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface MealSuggestion {
+  key: string; // Normalized meal name
+  name: string;
+  ingredients: Ingredient[];
+  meal_type?: Food['meal_type'];
+  photo_url?: string;
+  image_urls?: string[];
+  templateId?: string; // Set when a saved template backs this suggestion
+  timesLogged: number; // Within the lookback window
+  timesAroundNow: number; // Logged within the time-of-day window of now
+  lastLoggedAt?: string;
+  label?: string; // e.g. "Your usual breakfast"
+}
+
+export function normalizeMealName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Local clock time in the user's timezone, minutes after midnight
+const clockMinutes = (date: Date, timeZone: string) =>
+  getZonedDateParts(date, timeZone).minutes;
+
+// Minutes between two times of day, wrapping at midnight
+function minutesApart(a: Date, b: Date, timeZone: string): number {
+  const diff = Math.abs(clockMinutes(a, timeZone) - clockMinutes(b, timeZone));
+  return Math.min(diff, MINUTES_PER_DAY - diff);
+}
+
+// Meal type when logged, otherwise a guess from the hour
+function describeMealSlot(
+  mealType: Food['meal_type'] | null | undefined,
+  now: Date,
+  timeZone: string
+): string {
+  if (mealType && mealType !== 'beverage') return mealType;
+  if (mealType === 'beverage') return 'drink';
+  const hour = Math.floor(clockMinutes(now, timeZone) / 60);
+  if (hour >= 5 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 16 && hour < 22) return 'dinner';
+  return 'snack';
+}
+
+function score(suggestion: MealSuggestion): number {
+  return (
+    suggestion.timesAroundNow * 3 +
+    suggestion.timesLogged +
+    (suggestion.templateId ? 1 : 0)
+  );
+}
+
+/**
+ * Rank meals to offer for one-tap logging
+ * @param foods - The user's food history, in any order
+ * @param templates - Saved meal templates
+ * @param boundary - The user's timezone, for times of day
+ * @param now - Reference time for the time-of-day window
+ * @returns At most MAX_SUGGESTIONS suggestions, best first
+ */
+export function suggestMeals(
+  foods: Food[],
+  templates: MealTemplate[],
+  boundary: DayBoundary,
+  now: Date = new Date()
+): MealSuggestion[] {
+  const since = now.getTime() - SUGGESTION_LOOKBACK_DAYS * DAY_MS;
+  const windowMinutes = SUGGESTION_WINDOW_HOURS * 60;
+  const byKey = new Map<string, MealSuggestion>();
+
+  // Newest first, so the first entry seen for a name is the one to copy
+  const history = foods
+    .filter(
+      food =>
+        food.status === 'processed' &&
+        !food.pending_sync &&
+        (food.ingredients?.length ?? 0) > 0 &&
+        new Date(food.timestamp).getTime() >= since
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  history.forEach(food => {
+    const key = normalizeMealName(food.name);
+    const aroundNow =
+      minutesApart(new Date(food.timestamp), now, boundary.timeZone) <=
+      windowMinutes
+        ? 1
+        : 0;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.timesLogged += 1;
+      existing.timesAroundNow += aroundNow;
+      return;
+    }
+    byKey.set(key, {
+      key,
+      name: food.name,
+      ingredients: food.ingredients,
+      meal_type: food.meal_type,
+      photo_url: food.photo_url,
+      image_urls: food.image_urls,
+      timesLogged: 1,
+      timesAroundNow: aroundNow,
+      lastLoggedAt: food.timestamp,
+    });
+  });
+
+  // A template replaces the history entry with the same name
+  templates.forEach(template => {
+    const key = normalizeMealName(template.name);
+    const existing = byKey.get(key);
+    byKey.set(key, {
+      key,
+      name: template.name,
+      ingredients: template.ingredients,
+      meal_type: template.meal_type ?? undefined,
+      photo_url: template.photo_url ?? undefined,
+      image_urls: template.photo_url ? [template.photo_url] : undefined,
+      templateId: template.id,
+      timesLogged: existing?.timesLogged ?? 0,
+      timesAroundNow: existing?.timesAroundNow ?? 0,
+      lastLoggedAt:
+        existing?.lastLoggedAt ?? template.last_used_at ?? undefined,
+    });
+  });
+
+  const ranked = [...byKey.values()]
+    .filter(suggestion => suggestion.templateId || suggestion.timesLogged > 1)
+    .sort(
+      (a, b) =>
+        score(b) - score(a) ||
+        (b.lastLoggedAt ?? '').localeCompare(a.lastLoggedAt ?? '') ||
+        a.name.localeCompare(b.name)
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  // Only the strongest habit earns the "usual" label
+  const usual = ranked.find(s => s.timesAroundNow >= USUAL_MEAL_MIN_COUNT);
+  if (usual) {
+    usual.label = `Your usual ${describeMealSlot(
+      usual.meal_type,
+      now,
+      boundary.timeZone
+    )}`;
+  }
+
+  return ranked;
+}
@@ -6,7 +6,7 @@
 import { logger } from '@/lib/utils/logger';
 
 export interface AIPerformanceMetrics {
-  service: 'image-analysis' | 'ingredient-zoning';
+  service: 'image-analysis' | 'label-analysis' | 'ingredient-zoning';
   startTime: number;
   endTime?: number;
   duration?: number;
@@ -44,6 +44,7 @@ class AIPerformanceMonitor {
   constructor() {
     // Initialize service stats
     this.metrics.set('image-analysis', this.createEmptyStats());
+    this.metrics.set('label-analysis', this.createEmptyStats());
     this.metrics.set('ingredient-zoning', this.createEmptyStats());
 
     // Set up periodic cleanup
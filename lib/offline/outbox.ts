@@ -0,0 +1,234 @@
+/**
+ * Offline outbox
+ * IndexedDB-backed queue of writes made without a connection. Every entry
+ * carries the client-generated IDs it will write with, so replaying an entry
+ * that already reached Supabase is harmless.
+ */
+
+import type { Food, Symptom } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { zoneIngredientsFromDictionary } from '@/lib/zoning/ingredient-dictionary';
+
+// New food as passed to addFood; captured images wait in the outbox with it
+export type NewFood = Omit<Food, 'id' | 'timestamp'> & {
+  image?: string;
+  images?: string[];
+};
+
+export type NewSymptom = Omit<Symptom, 'id'> & { id: string };
+
+export type OutboxOperation =
+  | { type: 'addFood'; foodId: string; timestamp: string; food: NewFood }
+  | { type: 'addSymptoms'; symptoms: NewSymptom[] }
+  | { type: 'updateFood'; foodId: string; updates: Partial<Omit<Food, 'id'>> }
+  | { type: 'deleteSymptom'; symptomId: string };
+
+export interface OutboxEntry {
+  seq?: number; // Auto-incremented by IndexedDB, preserves replay order
+  operation: OutboxOperation;
+  createdAt: string; // ISO 8601 string
+  attempts: number; // Failed replays (network failures are not counted)
+  lastError?: string;
+  deadLettered?: boolean; // Gave up syncing; kept until the user retries or discards it
+}
+
+const { DB_NAME, DB_VERSION, OUTBOX_STORE } = APP_CONFIG.OFFLINE;
+
+export function isOutboxAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Whether a failed write should be queued rather than reported
+ * Covers fetch failures from Supabase, Storage and our own API routes:
+ * fetch rejects with a TypeError, and Supabase Auth wraps it (and gateway
+ * errors) in AuthRetryableFetchError. PostgREST returns the failure as a
+ * plain error object, so only its message is left to match.
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (isOffline()) return true;
+  if (!error || typeof error !== 'object') return false;
+  if (
+    error instanceof TypeError ||
+    (error as { name?: unknown }).name === 'AuthRetryableFetchError'
+  ) {
+    return true;
+  }
+
+  const message = String((error as { message?: unknown }).message ?? '');
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(
+    message
+  );
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(OUTBOX_STORE)) {
+          request.result.createObjectStore(OUTBOX_STORE, {
+            keyPath: 'seq',
+            autoIncrement: true,
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = createRequest(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function enqueueOperation(
+  operation: OutboxOperation
+): Promise<void> {
+  const entry: OutboxEntry = {
+    operation,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await runRequest('readwrite', store => store.add(entry));
+}
+
+/**
+ * All queued entries in the order they were made
+ * Returns an empty list where IndexedDB is unavailable (SSR, tests)
+ */
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  if (!isOutboxAvailable()) return [];
+  return runRequest(
+    'readonly',
+    store => store.getAll() as IDBRequest<OutboxEntry[]>
+  );
+}
+
+export async function removeOutboxEntry(seq: number): Promise<void> {
+  await runRequest('readwrite', store => store.delete(seq));
+}
+
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await runRequest('readwrite', store => store.put(entry));
+}
+
+// Food and symptom IDs an operation writes to
+export function getOperationEntryIds(operation: OutboxOperation): string[] {
+  switch (operation.type) {
+    case 'addFood':
+    case 'updateFood':
+      return [operation.foodId];
+    case 'addSymptoms':
+      return operation.symptoms.map(symptom => symptom.id);
+    case 'deleteSymptom':
+      return [operation.symptomId];
+  }
+}
+
+// Short label for an entry the user has to review, e.g. 'Meal "Lunch"'
+export function describeOperation(operation: OutboxOperation): string {
+  switch (operation.type) {
+    case 'addFood':
+      return `Meal "${operation.food.name}"`;
+    case 'addSymptoms':
+      return operation.symptoms.length === 1
+        ? `Signal "${operation.symptoms[0].name}"`
+        : `${operation.symptoms.length} signals`;
+    case 'updateFood':
+      return 'Edit to a meal';
+    case 'deleteSymptom':
+      return 'Removal of a signal';
+  }
+}
+
+/**
+ * Overlay queued writes on server data so unsynced entries show up
+ * Added entries are marked pending_sync; includeAdded filters them (e.g. today only).
+ * Dead-lettered entries will not sync on their own and are left out.
+ */
+export function applyPendingOperations(
+  foods: Food[],
+  symptoms: Symptom[],
+  entries: OutboxEntry[],
+  includeAdded: (timestamp: string) => boolean = () => true
+): { foods: Food[]; symptoms: Symptom[] } {
+  if (entries.length === 0) return { foods, symptoms };
+
+  let pendingFoods = [...foods];
+  let pendingSymptoms = [...symptoms];
+
+  entries.forEach(({ operation, deadLettered }) => {
+    if (deadLettered) return;
+    switch (operation.type) {
+      case 'addFood': {
+        if (!includeAdded(operation.timestamp)) break;
+        const { image, images, ...food } = operation.food;
+        const preview = images?.[0] ?? image;
+        // Dictionary zoning works offline; the rest is zoned on sync
+        const { ingredients } = zoneIngredientsFromDictionary(food.ingredients);
+        pendingFoods.push({
+          ...food,
+          id: operation.foodId,
+          timestamp: operation.timestamp,
+          ingredients,
+          photo_url: preview,
+          status: ingredients.some(ing => ing.zone === 'unzoned')
+            ? 'analyzing'
+            : 'processed',
+          pending_sync: true,
+        });
+        break;
+      }
+      case 'addSymptoms':
+        operation.symptoms
+          .filter(symptom => includeAdded(symptom.timestamp))
+          .forEach(symptom =>
+            pendingSymptoms.push({ ...symptom, pending_sync: true })
+          );
+        break;
+      case 'updateFood':
+        pendingFoods = pendingFoods.map(food =>
+          food.id === operation.foodId
+            ? { ...food, ...operation.updates, pending_sync: true }
+            : food
+        );
+        break;
+      case 'deleteSymptom':
+        pendingSymptoms = pendingSymptoms.filter(
+          symptom => symptom.id !== operation.symptomId
+        );
+        break;
+    }
+  });
+
+  // Keep the newest-first order the server queries use
+  const newestFirst = (a: { timestamp: string }, b: { timestamp: string }) =>
+    b.timestamp.localeCompare(a.timestamp);
+
+  return {
+    foods: pendingFoods.sort(newestFirst),
+    symptoms: pendingSymptoms.sort(newestFirst),
+  };
+}
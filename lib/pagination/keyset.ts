@@ -0,0 +1,47 @@
+/**
+ * Keyset pagination for food and symptom entries
+ * Pages run newest first by (timestamp, id), with ties on timestamp broken by
+ * id (migration 026 indexes both). The cursor is the last entry of the
+ * previous page, so entries logged between requests never shift a page the
+ * way an offset would.
+ */
+
+export interface EntryCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface EntryPage<T> {
+  items: T[];
+  nextCursor: EntryCursor | null; // Null on the last page
+}
+
+/**
+ * PostgREST `or` filter for the entries that come after the cursor
+ * Values are quoted because timestamps contain characters PostgREST treats
+ * as syntax.
+ */
+export function getCursorFilter(cursor: EntryCursor): string {
+  const timestamp = `"${cursor.timestamp}"`;
+  return `timestamp.lt.${timestamp},and(timestamp.eq.${timestamp},id.lt."${cursor.id}")`;
+}
+
+/**
+ * Trim a page fetched with one extra row; the extra row only tells whether
+ * another page exists
+ */
+export function toEntryPage<T extends EntryCursor>(
+  rows: T[],
+  limit: number
+): EntryPage<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last
+        ? { timestamp: last.timestamp, id: last.id }
+        : null,
+  };
+}
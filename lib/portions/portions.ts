@@ -0,0 +1,176 @@
+/**
+ * Portion sizes
+ * Converts ingredient quantities to rough grams so zone statistics can weigh a
+ * plate of pasta above a pinch of salt, and scales portions for recipes.
+ */
+
+import type {
+  FoodStats,
+  FoodStatsWeighting,
+  Ingredient,
+  IngredientUnit,
+  UserSettings,
+} from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+
+const { GRAMS_PER_UNIT, DEFAULT_PORTION_GRAMS, MAX_QUANTITY, GRAMS_PER_OZ } =
+  APP_CONFIG.PORTION;
+
+export const INGREDIENT_UNITS = Object.keys(GRAMS_PER_UNIT) as IngredientUnit[];
+
+const UNIT_LABELS: Record<IngredientUnit, [string, string]> = {
+  g: ['g', 'g'],
+  ml: ['ml', 'ml'],
+  cup: ['cup', 'cups'],
+  piece: ['piece', 'pieces'],
+};
+
+const UNIT_ALIASES: Record<string, IngredientUnit> = {
+  g: 'g',
+  gram: 'g',
+  grams: 'g',
+  ml: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  cup: 'cup',
+  cups: 'cup',
+  piece: 'piece',
+  pieces: 'piece',
+  pc: 'piece',
+  pcs: 'piece',
+};
+
+export function isIngredientUnit(value: unknown): value is IngredientUnit {
+  return typeof value === 'string' && value in GRAMS_PER_UNIT;
+}
+
+/**
+ * Validate a quantity and unit from user input or AI output
+ * Returns undefined unless both are usable (positive, bounded, known unit).
+ */
+export function parsePortion(
+  quantity: unknown,
+  unit: unknown
+): Pick<Ingredient, 'quantity' | 'unit'> | undefined {
+  const amount = typeof quantity === 'string' ? Number(quantity) : quantity;
+  const normalizedUnit =
+    typeof unit === 'string' ? UNIT_ALIASES[unit.trim().toLowerCase()] : null;
+  if (
+    typeof amount !== 'number' ||
+    !Number.isFinite(amount) ||
+    amount <= 0 ||
+    amount > MAX_QUANTITY ||
+    !normalizedUnit
+  ) {
+    return undefined;
+  }
+  return { quantity: Math.round(amount * 100) / 100, unit: normalizedUnit };
+}
+
+// "150 g", "1.5 cups", "1 piece"
+export function formatPortion(
+  ingredient: Pick<Ingredient, 'quantity' | 'unit'>
+): string | null {
+  if (!ingredient.quantity || !ingredient.unit) return null;
+  const [singular, plural] = UNIT_LABELS[ingredient.unit];
+  return `${ingredient.quantity} ${ingredient.quantity === 1 ? singular : plural}`;
+}
+
+/**
+ * Approximate grams eaten; ingredients without a quantity count as a default portion
+ */
+export function getIngredientGrams(ingredient: Ingredient): number {
+  if (!ingredient.quantity || !isIngredientUnit(ingredient.unit)) {
+    return DEFAULT_PORTION_GRAMS;
+  }
+  return ingredient.quantity * GRAMS_PER_UNIT[ingredient.unit];
+}
+
+export function getIngredientWeight(
+  ingredient: Ingredient,
+  weighting: FoodStatsWeighting = 'count'
+): number {
+  return weighting === 'quantity' ? getIngredientGrams(ingredient) : 1;
+}
+
+// Recipe servings multiply the stored portion; unknown portions stay unknown
+export function scaleIngredient(
+  ingredient: Ingredient,
+  scale: number
+): Ingredient {
+  if (!ingredient.quantity || scale === 1) return { ...ingredient };
+  return {
+    ...ingredient,
+    quantity: Math.round(ingredient.quantity * scale * 100) / 100,
+  };
+}
+
+const ZONES: Ingredient['zone'][] = ['green', 'yellow', 'red', 'unzoned'];
+
+export interface ZoneTotals {
+  green: number;
+  yellow: number;
+  red: number;
+  unzoned: number;
+  organic: number;
+  total: number;
+}
+
+/**
+ * Zone and organic totals for a set of ingredients
+ * Counts ingredients, or sums approximate grams with 'quantity' weighting.
+ */
+export function getZoneTotals(
+  ingredients: Ingredient[],
+  weighting: FoodStatsWeighting = 'count'
+): ZoneTotals {
+  const totals: ZoneTotals = {
+    green: 0,
+    yellow: 0,
+    red: 0,
+    unzoned: 0,
+    organic: 0,
+    total: 0,
+  };
+
+  ingredients.forEach(ingredient => {
+    const weight = getIngredientWeight(ingredient, weighting);
+    totals.total += weight;
+    if (ingredient.organic === true) totals.organic += weight;
+    if (ZONES.includes(ingredient.zone)) totals[ingredient.zone] += weight;
+  });
+
+  return totals;
+}
+
+export function calculateFoodStats(
+  ingredients: Ingredient[],
+  weighting: FoodStatsWeighting = 'count'
+): Omit<FoodStats, 'isFromSelectedDate'> {
+  const totals = getZoneTotals(ingredients, weighting);
+
+  return {
+    greenIngredients: totals.green,
+    yellowIngredients: totals.yellow,
+    redIngredients: totals.red,
+    totalIngredients: totals.total,
+    organicCount: totals.organic,
+    totalOrganicPercentage:
+      totals.total > 0 ? (totals.organic / totals.total) * 100 : 0,
+    weighting,
+  };
+}
+
+// Label for a weighted total: "3 ingredients", "~450 g" or "~16 oz"
+export function formatWeightedTotal(
+  total: number,
+  weighting: FoodStatsWeighting = 'count',
+  units: UserSettings['units'] = 'metric'
+): string {
+  if (weighting === 'quantity') {
+    return units === 'imperial'
+      ? `~${Math.round(total / GRAMS_PER_OZ)} oz`
+      : `~${Math.round(total)} g`;
+  }
+  return `${total} ingredient${total !== 1 ? 's' : ''}`;
+}
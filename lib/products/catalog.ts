@@ -0,0 +1,164 @@
+/**
+ * Product catalog for barcode lookups
+ * Providers are pluggable so tests (and offline setups) can swap the
+ * network-backed catalog for a local one
+ */
+
+import { logger } from '@/lib/utils/logger';
+import { normalizeGtin } from '@/lib/barcode/decoder';
+
+export interface ProductInfo {
+  barcode: string; // Normalized GTIN (13 digits for EAN-13/UPC-A)
+  name: string;
+  brand?: string;
+  ingredients: string[]; // Ingredient names in label order
+  source: string; // Provider that supplied the product
+}
+
+export interface ProductCatalogProvider {
+  name: string;
+  /**
+   * @returns The product, or null when the barcode is unknown
+   * @throws Error when the catalog cannot be reached
+   */
+  lookup(barcode: string): Promise<ProductInfo | null>;
+}
+
+/**
+ * Split a free-text ingredient list ("Water, sugar (cane), salt.") into names
+ * Commas inside brackets belong to sub-ingredients and don't split
+ */
+export function parseIngredientList(text: string): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+
+    if ((char === ',' || char === ';') && depth === 0) {
+      names.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+
+  return names
+    .map(name =>
+      name
+        .replace(/[_*]/g, '') // Allergen emphasis markers
+        .replace(/\.$/, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .filter(name => name.length > 0);
+}
+
+// Subset of the Open Food Facts v2 product response that we use
+interface OpenFoodFactsResponse {
+  status: number;
+  product?: {
+    product_name?: string;
+    generic_name?: string;
+    brands?: string;
+    ingredients_text?: string;
+    ingredients_text_en?: string;
+    ingredients?: Array<{ text?: string }>;
+  };
+}
+
+/**
+ * Open Food Facts catalog (https://world.openfoodfacts.org)
+ * Public, CORS-enabled and keyed by EAN, so it can be queried from the client
+ */
+export function createOpenFoodFactsProvider(
+  baseUrl = 'https://world.openfoodfacts.org'
+): ProductCatalogProvider {
+  return {
+    name: 'openfoodfacts',
+    async lookup(barcode) {
+      const code = normalizeGtin(barcode);
+      const response = await fetch(
+        `${baseUrl}/api/v2/product/${code}.json?fields=product_name,generic_name,brands,ingredients_text,ingredients_text_en,ingredients`
+      );
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Product lookup failed (${response.status})`);
+      }
+
+      const data: OpenFoodFactsResponse = await response.json();
+      if (data.status !== 1 || !data.product) return null;
+
+      const { product } = data;
+      const ingredientText =
+        product.ingredients_text_en || product.ingredients_text || '';
+      const ingredients = ingredientText
+        ? parseIngredientList(ingredientText)
+        : (product.ingredients || [])
+            .map(ing => ing.text?.trim() || '')
+            .filter(Boolean);
+
+      return {
+        barcode: code,
+        name: product.product_name || product.generic_name || 'Unknown product',
+        brand: product.brands?.split(',')[0]?.trim() || undefined,
+        ingredients,
+        source: 'openfoodfacts',
+      };
+    },
+  };
+}
+
+/**
+ * Catalog backed by an in-memory map of barcode -> product
+ * Used in tests and as an offline stand-in
+ */
+export function createLocalCatalogProvider(
+  products: Array<Omit<ProductInfo, 'source'>>
+): ProductCatalogProvider {
+  const byBarcode = new Map(
+    products.map(product => [normalizeGtin(product.barcode), product])
+  );
+
+  return {
+    name: 'local',
+    async lookup(barcode) {
+      const product = byBarcode.get(normalizeGtin(barcode));
+      return product
+        ? {
+            ...product,
+            barcode: normalizeGtin(product.barcode),
+            source: 'local',
+          }
+        : null;
+    },
+  };
+}
+
+let activeProvider: ProductCatalogProvider = createOpenFoodFactsProvider();
+
+export function getProductCatalog(): ProductCatalogProvider {
+  return activeProvider;
+}
+
+/**
+ * Replace the catalog used by lookupProduct (e.g. with a local provider)
+ */
+export function setProductCatalog(provider: ProductCatalogProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Look up a scanned barcode in the active catalog
+ */
+export async function lookupProduct(
+  barcode: string
+): Promise<ProductInfo | null> {
+  const provider = getProductCatalog();
+  logger.debug('Looking up product', { barcode, provider: provider.name });
+  return provider.lookup(barcode);
+}
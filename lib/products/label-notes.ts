@@ -0,0 +1,29 @@
+/**
+ * Label callouts in food notes
+ * Allergen statements and certifications read from a product label go into
+ * the entry's notes, after anything the user already wrote there.
+ */
+
+export interface LabelCallouts {
+  allergens: string[];
+  certifications: string[];
+}
+
+/**
+ * Add "Contains: ..." and "Certified: ..." lines to the notes
+ * Lines already in the notes (e.g. from analyzing the label again) are not
+ * repeated.
+ */
+export function appendLabelCallouts(
+  notes: string,
+  { allergens, certifications }: LabelCallouts
+): string {
+  const lines = [
+    allergens.length > 0 ? `Contains: ${allergens.join(', ')}` : null,
+    certifications.length > 0
+      ? `Certified: ${certifications.join(', ')}`
+      : null,
+  ].filter((line): line is string => !!line && !notes.includes(line));
+
+  return [notes.trim(), ...lines].filter(Boolean).join('\n');
+}
@@ -1,7 +1,9 @@
 import imageAnalysisPrompt from '../../prompts/image-analysis.md';
+import labelAnalysisPrompt from '../../prompts/label-analysis.md';
 import ingredientZoningPrompt from '../../prompts/ingredient-zoning.md';
 
 export const prompts = {
   imageAnalysis: imageAnalysisPrompt,
+  labelAnalysis: labelAnalysisPrompt,
   ingredientZoning: ingredientZoningPrompt,
 } as const;
@@ -0,0 +1,342 @@
+/**
+ * Big Reset elimination protocol
+ * Phase state machine, reintroduction scheduling and violation checks.
+ * Pure functions only - persistence lives in lib/db.ts
+ */
+
+import { PROTOCOL_CONFIG } from '@/lib/config/constants';
+import {
+  getDayKey,
+  shiftDayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+import type {
+  Food,
+  Ingredient,
+  Protocol,
+  ProtocolPhase,
+  ProtocolReintroduction,
+  ReintroductionOutcome,
+  Symptom,
+} from '@/lib/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Allowed forward transitions; maintenance is the final phase
+export const PROTOCOL_PHASE_TRANSITIONS: Record<
+  ProtocolPhase,
+  ProtocolPhase | null
+> = {
+  elimination: 'reintroduction',
+  reintroduction: 'maintenance',
+  maintenance: null,
+};
+
+export type ReintroductionStatus =
+  | 'observing'
+  | 'awaiting_outcome'
+  | 'complete';
+
+export interface ReintroductionProposal {
+  group: string;
+  exposures: number; // Meals containing the group, used for ordering
+}
+
+/**
+ * Build a new Big Reset protocol starting now
+ * Eliminates yellow and red zones for PROTOCOL_CONFIG.ELIMINATION_DAYS
+ */
+export function createBigResetProtocol(
+  now: Date = new Date(),
+  eliminatedGroups: string[] = []
+): Omit<Protocol, 'id'> {
+  return {
+    type: 'big_reset',
+    phase: 'elimination',
+    started_at: now.toISOString(),
+    elimination_ends_at: new Date(
+      now.getTime() + PROTOCOL_CONFIG.ELIMINATION_DAYS * DAY_MS
+    ).toISOString(),
+    eliminated_zones: ['yellow', 'red'],
+    eliminated_groups: eliminatedGroups,
+    reintroductions: [],
+  };
+}
+
+/**
+ * Whole days left in the elimination phase (0 once it has finished)
+ */
+export function getEliminationDaysRemaining(
+  protocol: Protocol,
+  now: Date = new Date()
+): number {
+  const remaining =
+    new Date(protocol.elimination_ends_at).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(remaining / DAY_MS));
+}
+
+/**
+ * The reintroduction currently under test, if any
+ * At most one reintroduction is without an outcome at a time
+ */
+export function getActiveReintroduction(
+  protocol: Protocol
+): ProtocolReintroduction | undefined {
+  return protocol.reintroductions.find(r => !r.outcome);
+}
+
+export function getReintroductionStatus(
+  reintroduction: ProtocolReintroduction,
+  now: Date = new Date()
+): ReintroductionStatus {
+  if (reintroduction.outcome) return 'complete';
+  return now.getTime() < new Date(reintroduction.observe_until).getTime()
+    ? 'observing'
+    : 'awaiting_outcome';
+}
+
+/**
+ * Check whether the protocol can move to its next phase
+ * @returns null when allowed, otherwise the reason it is blocked
+ */
+export function getPhaseAdvanceBlocker(
+  protocol: Protocol,
+  now: Date = new Date()
+): string | null {
+  switch (protocol.phase) {
+    case 'elimination':
+      return now.getTime() < new Date(protocol.elimination_ends_at).getTime()
+        ? 'Elimination phase has not finished yet'
+        : null;
+    case 'reintroduction':
+      return getActiveReintroduction(protocol)
+        ? 'Finish the current reintroduction before moving to maintenance'
+        : null;
+    case 'maintenance':
+      return 'Protocol is already in maintenance';
+  }
+}
+
+/**
+ * Move the protocol to its next phase
+ * @throws Error if the transition is not allowed yet
+ */
+export function advanceProtocolPhase(
+  protocol: Protocol,
+  now: Date = new Date()
+): Pick<Protocol, 'phase'> {
+  const blocker = getPhaseAdvanceBlocker(protocol, now);
+  const next = PROTOCOL_PHASE_TRANSITIONS[protocol.phase];
+  if (blocker || !next) {
+    throw new Error(blocker || 'Protocol is already in maintenance');
+  }
+  return { phase: next };
+}
+
+function isEliminated(protocol: Protocol, ingredient: Ingredient): boolean {
+  return (
+    (ingredient.zone !== 'green' &&
+      ingredient.zone !== 'unzoned' &&
+      protocol.eliminated_zones.includes(ingredient.zone)) ||
+    protocol.eliminated_groups.includes(ingredient.group)
+  );
+}
+
+/**
+ * Days to load for proposeNextReintroduction
+ * The range ends on the day the protocol started, so it holds the same meals
+ * however long the protocol has been running.
+ */
+export function getBaselineRange(
+  protocol: Pick<Protocol, 'started_at'>,
+  boundary: DayBoundary
+): { startDay: string; endDay: string } {
+  const endDay = getDayKey(protocol.started_at, boundary);
+  return {
+    startDay: shiftDayKey(endDay, 1 - PROTOCOL_CONFIG.BASELINE_DAYS),
+    endDay,
+  };
+}
+
+/**
+ * Propose the next yellow-zone group to reintroduce
+ * Only one group is tested at a time, so nothing is proposed while a
+ * reintroduction is still observing or waiting for its outcome.
+ * Groups the user ate most often before the protocol come first.
+ */
+export function proposeNextReintroduction(
+  protocol: Protocol,
+  foods: Food[]
+): ReintroductionProposal | null {
+  if (protocol.phase !== 'reintroduction') return null;
+  if (getActiveReintroduction(protocol)) return null;
+
+  const tested = new Set(protocol.reintroductions.map(r => r.group));
+  const exposures = new Map<string, number>();
+  const protocolStart = new Date(protocol.started_at).getTime();
+
+  // Meals logged since the protocol began say nothing about habits before it
+  (foods || [])
+    .filter(food => new Date(food.timestamp).getTime() < protocolStart)
+    .forEach(food => {
+      const groups = new Set(
+        (food.ingredients || [])
+          .filter(
+            ing =>
+              ing.zone === 'yellow' &&
+              ing.group &&
+              ing.group !== 'other' &&
+              !tested.has(ing.group) &&
+              isEliminated(protocol, ing)
+          )
+          .map(ing => ing.group)
+      );
+      groups.forEach(group => {
+        exposures.set(group, (exposures.get(group) || 0) + 1);
+      });
+    });
+
+  const [best] = Array.from(exposures.entries()).sort(
+    ([groupA, countA], [groupB, countB]) =>
+      countB - countA || groupA.localeCompare(groupB)
+  );
+
+  return best ? { group: best[0], exposures: best[1] } : null;
+}
+
+/**
+ * Start observing a reintroduced group
+ * @throws Error if not in the reintroduction phase or a test is in progress
+ */
+export function startReintroduction(
+  protocol: Protocol,
+  group: string,
+  now: Date = new Date()
+): Pick<Protocol, 'reintroductions'> {
+  if (protocol.phase !== 'reintroduction') {
+    throw new Error(
+      'Reintroductions can only start in the reintroduction phase'
+    );
+  }
+  if (getActiveReintroduction(protocol)) {
+    throw new Error('Another group is already being reintroduced');
+  }
+  if (protocol.reintroductions.some(r => r.group === group)) {
+    throw new Error(`${group} has already been reintroduced`);
+  }
+
+  return {
+    reintroductions: [
+      ...protocol.reintroductions,
+      {
+        group,
+        started_at: now.toISOString(),
+        observe_until: new Date(
+          now.getTime() +
+            PROTOCOL_CONFIG.REINTRODUCTION_OBSERVATION_HOURS * HOUR_MS
+        ).toISOString(),
+      },
+    ],
+  };
+}
+
+/**
+ * Record the outcome of the current reintroduction once its window closes
+ * @throws Error if nothing is being observed or the window is still open
+ */
+export function recordReintroductionOutcome(
+  protocol: Protocol,
+  outcome: ReintroductionOutcome,
+  now: Date = new Date()
+): Pick<Protocol, 'reintroductions'> {
+  const active = getActiveReintroduction(protocol);
+  if (!active) {
+    throw new Error('No reintroduction in progress');
+  }
+  if (getReintroductionStatus(active, now) === 'observing') {
+    throw new Error('Observation window has not finished yet');
+  }
+
+  return {
+    reintroductions: protocol.reintroductions.map(r =>
+      r === active ? { ...r, outcome, completed_at: now.toISOString() } : r
+    ),
+  };
+}
+
+/**
+ * Suggest an outcome from the signals logged during the observation window
+ */
+export function suggestReintroductionOutcome(
+  reintroduction: ProtocolReintroduction,
+  symptoms: Symptom[]
+): ReintroductionOutcome {
+  const start = new Date(reintroduction.started_at).getTime();
+  const end = new Date(reintroduction.observe_until).getTime();
+  const hasSignal = (symptoms || []).some(symptom => {
+    const time = new Date(symptom.timestamp).getTime();
+    return time >= start && time <= end;
+  });
+  return hasSignal ? 'reactive' : 'tolerated';
+}
+
+/**
+ * Ingredients in a food entry that break the protocol
+ *
+ * - elimination: any eliminated zone or group
+ * - reintroduction: same, except the group under test and tolerated groups
+ * - maintenance: only groups that were found reactive
+ *
+ * Foods logged before the elimination deadline use the elimination rules
+ * regardless of the protocol's current phase.
+ * Foods logged outside the protocol's lifetime never violate it.
+ */
+export function findProtocolViolations(
+  food: Food,
+  protocol: Protocol | null | undefined
+): Ingredient[] {
+  if (!protocol) return [];
+
+  const time = new Date(food.timestamp).getTime();
+  if (isNaN(time) || time < new Date(protocol.started_at).getTime()) {
+    return [];
+  }
+  if (protocol.ended_at && time > new Date(protocol.ended_at).getTime()) {
+    return [];
+  }
+
+  // Foods logged before the elimination deadline were eaten during elimination
+  const phase: ProtocolPhase =
+    time < new Date(protocol.elimination_ends_at).getTime()
+      ? 'elimination'
+      : protocol.phase;
+
+  const reactive = new Set(
+    protocol.reintroductions
+      .filter(r => r.outcome === 'reactive')
+      .map(r => r.group)
+  );
+  // Groups under test or tolerated, from the moment their test started
+  const allowed = new Set(
+    protocol.reintroductions
+      .filter(
+        r =>
+          r.outcome !== 'reactive' && new Date(r.started_at).getTime() <= time
+      )
+      .map(r => r.group)
+  );
+
+  return (food.ingredients || []).filter(ingredient => {
+    switch (phase) {
+      case 'elimination':
+        return isEliminated(protocol, ingredient);
+      case 'reintroduction':
+        return (
+          isEliminated(protocol, ingredient) && !allowed.has(ingredient.group)
+        );
+      case 'maintenance':
+        return reactive.has(ingredient.group);
+    }
+  });
+}
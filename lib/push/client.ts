@@ -0,0 +1,88 @@
+/**
+ * Browser side of Web Push
+ * Registers the service worker (public/sw.js shows the notifications),
+ * subscribes this device with the app's VAPID key and hands the subscription
+ * to /api/push/subscribe. Reminder preferences are per account; subscriptions
+ * are per device, so each device that should ring enables this once.
+ */
+
+import { getDeviceTimezone } from '@/lib/settings/user-settings';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+function decodeApplicationServerKey(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+}
+
+/**
+ * Ask for permission and subscribe this device
+ * Throws when notifications are unsupported or blocked.
+ */
+export async function enablePushNotifications(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Notifications are not supported on this device');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
+  }
+
+  const registration = await getRegistration();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeApplicationServerKey(
+        process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!
+      ),
+    }));
+
+  const response = await fetch('/api/push/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...subscription.toJSON(),
+      timezone: getDeviceTimezone(),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to save push subscription');
+  }
+}
+
+/**
+ * Unsubscribe this device; a no-op when it never subscribed
+ */
+export async function disablePushNotifications(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await fetch('/api/push/subscribe', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,156 @@
+/**
+ * Mock push service
+ * Stands in for browser push services (FCM, Mozilla autopush, APNs) in tests
+ * and local runs (PUSH_SERVICE=mock). It checks the VAPID signature like a
+ * real service would and, for subscriptions it issued, decrypts the payload
+ * as the browser would, so reminders can be verified end to end.
+ */
+
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  randomBytes,
+  randomUUID,
+  verify,
+} from 'crypto';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  deriveContentKeys,
+  type PushSubscriptionKeys,
+} from './web-push';
+
+export const MOCK_PUSH_ORIGIN = 'https://push.mock.local';
+
+export interface MockPushDelivery {
+  endpoint: string;
+  ttl: number;
+  payload: string | null; // null for subscriptions this service didn't issue
+}
+
+interface IssuedSubscription {
+  ecdh: ReturnType<typeof createECDH>;
+  auth: Buffer;
+}
+
+function verifyVapid(authorization: string | null, endpoint: string): boolean {
+  const match = authorization?.match(/^vapid t=([^,]+), k=(.+)$/);
+  if (!match) return false;
+  const [, token, publicKeyValue] = match;
+  const [header, claims, signature] = token.split('.');
+  if (!header || !claims || !signature) return false;
+
+  const publicKey = base64UrlDecode(publicKeyValue);
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+  const isSigned = verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    base64UrlDecode(signature)
+  );
+
+  const { aud, exp } = JSON.parse(base64UrlDecode(claims).toString());
+  return (
+    isSigned && aud === new URL(endpoint).origin && exp > Date.now() / 1000
+  );
+}
+
+function decryptPayload(
+  body: Buffer,
+  subscription: IssuedSubscription
+): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const record = body.subarray(21 + keyIdLength);
+
+  const { key, nonce } = deriveContentKeys(
+    subscription.ecdh.computeSecret(serverPublicKey),
+    subscription.auth,
+    subscription.ecdh.getPublicKey(),
+    serverPublicKey,
+    salt
+  );
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const plaintext = Buffer.concat([
+    decipher.update(record.subarray(0, record.length - 16)),
+    decipher.final(),
+  ]);
+
+  // Strip the record delimiter (0x02) and any zero padding before it
+  let end = plaintext.length - 1;
+  while (end > 0 && plaintext[end] === 0) end--;
+  return plaintext.subarray(0, end).toString();
+}
+
+// Only status matters to the sender
+const respond = (status: number) =>
+  ({ ok: status >= 200 && status < 300, status }) as Response;
+
+export function createMockPushService() {
+  const issued = new Map<string, IssuedSubscription>();
+  const expired = new Set<string>();
+  const deliveries: MockPushDelivery[] = [];
+
+  // A subscription as a browser would create it against this service
+  const subscribe = (): PushSubscriptionKeys => {
+    const ecdh = createECDH('prime256v1');
+    ecdh.generateKeys();
+    const auth = randomBytes(16);
+    const endpoint = `${MOCK_PUSH_ORIGIN}/${randomUUID()}`;
+    issued.set(endpoint, { ecdh, auth });
+    return {
+      endpoint,
+      keys: {
+        p256dh: base64UrlEncode(ecdh.getPublicKey()),
+        auth: base64UrlEncode(auth),
+      },
+    };
+  };
+
+  // Later pushes get 410 Gone, as after the browser unsubscribes
+  const expire = (endpoint: string) => expired.add(endpoint);
+
+  const fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const endpoint = String(input);
+    const headers = new Headers(init?.headers);
+
+    if (!verifyVapid(headers.get('Authorization'), endpoint)) {
+      return respond(403);
+    }
+    if (expired.has(endpoint)) {
+      return respond(410);
+    }
+
+    const body = Buffer.from(init?.body as Uint8Array);
+    const subscription = issued.get(endpoint);
+    deliveries.push({
+      endpoint,
+      ttl: Number(headers.get('TTL')),
+      payload: subscription ? decryptPayload(body, subscription) : null,
+    });
+    return respond(201);
+  };
+
+  return {
+    subscribe,
+    expire,
+    fetch: fetch as typeof globalThis.fetch,
+    hosts: [new URL(MOCK_PUSH_ORIGIN).hostname],
+    deliveries,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Reminder scheduler
+ * One run checks every user with reminders or the daily summary enabled,
+ * sends what getDueReminders finds due to each of their devices, and prunes
+ * subscriptions the push service reports as gone. Meant to be triggered every
+ * 15 minutes or so; push_reminder_log keeps each reminder to a single send.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { logger } from '@/lib/utils/logger';
+import { getDueReminders, type ReminderFood } from './reminders';
+import type { PushSender, PushSubscriptionKeys } from './web-push';
+
+const { HISTORY_DAYS, SYMPTOM_CHECK_DELAY_MIN, SEND_WINDOW_MIN } =
+  APP_CONFIG.REMINDER;
+
+// Postgres unique_violation: another run already sent this reminder
+const UNIQUE_VIOLATION = '23505';
+
+export interface ReminderRunResult {
+  users: number;
+  sent: number;
+  expired: number;
+  failed: number;
+}
+
+interface SubscriptionRow {
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  timezone: string | null;
+}
+
+export async function sendDueReminders(
+  supabase: SupabaseClient,
+  send: PushSender,
+  now: Date = new Date()
+): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = {
+    users: 0,
+    sent: 0,
+    expired: 0,
+    failed: 0,
+  };
+
+  const { data: settingsRows, error: settingsError } = await supabase
+    .from('user_settings')
+    .select(
+      'user_id, timezone, day_boundary_hour, reminders_enabled, daily_summary_enabled'
+    )
+    .or('reminders_enabled.eq.true,daily_summary_enabled.eq.true');
+  if (settingsError) throw settingsError;
+  if (!settingsRows?.length) return result;
+
+  const { data: subscriptionRows, error: subscriptionError } = await supabase
+    .from('push_subscriptions')
+    .select('user_id, endpoint, p256dh, auth, timezone')
+    .in(
+      'user_id',
+      settingsRows.map(row => row.user_id)
+    );
+  if (subscriptionError) throw subscriptionError;
+
+  const historySince = new Date(
+    now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+  // Symptom checks only need symptoms logged since the meals they follow
+  const symptomsSince = new Date(
+    now.getTime() - (SYMPTOM_CHECK_DELAY_MIN + SEND_WINDOW_MIN) * 60 * 1000
+  ).toISOString();
+
+  for (const settings of settingsRows) {
+    const subscriptions = (
+      (subscriptionRows || []) as SubscriptionRow[]
+    ).filter(row => row.user_id === settings.user_id);
+    if (subscriptions.length === 0) continue;
+    result.users++;
+
+    try {
+      const [foods, symptoms] = await Promise.all([
+        supabase
+          .from('foods')
+          .select('id, name, timestamp, meal_type, ingredients')
+          .eq('user_id', settings.user_id)
+          .gte('timestamp', historySince),
+        supabase
+          .from('symptoms')
+          .select('timestamp')
+          .eq('user_id', settings.user_id)
+          .gte('timestamp', symptomsSince),
+      ]);
+      if (foods.error) throw foods.error;
+      if (symptoms.error) throw symptoms.error;
+
+      const reminders = getDueReminders({
+        now,
+        boundary: {
+          // Stored preference first, then the timezone the device reported
+          timeZone: settings.timezone ?? subscriptions[0].timezone ?? 'UTC',
+          startHour: settings.day_boundary_hour ?? 0,
+        },
+        notifications: {
+          reminders: settings.reminders_enabled,
+          dailySummary: settings.daily_summary_enabled,
+        },
+        foods: (foods.data || []) as ReminderFood[],
+        symptoms: symptoms.data || [],
+      });
+
+      for (const reminder of reminders) {
+        // Claim the reminder before sending so concurrent runs skip it
+        const { error: logError } = await supabase
+          .from('push_reminder_log')
+          .insert({ user_id: settings.user_id, reminder_key: reminder.key });
+        if (logError?.code === UNIQUE_VIOLATION) continue;
+        if (logError) throw logError;
+
+        const payload = JSON.stringify({
+          title: reminder.title,
+          body: reminder.body,
+          url: reminder.url,
+          tag: reminder.key,
+        });
+
+        // A copy, since expired subscriptions leave the list as they're found
+        for (const subscription of [...subscriptions]) {
+          const keys: PushSubscriptionKeys = {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          };
+
+          try {
+            const { expired } = await send(keys, payload);
+            if (expired) {
+              result.expired++;
+              await supabase
+                .from('push_subscriptions')
+                .delete()
+                .eq('endpoint', subscription.endpoint);
+              subscriptions.splice(subscriptions.indexOf(subscription), 1);
+            } else {
+              result.sent++;
+            }
+          } catch (error) {
+            result.failed++;
+            logger.warn('Failed to send push reminder', {
+              userId: settings.user_id,
+              reminder: reminder.key,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+    } catch (error) {
+      result.failed++;
+      logger.error('Failed to process reminders for user', error, {
+        userId: settings.user_id,
+      });
+    }
+  }
+
+  return result;
+}
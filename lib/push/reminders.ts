@@ -0,0 +1,204 @@
+/**
+ * Reminders
+ * Decides which push reminders are due for a user right now. Timing follows
+ * their own history: a meal reminder goes out a while after the time they
+ * usually log that meal, a symptom check a few hours after each main meal,
+ * and the daily summary after their usual last entry. Pure, so the scheduler
+ * can run it for any user and timezone.
+ */
+
+import type { Food, Symptom, UserSettings } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { getZoneTotals } from '@/lib/portions/portions';
+import { getZonedDateParts } from '@/lib/utils/date-utils';
+import {
+  getDayKey,
+  getTodayKey,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+
+const {
+  MIN_MEAL_SAMPLES,
+  MEAL_REMINDER_DELAY_MIN,
+  SYMPTOM_CHECK_DELAY_MIN,
+  DEFAULT_SUMMARY_MINUTES,
+  SUMMARY_DELAY_MIN,
+  SEND_WINDOW_MIN,
+} = APP_CONFIG.REMINDER;
+
+export type MainMeal = 'breakfast' | 'lunch' | 'dinner';
+
+const MAIN_MEALS: readonly MainMeal[] = ['breakfast', 'lunch', 'dinner'];
+
+const LAST_MINUTE_OF_DAY = 24 * 60 - 1;
+
+export type ReminderKind = 'meal' | 'symptom-check' | 'daily-summary';
+
+export interface Reminder {
+  key: string; // Each key is sent at most once (see push_reminder_log)
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  url: string; // Opened when the notification is tapped
+}
+
+export type ReminderFood = Pick<
+  Food,
+  'id' | 'name' | 'timestamp' | 'meal_type' | 'ingredients'
+>;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+// Minutes since midnight of each day's first (or last) matching entry
+function minutesByDay(
+  foods: ReminderFood[],
+  timeZone: string,
+  pick: (current: number, next: number) => number
+): number[] {
+  const byDay = new Map<string, number>();
+  foods.forEach(food => {
+    const { dateKey, minutes } = getZonedDateParts(
+      new Date(food.timestamp),
+      timeZone
+    );
+    const current = byDay.get(dateKey);
+    byDay.set(
+      dateKey,
+      current === undefined ? minutes : pick(current, minutes)
+    );
+  });
+  return [...byDay.values()];
+}
+
+/**
+ * Usual local time of each main meal, in minutes since midnight
+ * Meals logged on fewer than MIN_MEAL_SAMPLES days have no usual time yet.
+ */
+export function getUsualMealTimes(
+  foods: ReminderFood[],
+  timeZone: string
+): Partial<Record<MainMeal, number>> {
+  const times: Partial<Record<MainMeal, number>> = {};
+  MAIN_MEALS.forEach(meal => {
+    const days = minutesByDay(
+      foods.filter(food => food.meal_type === meal),
+      timeZone,
+      Math.min
+    );
+    if (days.length >= MIN_MEAL_SAMPLES) times[meal] = median(days);
+  });
+  return times;
+}
+
+// Usual local time of the day's last entry, with a fixed evening fallback
+export function getUsualLastEntryTime(
+  foods: ReminderFood[],
+  timeZone: string
+): number {
+  const days = minutesByDay(foods, timeZone, Math.max);
+  return days.length >= MIN_MEAL_SAMPLES
+    ? median(days)
+    : DEFAULT_SUMMARY_MINUTES;
+}
+
+// "12:30 PM"
+export function formatMinutesOfDay(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = String(minutes % 60).padStart(2, '0');
+  return `${hour % 12 || 12}:${minute} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+const isWithinWindow = (elapsed: number, dueAfter: number) =>
+  elapsed >= dueAfter && elapsed < dueAfter + SEND_WINDOW_MIN;
+
+export interface ReminderContext {
+  now: Date;
+  boundary: DayBoundary; // Decides which entries are today's
+  notifications: UserSettings['notifications'];
+  foods: ReminderFood[]; // History (see REMINDER_CONFIG.HISTORY_DAYS), including today
+  symptoms: Pick<Symptom, 'timestamp'>[]; // At least the last day
+}
+
+export function getDueReminders({
+  now,
+  boundary,
+  notifications,
+  foods,
+  symptoms,
+}: ReminderContext): Reminder[] {
+  const { timeZone } = boundary;
+  const { minutes: nowMinutes } = getZonedDateParts(now, timeZone);
+  const today = getTodayKey(boundary, now);
+  const isToday = (timestamp: string) =>
+    getDayKey(timestamp, boundary) === today;
+
+  const todaysFoods = foods.filter(food => isToday(food.timestamp));
+  const pastFoods = foods.filter(food => !isToday(food.timestamp));
+  const reminders: Reminder[] = [];
+
+  if (notifications.reminders) {
+    const usualTimes = getUsualMealTimes(pastFoods, timeZone);
+
+    MAIN_MEALS.forEach(meal => {
+      const usual = usualTimes[meal];
+      if (usual === undefined) return;
+      if (todaysFoods.some(food => food.meal_type === meal)) return;
+      if (!isWithinWindow(nowMinutes - usual, MEAL_REMINDER_DELAY_MIN)) return;
+
+      reminders.push({
+        key: `meal:${meal}:${today}`,
+        kind: 'meal',
+        title: `Log your ${meal}`,
+        body: `You usually have ${meal} around ${formatMinutesOfDay(usual)}. Snap a photo so your zones stay up to date.`,
+        url: '/app?view=entries',
+      });
+    });
+
+    todaysFoods
+      .filter(food => MAIN_MEALS.includes(food.meal_type as MainMeal))
+      .forEach(food => {
+        const eatenAt = new Date(food.timestamp).getTime();
+        const elapsed = (now.getTime() - eatenAt) / 60000;
+        if (!isWithinWindow(elapsed, SYMPTOM_CHECK_DELAY_MIN)) return;
+        if (symptoms.some(s => new Date(s.timestamp).getTime() >= eatenAt)) {
+          return;
+        }
+
+        reminders.push({
+          key: `symptom-check:${food.id}`,
+          kind: 'symptom-check',
+          title: `How do you feel ${SYMPTOM_CHECK_DELAY_MIN / 60}h after ${food.meal_type}?`,
+          body: `Logging how you feel after ${food.name} helps spot trigger foods.`,
+          url: '/app?view=entries',
+        });
+      });
+  }
+
+  if (notifications.dailySummary && todaysFoods.length > 0) {
+    const summaryAt = Math.min(
+      getUsualLastEntryTime(pastFoods, timeZone) + SUMMARY_DELAY_MIN,
+      LAST_MINUTE_OF_DAY - SEND_WINDOW_MIN
+    );
+
+    if (isWithinWindow(nowMinutes - summaryAt, 0)) {
+      const totals = getZoneTotals(
+        todaysFoods.flatMap(food => food.ingredients || [])
+      );
+      reminders.push({
+        key: `daily-summary:${today}`,
+        kind: 'daily-summary',
+        title: 'Your day in zones',
+        body: `${todaysFoods.length} ${todaysFoods.length === 1 ? 'entry' : 'entries'} today: ${totals.green} green, ${totals.yellow} yellow and ${totals.red} red ingredients.`,
+        url: '/app?view=insights',
+      });
+    }
+  }
+
+  return reminders;
+}
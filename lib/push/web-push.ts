@@ -0,0 +1,249 @@
+/**
+ * Web Push
+ * Sends notifications to browser push services: a VAPID JWT identifies the
+ * app server (RFC 8292) and the payload is encrypted for the subscription
+ * with aes128gcm (RFC 8291), so the push service never sees its content.
+ * Server-only; built on node:crypto.
+ */
+
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from 'crypto';
+import { APP_CONFIG } from '@/lib/config/constants';
+
+const { TTL_SECONDS, VAPID_EXPIRATION_SECONDS, PUSH_SERVICE_HOSTS } =
+  APP_CONFIG.REMINDER;
+
+const RECORD_SIZE = 4096;
+
+// Keys as a browser's PushSubscription.toJSON() reports them (base64url)
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface VapidKeys {
+  publicKey: string; // base64url uncompressed P-256 point
+  privateKey: string; // base64url P-256 scalar
+  subject: string; // mailto: or https: contact for push services
+}
+
+export interface PushResult {
+  endpoint: string;
+  status: number;
+  expired: boolean; // Subscription is gone and should be deleted
+}
+
+export type PushSender = (
+  subscription: PushSubscriptionKeys,
+  payload: string
+) => Promise<PushResult>;
+
+export function base64UrlEncode(data: Uint8Array): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+export function generateVapidKeys(): Omit<VapidKeys, 'subject'> {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: base64UrlEncode(ecdh.getPublicKey()),
+    privateKey: base64UrlEncode(ecdh.getPrivateKey()),
+  };
+}
+
+// VAPID keys from the environment, or null when push isn't configured
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+  if (!publicKey || !privateKey || !subject) return null;
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * Authorization header value for a push service (vapid scheme, RFC 8292)
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidKeys,
+  now: Date = new Date()
+): string {
+  const header = { typ: 'JWT', alg: 'ES256' };
+  const claims = {
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_EXPIRATION_SECONDS,
+    sub: vapid.subject,
+  };
+  const unsigned = [header, claims]
+    .map(part => base64UrlEncode(Buffer.from(JSON.stringify(part))))
+    .join('.');
+
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+  const signature = sign('sha256', Buffer.from(unsigned), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Keys shared by the sender and the subscription for one message (RFC 8291)
+ */
+export function deriveContentKeys(
+  sharedSecret: Buffer,
+  authSecret: Buffer,
+  subscriptionPublicKey: Buffer,
+  serverPublicKey: Buffer,
+  salt: Buffer
+): { key: Buffer; nonce: Buffer } {
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    subscriptionPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(
+    hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32)
+  );
+  return {
+    key: Buffer.from(
+      hkdfSync('sha256', ikm, salt, 'Content-Encoding: aes128gcm\0', 16)
+    ),
+    nonce: Buffer.from(
+      hkdfSync('sha256', ikm, salt, 'Content-Encoding: nonce\0', 12)
+    ),
+  };
+}
+
+/**
+ * Encrypt a payload as a single aes128gcm record for the subscription
+ */
+export function encryptPayload(
+  payload: string,
+  subscription: PushSubscriptionKeys
+): Buffer {
+  const subscriptionPublicKey = base64UrlDecode(subscription.keys.p256dh);
+  const authSecret = base64UrlDecode(subscription.keys.auth);
+
+  // A fresh key pair per message
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(subscriptionPublicKey);
+  const salt = randomBytes(16);
+
+  const { key, nonce } = deriveContentKeys(
+    sharedSecret,
+    authSecret,
+    subscriptionPublicKey,
+    serverPublicKey,
+    salt
+  );
+
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload is too large');
+  }
+
+  const cipher = createCipheriv('aes-128-gcm', key, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Whether the server may post to this endpoint
+ * Endpoints come from the client, so only https URLs on a known push service
+ * host are accepted. That also rules out localhost, IP literals and other
+ * internal addresses the server could otherwise be pointed at.
+ */
+export function isAllowedPushEndpoint(
+  endpoint: string,
+  hosts: readonly string[] = PUSH_SERVICE_HOSTS
+): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+/**
+ * Sender that posts encrypted messages to each subscription's push service
+ * fetch is injectable so a mock push service can stand in for real ones.
+ * Subscriptions outside `hosts` are reported as expired without a request,
+ * so they get deleted.
+ */
+export function createPushSender(
+  vapid: VapidKeys,
+  fetchFn: typeof fetch = fetch,
+  hosts: readonly string[] = PUSH_SERVICE_HOSTS
+): PushSender {
+  return async (subscription, payload) => {
+    if (!isAllowedPushEndpoint(subscription.endpoint, hosts)) {
+      return { endpoint: subscription.endpoint, status: 0, expired: true };
+    }
+
+    const response = await fetchFn(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(TTL_SECONDS),
+      },
+      body: new Uint8Array(encryptPayload(payload, subscription)),
+    });
+
+    // 404 and 410 mean the browser unsubscribed or the subscription expired
+    const expired = response.status === 404 || response.status === 410;
+    if (!response.ok && !expired) {
+      throw new Error(`Push service responded with ${response.status}`);
+    }
+
+    return {
+      endpoint: subscription.endpoint,
+      status: response.status,
+      expired,
+    };
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Recipe expansion
+ * Flattens a recipe and its nested sub-recipes into the ingredient list written
+ * to foods.ingredients, and tracks which recipe revision a food was logged from
+ * so later recipe edits can be reviewed.
+ */
+
+import type { Food, Ingredient, Recipe } from '@/lib/types';
+import { scaleIngredient } from '@/lib/portions/portions';
+
+// Columns linking a food back to its recipe
+export type RecipeLink = Pick<
+  Food,
+  'recipe_id' | 'recipe_scale' | 'recipe_updated_at'
+>;
+
+export const RECIPE_SCALE_OPTIONS = [0.5, 1, 1.5, 2] as const;
+
+const ingredientKey = (ingredient: Ingredient) =>
+  ingredient.name.trim().toLowerCase();
+
+// The recipe followed by every recipe nested under it, each visited once
+function collectRecipes(recipe: Recipe, recipes: Recipe[]): Recipe[] {
+  const byId = new Map(recipes.map(r => [r.id, r]));
+  const visited = new Set<string>();
+  const ordered: Recipe[] = [];
+
+  const visit = (current: Recipe) => {
+    if (visited.has(current.id)) return; // Shared or cyclic sub-recipe
+    visited.add(current.id);
+    ordered.push(current);
+    current.sub_recipe_ids.forEach(id => {
+      const sub = byId.get(id);
+      if (sub) visit(sub);
+    });
+  };
+
+  visit(recipe);
+  return ordered;
+}
+
+/**
+ * Ingredients of a recipe including all nested sub-recipes, with portions
+ * multiplied by the number of servings
+ * An ingredient appearing in several of them is listed once; portions given in
+ * the same unit are added up.
+ */
+export function expandRecipe(
+  recipe: Recipe,
+  recipes: Recipe[],
+  scale = 1
+): Ingredient[] {
+  const seen = new Map<string, Ingredient>();
+  const expanded: Ingredient[] = [];
+
+  collectRecipes(recipe, recipes).forEach(current => {
+    current.ingredients.forEach(ingredient => {
+      const key = ingredientKey(ingredient);
+      const scaled = scaleIngredient(ingredient, scale);
+      const existing = seen.get(key);
+      if (existing) {
+        if (
+          existing.quantity &&
+          scaled.quantity &&
+          existing.unit === scaled.unit
+        ) {
+          existing.quantity =
+            Math.round((existing.quantity + scaled.quantity) * 100) / 100;
+        }
+        return;
+      }
+      seen.set(key, scaled);
+      expanded.push(scaled);
+    });
+  });
+
+  return expanded;
+}
+
+/**
+ * Latest update across a recipe and its sub-recipes
+ * Editing a nested vinaigrette changes every recipe that uses it.
+ */
+export function getRecipeRevision(recipe: Recipe, recipes: Recipe[]): string {
+  return collectRecipes(recipe, recipes).reduce(
+    (latest, current) =>
+      new Date(current.updated_at).getTime() > new Date(latest).getTime()
+        ? current.updated_at
+        : latest,
+    recipe.updated_at
+  );
+}
+
+export function createRecipeLink(
+  recipe: Recipe,
+  recipes: Recipe[],
+  scale = 1
+): RecipeLink {
+  return {
+    recipe_id: recipe.id,
+    recipe_scale: scale,
+    recipe_updated_at: getRecipeRevision(recipe, recipes),
+  };
+}
+
+export function getRecipeLink(food: Partial<Food>): RecipeLink {
+  return {
+    recipe_id: food.recipe_id ?? null,
+    recipe_scale: food.recipe_scale ?? null,
+    recipe_updated_at: food.recipe_updated_at ?? null,
+  };
+}
+
+/**
+ * Whether the recipe behind a food has been edited since the food was logged
+ * Foods whose recipe was deleted have no recipe_id and never need review.
+ */
+export function hasRecipeChangedSince(
+  food: Pick<Food, 'recipe_id' | 'recipe_updated_at'>,
+  recipes: Recipe[]
+): boolean {
+  const recipe = recipes.find(r => r.id === food.recipe_id);
+  if (!recipe) return false;
+  if (!food.recipe_updated_at) return true;
+  return (
+    new Date(getRecipeRevision(recipe, recipes)).getTime() >
+    new Date(food.recipe_updated_at).getTime()
+  );
+}
+
+/**
+ * Ingredient names the latest recipe adds to, or drops from, a logged food
+ */
+export function diffRecipeIngredients(
+  logged: Ingredient[],
+  expanded: Ingredient[]
+): { added: string[]; removed: string[] } {
+  const loggedKeys = new Set(logged.map(ingredientKey));
+  const expandedKeys = new Set(expanded.map(ingredientKey));
+
+  return {
+    added: expanded
+      .filter(ingredient => !loggedKeys.has(ingredientKey(ingredient)))
+      .map(ingredient => ingredient.name),
+    removed: logged
+      .filter(ingredient => !expandedKeys.has(ingredientKey(ingredient)))
+      .map(ingredient => ingredient.name),
+  };
+}
+
+/**
+ * Recipes that can be nested in the given one without creating a cycle
+ * @param recipeId - Recipe being edited, or undefined for a new recipe
+ */
+export function getNestableRecipes(
+  recipeId: string | undefined,
+  recipes: Recipe[]
+): Recipe[] {
+  if (!recipeId) return recipes;
+  return recipes.filter(
+    candidate =>
+      candidate.id !== recipeId &&
+      !collectRecipes(candidate, recipes).some(r => r.id === recipeId)
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Ingredient-level search
+ * The search_food_ingredients RPC (migration 020) finds matching foods; these
+ * helpers mirror its matching rules client-side (for personal zones, which are
+ * applied at read time) and pair each result with the symptoms that followed.
+ */
+
+import type { Food, Ingredient, Symptom } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+
+const { MIN_SIMILARITY, SYMPTOM_WINDOW_HOURS } = APP_CONFIG.SEARCH;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type IngredientSearchField = 'any' | 'name' | 'group' | 'category';
+
+export interface IngredientSearchFilters {
+  query?: string;
+  field?: IngredientSearchField; // Defaults to 'any'
+  zone?: Ingredient['zone'];
+  organic?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export interface IngredientSearchResult {
+  food: Food;
+  matchedIngredients: string[]; // Ingredient names that satisfied every filter
+  followingSymptoms: Symptom[]; // Logged within SYMPTOM_WINDOW_HOURS after the meal
+}
+
+// pg_trgm style: each word padded with two leading spaces and one trailing
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .forEach(word => {
+      const padded = `  ${word} `;
+      for (let i = 0; i < padded.length - 2; i++) {
+        result.add(padded.slice(i, i + 3));
+      }
+    });
+  return result;
+}
+
+/**
+ * Trigram similarity (0-1), matching pg_trgm's similarity()
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach(gram => {
+    if (right.has(gram)) shared += 1;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+function fuzzyMatches(value: string | undefined, query: string): boolean {
+  if (!value) return false;
+  const text = value.toLowerCase();
+  return (
+    text.includes(query) || trigramSimilarity(text, query) >= MIN_SIMILARITY
+  );
+}
+
+export function ingredientMatches(
+  ingredient: Ingredient,
+  filters: IngredientSearchFilters
+): boolean {
+  if (filters.zone && ingredient.zone !== filters.zone) return false;
+  if (filters.organic !== undefined && ingredient.organic !== filters.organic) {
+    return false;
+  }
+
+  const query = filters.query?.trim().toLowerCase();
+  if (!query) return true;
+
+  const field = filters.field ?? 'any';
+  const fields =
+    field === 'any'
+      ? [ingredient.name, ingredient.group, ingredient.category]
+      : [ingredient[field]];
+  return fields.some(value => fuzzyMatches(value, query));
+}
+
+export function hasSearchCriteria(filters: IngredientSearchFilters): boolean {
+  return (
+    !!filters.query?.trim() || !!filters.zone || filters.organic !== undefined
+  );
+}
+
+/**
+ * Pair each matching food with the symptoms logged in the window after it
+ * @param matches - Foods with the ingredient names that matched
+ * @param symptoms - Symptoms covering the results' time span plus the window
+ */
+export function buildSearchResults(
+  matches: Array<{ food: Food; matchedIngredients: string[] }>,
+  symptoms: Symptom[]
+): IngredientSearchResult[] {
+  const windowMs = SYMPTOM_WINDOW_HOURS * HOUR_MS;
+  const sortedSymptoms = [...symptoms].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+
+  return matches.map(({ food, matchedIngredients }) => {
+    const eatenAt = new Date(food.timestamp).getTime();
+    return {
+      food,
+      matchedIngredients,
+      followingSymptoms: sortedSymptoms.filter(symptom => {
+        const time = new Date(symptom.timestamp).getTime();
+        return time >= eatenAt && time <= eatenAt + windowMs;
+      }),
+    };
+  });
+}
+
+/**
+ * Time span to load symptoms for: earliest result to latest result + window
+ */
+export function symptomRangeFor(
+  foods: Food[]
+): { start: string; end: string } | null {
+  if (foods.length === 0) return null;
+  const times = foods.map(food => new Date(food.timestamp).getTime());
+  return {
+    start: new Date(Math.min(...times)).toISOString(),
+    end: new Date(
+      Math.max(...times) + SYMPTOM_WINDOW_HOURS * HOUR_MS
+    ).toISOString(),
+  };
+}
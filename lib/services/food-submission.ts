@@ -10,6 +10,12 @@ import {
   sanitizeIngredientName,
   sanitizeUserNote,
 } from '@/lib/security/sanitization';
+import type { RecipeLink } from '@/lib/recipes/recipes';
+import { parsePortion } from '@/lib/portions/portions';
+import {
+  parseCookingMethod,
+  toZoningInput,
+} from '@/lib/zoning/cooking-methods';
 
 export interface FoodSubmissionData {
   name: string;
@@ -17,6 +23,7 @@ export interface FoodSubmissionData {
   currentIngredient: string;
   notes: string;
   selectedDateTime: Date;
+  recipe?: RecipeLink; // Set when the ingredients came from a recipe
 }
 
 export interface FoodSubmissionResult {
@@ -36,6 +43,7 @@ export interface ZoningResponse {
     zone: string;
     category?: string;
     group?: string;
+    source?: 'ai' | 'dictionary';
   }>;
 }
 
@@ -112,7 +120,7 @@ async function zoneIngredients(ingredients: Ingredient[]): Promise<{
         const response = await fetch('/api/zone-ingredients', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ ingredients: [ingredient.name] }),
+          body: JSON.stringify({ ingredients: [toZoningInput(ingredient)] }),
         });
 
         if (!response.ok) {
@@ -140,13 +148,17 @@ async function zoneIngredients(ingredients: Ingredient[]): Promise<{
     // Process all ingredients in parallel
     const zoningResults = await Promise.allSettled(zoningPromises);
 
-    // Build zoned data map
-    const zonedMap = new Map();
+    // Build zoned data map, keyed by ingredient so the same name prepared two
+    // ways keeps both zones
+    const zonedMap = new Map<
+      Ingredient,
+      ZoningResponse['ingredients'][number]
+    >();
     let successCount = 0;
 
     zoningResults.forEach(result => {
       if (result.status === 'fulfilled' && result.value.zonedData) {
-        zonedMap.set(result.value.ingredient.name, result.value.zonedData);
+        zonedMap.set(result.value.ingredient, result.value.zonedData);
         successCount++;
       }
     });
@@ -170,7 +182,7 @@ async function zoneIngredients(ingredients: Ingredient[]): Promise<{
 
     // Enrich ingredients with zoned data
     const enrichedIngredients = ingredients.map(ing => {
-      const zonedData = zonedMap.get(ing.name);
+      const zonedData = zonedMap.get(ing);
 
       if (zonedData) {
         return {
@@ -178,6 +190,9 @@ async function zoneIngredients(ingredients: Ingredient[]): Promise<{
           zone: zonedData.zone as 'green' | 'yellow' | 'red',
           category: zonedData.category || ing.category || 'Other',
           group: zonedData.group || ing.group || 'other',
+          zoneSource: zonedData.source,
+          classifiedZone: undefined,
+          classifiedZoneSource: undefined,
         };
       }
 
@@ -212,6 +227,8 @@ function createFoodEntry(
     category: ing.category,
     group: ing.group || 'other',
     zone: ing.zone || 'unzoned',
+    cookingMethod: parseCookingMethod(ing.cookingMethod),
+    ...parsePortion(ing.quantity, ing.unit),
   })) as Ingredient[];
 
   return {
@@ -220,6 +237,24 @@ function createFoodEntry(
     notes: sanitizeUserNote(data.notes.trim()),
     status: 'processed',
     timestamp: data.selectedDateTime.toISOString(),
+    ...data.recipe,
+  };
+}
+
+/**
+ * Sanitize and zone a recipe's ingredients once, before it is saved
+ */
+export async function prepareRecipeIngredients(
+  ingredients: Ingredient[]
+): Promise<{ ingredients: Ingredient[]; warnings: string[] }> {
+  const { ingredients: processedIngredients, warnings: processWarnings } =
+    processIngredients(ingredients, '');
+  const { enrichedIngredients, warnings: zoningWarnings } =
+    await zoneIngredients(processedIngredients);
+
+  return {
+    ingredients: enrichedIngredients,
+    warnings: [...processWarnings, ...zoningWarnings],
   };
 }
 
@@ -0,0 +1,182 @@
+/**
+ * User settings
+ * Preferences live in the user_settings table (one row per user) so they
+ * follow the account across devices. The row is created on the first save;
+ * until then every field falls back to its default.
+ */
+
+import type { UserSettings } from '@/lib/types';
+import { APP_CONFIG } from '@/lib/config/constants';
+import { normalizeWaterGoal } from '@/lib/hydration/hydration';
+
+const { MAX_DAY_BOUNDARY_HOUR } = APP_CONFIG.SETTINGS;
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  theme: 'dark', // The original (and until now only) palette
+  waterGoal: APP_CONFIG.HYDRATION.DEFAULT_GOAL_ML,
+  units: 'metric',
+  timezone: null,
+  dayBoundaryHour: 0,
+  notifications: {
+    reminders: false,
+    dailySummary: false,
+  },
+};
+
+export const THEMES: readonly UserSettings['theme'][] = [
+  'dark',
+  'light',
+  'system',
+];
+
+export const UNIT_SYSTEMS: readonly UserSettings['units'][] = [
+  'metric',
+  'imperial',
+];
+
+// Shape of a user_settings row, minus the key and timestamps
+export interface UserSettingsRow {
+  water_goal_ml: number;
+  theme: UserSettings['theme'];
+  units: UserSettings['units'];
+  timezone: string | null;
+  day_boundary_hour: number;
+  reminders_enabled: boolean;
+  daily_summary_enabled: boolean;
+}
+
+export const USER_SETTINGS_COLUMNS =
+  'water_goal_ml, theme, units, timezone, day_boundary_hour, reminders_enabled, daily_summary_enabled';
+
+// Notifications can be toggled one at a time
+export type UserSettingsUpdate = Partial<
+  Omit<UserSettings, 'notifications'>
+> & {
+  notifications?: Partial<UserSettings['notifications']>;
+};
+
+export function fromUserSettingsRow(
+  row: Partial<UserSettingsRow> | null
+): UserSettings {
+  const defaults = DEFAULT_USER_SETTINGS;
+  return {
+    theme: row?.theme ?? defaults.theme,
+    waterGoal: row?.water_goal_ml ?? defaults.waterGoal,
+    units: row?.units ?? defaults.units,
+    timezone: row?.timezone ?? defaults.timezone,
+    dayBoundaryHour: row?.day_boundary_hour ?? defaults.dayBoundaryHour,
+    notifications: {
+      reminders: row?.reminders_enabled ?? defaults.notifications.reminders,
+      dailySummary:
+        row?.daily_summary_enabled ?? defaults.notifications.dailySummary,
+    },
+  };
+}
+
+/**
+ * Validate an update and map it to columns; only the given fields are written
+ * Throws on values the table's CHECK constraints would reject.
+ */
+export function toUserSettingsRow(
+  update: UserSettingsUpdate
+): Partial<UserSettingsRow> {
+  const row: Partial<UserSettingsRow> = {};
+
+  if (update.theme !== undefined) {
+    if (!THEMES.includes(update.theme)) {
+      throw new Error(`Unknown theme: ${update.theme}`);
+    }
+    row.theme = update.theme;
+  }
+
+  if (update.units !== undefined) {
+    if (!UNIT_SYSTEMS.includes(update.units)) {
+      throw new Error(`Unknown units: ${update.units}`);
+    }
+    row.units = update.units;
+  }
+
+  if (update.waterGoal !== undefined) {
+    row.water_goal_ml = normalizeWaterGoal(update.waterGoal);
+  }
+
+  if (update.timezone !== undefined) {
+    if (update.timezone !== null && !isValidTimezone(update.timezone)) {
+      throw new Error(`Unknown timezone: ${update.timezone}`);
+    }
+    row.timezone = update.timezone;
+  }
+
+  if (update.dayBoundaryHour !== undefined) {
+    const hour = update.dayBoundaryHour;
+    if (!Number.isInteger(hour) || hour < 0 || hour > MAX_DAY_BOUNDARY_HOUR) {
+      throw new Error(
+        `Day boundary must be a whole hour between 0 and ${MAX_DAY_BOUNDARY_HOUR}`
+      );
+    }
+    row.day_boundary_hour = hour;
+  }
+
+  if (update.notifications?.reminders !== undefined) {
+    row.reminders_enabled = update.notifications.reminders;
+  }
+  if (update.notifications?.dailySummary !== undefined) {
+    row.daily_summary_enabled = update.notifications.dailySummary;
+  }
+
+  return row;
+}
+
+// Settings after an update, for optimistic cache writes
+export function mergeUserSettings(
+  settings: UserSettings,
+  update: UserSettingsUpdate
+): UserSettings {
+  return {
+    ...settings,
+    ...update,
+    notifications: { ...settings.notifications, ...update.notifications },
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Timezone used for day boundaries: the stored one, else the device's
+export function getEffectiveTimezone(
+  settings: Pick<UserSettings, 'timezone'>
+): string {
+  return settings.timezone ?? getDeviceTimezone();
+}
+
+// IANA names for the timezone picker; older runtimes only list the device's
+export function getTimezoneOptions(): string[] {
+  if (typeof Intl.supportedValuesOf === 'function') {
+    return Intl.supportedValuesOf('timeZone');
+  }
+  return [getDeviceTimezone()];
+}
+
+// "Midnight", "1 AM" ... "6 AM"
+export function formatDayBoundary(hour: number): string {
+  return hour === 0 ? 'Midnight' : `${hour} AM`;
+}
+
+// Palette to render; 'system' follows the OS preference
+export function resolveTheme(
+  theme: UserSettings['theme'],
+  prefersDark: boolean
+): 'light' | 'dark' {
+  if (theme === 'system') return prefersDark ? 'dark' : 'light';
+  return theme;
+}
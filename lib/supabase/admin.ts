@@ -0,0 +1,18 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service role client for server jobs that work across users (the reminder
+ * scheduler). Bypasses RLS, so never import it from client code.
+ */
+export function createAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const secretKey = process.env.SUPABASE_SECRET_KEY;
+
+  if (!url || !secretKey) {
+    throw new Error('SUPABASE_SECRET_KEY is not configured');
+  }
+
+  return createSupabaseClient(url, secretKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
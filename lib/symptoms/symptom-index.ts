@@ -1,7 +1,12 @@
 // Simplified symptom system for nutrition testing
-// 4 categories with simple 0/1 toggle optimized for food sensitivity tracking
+// 4 categories, each entry optionally rated 1-5 and given an end time
 
-import { SymptomCategory } from '@/lib/types';
+import {
+  CustomSymptom,
+  Symptom,
+  SymptomCategory,
+  SymptomSeverity,
+} from '@/lib/types';
 
 export interface SymptomDefinition {
   id: string; // Simple identifier matching your JSON
@@ -10,6 +15,8 @@ export interface SymptomDefinition {
   categoryIcon: string;
   searchTerms: string[];
   description?: string;
+  isCustom?: boolean; // User-defined (see custom_symptoms)
+  archived?: boolean; // Custom symptom hidden from pickers; still resolves for history
 }
 
 export interface SymptomCategoryInfo {
@@ -421,15 +428,63 @@ export const SYMPTOM_CATEGORIES: SymptomCategoryInfo[] = [
   },
 ];
 
+// Custom symptoms are referenced from entries as 'custom:<custom_symptoms.id>'
+export const CUSTOM_SYMPTOM_ID_PREFIX = 'custom:';
+
+export function toCustomSymptomId(customSymptomId: string): string {
+  return `${CUSTOM_SYMPTOM_ID_PREFIX}${customSymptomId}`;
+}
+
+export function isCustomSymptomId(symptomId: string): boolean {
+  return symptomId.startsWith(CUSTOM_SYMPTOM_ID_PREFIX);
+}
+
+export function toSymptomDefinition(custom: CustomSymptom): SymptomDefinition {
+  return {
+    id: toCustomSymptomId(custom.id),
+    name: custom.name,
+    category: custom.category,
+    categoryIcon: custom.icon || getCategoryInfo(custom.category)?.icon || '⚡',
+    searchTerms: [custom.name.toLowerCase(), ...custom.search_terms],
+    isCustom: true,
+    archived: !!custom.archived_at,
+  };
+}
+
+// Built-in symptoms followed by the user's active custom symptoms
+function pickableSymptoms(
+  customSymptoms: CustomSymptom[]
+): SymptomDefinition[] {
+  return [
+    ...SYMPTOMS,
+    ...customSymptoms
+      .filter(custom => !custom.archived_at)
+      .map(toSymptomDefinition),
+  ];
+}
+
 // Helper functions
-export function getSymptomById(id: string): SymptomDefinition | undefined {
+// Lookups include archived custom symptoms so past entries keep resolving
+export function getSymptomById(
+  id: string,
+  customSymptoms: CustomSymptom[] = []
+): SymptomDefinition | undefined {
+  if (isCustomSymptomId(id)) {
+    const custom = customSymptoms.find(
+      symptom => toCustomSymptomId(symptom.id) === id
+    );
+    return custom && toSymptomDefinition(custom);
+  }
   return SYMPTOMS.find(symptom => symptom.id === id);
 }
 
 export function getSymptomsByCategory(
-  category: SymptomCategory
+  category: SymptomCategory,
+  customSymptoms: CustomSymptom[] = []
 ): SymptomDefinition[] {
-  return SYMPTOMS.filter(symptom => symptom.category === category);
+  return pickableSymptoms(customSymptoms).filter(
+    symptom => symptom.category === category
+  );
 }
 
 export function getCategoryInfo(
@@ -468,15 +523,76 @@ export function getCategoryInfoSafe(
 }
 
 // Simple symptom score descriptions
-export const SYMPTOM_SCORE_LABELS = {
-  '0': 'Baseline',
-  '1': 'Present',
-} as const;
+// Optional severity scale - entries logged as plain presence have no severity
+export const SYMPTOM_SEVERITY_LEVELS: readonly SymptomSeverity[] = [
+  1, 2, 3, 4, 5,
+];
 
-export const SYMPTOM_SCORE_DESCRIPTIONS = {
-  '0': 'Normal baseline - symptom not present',
-  '1': 'Symptom is present',
-} as const;
+export const SYMPTOM_SEVERITY_LABELS: Record<SymptomSeverity, string> = {
+  1: 'Very mild',
+  2: 'Mild',
+  3: 'Moderate',
+  4: 'Severe',
+  5: 'Very severe',
+};
+
+export const SYMPTOM_SEVERITY_DESCRIPTIONS: Record<SymptomSeverity, string> = {
+  1: 'Barely noticeable',
+  2: 'Noticeable but not bothersome',
+  3: 'Bothersome, still able to carry on',
+  4: 'Hard to ignore, disrupts what you are doing',
+  5: 'Stops you in your tracks',
+};
+
+// Weight used for entries without a severity so they still count in trends
+export const UNRATED_SYMPTOM_SEVERITY: SymptomSeverity = 3;
+
+export function isSymptomSeverity(value: unknown): value is SymptomSeverity {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= 5
+  );
+}
+
+export function getSymptomSeverityWeight(
+  symptom: Pick<Symptom, 'severity'>
+): SymptomSeverity {
+  return symptom.severity ?? UNRATED_SYMPTOM_SEVERITY;
+}
+
+// Minutes between start and end, or null when no end time was logged
+export function getSymptomDurationMinutes(
+  symptom: Pick<Symptom, 'timestamp' | 'ended_at'>
+): number | null {
+  if (!symptom.ended_at) return null;
+  const minutes =
+    (new Date(symptom.ended_at).getTime() -
+      new Date(symptom.timestamp).getTime()) /
+    60000;
+  return Number.isFinite(minutes) && minutes >= 0 ? Math.round(minutes) : null;
+}
+
+export function formatSymptomDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+// e.g. "Severe · 1h 30m"; empty for presence-only entries
+export function describeSymptomIntensity(
+  symptom: Pick<Symptom, 'severity' | 'timestamp' | 'ended_at'>
+): string {
+  const duration = getSymptomDurationMinutes(symptom);
+  return [
+    symptom.severity ? SYMPTOM_SEVERITY_LABELS[symptom.severity] : null,
+    duration !== null ? formatSymptomDuration(duration) : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
 
 // Legacy delta score descriptions (for migration reference)
 export const DELTA_SCORE_LABELS = {
@@ -496,27 +612,32 @@ export const DELTA_SCORE_DESCRIPTIONS = {
 } as const;
 
 // Search functionality
-export function searchSymptoms(query: string): SymptomDefinition[] {
+export function searchSymptoms(
+  query: string,
+  customSymptoms: CustomSymptom[] = []
+): SymptomDefinition[] {
   if (!query.trim()) return [];
 
   const searchTerm = query.toLowerCase().trim();
 
-  return SYMPTOMS.filter(symptom => {
-    // Search in name
-    if (symptom.name.toLowerCase().includes(searchTerm)) return true;
+  return pickableSymptoms(customSymptoms)
+    .filter(symptom => {
+      // Search in name
+      if (symptom.name.toLowerCase().includes(searchTerm)) return true;
 
-    // Search in search terms
-    return symptom.searchTerms.some(term =>
-      term.toLowerCase().includes(searchTerm)
-    );
-  }).sort((a, b) => {
-    // Prioritize exact name matches
-    const aNameMatch = a.name.toLowerCase().includes(searchTerm);
-    const bNameMatch = b.name.toLowerCase().includes(searchTerm);
+      // Search in search terms
+      return symptom.searchTerms.some(term =>
+        term.toLowerCase().includes(searchTerm)
+      );
+    })
+    .sort((a, b) => {
+      // Prioritize exact name matches
+      const aNameMatch = a.name.toLowerCase().includes(searchTerm);
+      const bNameMatch = b.name.toLowerCase().includes(searchTerm);
 
-    if (aNameMatch && !bNameMatch) return -1;
-    if (!aNameMatch && bNameMatch) return 1;
+      if (aNameMatch && !bNameMatch) return -1;
+      if (!aNameMatch && bNameMatch) return 1;
 
-    return a.name.localeCompare(b.name);
-  });
+      return a.name.localeCompare(b.name);
+    });
 }
@@ -0,0 +1,54 @@
+/**
+ * Severity-weighted symptom trends
+ * A day with one severe flare should outrank a day with two barely-noticeable
+ * twinges, so trends sum severities instead of counting entries.
+ */
+
+import type { Symptom } from '@/lib/types';
+import {
+  getDayBoundary,
+  groupByDay,
+  type DayBoundary,
+} from '@/lib/utils/day-buckets';
+import {
+  getSymptomDurationMinutes,
+  getSymptomSeverityWeight,
+} from './symptom-index';
+
+export interface SymptomTrendPoint {
+  day: string; // YYYY-MM-DD
+  count: number; // Entries logged that day
+  severityScore: number; // Sum of severities; unrated entries use the default weight
+  averageSeverity: number; // severityScore / count, one decimal
+  ratedCount: number; // Entries with an explicit severity
+  durationMinutes: number; // Total logged duration; entries without an end add nothing
+}
+
+/**
+ * Group symptoms by day and weight each entry by its severity
+ * @param symptoms - Symptom entries, in any order
+ * @param boundary - Timezone and day-start hour that decide each entry's day
+ * @returns One point per day with entries, oldest first
+ */
+export function buildSymptomTrends(
+  symptoms: Symptom[],
+  boundary: DayBoundary = getDayBoundary()
+): SymptomTrendPoint[] {
+  return Array.from(groupByDay(symptoms, boundary), ([day, entries]) => {
+    const severityScore = entries.reduce(
+      (sum, symptom) => sum + getSymptomSeverityWeight(symptom),
+      0
+    );
+    return {
+      day,
+      count: entries.length,
+      severityScore,
+      averageSeverity: Math.round((severityScore / entries.length) * 10) / 10,
+      ratedCount: entries.filter(symptom => symptom.severity != null).length,
+      durationMinutes: entries.reduce(
+        (sum, symptom) => sum + (getSymptomDurationMinutes(symptom) ?? 0),
+        0
+      ),
+    };
+  }).sort((a, b) => a.day.localeCompare(b.day));
+}
@@ -14,6 +14,9 @@ export interface User {
 export interface UserSettings {
   theme: 'light' | 'dark' | 'system';
   waterGoal: number; // in ml
+  units: 'metric' | 'imperial';
+  timezone: string | null; // IANA name; null follows the device
+  dayBoundaryHour: number; // 0-6; entries before this hour count towards the previous day
   notifications: {
     reminders: boolean;
     dailySummary: boolean;
@@ -27,6 +30,9 @@ export interface AuthSession {
   createdAt: string; // ISO 8601 string
 }
 
+// Which AI pipeline reads captured photos: dish photos or printed labels
+export type ImageAnalysisMode = 'meal' | 'label';
+
 export interface Food {
   id: string;
   name: string; // e.g., "Lunch" or a user-defined name
@@ -39,40 +45,65 @@ export interface Food {
   status: 'pending_review' | 'analyzing' | 'processed';
   retry_count?: number; // Number of retry attempts for background zoning
   last_retry_at?: string; // ISO 8601 timestamp of last retry attempt
+  pending_sync?: boolean; // Client-only: saved offline, not yet in Supabase
+  recipe_id?: string | null; // Recipe this entry was logged from
+  recipe_scale?: number | null; // Servings of the recipe eaten (1 = the whole recipe)
+  recipe_updated_at?: string | null; // Recipe revision when logged; newer edits can be reviewed
 }
 
 export interface Ingredient {
   name: string;
   organic: boolean; // Renamed from 'isOrganic' to match Supabase schema
-  cookingMethod?:
-    | 'raw'
-    | 'fried'
-    | 'steamed'
-    | 'baked'
-    | 'grilled'
-    | 'roasted'
-    | 'other';
+  cookingMethod?: CookingMethod; // Preparation; frying shifts the zone
   category?: string; // Main classification (e.g., "Proteins", "Vegetables", "Fruits")
+  quantity?: number; // Portion eaten, in `unit`; unset when not estimated
+  unit?: IngredientUnit;
+  allergen?: boolean; // Called out as an allergen on the product label
   group: string; // Primary classification (e.g., "Low-Sugar Berries", "Quality Animal Proteins", "Leafy Greens")
   zone: 'green' | 'yellow' | 'red' | 'unzoned';
+  zoneSource?: ZoneSource; // Unset for entries zoned before sources were tracked
+  classifiedZone?: Ingredient['zone']; // AI/dictionary zone replaced by a personal override
+  classifiedZoneSource?: Exclude<ZoneSource, 'personal'>;
 }
 
+export type IngredientUnit = 'g' | 'ml' | 'cup' | 'piece';
+
+export type CookingMethod =
+  | 'raw'
+  | 'fried'
+  | 'steamed'
+  | 'baked'
+  | 'grilled'
+  | 'roasted'
+  | 'other';
+
+// Where an ingredient's zone came from
+export type ZoneSource = 'ai' | 'dictionary' | 'personal';
+
 export interface Symptom {
   id: string;
-  symptom_id: string; // Simplified symptom identifier (e.g., 'nausea', 'fatigue')
+  symptom_id: string; // Built-in identifier (e.g., 'nausea') or 'custom:<custom symptom id>'
   category: SymptomCategory; // 4-category system: digestion, energy, mind, recovery
   name: string; // Human-readable symptom name
   timestamp: string; // ISO 8601 string (e.g., "2025-07-04T22:15:00.000Z")
   notes?: string;
+  severity?: SymptomSeverity | null; // 1 (very mild) to 5 (very severe); unset on older entries
+  ended_at?: string | null; // ISO 8601 end time; duration is ended_at - timestamp
+  pending_sync?: boolean; // Client-only: saved offline, not yet in Supabase
 }
 
 // Simplified symptom system types
 export type SymptomCategory = 'digestion' | 'energy' | 'mind' | 'recovery';
+export type SymptomSeverity = 1 | 2 | 3 | 4 | 5;
 
 // Legacy types - kept for backward compatibility only
 export type DeltaScore = -2 | -1 | 0 | 1 | 2; // Delta scoring system used in symptom tracking
 
+// How zone statistics weigh ingredients: one each, or by portion size
+export type FoodStatsWeighting = 'count' | 'quantity';
+
 // Food statistics interface for selected date analysis
+// With 'quantity' weighting the ingredient totals are approximate grams
 export interface FoodStats {
   greenIngredients: number;
   yellowIngredients: number;
@@ -81,6 +112,94 @@ export interface FoodStats {
   organicCount: number;
   totalOrganicPercentage: number;
   isFromSelectedDate: boolean;
+  weighting?: FoodStatsWeighting; // Unset means 'count'
+}
+
+// Elimination protocol (Big Reset) types
+export type ProtocolPhase = 'elimination' | 'reintroduction' | 'maintenance';
+
+export type ReintroductionOutcome = 'tolerated' | 'reactive';
+
+export interface ProtocolReintroduction {
+  group: string; // Ingredient group under test (e.g., "Fermented/Aged Dairy")
+  started_at: string; // ISO 8601 string
+  observe_until: string; // ISO 8601 string, end of the observation window
+  outcome?: ReintroductionOutcome; // Unset while observing or awaiting review
+  completed_at?: string; // ISO 8601 string
+}
+
+export interface Protocol {
+  id: string;
+  type: 'big_reset';
+  phase: ProtocolPhase;
+  started_at: string; // ISO 8601 string
+  elimination_ends_at: string; // ISO 8601 string
+  ended_at?: string; // ISO 8601 string, set when the protocol is finished or abandoned
+  eliminated_zones: Array<Exclude<Ingredient['zone'], 'green'>>;
+  eliminated_groups: string[];
+  reintroductions: ProtocolReintroduction[];
+}
+
+// Personal zone overrides ("dairy is red for me")
+export type ZoneOverrideTarget = 'ingredient' | 'group';
+
+export interface ZoneOverride {
+  id: string;
+  target_type: ZoneOverrideTarget;
+  target: string; // Lowercased ingredient name or group name
+  zone: Exclude<Ingredient['zone'], 'unzoned'>;
+  created_at: string; // ISO 8601 string
+}
+
+// Saved meals that can be re-logged without another AI analysis
+export interface MealTemplate {
+  id: string;
+  name: string;
+  ingredients: Ingredient[]; // Already zoned, copied as-is when logged
+  meal_type?: Food['meal_type'] | null;
+  photo_url?: string | null;
+  use_count: number;
+  last_used_at?: string | null; // ISO 8601 string
+  created_at: string; // ISO 8601 string
+}
+
+// Home-cooked recipes, zoned once and expanded into a food's ingredients
+export interface Recipe {
+  id: string;
+  name: string;
+  ingredients: Ingredient[]; // Zoned when saved; excludes sub-recipes
+  sub_recipe_ids: string[]; // Nested recipes, e.g. a house vinaigrette
+  created_at: string; // ISO 8601 string
+  updated_at: string; // ISO 8601 string
+}
+
+// User-defined symptoms, merged with the built-in symptom index
+export interface CustomSymptom {
+  id: string;
+  name: string;
+  category: SymptomCategory;
+  icon?: string | null; // Emoji; falls back to the category icon
+  search_terms: string[];
+  archived_at?: string | null; // Archived symptoms are hidden from pickers only
+  created_at: string; // ISO 8601 string
+}
+
+// AI zoning review queue types
+export type ZoningSuggestionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ZoningSuggestion {
+  id: string;
+  ingredient_name: string; // Lowercased, trimmed
+  zone: Ingredient['zone'];
+  category?: string;
+  ingredient_group: string; // Maps to Ingredient['group']
+  model: string; // Model that produced the classification
+  request_count: number;
+  status: ZoningSuggestionStatus;
+  reviewed_by?: string;
+  reviewed_at?: string; // ISO 8601 string
+  last_requested_at: string; // ISO 8601 string
+  created_at: string; // ISO 8601 string
 }
 
 // Unified timeline entry types
@@ -90,6 +209,14 @@ export type TimelineEntry =
   | { id: string; type: 'food'; timestamp: string; data: Food }
   | { id: string; type: 'signal'; timestamp: string; data: Symptom };
 
+// Overview totals and streak, aggregated server-side (see get_entry_summary)
+export interface EntrySummary {
+  totalFoods: number;
+  totalSymptoms: number;
+  daysTracked: number;
+  currentStreak: number;
+}
+
 // Export types for backward compatibility with existing imports
 export type { Symptom as SymptomType };
 export type { Ingredient as IngredientType };
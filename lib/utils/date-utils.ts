@@ -40,3 +40,35 @@ export function isSameLocalDate(date1: Date, date2: Date): boolean {
 export function timestampToLocalDate(timestamp: string): Date {
   return normalizeToLocalDate(new Date(timestamp));
 }
+
+/**
+ * Calendar day and time of day of a moment in an IANA timezone
+ * Needed on the server, whose own timezone isn't the user's
+ *
+ * @param date - Moment to convert
+ * @param timeZone - IANA timezone name (e.g., "Europe/Berlin")
+ * @returns Day key ("2025-07-04") and minutes since local midnight
+ */
+export function getZonedDateParts(
+  date: Date,
+  timeZone: string
+): { dateKey: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value])
+  );
+
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
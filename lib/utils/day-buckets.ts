@@ -0,0 +1,159 @@
+/**
+ * Day buckets
+ * Which day an entry counts toward, in the user's own timezone and with
+ * their day-start hour: with a 4 AM start, a 1 AM snack still belongs to
+ * the evening before. Day keys ("2025-07-04") are the shared currency for
+ * queries, streaks, trends and the date picker, so they all agree.
+ */
+
+import type { UserSettings } from '@/lib/types';
+import {
+  DEFAULT_USER_SETTINGS,
+  getEffectiveTimezone,
+} from '@/lib/settings/user-settings';
+import { getZonedDateParts } from './date-utils';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+export interface DayBoundary {
+  timeZone: string; // IANA timezone name
+  startHour: number; // Local hour a new day begins (0 = midnight)
+}
+
+/**
+ * Day boundary for a user's settings
+ * Without settings (or a stored timezone) the device timezone is used.
+ */
+export function getDayBoundary(
+  settings?: Pick<UserSettings, 'timezone' | 'dayBoundaryHour'> | null
+): DayBoundary {
+  const { timezone, dayBoundaryHour } = settings ?? DEFAULT_USER_SETTINGS;
+  return {
+    timeZone: getEffectiveTimezone({ timezone }),
+    startHour: dayBoundaryHour,
+  };
+}
+
+// Day keys are calendar dates, so their arithmetic runs in UTC
+const dayKeyToUtc = (dayKey: string): number => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const utcToDayKey = (ms: number): string =>
+  new Date(ms).toISOString().split('T')[0];
+
+export function shiftDayKey(dayKey: string, days: number): string {
+  return utcToDayKey(dayKeyToUtc(dayKey) + days * MS_PER_DAY);
+}
+
+// Whole days from one key to another ("2025-07-01" -> "2025-07-04" is 3)
+export function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((dayKeyToUtc(toKey) - dayKeyToUtc(fromKey)) / MS_PER_DAY);
+}
+
+/**
+ * Day an entry counts toward
+ * @param timestamp - ISO timestamp or Date
+ * @param boundary - The user's timezone and day-start hour
+ * @returns Day key ("2025-07-04")
+ */
+export function getDayKey(
+  timestamp: string | Date,
+  boundary: DayBoundary
+): string {
+  const { dateKey, minutes } = getZonedDateParts(
+    new Date(timestamp),
+    boundary.timeZone
+  );
+  return minutes < boundary.startHour * 60 ? shiftDayKey(dateKey, -1) : dateKey;
+}
+
+export function getTodayKey(
+  boundary: DayBoundary,
+  now: Date = new Date()
+): string {
+  return getDayKey(now, boundary);
+}
+
+// Offset of the timezone's wall clock from UTC at an instant, in ms
+function getOffsetMs(instant: number, timeZone: string): number {
+  const wholeMinute = Math.floor(instant / MS_PER_MINUTE) * MS_PER_MINUTE;
+  const { dateKey, minutes } = getZonedDateParts(
+    new Date(wholeMinute),
+    timeZone
+  );
+  return dayKeyToUtc(dateKey) + minutes * MS_PER_MINUTE - wholeMinute;
+}
+
+// First instant of a day; the second pass settles days that change offset
+function getDayStart(dayKey: string, boundary: DayBoundary): number {
+  const { timeZone } = boundary;
+  const wallClock =
+    dayKeyToUtc(dayKey) + boundary.startHour * 60 * MS_PER_MINUTE;
+  const guess = wallClock - getOffsetMs(wallClock, timeZone);
+  const offset = getOffsetMs(guess, timeZone);
+  const start = wallClock - offset;
+  if (getOffsetMs(start, timeZone) === offset) return start;
+
+  // The start hour was skipped by a DST jump; the day begins at the jump
+  return Math.max(guess, start);
+}
+
+/**
+ * Instants a day spans, for timestamp queries
+ * DST days are 23 or 25 hours long; `end` is exclusive.
+ */
+export function getDayRange(
+  dayKey: string,
+  boundary: DayBoundary
+): { start: string; end: string } {
+  return {
+    start: new Date(getDayStart(dayKey, boundary)).toISOString(),
+    end: new Date(getDayStart(shiftDayKey(dayKey, 1), boundary)).toISOString(),
+  };
+}
+
+/**
+ * Day key of a calendar date picked in the UI (its local year, month and day)
+ */
+export function dateToDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Local midnight of a day key, for the date picker
+export function dayKeyToDate(dayKey: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function groupByDay<T extends { timestamp: string }>(
+  entries: T[],
+  boundary: DayBoundary
+): Map<string, T[]> {
+  const byDay = new Map<string, T[]>();
+  entries.forEach(entry => {
+    const day = getDayKey(entry.timestamp, boundary);
+    const entriesForDay = byDay.get(day);
+    if (entriesForDay) entriesForDay.push(entry);
+    else byDay.set(day, [entry]);
+  });
+  return byDay;
+}
+
+/**
+ * Consecutive days with entries, ending today
+ * A day that has nothing logged yet doesn't break the streak until it's over.
+ */
+export function getStreak(dayKeys: Set<string>, todayKey: string): number {
+  let day = dayKeys.has(todayKey) ? todayKey : shiftDayKey(todayKey, -1);
+  let streak = 0;
+  while (dayKeys.has(day)) {
+    streak++;
+    day = shiftDayKey(day, -1);
+  }
+  return streak;
+}
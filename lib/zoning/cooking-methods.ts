@@ -0,0 +1,114 @@
+/**
+ * Cooking methods
+ * Preparation is a zoning input: the rubric puts "fried foods" in RED, so a
+ * fried ingredient is zoned one step worse than the same ingredient raw,
+ * steamed or baked. Dictionary and reviewed zones are adjusted here; the model
+ * receives the method with the ingredient and applies the same rule itself.
+ */
+
+import type {
+  CookingMethod,
+  FoodStatsWeighting,
+  Ingredient,
+} from '@/lib/types';
+import { getIngredientWeight } from '@/lib/portions/portions';
+
+export const COOKING_METHODS: readonly CookingMethod[] = [
+  'raw',
+  'steamed',
+  'baked',
+  'roasted',
+  'grilled',
+  'fried',
+  'other',
+];
+
+export const COOKING_METHOD_LABELS: Record<CookingMethod, string> = {
+  raw: 'Raw',
+  steamed: 'Steamed',
+  baked: 'Baked',
+  roasted: 'Roasted',
+  grilled: 'Grilled',
+  fried: 'Fried',
+  other: 'Other',
+};
+
+// Common model and user phrasings for the supported methods
+const METHOD_ALIASES: Record<string, CookingMethod> = {
+  uncooked: 'raw',
+  fresh: 'raw',
+  boiled: 'steamed',
+  poached: 'steamed',
+  blanched: 'steamed',
+  toasted: 'baked',
+  broiled: 'grilled',
+  barbecued: 'grilled',
+  bbq: 'grilled',
+  charred: 'grilled',
+  'deep-fried': 'fried',
+  'deep fried': 'fried',
+  'pan-fried': 'fried',
+  'pan fried': 'fried',
+  'stir-fried': 'fried',
+  'stir fried': 'fried',
+  sauteed: 'fried',
+  sautéed: 'fried',
+};
+
+export function parseCookingMethod(value: unknown): CookingMethod | undefined {
+  if (typeof value !== 'string') return undefined;
+  const key = value.trim().toLowerCase();
+  if ((COOKING_METHODS as readonly string[]).includes(key)) {
+    return key as CookingMethod;
+  }
+  return METHOD_ALIASES[key];
+}
+
+const ZONE_STEPS = ['green', 'yellow', 'red'] as const;
+
+/**
+ * Zone of an ingredient after its preparation
+ * Only frying moves the zone; unzoned ingredients stay unzoned.
+ */
+export function applyCookingMethod(
+  zone: Ingredient['zone'],
+  cookingMethod: CookingMethod | undefined
+): Ingredient['zone'] {
+  if (cookingMethod !== 'fried' || zone === 'unzoned') return zone;
+  const step = ZONE_STEPS.indexOf(zone);
+  return ZONE_STEPS[Math.min(step + 1, ZONE_STEPS.length - 1)];
+}
+
+// Item sent to /api/zone-ingredients; plain names when preparation is unknown
+export type ZoningInput =
+  | string
+  | { name: string; cookingMethod: CookingMethod };
+
+export function toZoningInput(
+  ingredient: Pick<Ingredient, 'name' | 'cookingMethod'>
+): ZoningInput {
+  return ingredient.cookingMethod
+    ? { name: ingredient.name, cookingMethod: ingredient.cookingMethod }
+    : ingredient.name;
+}
+
+export type CookingMethodTotals = Record<CookingMethod | 'unknown', number>;
+
+/**
+ * Ingredients per cooking method, counted or weighed like zone totals
+ */
+export function getCookingMethodTotals(
+  ingredients: Ingredient[],
+  weighting: FoodStatsWeighting = 'count'
+): CookingMethodTotals {
+  const totals = Object.fromEntries(
+    [...COOKING_METHODS, 'unknown'].map(method => [method, 0])
+  ) as CookingMethodTotals;
+
+  ingredients.forEach(ingredient => {
+    const method = parseCookingMethod(ingredient.cookingMethod) ?? 'unknown';
+    totals[method] += getIngredientWeight(ingredient, weighting);
+  });
+
+  return totals;
+}
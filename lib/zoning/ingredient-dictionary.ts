@@ -0,0 +1,827 @@
+// Curated ingredient knowledge base for deterministic zoning
+// Transcribed from the rubric in prompts/ingredient-zoning.md so common
+// ingredients are zoned without a model call. Bump the version whenever the
+// data changes so zoning results can be traced back to a dictionary revision.
+
+import type { Ingredient } from '@/lib/types';
+import { applyCookingMethod } from '@/lib/zoning/cooking-methods';
+
+export const INGREDIENT_DICTIONARY_VERSION = '1.0.0';
+
+type DictionaryZone = 'green' | 'yellow' | 'red';
+
+export interface IngredientDefinition {
+  name: string; // Canonical name (lowercase)
+  synonyms: string[];
+  zone: DictionaryZone;
+  category: string; // Main classification (e.g., "Vegetables")
+  group: string; // Primary classification (e.g., "Leafy Greens")
+}
+
+interface RubricGroup {
+  zone: DictionaryZone;
+  category: string;
+  group: string;
+  keywords: string[];
+}
+
+// Rubric keywords by zone and group, in rubric order. Keywords with a
+// qualifier in parentheses are written as the plain ingredient they describe.
+// "Processing Indicators" (fermented, aged, ...) are modifiers, not
+// ingredients, and are left to the model.
+const RUBRIC_GROUPS: RubricGroup[] = [
+  // GREEN ZONE
+  {
+    zone: 'green',
+    category: 'Proteins',
+    group: 'Quality Animal Proteins',
+    keywords: [
+      'grass-fed beef',
+      'lamb',
+      'bison',
+      'venison',
+      'wild game',
+      'pasture-raised chicken',
+      'pasture-raised turkey',
+      'duck',
+      'game birds',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Proteins',
+    group: 'Organ Meats & Nutrient-Dense Proteins',
+    keywords: ['liver', 'heart', 'kidney', 'bone broth', 'marrow'],
+  },
+  {
+    zone: 'green',
+    category: 'Proteins',
+    group: 'Wild-Caught Seafood',
+    keywords: [
+      'wild salmon',
+      'sardines',
+      'mackerel',
+      'trout',
+      'anchovy',
+      'herring',
+      'cod',
+      'haddock',
+      'pollock',
+      'mahi-mahi',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Fats & Oils',
+    group: 'Healthy Cooking Fats',
+    keywords: [
+      'ghee',
+      'grass-fed tallow',
+      'pastured lard',
+      'duck fat',
+      'coconut oil',
+      'red palm oil',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Fats & Oils',
+    group: 'Cold-Use Oils',
+    keywords: ['extra virgin olive oil', 'avocado oil'],
+  },
+  {
+    zone: 'green',
+    category: 'Vegetables',
+    group: 'Leafy Greens',
+    keywords: [
+      'spinach',
+      'kale',
+      'chard',
+      'arugula',
+      'lettuce',
+      'collard greens',
+      'mustard greens',
+      'dandelion greens',
+      'watercress',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Vegetables',
+    group: 'Cruciferous Vegetables',
+    keywords: [
+      'broccoli',
+      'cauliflower',
+      'brussels sprouts',
+      'cabbage',
+      'bok choy',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Vegetables',
+    group: 'Root Vegetables',
+    keywords: [
+      'carrots',
+      'beets',
+      'parsnips',
+      'turnips',
+      'radishes',
+      'rutabaga',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Vegetables',
+    group: 'Other Vegetables',
+    keywords: [
+      'zucchini',
+      'cucumber',
+      'celery',
+      'asparagus',
+      'green beans',
+      'squash',
+      'pumpkin',
+      'sweet potato',
+      'yam',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Vegetables',
+    group: 'Sea Vegetables',
+    keywords: ['kelp', 'nori', 'dulse', 'arame', 'wakame'],
+  },
+  {
+    zone: 'green',
+    category: 'Fruits',
+    group: 'Low-Sugar Berries',
+    keywords: ['blueberries', 'raspberries', 'strawberries', 'blackberries'],
+  },
+  {
+    zone: 'green',
+    category: 'Fruits',
+    group: 'Low-Sugar Fruits',
+    keywords: [
+      'avocado',
+      'olives',
+      'lemon',
+      'lime',
+      'grapefruit',
+      'green apples',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Fermented Foods',
+    group: 'Probiotic Foods',
+    keywords: [
+      'sauerkraut',
+      'kimchi',
+      'water kefir',
+      'coconut kefir',
+      'naturally fermented pickles',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Herbs, Spices & Seasonings',
+    group: 'Fresh & Dried Herbs',
+    keywords: [
+      'basil',
+      'rosemary',
+      'thyme',
+      'oregano',
+      'parsley',
+      'cilantro',
+      'mint',
+      'dill',
+      'sage',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Herbs, Spices & Seasonings',
+    group: 'Non-Seed Spices',
+    keywords: [
+      'turmeric',
+      'ginger',
+      'garlic',
+      'cinnamon',
+      'cloves',
+      'sea salt',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Herbs, Spices & Seasonings',
+    group: 'Vinegars & Condiments',
+    keywords: ['apple cider vinegar', 'coconut aminos'],
+  },
+  {
+    zone: 'green',
+    category: 'Beverages',
+    group: 'Hydrating Drinks',
+    keywords: [
+      'spring water',
+      'filtered water',
+      'herbal tea',
+      'green tea',
+      'black tea',
+      'bone broth',
+    ],
+  },
+  {
+    zone: 'green',
+    category: 'Sweeteners',
+    group: 'Natural Zero-Calorie',
+    keywords: ['stevia', 'monk fruit'],
+  },
+  {
+    zone: 'green',
+    category: 'Nuts & Seeds',
+    group: 'Low-Inflammatory Nuts',
+    keywords: ['macadamia nuts', 'coconut'],
+  },
+
+  // YELLOW ZONE
+  {
+    zone: 'yellow',
+    category: 'Proteins',
+    group: 'Eggs',
+    keywords: ['pasture-raised eggs', 'egg yolks', 'whole eggs'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Proteins',
+    group: 'Shellfish',
+    keywords: [
+      'shrimp',
+      'crab',
+      'lobster',
+      'scallops',
+      'clams',
+      'oysters',
+      'mussels',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Proteins',
+    group: 'Legumes (Properly Prepared)',
+    keywords: [
+      'lentils',
+      'chickpeas',
+      'black beans',
+      'kidney beans',
+      'white beans',
+      'peas',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Dairy',
+    group: 'Fermented/Aged Dairy',
+    keywords: [
+      'aged cheese',
+      'parmesan',
+      'cheddar',
+      'yogurt',
+      'kefir',
+      'sour cream',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Dairy',
+    group: 'Fresh/Low-Lactose Dairy',
+    keywords: [
+      'grass-fed butter',
+      'raw cheese',
+      'a2 milk',
+      'goat dairy',
+      'sheep dairy',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Grains & Starches',
+    group: 'Gluten-Free Grains',
+    keywords: [
+      'sourdough bread',
+      'rice',
+      'oats',
+      'corn',
+      'millet',
+      'sorghum',
+      'teff',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Grains & Starches',
+    group: 'Pseudo-Grains',
+    keywords: ['quinoa', 'buckwheat', 'amaranth'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Grains & Starches',
+    group: 'Resistant Starches',
+    keywords: ['white potato', 'plantain', 'cassava', 'tapioca'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Vegetables',
+    group: 'Nightshades',
+    keywords: [
+      'tomatoes',
+      'peppers',
+      'eggplant',
+      'white potatoes',
+      'goji berries',
+      'ashwagandha',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Vegetables',
+    group: 'High-FODMAP Vegetables',
+    keywords: [
+      'onions',
+      'garlic',
+      'leeks',
+      'artichokes',
+      'asparagus',
+      'cauliflower',
+      'mushrooms',
+      'snow peas',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Vegetables',
+    group: 'High-Histamine Vegetables',
+    keywords: ['spinach', 'tomatoes', 'eggplant', 'avocado'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Fruits',
+    group: 'Higher-Sugar Fruits',
+    keywords: [
+      'mango',
+      'pineapple',
+      'banana',
+      'grapes',
+      'cherries',
+      'dates',
+      'figs',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Fruits',
+    group: 'Dried Fruits',
+    keywords: ['raisins', 'dates', 'apricots', 'prunes', 'cranberries'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Fruits',
+    group: 'Citrus Fruits',
+    keywords: ['oranges', 'tangerines', 'grapefruit'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Nuts & Seeds',
+    group: 'Tree Nuts',
+    keywords: [
+      'almonds',
+      'walnuts',
+      'pecans',
+      'cashews',
+      'pistachios',
+      'hazelnuts',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Nuts & Seeds',
+    group: 'Seeds',
+    keywords: [
+      'chia seeds',
+      'flax seeds',
+      'hemp seeds',
+      'pumpkin seeds',
+      'sunflower seeds',
+      'sesame seeds',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Sweeteners',
+    group: 'Natural Sugars',
+    keywords: [
+      'raw honey',
+      'maple syrup',
+      'coconut sugar',
+      'date sugar',
+      'molasses',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Beverages',
+    group: 'Caffeinated Drinks',
+    keywords: ['coffee', 'black tea', 'green tea'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Beverages',
+    group: 'Fermented Drinks',
+    keywords: ['kombucha', 'jun', 'beet kvass'],
+  },
+  {
+    zone: 'yellow',
+    category: 'Beverages',
+    group: 'Alcohol (Organic/Clean)',
+    keywords: [
+      'organic red wine',
+      'organic white wine',
+      'tequila',
+      'clean vodka',
+      'gin',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Condiments & Seasonings',
+    group: 'Seed-Based Spices',
+    keywords: [
+      'cumin',
+      'coriander',
+      'fennel seeds',
+      'mustard seeds',
+      'black pepper',
+    ],
+  },
+  {
+    zone: 'yellow',
+    category: 'Condiments & Seasonings',
+    group: 'Fermented Condiments',
+    keywords: ['tamari', 'coconut aminos', 'miso', 'fish sauce'],
+  },
+
+  // RED ZONE
+  {
+    zone: 'red',
+    category: 'Proteins',
+    group: 'Processed/Industrial Meats',
+    keywords: [
+      'processed meat',
+      'deli meat',
+      'hot dogs',
+      'commercial sausage',
+      'conventional bacon',
+      'factory-farmed meat',
+      'grain-fed meat',
+      'farmed fish',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Proteins',
+    group: 'Soy Products',
+    keywords: [
+      'soy protein isolate',
+      'textured vegetable protein',
+      'soy milk',
+      'conventional tofu',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Fats & Oils',
+    group: 'Industrial Seed Oils',
+    keywords: [
+      'canola oil',
+      'corn oil',
+      'soybean oil',
+      'sunflower oil',
+      'safflower oil',
+      'grapeseed oil',
+      'cottonseed oil',
+      'peanut oil',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Fats & Oils',
+    group: 'Trans Fats',
+    keywords: [
+      'margarine',
+      'vegetable shortening',
+      'hydrogenated oil',
+      'partially hydrogenated oil',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Grains',
+    group: 'Gluten-Containing Grains',
+    keywords: [
+      'wheat',
+      'barley',
+      'rye',
+      'spelt',
+      'kamut',
+      'triticale',
+      'durum',
+      'semolina',
+      'couscous',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Grains',
+    group: 'Refined Grain Products',
+    keywords: [
+      'white bread',
+      'pasta',
+      'crackers',
+      'cereals',
+      'pastries',
+      'cookies',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Dairy',
+    group: 'Conventional Dairy',
+    keywords: [
+      'conventional milk',
+      'skim milk',
+      'low-fat dairy',
+      'processed cheese',
+      'ice cream',
+      'non-organic yogurt',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Legumes',
+    group: 'Problematic Legumes',
+    keywords: ['peanuts', 'peanut butter', 'soy', 'soybeans'],
+  },
+  {
+    zone: 'red',
+    category: 'Sweeteners',
+    group: 'Refined Sugars',
+    keywords: [
+      'white sugar',
+      'brown sugar',
+      'high-fructose corn syrup',
+      'corn syrup',
+      'agave nectar',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Sweeteners',
+    group: 'Artificial Sweeteners',
+    keywords: ['aspartame', 'sucralose', 'saccharin', 'acesulfame k'],
+  },
+  {
+    zone: 'red',
+    category: 'Sweeteners',
+    group: 'Sugar Alcohols',
+    keywords: [
+      'sorbitol',
+      'mannitol',
+      'xylitol',
+      'maltitol',
+      'isomalt',
+      'erythritol',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Beverages',
+    group: 'Sugary Drinks',
+    keywords: [
+      'soda',
+      'diet soda',
+      'energy drinks',
+      'fruit juice',
+      'sports drinks',
+      'sweetened tea',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Beverages',
+    group: 'Conventional Alcohol',
+    keywords: ['beer', 'conventional wine', 'mixed drinks', 'liqueurs'],
+  },
+  {
+    zone: 'red',
+    category: 'Processed Foods',
+    group: 'Packaged/Processed Foods',
+    keywords: [
+      'chips',
+      'crackers',
+      'cookies',
+      'breakfast cereals',
+      'granola bars',
+      'protein bars',
+      'meal replacement shakes',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Processed Foods',
+    group: 'Fast Food',
+    keywords: [
+      'french fries',
+      'fried foods',
+      'fast food meals',
+      'frozen dinners',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Additives & Chemicals',
+    group: 'Food Additives',
+    keywords: [
+      'msg',
+      'natural flavors',
+      'artificial colors',
+      'artificial flavors',
+      'carrageenan',
+      'guar gum',
+      'xanthan gum',
+      'bha',
+      'bht',
+    ],
+  },
+  {
+    zone: 'red',
+    category: 'Additives & Chemicals',
+    group: 'Hidden Ingredients',
+    keywords: [
+      'yeast extract',
+      'autolyzed yeast',
+      'hydrolyzed protein',
+      'maltodextrin',
+      'modified starch',
+    ],
+  },
+];
+
+// Common label and menu spellings for rubric keywords
+// Only unambiguous aliases: "beef" or "chicken" stay with the model because
+// their zone depends on sourcing the name doesn't tell us
+const SYNONYMS: Record<string, string[]> = {
+  'extra virgin olive oil': ['olive oil', 'virgin olive oil', 'evoo'],
+  'wild salmon': ['wild-caught salmon', 'wild caught salmon'],
+  'mahi-mahi': ['mahi mahi'],
+  'sea salt': ['celtic sea salt', 'himalayan salt', 'pink salt'],
+  'filtered water': ['water'],
+  coconut: ['unsweetened coconut', 'shredded coconut', 'coconut flakes'],
+  'naturally fermented pickles': ['fermented pickles'],
+  'whole eggs': ['egg', 'eggs'],
+  'a2 milk': ['a2 whole milk'],
+  rice: ['white rice', 'brown rice', 'jasmine rice', 'basmati rice'],
+  oats: ['rolled oats', 'gluten-free oats', 'oatmeal'],
+  'white potato': ['potato', 'potatoes'],
+  peppers: ['bell pepper', 'bell peppers', 'red pepper', 'green pepper'],
+  tequila: ['100% agave tequila'],
+  wheat: ['wheat flour', 'whole wheat flour', 'enriched wheat flour'],
+  'white sugar': ['sugar', 'cane sugar', 'granulated sugar', 'table sugar'],
+  'high-fructose corn syrup': ['high fructose corn syrup', 'hfcs'],
+  'acesulfame k': ['acesulfame potassium'],
+  msg: ['monosodium glutamate'],
+  'natural flavors': ['natural flavoring', 'natural flavouring'],
+  'artificial colors': ['artificial colours', 'artificial coloring'],
+  'artificial flavors': ['artificial flavoring', 'artificial flavouring'],
+  'modified starch': ['modified food starch', 'modified corn starch'],
+  'hydrolyzed protein': ['hydrolyzed vegetable protein'],
+  soda: ['cola', 'soft drink'],
+};
+
+// Rubric precedence: RED beats YELLOW beats GREEN, then first group listed
+const ZONE_PRECEDENCE: DictionaryZone[] = ['red', 'yellow', 'green'];
+
+function normalizeDictionaryTerm(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ') // Label qualifiers, e.g. "tomatoes (45%)"
+    .replace(/\borganic\b/g, ' ') // Organic status is tracked separately
+    .replace(/[^a-z0-9%\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Singular/plural spellings to try: "carrot" finds "carrots"
+function termVariants(term: string): string[] {
+  const variants = [term];
+  if (term.endsWith('ies')) variants.push(`${term.slice(0, -3)}y`);
+  if (term.endsWith('oes')) variants.push(term.slice(0, -2));
+  if (term.endsWith('s')) variants.push(term.slice(0, -1));
+  if (term.endsWith('y')) variants.push(`${term.slice(0, -1)}ies`);
+  if (term.endsWith('o')) variants.push(`${term}es`);
+  if (!term.endsWith('s')) variants.push(`${term}s`);
+  return variants;
+}
+
+function findEntry(
+  index: Map<string, IngredientDefinition>,
+  name: string
+): IngredientDefinition | undefined {
+  const term = normalizeDictionaryTerm(name);
+  if (!term) return undefined;
+
+  for (const variant of termVariants(term)) {
+    const entry = index.get(variant);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+function buildDictionary(): {
+  entries: IngredientDefinition[];
+  index: Map<string, IngredientDefinition>;
+} {
+  const entries: IngredientDefinition[] = [];
+  const index = new Map<string, IngredientDefinition>();
+
+  ZONE_PRECEDENCE.forEach(zone => {
+    RUBRIC_GROUPS.filter(group => group.zone === zone).forEach(group => {
+      group.keywords.forEach(keyword => {
+        // A higher-precedence group already claimed this ingredient
+        if (findEntry(index, keyword)) return;
+
+        const entry: IngredientDefinition = {
+          name: keyword,
+          synonyms: SYNONYMS[keyword] || [],
+          zone: group.zone,
+          category: group.category,
+          group: group.group,
+        };
+        entries.push(entry);
+
+        [entry.name, ...entry.synonyms].forEach(term => {
+          const key = normalizeDictionaryTerm(term);
+          if (!index.has(key)) index.set(key, entry);
+        });
+      });
+    });
+  });
+
+  return { entries, index };
+}
+
+const { entries, index } = buildDictionary();
+
+export const INGREDIENT_DICTIONARY: readonly IngredientDefinition[] = entries;
+
+/**
+ * Find the dictionary entry for an ingredient name
+ * Exact matches only (after normalization) so zoning stays predictable
+ */
+export function lookupIngredient(
+  name: string
+): IngredientDefinition | undefined {
+  return findEntry(index, name);
+}
+
+/**
+ * Zone unzoned ingredients from the dictionary
+ *
+ * @returns Ingredients with dictionary hits applied, plus the ingredients
+ *          that still need a model call (with their cooking method)
+ */
+export function zoneIngredientsFromDictionary(ingredients: Ingredient[]): {
+  ingredients: Ingredient[];
+  misses: Ingredient[];
+} {
+  const misses: Ingredient[] = [];
+
+  const zoned = ingredients.map(ingredient => {
+    if (ingredient.zone !== 'unzoned') return ingredient;
+
+    const entry = lookupIngredient(ingredient.name);
+    if (!entry) {
+      misses.push(ingredient);
+      return ingredient;
+    }
+
+    return {
+      ...ingredient,
+      zone: applyCookingMethod(entry.zone, ingredient.cookingMethod),
+      category: entry.category,
+      group: entry.group,
+      zoneSource: 'dictionary' as const,
+    };
+  });
+
+  return { ingredients: zoned, misses };
+}
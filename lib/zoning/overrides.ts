@@ -0,0 +1,94 @@
+/**
+ * Personal zone overrides
+ * Applies a user's pinned zones on top of the AI/dictionary classification.
+ * The classification is kept alongside so removing an override reverts cleanly.
+ */
+
+import type { Food, Ingredient, ZoneOverride, ZoneSource } from '@/lib/types';
+
+/**
+ * Key used for override targets (matches the migration's CHECK)
+ */
+export function normalizeOverrideTarget(target: string): string {
+  return target.trim().toLowerCase();
+}
+
+/**
+ * Find the override for an ingredient
+ * Ingredient-name overrides win over group overrides
+ */
+export function findZoneOverride(
+  ingredient: Pick<Ingredient, 'name' | 'group'>,
+  overrides: ZoneOverride[]
+): ZoneOverride | undefined {
+  const name = normalizeOverrideTarget(ingredient.name);
+  const group = normalizeOverrideTarget(ingredient.group || '');
+
+  return (
+    overrides.find(o => o.target_type === 'ingredient' && o.target === name) ||
+    overrides.find(o => o.target_type === 'group' && o.target === group)
+  );
+}
+
+/**
+ * Apply overrides to a list of ingredients
+ * Previously overridden ingredients are re-resolved from their classified zone,
+ * so deleted or changed overrides take effect on old entries too.
+ */
+export function applyZoneOverrides(
+  ingredients: Ingredient[],
+  overrides: ZoneOverride[]
+): Ingredient[] {
+  return ingredients.map(ingredient => {
+    const { classifiedZone, classifiedZoneSource, ...rest } = ingredient;
+    const wasOverridden = ingredient.zoneSource === 'personal';
+    const baseSource =
+      ingredient.zoneSource === 'personal'
+        ? classifiedZoneSource
+        : ingredient.zoneSource;
+
+    // The AI/dictionary classification, without any earlier override
+    const base: Ingredient = {
+      ...rest,
+      zone: wasOverridden ? (classifiedZone ?? 'unzoned') : ingredient.zone,
+      zoneSource: baseSource,
+    };
+
+    const override = findZoneOverride(base, overrides);
+    if (!override) return wasOverridden ? base : ingredient;
+
+    return {
+      ...base,
+      zone: override.zone,
+      zoneSource: 'personal',
+      classifiedZone: base.zone,
+      classifiedZoneSource: baseSource,
+    };
+  });
+}
+
+/**
+ * Apply overrides to every food's ingredients
+ * Returns the same array when there is nothing to apply
+ */
+export function applyZoneOverridesToFoods(
+  foods: Food[],
+  overrides: ZoneOverride[]
+): Food[] {
+  const hasPersonalZones = foods.some(food =>
+    (food.ingredients || []).some(i => i.zoneSource === 'personal')
+  );
+  if (overrides.length === 0 && !hasPersonalZones) return foods;
+
+  return foods.map(food => ({
+    ...food,
+    ingredients: applyZoneOverrides(food.ingredients || [], overrides),
+  }));
+}
+
+// Display labels for where an ingredient's zone came from
+export const ZONE_SOURCE_LABELS: Record<ZoneSource, string> = {
+  ai: 'AI',
+  dictionary: 'Dictionary',
+  personal: 'Personal',
+};
@@ -0,0 +1,86 @@
+/**
+ * Zoning review queue
+ * AI classifications for ingredients outside the curated dictionary are logged
+ * as suggestions; once an admin approves one it replaces the model's answer.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Ingredient, ZoneSource, ZoningSuggestion } from '@/lib/types';
+
+export type ZonedIngredient = Pick<
+  Ingredient,
+  'name' | 'zone' | 'category' | 'group'
+> & { source: Exclude<ZoneSource, 'personal'> };
+
+/**
+ * Key used for the suggestions table (matches the migration's CHECK)
+ */
+export function normalizeSuggestionName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Convert a reviewed suggestion into the zoning API's ingredient shape
+ */
+export function suggestionToIngredient(
+  name: string,
+  suggestion: Pick<ZoningSuggestion, 'zone' | 'category' | 'ingredient_group'>
+): ZonedIngredient {
+  return {
+    name,
+    zone: suggestion.zone,
+    category: suggestion.category ?? undefined,
+    group: suggestion.ingredient_group,
+    source: 'dictionary',
+  };
+}
+
+/**
+ * Fetch approved suggestions for the given ingredient names
+ * Keyed by normalized name
+ */
+export async function findApprovedSuggestions(
+  supabase: SupabaseClient,
+  names: string[]
+): Promise<Map<string, ZoningSuggestion>> {
+  const keys = [...new Set(names.map(normalizeSuggestionName))].filter(Boolean);
+  if (keys.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('zoning_suggestions')
+    .select('*')
+    .eq('status', 'approved')
+    .in('ingredient_name', keys);
+
+  if (error) throw error;
+  return new Map(
+    ((data as ZoningSuggestion[]) || []).map(suggestion => [
+      suggestion.ingredient_name,
+      suggestion,
+    ])
+  );
+}
+
+/**
+ * Log model classifications to the review queue
+ * Existing rows get their request count bumped; reviewed rows keep their zone
+ */
+export async function recordZoningSuggestions(
+  supabase: SupabaseClient,
+  ingredients: ZonedIngredient[],
+  model: string
+): Promise<void> {
+  if (ingredients.length === 0) return;
+
+  const { error } = await supabase.rpc('record_zoning_suggestions', {
+    p_suggestions: ingredients.map(ingredient => ({
+      name: normalizeSuggestionName(ingredient.name),
+      zone: ingredient.zone,
+      category: ingredient.category ?? null,
+      group: ingredient.group,
+    })),
+    p_model: model,
+  });
+
+  if (error) throw error;
+}
@@ -61,7 +61,7 @@ self.addEventListener('fetch', event => {
 
   // Handle different types of requests
   if (isNavigationRequest(request)) {
-    event.respondWith(handleNavigationRequest(request));
+    event.respondWith(handleNavigationRequest(event));
   } else if (isStaticAsset(request)) {
     event.respondWith(handleStaticAsset(request));
   } else if (isApiRequest(request)) {
@@ -99,7 +99,8 @@ function isApiRequest(request) {
 }
 
 // Handle navigation requests (page routes)
-async function handleNavigationRequest(request) {
+async function handleNavigationRequest(event) {
+  const { request } = event;
   try {
     const preloadResponse = await event.preloadResponse;
     if (preloadResponse) {
@@ -254,3 +255,49 @@ self.addEventListener('message', event => {
     self.skipWaiting();
   }
 });
+
+// Push event - show reminders sent by /api/push/send-reminders
+self.addEventListener('push', event => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch (error) {
+    console.error('Failed to parse push message:', error);
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'eatZone', {
+      body: message.body,
+      tag: message.tag, // Replaces an earlier copy of the same reminder
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      data: { url: message.url || '/app' },
+    })
+  );
+});
+
+// Notification click - focus an open app window, or open one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(
+    (event.notification.data && event.notification.data.url) || '/app',
+    self.location.origin
+  ).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({
+        type: 'window',
+        includeUncontrolled: true,
+      });
+      const client = windows.find(window =>
+        window.url.startsWith(self.location.origin)
+      );
+      if (client) {
+        await client.navigate(url);
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })()
+  );
+});
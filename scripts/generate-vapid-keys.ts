@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+
+/**
+ * VAPID Key Generator for Web Push reminders
+ * Prints a P-256 key pair for .env.local; generate once per environment,
+ * since existing browser subscriptions are bound to the public key
+ */
+
+import { createECDH } from 'crypto';
+
+const ecdh = createECDH('prime256v1');
+ecdh.generateKeys();
+
+console.log('🔑 Add these to .env.local:\n');
+console.log(
+  `NEXT_PUBLIC_VAPID_PUBLIC_KEY="${ecdh.getPublicKey().toString('base64url')}"`
+);
+console.log(
+  `VAPID_PRIVATE_KEY="${ecdh.getPrivateKey().toString('base64url')}"`
+);
+console.log('VAPID_SUBJECT="mailto:you@example.com"');
@@ -0,0 +1,49 @@
+-- Migration: Create protocols table for the Big Reset elimination protocol
+-- Tracks phase (elimination -> reintroduction -> maintenance), what was
+-- eliminated, and the one-group-at-a-time reintroduction history
+
+CREATE TABLE public.protocols (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    type TEXT NOT NULL DEFAULT 'big_reset' CHECK (type IN ('big_reset')),
+    phase TEXT NOT NULL DEFAULT 'elimination' CHECK (phase IN ('elimination', 'reintroduction', 'maintenance')),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    elimination_ends_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    eliminated_zones TEXT[] NOT NULL DEFAULT ARRAY['yellow', 'red'],
+    eliminated_groups TEXT[] NOT NULL DEFAULT '{}',
+    reintroductions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CONSTRAINT protocols_elimination_after_start CHECK (elimination_ends_at > started_at)
+);
+
+-- Only one protocol can be active (not ended) per user
+CREATE UNIQUE INDEX idx_protocols_one_active_per_user ON public.protocols(user_id)
+WHERE ended_at IS NULL;
+
+CREATE INDEX idx_protocols_user_id_started_at ON public.protocols(user_id, started_at DESC);
+
+CREATE TRIGGER update_protocols_updated_at BEFORE UPDATE ON public.protocols
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.protocols ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own protocols
+CREATE POLICY "Users can view own protocols" ON public.protocols
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own protocols" ON public.protocols
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own protocols" ON public.protocols
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own protocols" ON public.protocols
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.protocols IS 'Elimination protocols (Big Reset) with phase and reintroduction tracking';
+COMMENT ON COLUMN public.protocols.eliminated_zones IS 'Ingredient zones removed during elimination (e.g. yellow, red)';
+COMMENT ON COLUMN public.protocols.eliminated_groups IS 'Additional ingredient groups removed regardless of zone';
+COMMENT ON COLUMN public.protocols.reintroductions IS 'Array of {group, started_at, observe_until, outcome, completed_at} reintroduction tests';
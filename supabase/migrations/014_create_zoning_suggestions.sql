@@ -0,0 +1,106 @@
+-- Migration: Create zoning_suggestions review queue
+-- Logs every AI-classified ingredient that is not in the curated dictionary so
+-- an admin can approve, reject or correct it. Approved rows are authoritative
+-- for future zoning requests.
+
+CREATE TABLE public.zoning_suggestions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    ingredient_name TEXT NOT NULL UNIQUE CHECK (ingredient_name = lower(btrim(ingredient_name)) AND ingredient_name <> ''),
+    zone TEXT NOT NULL CHECK (zone IN ('green', 'yellow', 'red', 'unzoned')),
+    category TEXT,
+    ingredient_group TEXT NOT NULL,
+    model TEXT NOT NULL,
+    request_count INTEGER NOT NULL DEFAULT 1 CHECK (request_count > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    last_requested_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Review queue is worked most-requested first within a status
+CREATE INDEX idx_zoning_suggestions_status_request_count ON public.zoning_suggestions(status, request_count DESC);
+
+CREATE TRIGGER update_zoning_suggestions_updated_at BEFORE UPDATE ON public.zoning_suggestions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.zoning_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Approved classifications are shared zoning data, readable by any signed-in user
+CREATE POLICY "Authenticated users can view approved suggestions" ON public.zoning_suggestions
+    FOR SELECT USING (auth.role() = 'authenticated' AND status = 'approved');
+
+-- Admins can review the whole queue
+CREATE POLICY "Admins can view all suggestions" ON public.zoning_suggestions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid()
+            AND users.user_role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update suggestions" ON public.zoning_suggestions
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid()
+            AND users.user_role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can delete suggestions" ON public.zoning_suggestions
+    FOR DELETE USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid()
+            AND users.user_role = 'admin'
+        )
+    );
+
+-- Record AI classifications from the zoning API
+-- Runs as the table owner so regular users can log suggestions without being
+-- able to read or edit the queue. Reviewed rows only have their counters bumped.
+CREATE OR REPLACE FUNCTION public.record_zoning_suggestions(p_suggestions JSONB, p_model TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    INSERT INTO public.zoning_suggestions (ingredient_name, zone, category, ingredient_group, model)
+    SELECT DISTINCT ON (lower(btrim(s->>'name')))
+        lower(btrim(s->>'name')),
+        s->>'zone',
+        NULLIF(s->>'category', ''),
+        s->>'group',
+        p_model
+    FROM jsonb_array_elements(p_suggestions) AS s
+    WHERE btrim(COALESCE(s->>'name', '')) <> ''
+      AND s->>'zone' IN ('green', 'yellow', 'red', 'unzoned')
+      AND btrim(COALESCE(s->>'group', '')) <> ''
+    ON CONFLICT (ingredient_name) DO UPDATE SET
+        request_count = zoning_suggestions.request_count + 1,
+        last_requested_at = NOW(),
+        zone = CASE WHEN zoning_suggestions.status = 'pending' THEN EXCLUDED.zone ELSE zoning_suggestions.zone END,
+        category = CASE WHEN zoning_suggestions.status = 'pending' THEN EXCLUDED.category ELSE zoning_suggestions.category END,
+        ingredient_group = CASE WHEN zoning_suggestions.status = 'pending' THEN EXCLUDED.ingredient_group ELSE zoning_suggestions.ingredient_group END,
+        model = CASE WHEN zoning_suggestions.status = 'pending' THEN EXCLUDED.model ELSE zoning_suggestions.model END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_zoning_suggestions(JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_zoning_suggestions(JSONB, TEXT) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.zoning_suggestions IS 'AI ingredient classifications awaiting admin review; approved rows override the model';
+COMMENT ON COLUMN public.zoning_suggestions.ingredient_name IS 'Lowercased, trimmed ingredient name as sent to the zoning API';
+COMMENT ON COLUMN public.zoning_suggestions.ingredient_group IS 'Rubric group (e.g. "Leafy Greens"), stored as group on ingredients';
+COMMENT ON COLUMN public.zoning_suggestions.model IS 'Model that produced the current classification';
+COMMENT ON COLUMN public.zoning_suggestions.request_count IS 'How many zoning requests have classified this ingredient';
+COMMENT ON COLUMN public.zoning_suggestions.status IS 'pending (awaiting review), approved (authoritative) or rejected (dismissed)';
@@ -0,0 +1,37 @@
+-- Migration: Create zone_overrides table for personal sensitivities
+-- Users pin their own zone for an ingredient ("white rice is green for me") or
+-- a whole group ("dairy is red for me"); ingredient overrides win over groups
+
+CREATE TABLE public.zone_overrides (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    target_type TEXT NOT NULL CHECK (target_type IN ('ingredient', 'group')),
+    target TEXT NOT NULL CHECK (target = lower(btrim(target)) AND target <> ''),
+    zone TEXT NOT NULL CHECK (zone IN ('green', 'yellow', 'red')),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CONSTRAINT zone_overrides_one_per_target UNIQUE (user_id, target_type, target)
+);
+
+CREATE TRIGGER update_zone_overrides_updated_at BEFORE UPDATE ON public.zone_overrides
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.zone_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own overrides
+CREATE POLICY "Users can view own zone overrides" ON public.zone_overrides
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own zone overrides" ON public.zone_overrides
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own zone overrides" ON public.zone_overrides
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own zone overrides" ON public.zone_overrides
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.zone_overrides IS 'Per-user zone overrides for ingredients or ingredient groups';
+COMMENT ON COLUMN public.zone_overrides.target_type IS 'ingredient (matches ingredient name) or group (matches ingredient group)';
+COMMENT ON COLUMN public.zone_overrides.target IS 'Lowercased ingredient or group name';
@@ -0,0 +1,102 @@
+-- Migration: Optional severity and end time for symptoms
+-- Migration 010 left symptoms as presence-only; severity (1-5) separates a mild
+-- twinge from a severe flare and ended_at records how long it lasted.
+-- Both stay nullable so existing entries remain valid.
+
+ALTER TABLE public.symptoms
+  ADD COLUMN severity INTEGER CHECK (severity >= 1 AND severity <= 5),
+  ADD COLUMN ended_at TIMESTAMPTZ,
+  ADD CONSTRAINT symptoms_ended_after_start CHECK (ended_at IS NULL OR ended_at >= timestamp);
+
+COMMENT ON COLUMN public.symptoms.severity IS 'Optional severity: 1=very mild, 2=mild, 3=moderate, 4=severe, 5=very severe';
+COMMENT ON COLUMN public.symptoms.ended_at IS 'Optional end time; duration is ended_at - timestamp';
+
+-- Carry the new columns through imports (replaces the 016 definition)
+CREATE OR REPLACE FUNCTION public.import_user_data(p_mode TEXT, p_foods JSONB, p_symptoms JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_foods_deleted INTEGER := 0;
+    v_symptoms_deleted INTEGER := 0;
+    v_foods_inserted INTEGER := 0;
+    v_symptoms_inserted INTEGER := 0;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    IF p_mode NOT IN ('merge', 'replace') THEN
+        RAISE EXCEPTION 'Invalid import mode: %', p_mode;
+    END IF;
+
+    IF p_mode = 'replace' THEN
+        DELETE FROM public.foods WHERE user_id = v_user_id;
+        GET DIAGNOSTICS v_foods_deleted = ROW_COUNT;
+
+        DELETE FROM public.symptoms WHERE user_id = v_user_id;
+        GET DIAGNOSTICS v_symptoms_deleted = ROW_COUNT;
+    END IF;
+
+    -- Merge skips rows already stored by id or by timestamp plus name.
+    -- IDs held by another account (e.g. a file from a different login) get a fresh one.
+    INSERT INTO public.foods (id, user_id, name, timestamp, ingredients, meal_type, notes, photo_url, image_urls, status)
+    SELECT
+        CASE WHEN EXISTS (SELECT 1 FROM public.foods f WHERE f.id = r.id AND f.user_id <> v_user_id)
+            THEN uuid_generate_v4() ELSE r.id END,
+        v_user_id,
+        r.name,
+        r.timestamp,
+        COALESCE(r.ingredients, '[]'::jsonb),
+        r.meal_type,
+        r.notes,
+        r.photo_url,
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(r.image_urls, '[]'::jsonb))),
+        COALESCE(r.status, 'processed')
+    FROM jsonb_to_recordset(COALESCE(p_foods, '[]'::jsonb)) AS r(
+        id UUID, name TEXT, timestamp TIMESTAMPTZ, ingredients JSONB, meal_type TEXT,
+        notes TEXT, photo_url TEXT, image_urls JSONB, status TEXT
+    )
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.foods f
+        WHERE f.user_id = v_user_id
+          AND (f.id = r.id OR (f.timestamp = r.timestamp AND lower(f.name) = lower(r.name)))
+    )
+    ON CONFLICT (id) DO NOTHING;
+    GET DIAGNOSTICS v_foods_inserted = ROW_COUNT;
+
+    INSERT INTO public.symptoms (id, user_id, symptom_id, category, name, timestamp, notes, severity, ended_at)
+    SELECT
+        CASE WHEN EXISTS (SELECT 1 FROM public.symptoms s WHERE s.id = r.id AND s.user_id <> v_user_id)
+            THEN uuid_generate_v4() ELSE r.id END,
+        v_user_id,
+        r.symptom_id,
+        r.category,
+        r.name,
+        r.timestamp,
+        r.notes,
+        r.severity,
+        r.ended_at
+    FROM jsonb_to_recordset(COALESCE(p_symptoms, '[]'::jsonb)) AS r(
+        id UUID, symptom_id TEXT, category TEXT, name TEXT, timestamp TIMESTAMPTZ, notes TEXT,
+        severity INTEGER, ended_at TIMESTAMPTZ
+    )
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.symptoms s
+        WHERE s.user_id = v_user_id
+          AND (s.id = r.id OR (s.timestamp = r.timestamp AND lower(s.name) = lower(r.name)))
+    )
+    ON CONFLICT (id) DO NOTHING;
+    GET DIAGNOSTICS v_symptoms_inserted = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'foods_deleted', v_foods_deleted,
+        'symptoms_deleted', v_symptoms_deleted,
+        'foods_inserted', v_foods_inserted,
+        'symptoms_inserted', v_symptoms_inserted
+    );
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Migration: Create custom_symptoms table for user-defined symptoms
+-- Adds symptoms missing from the built-in index ("eczema flare", "migraine aura")
+-- Entries reference them as symptom_id 'custom:<id>' and keep their own name and
+-- category, so archiving a custom symptom never breaks history
+
+CREATE TABLE public.custom_symptoms (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (btrim(name) <> '' AND char_length(name) <= 60),
+    category TEXT NOT NULL CHECK (category IN ('digestion', 'energy', 'mind', 'recovery')),
+    icon TEXT CHECK (char_length(icon) <= 8),
+    search_terms TEXT[] DEFAULT '{}' NOT NULL,
+    archived_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- One active symptom per name; archived ones can be recreated
+CREATE UNIQUE INDEX idx_custom_symptoms_active_name
+    ON public.custom_symptoms(user_id, lower(name))
+    WHERE archived_at IS NULL;
+
+CREATE TRIGGER update_custom_symptoms_updated_at BEFORE UPDATE ON public.custom_symptoms
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.custom_symptoms ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own custom symptoms
+CREATE POLICY "Users can view own custom symptoms" ON public.custom_symptoms
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own custom symptoms" ON public.custom_symptoms
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own custom symptoms" ON public.custom_symptoms
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- No delete policy: symptoms are archived so past entries keep resolving
+
+-- Add comments for documentation
+COMMENT ON TABLE public.custom_symptoms IS 'Per-user symptom definitions merged with the built-in symptom index';
+COMMENT ON COLUMN public.custom_symptoms.icon IS 'Optional emoji; falls back to the category icon';
+COMMENT ON COLUMN public.custom_symptoms.archived_at IS 'Hidden from pickers when set; existing entries still resolve';
@@ -0,0 +1,41 @@
+-- Migration: Create meal_templates table for one-tap re-logging
+-- Templates keep already-zoned ingredients, so logging one skips AI analysis
+
+CREATE TABLE public.meal_templates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (btrim(name) <> '' AND char_length(name) <= 100),
+    ingredients JSONB DEFAULT '[]'::jsonb NOT NULL,
+    meal_type TEXT CHECK (meal_type IN ('breakfast', 'lunch', 'dinner', 'snack', 'beverage')),
+    photo_url TEXT,
+    use_count INTEGER DEFAULT 0 NOT NULL CHECK (use_count >= 0),
+    last_used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_meal_templates_user_name
+    ON public.meal_templates(user_id, lower(name));
+
+CREATE TRIGGER update_meal_templates_updated_at BEFORE UPDATE ON public.meal_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.meal_templates ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own templates
+CREATE POLICY "Users can view own meal templates" ON public.meal_templates
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own meal templates" ON public.meal_templates
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own meal templates" ON public.meal_templates
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own meal templates" ON public.meal_templates
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.meal_templates IS 'Saved meals re-logged as new food entries without re-running AI analysis';
+COMMENT ON COLUMN public.meal_templates.ingredients IS 'Zoned ingredients copied into each logged food';
+COMMENT ON COLUMN public.meal_templates.use_count IS 'Times logged from this template; feeds suggestion ranking';
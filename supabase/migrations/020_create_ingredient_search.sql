@@ -0,0 +1,58 @@
+-- Migration: Ingredient-level search across all food entries
+-- Answers "when did I last eat cashews?": matches ingredient name, group or
+-- category (substring or trigram similarity) plus zone/organic flags on the
+-- same ingredient. Runs as the caller, so RLS limits results to their foods.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION public.search_food_ingredients(
+    p_query TEXT DEFAULT NULL,
+    p_field TEXT DEFAULT 'any',
+    p_zone TEXT DEFAULT NULL,
+    p_organic BOOLEAN DEFAULT NULL,
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF public.foods
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions -- similarity() lives in extensions on hosted Supabase
+AS $$
+    SELECT f.*
+    FROM public.foods f
+    WHERE EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(f.ingredients) AS i(value)
+        WHERE (p_zone IS NULL OR i.value->>'zone' = p_zone)
+          AND (p_organic IS NULL OR (i.value->>'organic')::boolean = p_organic)
+          AND (
+              NULLIF(btrim(p_query), '') IS NULL
+              OR EXISTS (
+                  SELECT 1
+                  FROM unnest(CASE p_field
+                      WHEN 'name' THEN ARRAY[i.value->>'name']
+                      WHEN 'group' THEN ARRAY[i.value->>'group']
+                      WHEN 'category' THEN ARRAY[i.value->>'category']
+                      ELSE ARRAY[i.value->>'name', i.value->>'group', i.value->>'category']
+                  END) AS field(value)
+                  WHERE lower(field.value) LIKE '%' || lower(btrim(p_query)) || '%'
+                     OR similarity(lower(field.value), lower(btrim(p_query))) >= p_min_similarity
+              )
+          )
+    )
+      -- Containment pre-filters use idx_foods_ingredients_gin
+      AND (p_zone IS NULL OR f.ingredients @> jsonb_build_array(jsonb_build_object('zone', p_zone)))
+      AND (p_organic IS NULL OR f.ingredients @> jsonb_build_array(jsonb_build_object('organic', p_organic)))
+      AND (p_from IS NULL OR f.timestamp >= p_from)
+      AND (p_to IS NULL OR f.timestamp <= p_to)
+    ORDER BY f.timestamp DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$$;
+
+REVOKE ALL ON FUNCTION public.search_food_ingredients(TEXT, TEXT, TEXT, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, REAL, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_food_ingredients(TEXT, TEXT, TEXT, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, REAL, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.search_food_ingredients(TEXT, TEXT, TEXT, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, REAL, INTEGER) IS 'Finds the caller''s foods by ingredient name/group/category (fuzzy), zone, organic flag and date range; newest first';
@@ -0,0 +1,111 @@
+-- Migration: Create recipes for home-cooked meals
+-- Recipes keep zoned ingredients and can nest other recipes (e.g. a house
+-- vinaigrette). Logging one expands it into the food's ingredient list and
+-- links the food back to the recipe revision it was logged from.
+
+CREATE TABLE public.recipes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (btrim(name) <> '' AND char_length(name) <= 100),
+    ingredients JSONB DEFAULT '[]'::jsonb NOT NULL,
+    sub_recipe_ids UUID[] DEFAULT '{}' NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_recipes_user_name
+    ON public.recipes(user_id, lower(name));
+
+CREATE TRIGGER update_recipes_updated_at BEFORE UPDATE ON public.recipes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own recipes
+CREATE POLICY "Users can view own recipes" ON public.recipes
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recipes" ON public.recipes
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recipes" ON public.recipes
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recipes" ON public.recipes
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Sub-recipes must be the user's own and must not lead back to the recipe
+CREATE OR REPLACE FUNCTION public.check_recipe_sub_recipes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.id = ANY(NEW.sub_recipe_ids) THEN
+        RAISE EXCEPTION 'A recipe cannot include itself';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(NEW.sub_recipe_ids) AS sub(id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.recipes r
+            WHERE r.id = sub.id AND r.user_id = NEW.user_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Unknown sub-recipe';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE descendants(id) AS (
+            SELECT unnest(NEW.sub_recipe_ids)
+            UNION
+            SELECT child.id
+            FROM public.recipes r
+            JOIN descendants d ON r.id = d.id
+            CROSS JOIN LATERAL unnest(r.sub_recipe_ids) AS child(id)
+        )
+        SELECT 1 FROM descendants WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'Sub-recipes cannot include this recipe';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_recipes_sub_recipes BEFORE INSERT OR UPDATE OF sub_recipe_ids ON public.recipes
+    FOR EACH ROW EXECUTE FUNCTION public.check_recipe_sub_recipes();
+
+-- Deleting a recipe drops it from the recipes that nested it; their updated_at
+-- moves on, so foods logged from them surface for review
+CREATE OR REPLACE FUNCTION public.remove_deleted_sub_recipe()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.recipes
+    SET sub_recipe_ids = array_remove(sub_recipe_ids, OLD.id)
+    WHERE user_id = OLD.user_id AND OLD.id = ANY(sub_recipe_ids);
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER remove_recipes_deleted_sub_recipe AFTER DELETE ON public.recipes
+    FOR EACH ROW EXECUTE FUNCTION public.remove_deleted_sub_recipe();
+
+-- Link foods back to the recipe (and revision) they were logged from
+ALTER TABLE public.foods
+    ADD COLUMN recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL,
+    ADD COLUMN recipe_scale NUMERIC(6, 2) CHECK (recipe_scale > 0),
+    ADD COLUMN recipe_updated_at TIMESTAMPTZ;
+
+CREATE INDEX idx_foods_recipe_id ON public.foods(recipe_id) WHERE recipe_id IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.recipes IS 'Home-cooked recipes, zoned once and expanded into food entries when logged';
+COMMENT ON COLUMN public.recipes.ingredients IS 'Zoned ingredients of this recipe, excluding sub-recipes';
+COMMENT ON COLUMN public.recipes.sub_recipe_ids IS 'Nested recipes whose ingredients are included when expanded; cycles are rejected';
+COMMENT ON COLUMN public.foods.recipe_id IS 'Recipe this entry was logged from, if any';
+COMMENT ON COLUMN public.foods.recipe_scale IS 'Servings of the recipe eaten (1 = one full recipe)';
+COMMENT ON COLUMN public.foods.recipe_updated_at IS 'Latest update across the recipe and its sub-recipes when logged; newer edits can be reviewed';
@@ -0,0 +1,29 @@
+-- Migration: Create user_settings table for preferences synced across devices
+-- One row per user, created on first save; missing rows mean app defaults.
+-- Starts with the daily water goal used by hydration tracking
+
+CREATE TABLE public.user_settings (
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+    water_goal_ml INTEGER DEFAULT 2000 NOT NULL CHECK (water_goal_ml BETWEEN 500 AND 6000),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TRIGGER update_user_settings_updated_at BEFORE UPDATE ON public.user_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own settings
+CREATE POLICY "Users can view own settings" ON public.user_settings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own settings" ON public.user_settings
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own settings" ON public.user_settings
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.user_settings IS 'Per-user preferences; a missing row means defaults';
+COMMENT ON COLUMN public.user_settings.water_goal_ml IS 'Daily hydration goal, compared against beverage entries';
@@ -0,0 +1,41 @@
+-- Migration: Add display, day and reminder preferences to user_settings
+-- Completes the UserSettings type so theme, units, timezone and reminders sync
+-- across devices instead of living only in the browser
+
+ALTER TABLE public.user_settings
+    ADD COLUMN theme TEXT DEFAULT 'dark' NOT NULL CHECK (theme IN ('light', 'dark', 'system')),
+    ADD COLUMN units TEXT DEFAULT 'metric' NOT NULL CHECK (units IN ('metric', 'imperial')),
+    ADD COLUMN timezone TEXT CHECK (char_length(timezone) <= 64),
+    ADD COLUMN day_boundary_hour SMALLINT DEFAULT 0 NOT NULL CHECK (day_boundary_hour BETWEEN 0 AND 6),
+    ADD COLUMN reminders_enabled BOOLEAN DEFAULT false NOT NULL,
+    ADD COLUMN daily_summary_enabled BOOLEAN DEFAULT false NOT NULL;
+
+-- Timezones must be names Postgres understands, since day bucketing uses them
+CREATE OR REPLACE FUNCTION public.check_user_settings_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.timezone IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone
+    ) THEN
+        RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_user_settings_timezone
+    BEFORE INSERT OR UPDATE OF timezone ON public.user_settings
+    FOR EACH ROW EXECUTE FUNCTION public.check_user_settings_timezone();
+
+-- Other devices pick up changes through realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_settings;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.user_settings.timezone IS 'IANA timezone for day boundaries; NULL follows the device';
+COMMENT ON COLUMN public.user_settings.day_boundary_hour IS 'Entries before this local hour count towards the previous day (late-night snacks)';
+COMMENT ON COLUMN public.user_settings.reminders_enabled IS 'Meal and symptom logging reminders';
+COMMENT ON COLUMN public.user_settings.daily_summary_enabled IS 'End-of-day zone summary notification';
@@ -0,0 +1,53 @@
+-- Migration: Create push_subscriptions and push_reminder_log for Web Push reminders
+-- Each browser that enables notifications stores its subscription; the reminder
+-- scheduler (/api/push/send-reminders, service role) reads them for every user
+
+CREATE TABLE public.push_subscriptions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    endpoint TEXT NOT NULL UNIQUE CHECK (char_length(endpoint) <= 2048),
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    timezone TEXT CHECK (char_length(timezone) <= 64),
+    user_agent TEXT CHECK (char_length(user_agent) <= 512),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at BEFORE UPDATE ON public.push_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users can only manage their own devices
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own push subscriptions" ON public.push_subscriptions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions" ON public.push_subscriptions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- One row per reminder sent, so overlapping scheduler runs never send twice
+CREATE TABLE public.push_reminder_log (
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    reminder_key TEXT NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (user_id, reminder_key)
+);
+
+CREATE INDEX idx_push_reminder_log_sent_at ON public.push_reminder_log(sent_at);
+
+-- No policies: only the service role reads or writes the log
+ALTER TABLE public.push_reminder_log ENABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.push_subscriptions IS 'Web Push subscriptions, one per browser that enabled notifications';
+COMMENT ON COLUMN public.push_subscriptions.timezone IS 'Device timezone, used for reminder timing when user_settings.timezone is NULL';
+COMMENT ON TABLE public.push_reminder_log IS 'Reminders already sent; keys look like meal:lunch:2025-07-04 or symptom-check:<food id>';
@@ -0,0 +1,134 @@
+-- Migration: Server-side aggregation for the Insights trend charts
+-- Each function buckets the caller's entries into days (or hours) in their
+-- timezone, with their day-start hour, so the browser receives one row per
+-- day instead of the whole history. Runs as the caller, so RLS limits every
+-- aggregate to their own rows.
+
+-- Ingredient zones per day, with personal zone overrides applied the same
+-- way the app does at read time: ingredient-name overrides win over group
+-- overrides, and a previously overridden ingredient falls back to its
+-- classified zone.
+CREATE OR REPLACE FUNCTION public.get_daily_zone_trends(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_time_zone TEXT DEFAULT 'UTC',
+    p_day_start_hour INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    day DATE,
+    green INTEGER,
+    yellow INTEGER,
+    red INTEGER,
+    unzoned INTEGER,
+    organic INTEGER,
+    total INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH ingredients AS (
+        SELECT
+            ((f.timestamp AT TIME ZONE p_time_zone) - make_interval(hours => p_day_start_hour))::date AS day,
+            COALESCE(
+                name_override.zone,
+                group_override.zone,
+                CASE
+                    WHEN i.value->>'zoneSource' = 'personal'
+                        THEN COALESCE(i.value->>'classifiedZone', 'unzoned')
+                    ELSE i.value->>'zone'
+                END
+            ) AS zone,
+            COALESCE((i.value->>'organic')::boolean, false) AS organic
+        FROM public.foods f
+        CROSS JOIN LATERAL jsonb_array_elements(f.ingredients) AS i(value)
+        LEFT JOIN public.zone_overrides name_override
+            ON name_override.user_id = f.user_id
+           AND name_override.target_type = 'ingredient'
+           AND name_override.target = lower(btrim(i.value->>'name'))
+        LEFT JOIN public.zone_overrides group_override
+            ON group_override.user_id = f.user_id
+           AND group_override.target_type = 'group'
+           AND group_override.target = lower(btrim(i.value->>'group'))
+        WHERE f.timestamp >= p_from
+          AND f.timestamp < p_to
+    )
+    SELECT
+        day,
+        COUNT(*) FILTER (WHERE zone = 'green')::integer,
+        COUNT(*) FILTER (WHERE zone = 'yellow')::integer,
+        COUNT(*) FILTER (WHERE zone = 'red')::integer,
+        COUNT(*) FILTER (WHERE zone NOT IN ('green', 'yellow', 'red') OR zone IS NULL)::integer,
+        COUNT(*) FILTER (WHERE organic)::integer,
+        COUNT(*)::integer
+    FROM ingredients
+    GROUP BY day
+    ORDER BY day;
+$$;
+
+-- Symptom entries per category per day
+CREATE OR REPLACE FUNCTION public.get_daily_symptom_categories(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_time_zone TEXT DEFAULT 'UTC',
+    p_day_start_hour INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    day DATE,
+    category TEXT,
+    count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        ((s.timestamp AT TIME ZONE p_time_zone) - make_interval(hours => p_day_start_hour))::date AS day,
+        s.category,
+        COUNT(*)::integer
+    FROM public.symptoms s
+    WHERE s.timestamp >= p_from
+      AND s.timestamp < p_to
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$;
+
+-- Food entries per local hour of the day and meal type
+CREATE OR REPLACE FUNCTION public.get_meal_time_distribution(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+    hour INTEGER,
+    meal_type TEXT,
+    count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        EXTRACT(HOUR FROM f.timestamp AT TIME ZONE p_time_zone)::integer AS hour,
+        f.meal_type,
+        COUNT(*)::integer
+    FROM public.foods f
+    WHERE f.timestamp >= p_from
+      AND f.timestamp < p_to
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_daily_zone_trends(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_daily_zone_trends(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) TO authenticated;
+REVOKE ALL ON FUNCTION public.get_daily_symptom_categories(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_daily_symptom_categories(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) TO authenticated;
+REVOKE ALL ON FUNCTION public.get_meal_time_distribution(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_meal_time_distribution(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_daily_zone_trends(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) IS 'Per-day ingredient counts by zone (personal overrides applied) and organic flag for the caller''s foods';
+COMMENT ON FUNCTION public.get_daily_symptom_categories(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) IS 'Per-day symptom counts by category for the caller';
+COMMENT ON FUNCTION public.get_meal_time_distribution(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) IS 'Food entry counts by local hour of day and meal type for the caller';
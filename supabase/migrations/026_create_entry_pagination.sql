@@ -0,0 +1,70 @@
+-- Migration: Keyset pagination and the entry summary aggregate
+-- The dashboard no longer loads the whole history. Entry lists are paged
+-- newest first by (timestamp, id), date views query only their days, and
+-- the overview totals and tracking streak are computed here.
+
+-- Ties on timestamp are broken by id, so a page boundary never drops or
+-- repeats an entry; these supersede the (user_id, timestamp DESC) indexes
+CREATE INDEX IF NOT EXISTS idx_foods_user_timestamp_id
+    ON public.foods(user_id, timestamp DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_symptoms_user_timestamp_id
+    ON public.symptoms(user_id, timestamp DESC, id DESC);
+
+DROP INDEX IF EXISTS public.idx_foods_user_id_timestamp;
+DROP INDEX IF EXISTS public.idx_symptoms_user_id_timestamp;
+
+-- Entry counts, distinct days and the current streak for the caller, with
+-- days bucketed in their timezone and day-start hour. The streak is the run
+-- of consecutive days ending today, or yesterday while today is still empty
+-- (same rule as getStreak in lib/utils/day-buckets.ts).
+CREATE OR REPLACE FUNCTION public.get_entry_summary(
+    p_time_zone TEXT DEFAULT 'UTC',
+    p_day_start_hour INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    total_foods INTEGER,
+    total_symptoms INTEGER,
+    days_tracked INTEGER,
+    current_streak INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH entries AS (
+        SELECT 'food' AS kind, f.timestamp FROM public.foods f
+        UNION ALL
+        SELECT 'symptom' AS kind, s.timestamp FROM public.symptoms s
+    ),
+    days AS (
+        SELECT DISTINCT
+            ((timestamp AT TIME ZONE p_time_zone) - make_interval(hours => p_day_start_hour))::date AS day
+        FROM entries
+    ),
+    today AS (
+        SELECT ((now() AT TIME ZONE p_time_zone) - make_interval(hours => p_day_start_hour))::date AS day
+    ),
+    -- Consecutive days share the same day minus row number
+    runs AS (
+        SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::integer AS run
+        FROM days
+    ),
+    latest AS (
+        SELECT runs.run
+        FROM runs, today
+        WHERE runs.day IN (today.day, today.day - 1)
+        ORDER BY runs.day DESC
+        LIMIT 1
+    )
+    SELECT
+        (SELECT COUNT(*) FROM entries WHERE kind = 'food')::integer,
+        (SELECT COUNT(*) FROM entries WHERE kind = 'symptom')::integer,
+        (SELECT COUNT(*) FROM days)::integer,
+        (SELECT COUNT(*) FROM runs WHERE run = (SELECT run FROM latest))::integer;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_entry_summary(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_entry_summary(TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.get_entry_summary(TEXT, INTEGER) IS 'Food and symptom totals, days with entries and the current tracking streak for the caller';
@@ -0,0 +1,45 @@
+-- Migration: Create daily_scores table for the Body Compass score
+-- One row per user and day (in the user's day buckets), written by the app
+-- whenever a recomputed score differs from the stored one. The version
+-- records which scoring rules produced the row (see
+-- lib/insights/body-compass-score.ts), so older rows can be recomputed.
+
+CREATE TABLE public.daily_scores (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    day DATE NOT NULL,
+    score SMALLINT NOT NULL CHECK (score BETWEEN 0 AND 100),
+    zone_score SMALLINT CHECK (zone_score BETWEEN 0 AND 100),
+    organic_score SMALLINT CHECK (organic_score BETWEEN 0 AND 100),
+    symptom_score SMALLINT CHECK (symptom_score BETWEEN 0 AND 100),
+    version SMALLINT NOT NULL CHECK (version > 0),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CONSTRAINT daily_scores_one_per_day UNIQUE (user_id, day)
+);
+
+CREATE TRIGGER update_daily_scores_updated_at BEFORE UPDATE ON public.daily_scores
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.daily_scores ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own scores
+CREATE POLICY "Users can view own daily scores" ON public.daily_scores
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own daily scores" ON public.daily_scores
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own daily scores" ON public.daily_scores
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own daily scores" ON public.daily_scores
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.daily_scores IS 'Per-user daily Body Compass score (0-100) with its component breakdown';
+COMMENT ON COLUMN public.daily_scores.day IS 'Day key in the user''s timezone and day-start hour';
+COMMENT ON COLUMN public.daily_scores.zone_score IS 'Zone component; null when no zoned ingredients were logged';
+COMMENT ON COLUMN public.daily_scores.organic_score IS 'Organic component; null when no ingredients were logged';
+COMMENT ON COLUMN public.daily_scores.symptom_score IS 'Symptom burden component (100 = no symptoms)';
+COMMENT ON COLUMN public.daily_scores.version IS 'Scoring rules version that produced this row';
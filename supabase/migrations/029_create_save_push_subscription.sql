@@ -0,0 +1,38 @@
+-- Migration: Save push subscriptions through a function that can take over a device
+-- A browser keeps its push endpoint across sign-ins, so on a shared browser the
+-- next user's upsert hit the previous user's row, which the UPDATE policy from
+-- 024 rejects. The endpoint now moves to whoever enabled notifications last.
+
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+    p_endpoint TEXT,
+    p_p256dh TEXT,
+    p_auth TEXT,
+    p_timezone TEXT,
+    p_user_agent TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, timezone, user_agent)
+    VALUES (v_user_id, p_endpoint, p_p256dh, p_auth, p_timezone, p_user_agent)
+    ON CONFLICT (endpoint) DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        timezone = EXCLUDED.timezone,
+        user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.save_push_subscription(TEXT, TEXT, TEXT, TEXT, TEXT) IS 'Stores this browser''s push subscription for the current user, taking the endpoint over from any previous owner';